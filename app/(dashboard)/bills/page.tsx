@@ -0,0 +1,26 @@
+import { BillManagement } from "@/components/bill-management"
+import { getBills, getExpenseAccounts, getVendors } from "@/lib/actions/bills"
+import { getAccounts } from "@/lib/actions/accounts"
+
+export default async function BillsPage() {
+  const [billsResult, vendorsResult, accountsResult, expenseAccountsResult] = await Promise.all([
+    getBills(),
+    getVendors(),
+    getAccounts(),
+    getExpenseAccounts(),
+  ])
+
+  const bills = billsResult.success ? billsResult.data || [] : []
+  const vendors = vendorsResult.success ? vendorsResult.data || [] : []
+  const accounts = accountsResult.success ? accountsResult.data || [] : []
+  const expenseAccounts = expenseAccountsResult.success ? expenseAccountsResult.data || [] : []
+
+  return (
+    <BillManagement
+      initialBills={bills}
+      initialVendors={vendors}
+      initialAccounts={accounts}
+      initialExpenseAccounts={expenseAccounts}
+    />
+  )
+}
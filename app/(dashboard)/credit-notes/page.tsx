@@ -0,0 +1,27 @@
+import { CreditNoteManagement } from "@/components/credit-note-management"
+import { getCreditNotes, getCustomerCredits } from "@/lib/actions/credit-notes"
+import { getInvoices } from "@/lib/actions/invoices"
+import { getAccounts } from "@/lib/actions/accounts"
+
+export default async function CreditNotesPage() {
+  const [creditNotesResult, creditsResult, invoicesResult, accountsResult] = await Promise.all([
+    getCreditNotes(),
+    getCustomerCredits(),
+    getInvoices(),
+    getAccounts(),
+  ])
+
+  const creditNotes = creditNotesResult.success ? creditNotesResult.data! : []
+  const credits = creditsResult.success ? creditsResult.data! : []
+  const invoices = invoicesResult.success ? invoicesResult.data! : []
+  const accounts = accountsResult.success ? accountsResult.data! : []
+
+  return (
+    <CreditNoteManagement
+      initialCreditNotes={creditNotes}
+      initialCredits={credits}
+      initialInvoices={invoices}
+      initialAccounts={accounts}
+    />
+  )
+}
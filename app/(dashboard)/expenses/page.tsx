@@ -1,17 +1,30 @@
 import { ExpenseManagement } from "@/components/expense-management"
-import { getExpenses, getVendors, getAccounts } from "@/lib/actions/expenses"
+import { getExpenses, getExpenseApprovalQueue, getVendors, getAccounts } from "@/lib/actions/expenses"
+import { getExpenseAccounts } from "@/lib/actions/bills"
 
 export default async function ExpensesPage() {
   // Fetch all data in parallel on the server
-  const [expensesResult, vendorsResult, accountsResult] = await Promise.all([
+  const [expensesResult, queueResult, vendorsResult, accountsResult, categoriesResult] = await Promise.all([
     getExpenses(),
+    getExpenseApprovalQueue(),
     getVendors(),
     getAccounts(),
+    getExpenseAccounts(),
   ])
 
   const expenses = expensesResult.success ? expensesResult.data || [] : []
+  const approvalQueue = queueResult.success ? queueResult.data || [] : []
   const vendors = vendorsResult.success ? vendorsResult.data || [] : []
   const accounts = accountsResult.success ? accountsResult.data || [] : []
+  const categories = categoriesResult.success ? categoriesResult.data || [] : []
 
-  return <ExpenseManagement initialExpenses={expenses} initialVendors={vendors} initialAccounts={accounts} />
+  return (
+    <ExpenseManagement
+      initialExpenses={expenses}
+      initialApprovalQueue={approvalQueue}
+      initialVendors={vendors}
+      initialAccounts={accounts}
+      initialCategories={categories}
+    />
+  )
 }
@@ -1,17 +1,32 @@
 import { InvoiceManagement } from "@/components/invoice-management"
 import { getInvoices, getCustomers } from "@/lib/actions/invoices"
 import { getAccounts } from "@/lib/actions/accounts"
+import { getOrganizationBaseCurrency } from "@/lib/actions/exchange-rates"
+import { getTaxCodes } from "@/lib/actions/tax-codes"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
 
 export default async function InvoicesPage() {
-  const [invoicesResult, customersResult, accountsResult] = await Promise.all([
+  const [invoicesResult, customersResult, accountsResult, taxCodesResult, baseCurrencyResult] = await Promise.all([
     getInvoices(),
     getCustomers(),
     getAccounts(),
+    getTaxCodes(),
+    getOrganizationBaseCurrency(),
   ])
 
   const invoices = invoicesResult.success ? invoicesResult.data! : []
   const customers = customersResult.success ? customersResult.data! : []
   const accounts = accountsResult.success ? accountsResult.data! : []
+  const taxCodes = taxCodesResult.success ? taxCodesResult.data! : []
+  const baseCurrency = baseCurrencyResult.success ? baseCurrencyResult.data! : DEFAULT_BASE_CURRENCY
 
-  return <InvoiceManagement initialInvoices={invoices} initialCustomers={customers} initialAccounts={accounts} />
+  return (
+    <InvoiceManagement
+      initialInvoices={invoices}
+      initialCustomers={customers}
+      initialAccounts={accounts}
+      taxCodes={taxCodes}
+      baseCurrency={baseCurrency}
+    />
+  )
 }
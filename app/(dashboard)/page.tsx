@@ -27,6 +27,8 @@ import {
   ArrowDownRight,
 } from "lucide-react";
 import { getDashboardData } from "@/lib/actions/dashboard";
+import { CategoryBreakdown } from "@/components/category-breakdown";
+import { DEFAULT_BASE_CURRENCY, currencySymbol } from "@/lib/currency";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
@@ -60,11 +62,13 @@ export default async function DashboardPage() {
   }
 
   const data = dashboardResult.data;
+  const baseCurrency = data?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  const symbol = currencySymbol(baseCurrency);
 
   const metrics = [
     {
       title: "Total Balance",
-      value: `K${data?.totalBalance.toLocaleString()}`,
+      value: `${symbol}${data?.totalBalance.toLocaleString()}`,
       change: "+12.5%",
       trend: "up",
       icon: DollarSign,
@@ -72,7 +76,7 @@ export default async function DashboardPage() {
     },
     {
       title: "Monthly Expenses",
-      value: `K${data?.monthlyExpenses.toLocaleString()}`,
+      value: `${symbol}${data?.monthlyExpenses.toLocaleString()}`,
       change: "+8.2%",
       trend: "up",
       icon: TrendingDown,
@@ -80,7 +84,7 @@ export default async function DashboardPage() {
     },
     {
       title: "Net Income",
-      value: `K${data?.netIncome.toLocaleString()}`,
+      value: `${symbol}${data?.netIncome.toLocaleString()}`,
       change: "+18.7%",
       trend: data?.netIncome ? (data?.netIncome >= 0 ? "up" : "down") : "down",
       icon: TrendingUp,
@@ -92,7 +96,7 @@ export default async function DashboardPage() {
     },
     {
       title: "Outstanding Amount",
-      value: `K${data?.outstandingAmount.toLocaleString()}`,
+      value: `${symbol}${data?.outstandingAmount.toLocaleString()}`,
       change: "-5.3%",
       trend: "down",
       icon: FileText,
@@ -107,6 +111,7 @@ export default async function DashboardPage() {
       account:
         transaction.fromAccount || transaction.toAccount || "Unknown Account",
       amount: Number.parseFloat(transaction.amount),
+      currency: transaction.currency,
       date: transaction.transactionDate,
       type: transaction.type,
     })
@@ -232,7 +237,8 @@ export default async function DashboardPage() {
                             : "text-red-600"
                         }`}
                       >
-                        {transaction.type === "income" ? "+" : "-"}K
+                        {transaction.type === "income" ? "+" : "-"}
+                        {currencySymbol(transaction.currency)}
                         {Math.abs(transaction.amount).toLocaleString()}
                       </TableCell>
                     </TableRow>
@@ -272,6 +278,24 @@ export default async function DashboardPage() {
         </Card>
       </div>
 
+      {/* Category breakdown */}
+      {data?.categoryBreakdown && (
+        <Card>
+          <CardHeader>
+            <CardTitle>This Month by Category</CardTitle>
+            <CardDescription>
+              Completed income and expenses grouped by category
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryBreakdown
+              breakdown={data.categoryBreakdown}
+              currency={baseCurrency}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Cash flow overview */}
       <Card>
         <CardHeader>
@@ -291,7 +315,7 @@ export default async function DashboardPage() {
                   <div className="flex-1 space-y-1">
                     <div className="flex justify-between text-xs">
                       <span className="text-blue-600">
-                        Balance: {`K${(balance as number).toLocaleString()}`}
+                        Balance: {`${symbol}${(balance as number).toLocaleString()}`}
                       </span>
                     </div>
                     <div className="relative">
@@ -307,7 +331,8 @@ export default async function DashboardPage() {
                     </div>
                   </div>
                   <div className="w-20 text-right text-sm font-medium text-blue-600">
-                    K{(balance as number).toLocaleString()}
+                    {symbol}
+                    {(balance as number).toLocaleString()}
                   </div>
                 </div>
               )
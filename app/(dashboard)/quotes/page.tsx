@@ -0,0 +1,29 @@
+import { QuoteManagement } from "@/components/quote-management"
+import { getQuotes } from "@/lib/actions/quotes"
+import { getCustomers } from "@/lib/actions/invoices"
+import { getOrganizationBaseCurrency } from "@/lib/actions/exchange-rates"
+import { getTaxCodes } from "@/lib/actions/tax-codes"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+
+export default async function QuotesPage() {
+  const [quotesResult, customersResult, taxCodesResult, baseCurrencyResult] = await Promise.all([
+    getQuotes(),
+    getCustomers(),
+    getTaxCodes(),
+    getOrganizationBaseCurrency(),
+  ])
+
+  const quotes = quotesResult.success ? quotesResult.data! : []
+  const customers = customersResult.success ? customersResult.data! : []
+  const taxCodes = taxCodesResult.success ? taxCodesResult.data! : []
+  const baseCurrency = baseCurrencyResult.success ? baseCurrencyResult.data! : DEFAULT_BASE_CURRENCY
+
+  return (
+    <QuoteManagement
+      initialQuotes={quotes}
+      initialCustomers={customers}
+      taxCodes={taxCodes}
+      baseCurrency={baseCurrency}
+    />
+  )
+}
@@ -0,0 +1,10 @@
+import { ReconciliationWorkspace } from "@/components/reconciliation-workspace"
+import { getReconciliationAccounts } from "@/lib/actions/reconciliation"
+
+export default async function ReconciliationPage() {
+  const accountsResult = await getReconciliationAccounts()
+
+  const initialAccounts = accountsResult.success ? (accountsResult.data ?? []) : []
+
+  return <ReconciliationWorkspace initialAccounts={initialAccounts} />
+}
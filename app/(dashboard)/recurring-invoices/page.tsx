@@ -0,0 +1,29 @@
+import { RecurringInvoiceManagement } from "@/components/recurring-invoice-management"
+import { getRecurringInvoices } from "@/lib/actions/recurring-invoices"
+import { getCustomers } from "@/lib/actions/invoices"
+import { getOrganizationBaseCurrency } from "@/lib/actions/exchange-rates"
+import { getTaxCodes } from "@/lib/actions/tax-codes"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+
+export default async function RecurringInvoicesPage() {
+  const [templatesResult, customersResult, taxCodesResult, baseCurrencyResult] = await Promise.all([
+    getRecurringInvoices(),
+    getCustomers(),
+    getTaxCodes(),
+    getOrganizationBaseCurrency(),
+  ])
+
+  const templates = templatesResult.success ? templatesResult.data || [] : []
+  const customers = customersResult.success ? customersResult.data || [] : []
+  const taxCodes = taxCodesResult.success ? taxCodesResult.data! : []
+  const baseCurrency = baseCurrencyResult.success ? baseCurrencyResult.data! : DEFAULT_BASE_CURRENCY
+
+  return (
+    <RecurringInvoiceManagement
+      initialTemplates={templates}
+      initialCustomers={customers}
+      taxCodes={taxCodes}
+      baseCurrency={baseCurrency}
+    />
+  )
+}
@@ -2,20 +2,23 @@ import { RecurringTransactionManagement } from "@/components/recurring-transacti
 import { getRecurringTransactions } from "@/lib/actions/recurring"
 import { getAccounts } from "@/lib/actions/accounts"
 import { getCustomers, getVendors } from "@/lib/actions/contacts"
+import { getCategories } from "@/lib/actions/categories"
 
 export default async function RecurringPage() {
   // Fetch all data in parallel on the server
-  const [transactionsResult, accountsResult, customersResult, vendorsResult] = await Promise.all([
+  const [transactionsResult, accountsResult, customersResult, vendorsResult, categoriesResult] = await Promise.all([
     getRecurringTransactions(),
     getAccounts(),
     getCustomers(),
     getVendors(),
+    getCategories(),
   ])
 
   const recurringTransactions = transactionsResult.success ? transactionsResult.data || [] : []
   const accounts = accountsResult.success ? accountsResult.data! || [] : []
   const customers = customersResult.success ? customersResult.data! || [] : []
   const vendors = vendorsResult.success ? vendorsResult.data! || [] : []
+  const categories = categoriesResult.success ? categoriesResult.data! : []
 
   return (
     <div className="flex-1">
@@ -27,6 +30,7 @@ export default async function RecurringPage() {
         initialAccounts={accounts}
         initialCustomers={customers}
         initialVendors={vendors}
+        initialCategories={categories}
       />
     </div>
   )
@@ -4,6 +4,9 @@ import {
   getProfitLossReport,
   getExpenseAnalysisReport,
   getRevenueAnalysisReport,
+  getAccountsReceivableAging,
+  getAccountsPayableAging,
+  getTaxReport,
 } from "@/lib/actions/reports";
 
 export default async function ReportsPage() {
@@ -20,11 +23,17 @@ export default async function ReportsPage() {
     profitLossResult,
     expenseAnalysisResult,
     revenueAnalysisResult,
+    receivablesAgingResult,
+    payablesAgingResult,
+    taxResult,
   ] = await Promise.all([
     getFinancialKPIs(startDate, endDate),
     getProfitLossReport(startDate, endDate),
     getExpenseAnalysisReport(startDate, endDate),
     getRevenueAnalysisReport(startDate, endDate),
+    getAccountsReceivableAging(),
+    getAccountsPayableAging(),
+    getTaxReport(startDate, endDate),
   ]);
 
   const kpiData = kpisResult.success ? kpisResult.data : null;
@@ -37,6 +46,14 @@ export default async function ReportsPage() {
   const revenueAnalysisData = revenueAnalysisResult.success
     ? revenueAnalysisResult.data
     : null;
+  const receivablesAgingData = receivablesAgingResult.success
+    ? receivablesAgingResult.data ?? null
+    : null;
+  const payablesAgingData = payablesAgingResult.success
+    ? payablesAgingResult.data ?? null
+    : null;
+
+  const taxData = taxResult.success ? taxResult.data : null;
 
   return (
     <ReportsAnalytics
@@ -44,6 +61,9 @@ export default async function ReportsPage() {
       initialProfitLossData={profitLossData}
       initialExpenseAnalysisData={expenseAnalysisData}
       initialRevenueAnalysisData={revenueAnalysisData}
+      initialReceivablesAgingData={receivablesAgingData}
+      initialPayablesAgingData={payablesAgingData}
+      initialTaxData={taxData}
       initialDateRange="current-month"
     />
   );
@@ -1,23 +1,32 @@
 import { TransactionManagement } from "@/components/transaction-management"
 import { getTransactions, getAccounts } from "@/lib/actions/transactions"
 import { getContacts } from "@/lib/actions/contacts"
+import { getCategories } from "@/lib/actions/categories"
+import { getOrganizationBaseCurrency } from "@/lib/actions/exchange-rates"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
 
 export default async function TransactionsPage() {
-  const [transactionsResult, accountsResult, contactsResult] = await Promise.all([
+  const [transactionsResult, accountsResult, contactsResult, categoriesResult, baseCurrencyResult] = await Promise.all([
     getTransactions(),
     getAccounts(),
     getContacts(),
+    getCategories(),
+    getOrganizationBaseCurrency(),
   ])
 
   const initialTransactions = transactionsResult.success ? transactionsResult.data! : []
   const initialAccounts = accountsResult.success ? accountsResult.data! : []
   const initialContacts = contactsResult.success ? contactsResult.data! : []
+  const initialCategories = categoriesResult.success ? categoriesResult.data! : []
+  const baseCurrency = baseCurrencyResult.success ? baseCurrencyResult.data! : DEFAULT_BASE_CURRENCY
 
   return (
     <TransactionManagement
       initialTransactions={initialTransactions}
       initialAccounts={initialAccounts}
       initialContacts={initialContacts}
+      initialCategories={initialCategories}
+      baseCurrency={baseCurrency}
     />
   )
 }
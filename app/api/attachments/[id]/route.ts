@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/db/drizzle";
+import { attachments } from "@/db/schema";
+import { getOrganizationContext } from "@/lib/organizations";
+import { getStorage } from "@/lib/storage";
+
+// Serves an attachment to members of the organisation that owns it.
+// API routes skip the session proxy, so the session is checked here.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let organizationId: string;
+  try {
+    ({ organizationId } = await getOrganizationContext());
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const [attachment] = await db
+      .select()
+      .from(attachments)
+      .where(
+        and(
+          eq(attachments.id, id),
+          eq(attachments.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    // Attachments of other organisations are reported as missing, not forbidden
+    const data = attachment
+      ? await getStorage().get(attachment.storageKey)
+      : null;
+    if (!attachment || !data) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const disposition =
+      new URL(request.url).searchParams.get("download") === "true"
+        ? "attachment"
+        : "inline";
+
+    return new NextResponse(Buffer.from(data), {
+      headers: {
+        "Content-Type": attachment.contentType,
+        "Content-Length": String(data.byteLength),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "Cache-Control": "private, max-age=0, must-revalidate",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving attachment:", error);
+    return NextResponse.json(
+      { error: "Failed to load attachment" },
+      { status: 500 }
+    );
+  }
+}
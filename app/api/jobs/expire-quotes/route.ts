@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/jobs/authorize";
+import { expireQuotes } from "@/lib/jobs/expire-quotes";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await expireQuotes();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error expiring quotes:", error);
+    return NextResponse.json({ error: "Failed to expire quotes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/jobs/authorize";
+import { markOverdueInvoices } from "@/lib/jobs/mark-overdue-invoices";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await markOverdueInvoices();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error marking overdue invoices:", error);
+    return NextResponse.json({ error: "Failed to mark overdue invoices" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/jobs/authorize";
+import { reconcileBalances } from "@/lib/jobs/reconcile-balances";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const repair = new URL(request.url).searchParams.get("repair") === "true";
+
+  try {
+    const result = await reconcileBalances({ repair });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error reconciling balances:", error);
+    return NextResponse.json({ error: "Failed to reconcile balances" }, { status: 500 });
+  }
+}
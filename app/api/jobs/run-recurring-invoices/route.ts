@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/jobs/authorize";
+import { runRecurringInvoices } from "@/lib/jobs/run-recurring-invoices";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runRecurringInvoices();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running recurring invoices:", error);
+    return NextResponse.json({ error: "Failed to run recurring invoices" }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJobRequest } from "@/lib/jobs/authorize";
+import { runRecurringTransactions } from "@/lib/jobs/run-recurring-transactions";
+
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runRecurringTransactions();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running recurring transactions:", error);
+    return NextResponse.json({ error: "Failed to run recurring transactions" }, { status: 500 });
+  }
+}
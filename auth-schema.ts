@@ -14,7 +14,6 @@ export const user = pgTable("user", {
   updatedAt: timestamp("updated_at")
     .$defaultFn(() => /* @__PURE__ */ new Date())
     .notNull(),
-  role: text("role").default("staff"),
 });
 
 export const session = pgTable("session", {
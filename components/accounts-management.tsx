@@ -1,7 +1,7 @@
 "use client";
 
 import type React from "react";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -38,39 +38,74 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Plus, Search, Edit, Trash2, DollarSign } from "lucide-react";
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  DollarSign,
+  ListTree,
+  Lock,
+} from "lucide-react";
 import { toast } from "sonner";
 import {
   createAccount,
   updateAccount,
   deleteAccount,
+  seedChartOfAccounts,
 } from "@/lib/actions/accounts";
 import { useRouter } from "next/navigation";
+import {
+  CURRENCIES,
+  DEFAULT_BASE_CURRENCY,
+  currencySymbol,
+} from "@/lib/currency";
 
-const ACCOUNT_TYPES = {
-  cash: {
-    label: "Cash",
+const ACCOUNT_CLASSES = {
+  asset: {
+    label: "Assets",
     color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
   },
-  bank: {
-    label: "Bank",
-    color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  liability: {
+    label: "Liabilities",
+    color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
   },
-  mobile: {
-    label: "Mobile Money",
+  equity: {
+    label: "Equity",
     color:
       "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300",
   },
-  credit: {
-    label: "Credit",
-    color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  revenue: {
+    label: "Revenue",
+    color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  },
+  expense: {
+    label: "Expenses",
+    color:
+      "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300",
   },
 };
 
+const ACCOUNT_TYPES = {
+  cash: { label: "Cash", accountClass: "asset" },
+  bank: { label: "Bank", accountClass: "asset" },
+  mobile: { label: "Mobile Money", accountClass: "asset" },
+  credit: { label: "Credit", accountClass: "liability" },
+} as const;
+
+type AccountClass = keyof typeof ACCOUNT_CLASSES;
+type AccountType = keyof typeof ACCOUNT_TYPES;
+
 interface Account {
-  id?: string;
+  id: string;
+  code: string | null;
   name: string;
-  type: keyof typeof ACCOUNT_TYPES;
+  type: AccountType | null;
+  accountClass: AccountClass;
+  currency: string;
+  systemKey: string | null;
+  parentId: string | null;
+  openingBalance: string;
   balance: string;
   description: string | null;
   isActive?: boolean | null;
@@ -78,47 +113,102 @@ interface Account {
   updatedAt?: Date | null;
 }
 
+interface AccountFormData {
+  code: string;
+  name: string;
+  accountClass: AccountClass;
+  type: AccountType | "none";
+  currency: string;
+  parentId: string;
+  openingBalance: string;
+  description: string;
+}
+
 interface AccountsManagementProps {
   initialAccounts: Account[];
   initialSummary: any;
 }
 
+const EMPTY_FORM: AccountFormData = {
+  code: "",
+  name: "",
+  accountClass: "asset",
+  type: "none",
+  currency: "",
+  parentId: "none",
+  openingBalance: "0",
+  description: "",
+};
+
 export function AccountsManagement({
   initialAccounts,
   initialSummary,
 }: AccountsManagementProps) {
   const router = useRouter();
-  const [accounts] = useState<Account[]>(initialAccounts);
-  const [summary] = useState<any>(initialSummary);
+  const accounts = initialAccounts;
+  const summary = initialSummary;
+  const baseCurrency: string = summary?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedType, setSelectedType] = useState<string>("ALL");
+  const [selectedClass, setSelectedClass] = useState<string>("ALL");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [seeding, setSeeding] = useState(false);
 
-  const [formData, setFormData] = useState<Account>({
-    name: "",
-    type: "cash",
-    balance: "0",
-    description: "",
-  });
+  const [formData, setFormData] = useState<AccountFormData>(EMPTY_FORM);
 
-  const filteredAccounts = accounts.filter((account) => {
+  // Walk the hierarchy so sub-accounts sit under their parent, ordered by code
+  const orderedAccounts = useMemo(() => {
+    const byParent = new Map<string | null, Account[]>();
+    const ids = new Set(accounts.map((account) => account.id));
+    for (const account of accounts) {
+      const parentKey =
+        account.parentId && ids.has(account.parentId) ? account.parentId : null;
+      byParent.set(parentKey, [...(byParent.get(parentKey) ?? []), account]);
+    }
+
+    const rows: { account: Account; depth: number; rolledUp: number }[] = [];
+    const visit = (parentId: string | null, depth: number): number => {
+      const children = (byParent.get(parentId) ?? []).sort((a, b) =>
+        (a.code ?? a.name).localeCompare(b.code ?? b.name)
+      );
+      let total = 0;
+      for (const account of children) {
+        const index = rows.length;
+        rows.push({ account, depth, rolledUp: 0 });
+        const rolledUp =
+          Number.parseFloat(account.balance) + visit(account.id, depth + 1);
+        rows[index].rolledUp = rolledUp;
+        total += rolledUp;
+      }
+      return total;
+    };
+    visit(null, 0);
+    return rows;
+  }, [accounts]);
+
+  const parentIds = new Set(accounts.map((account) => account.parentId));
+
+  const filteredRows = orderedAccounts.filter(({ account }) => {
+    const term = searchTerm.toLowerCase();
     const matchesSearch =
-      account.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      account.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = selectedType === "ALL" || account.type === selectedType;
-    return matchesSearch && matchesType;
+      account.name.toLowerCase().includes(term) ||
+      (account.code ?? "").includes(term) ||
+      account.description?.toLowerCase().includes(term);
+    const matchesClass =
+      selectedClass === "ALL" || account.accountClass === selectedClass;
+    return matchesSearch && matchesClass;
   });
 
-  const groupedAccounts = filteredAccounts.reduce((groups, account) => {
-    const type = account.type;
-    if (!groups[type]) {
-      groups[type] = [];
-    }
-    groups[type].push(account);
-    return groups;
-  }, {} as Record<string, typeof accounts>);
+  const typeOptions = Object.entries(ACCOUNT_TYPES).filter(
+    ([, value]) => value.accountClass === formData.accountClass
+  );
+
+  const parentOptions = accounts.filter(
+    (account) =>
+      account.accountClass === formData.accountClass &&
+      account.id !== editingAccount?.id
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -126,16 +216,21 @@ export function AccountsManagement({
 
     try {
       const formDataObj = new FormData();
-      console.log("form Data", formData);
+      formDataObj.append("code", formData.code);
       formDataObj.append("name", formData.name);
-      formDataObj.append("type", formData.type);
-      formDataObj.append("balance", formData.balance);
-      formDataObj.append("description", formData.description || "");
-      console.log("Form Data Object:", formDataObj.get("balance"));
+      formDataObj.append("accountClass", formData.accountClass);
+      formDataObj.append("type", formData.type === "none" ? "" : formData.type);
+      formDataObj.append(
+        "parentId",
+        formData.parentId === "none" ? "" : formData.parentId
+      );
+      formDataObj.append("currency", formData.currency || baseCurrency);
+      formDataObj.append("openingBalance", formData.openingBalance);
+      formDataObj.append("description", formData.description);
 
       let result;
       if (editingAccount) {
-        result = await updateAccount(editingAccount.id!, formDataObj);
+        result = await updateAccount(editingAccount.id, formDataObj);
       } else {
         result = await createAccount(formDataObj);
       }
@@ -163,12 +258,7 @@ export function AccountsManagement({
   };
 
   const resetForm = () => {
-    setFormData({
-      name: "",
-      type: "cash",
-      balance: "0",
-      description: "",
-    });
+    setFormData(EMPTY_FORM);
     setEditingAccount(null);
     setIsDialogOpen(false);
   };
@@ -176,9 +266,13 @@ export function AccountsManagement({
   const handleEdit = (account: Account) => {
     setEditingAccount(account);
     setFormData({
+      code: account.code ?? "",
       name: account.name,
-      type: account.type,
-      balance: account.balance,
+      accountClass: account.accountClass,
+      type: account.type ?? "none",
+      currency: account.currency,
+      parentId: account.parentId ?? "none",
+      openingBalance: account.openingBalance,
       description: account.description || "",
     });
     setIsDialogOpen(true);
@@ -186,7 +280,6 @@ export function AccountsManagement({
 
   const handleDelete = async (accountId: string) => {
     try {
-      console.log("account ID", accountId);
       const result = await deleteAccount(accountId);
       if (result.success) {
         toast("Account Deleted", {
@@ -205,6 +298,27 @@ export function AccountsManagement({
     }
   };
 
+  const handleSeed = async () => {
+    setSeeding(true);
+    try {
+      const result = await seedChartOfAccounts();
+      if (result.success) {
+        toast("Chart of Accounts Loaded", {
+          description: `${result.data?.created ?? 0} accounts were added.`,
+        });
+        router.refresh();
+      } else {
+        toast.error("Error", { description: result.error });
+      }
+    } catch (error) {
+      toast.error("Error", {
+        description: "An unexpected error occurred",
+      });
+    } finally {
+      setSeeding(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -217,114 +331,217 @@ export function AccountsManagement({
             Manage your business accounts and track balances
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="mr-2 h-4 w-4" />
-              New Account
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <form onSubmit={handleSubmit}>
-              <DialogHeader>
-                <DialogTitle>
-                  {editingAccount ? "Edit Account" : "Create New Account"}
-                </DialogTitle>
-                <DialogDescription>
-                  {editingAccount
-                    ? "Update the account details below."
-                    : "Add a new account to your chart of accounts."}
-                </DialogDescription>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="name" className="text-right">
-                    Name
-                  </Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) =>
-                      setFormData({ ...formData, name: e.target.value })
-                    }
-                    className="col-span-3"
-                    placeholder="Cash Account"
-                    required
-                  />
-                </div>
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="type" className="text-right">
-                    Type
-                  </Label>
-                  <Select
-                    value={formData.type}
-                    onValueChange={(value: keyof typeof ACCOUNT_TYPES) =>
-                      setFormData({ ...formData, type: value })
-                    }
-                  >
-                    <SelectTrigger className="col-span-3">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {Object.entries(ACCOUNT_TYPES).map(([key, value]) => (
-                        <SelectItem key={key} value={key}>
-                          {value.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="balance" className="text-right">
-                    Balance
-                  </Label>
-                  <Input
-                    id="balance"
-                    type="number"
-                    step="0.01"
-                    value={formData.balance}
-                    onChange={(e) =>
-                      setFormData({ ...formData, balance: e.target.value })
-                    }
-                    className="col-span-3"
-                    placeholder="0.00"
-                  />
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleSeed} disabled={seeding}>
+            <ListTree className="mr-2 h-4 w-4" />
+            {seeding ? "Loading..." : "Load Default Chart"}
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Account
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[480px]">
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingAccount ? "Edit Account" : "Create New Account"}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {editingAccount
+                      ? "Update the account details below."
+                      : "Add a new account to your chart of accounts."}
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="code" className="text-right">
+                      Code
+                    </Label>
+                    <Input
+                      id="code"
+                      value={formData.code}
+                      onChange={(e) =>
+                        setFormData({ ...formData, code: e.target.value })
+                      }
+                      className="col-span-3"
+                      placeholder="1010"
+                      inputMode="numeric"
+                    />
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="name" className="text-right">
+                      Name
+                    </Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) =>
+                        setFormData({ ...formData, name: e.target.value })
+                      }
+                      className="col-span-3"
+                      placeholder="Cash Account"
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="accountClass" className="text-right">
+                      Class
+                    </Label>
+                    <Select
+                      value={formData.accountClass}
+                      disabled={!!editingAccount?.systemKey}
+                      onValueChange={(value: AccountClass) =>
+                        setFormData({
+                          ...formData,
+                          accountClass: value,
+                          type: "none",
+                          parentId: "none",
+                        })
+                      }
+                    >
+                      <SelectTrigger className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ACCOUNT_CLASSES).map(([key, value]) => (
+                          <SelectItem key={key} value={key}>
+                            {value.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {typeOptions.length > 0 && (
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="type" className="text-right">
+                        Payment Type
+                      </Label>
+                      <Select
+                        value={formData.type}
+                        onValueChange={(value: AccountType | "none") =>
+                          setFormData({ ...formData, type: value })
+                        }
+                      >
+                        <SelectTrigger className="col-span-3">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">
+                            None (ledger only)
+                          </SelectItem>
+                          {typeOptions.map(([key, value]) => (
+                            <SelectItem key={key} value={key}>
+                              {value.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="parentId" className="text-right">
+                      Parent
+                    </Label>
+                    <Select
+                      value={formData.parentId}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, parentId: value })
+                      }
+                    >
+                      <SelectTrigger className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None (top level)</SelectItem>
+                        {parentOptions.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.code ? `${account.code} · ` : ""}
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="currency" className="text-right">
+                      Currency
+                    </Label>
+                    <Select
+                      value={formData.currency || baseCurrency}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, currency: value })
+                      }
+                    >
+                      <SelectTrigger id="currency" className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="openingBalance" className="text-right">
+                      Opening Balance
+                    </Label>
+                    <Input
+                      id="openingBalance"
+                      type="number"
+                      step="0.01"
+                      value={formData.openingBalance}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          openingBalance: e.target.value,
+                        })
+                      }
+                      className="col-span-3"
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="description" className="text-right">
+                      Description
+                    </Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          description: e.target.value,
+                        })
+                      }
+                      className="col-span-3"
+                      placeholder="Account description..."
+                    />
+                  </div>
                 </div>
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="description" className="text-right">
-                    Description
-                  </Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description ?? ""}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        description: e.target.value,
-                      })
-                    }
-                    className="col-span-3"
-                    placeholder="Account description..."
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <Button type="submit" disabled={submitting}>
-                  {submitting
-                    ? "Saving..."
-                    : editingAccount
-                    ? "Update Account"
-                    : "Create Account"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button type="submit" disabled={submitting}>
+                    {submitting
+                      ? "Saving..."
+                      : editingAccount
+                      ? "Update Account"
+                      : "Create Account"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-4">
-        {Object.entries(ACCOUNT_TYPES).map(([key, value]) => (
+      <div className="grid gap-4 md:grid-cols-5">
+        {Object.entries(ACCOUNT_CLASSES).map(([key, value]) => (
           <Card key={key}>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">
@@ -334,10 +551,12 @@ export function AccountsManagement({
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                K{summary?.accountsByType?.[key]?.toLocaleString() || "0"}
+                {currencySymbol(baseCurrency)}
+                {summary?.accountsByClass?.[key]?.toLocaleString() || "0"}
               </div>
               <p className="text-xs text-muted-foreground">
-                {accounts.filter((a) => a.type === key).length} accounts
+                {accounts.filter((a) => a.accountClass === key).length}{" "}
+                accounts
               </p>
             </CardContent>
           </Card>
@@ -358,20 +577,20 @@ export function AccountsManagement({
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search accounts..."
+                  placeholder="Search by name or code..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-8"
                 />
               </div>
             </div>
-            <Select value={selectedType} onValueChange={setSelectedType}>
+            <Select value={selectedClass} onValueChange={setSelectedClass}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="ALL">All Types</SelectItem>
-                {Object.entries(ACCOUNT_TYPES).map(([key, value]) => (
+                <SelectItem value="ALL">All Classes</SelectItem>
+                {Object.entries(ACCOUNT_CLASSES).map(([key, value]) => (
                   <SelectItem key={key} value={key}>
                     {value.label}
                   </SelectItem>
@@ -382,63 +601,107 @@ export function AccountsManagement({
 
           {/* Accounts Table */}
           <div className="space-y-6">
-            {Object.entries(groupedAccounts).map(([type, typeAccounts]) => (
-              <div key={type}>
-                <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
-                  {ACCOUNT_TYPES[type as keyof typeof ACCOUNT_TYPES].label}
-                  <Badge
-                    className={
-                      ACCOUNT_TYPES[type as keyof typeof ACCOUNT_TYPES].color
-                    }
-                  >
-                    {typeAccounts.length}
-                  </Badge>
-                </h3>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Account Name</TableHead>
-                      <TableHead>Description</TableHead>
-                      <TableHead className="text-right">Balance</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {typeAccounts.map((account) => (
-                      <TableRow key={account.id}>
-                        <TableCell className="font-medium">
-                          {account.name}
-                        </TableCell>
-                        <TableCell className="text-muted-foreground">
-                          {account.description}
-                        </TableCell>
-                        <TableCell className="text-right font-mono text-green-600">
-                          K{Number.parseFloat(account.balance).toLocaleString()}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEdit(account)}
+            {Object.entries(ACCOUNT_CLASSES).map(([key, value]) => {
+              const classRows = filteredRows.filter(
+                ({ account }) => account.accountClass === key
+              );
+              if (classRows.length === 0) return null;
+
+              return (
+                <div key={key}>
+                  <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                    {value.label}
+                    <Badge className={value.color}>{classRows.length}</Badge>
+                  </h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[100px]">Code</TableHead>
+                        <TableHead>Account Name</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {classRows.map(({ account, depth, rolledUp }) => {
+                        const isHeader = parentIds.has(account.id);
+                        return (
+                          <TableRow key={account.id}>
+                            <TableCell className="font-mono text-muted-foreground">
+                              {account.code ?? "—"}
+                            </TableCell>
+                            <TableCell
+                              className={
+                                isHeader ? "font-semibold" : "font-medium"
+                              }
                             >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDelete(account.id!)}
+                              <div
+                                style={{ paddingLeft: `${depth * 1.25}rem` }}
+                              >
+                                {account.name}
+                                {account.description && (
+                                  <p className="text-xs font-normal text-muted-foreground">
+                                    {account.description}
+                                  </p>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex gap-1">
+                                {account.type && (
+                                  <Badge variant="outline">
+                                    {ACCOUNT_TYPES[account.type].label}
+                                  </Badge>
+                                )}
+                                {account.currency !== baseCurrency && (
+                                  <Badge variant="outline">
+                                    {account.currency}
+                                  </Badge>
+                                )}
+                                {account.systemKey && (
+                                  <Badge variant="secondary">
+                                    <Lock className="mr-1 h-3 w-3" />
+                                    System
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell
+                              className={`text-right font-mono ${
+                                rolledUp < 0 ? "text-red-600" : "text-green-600"
+                              }`}
                             >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            ))}
+                              {currencySymbol(baseCurrency)}
+                              {rolledUp.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEdit(account)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={!!account.systemKey || isHeader}
+                                  onClick={() => handleDelete(account.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })}
           </div>
         </CardContent>
       </Card>
@@ -3,6 +3,7 @@ import * as React from "react";
 
 import { SearchForm } from "@/components/search-form";
 import { VersionSwitcher } from "@/components/version-switcher";
+import { OrganizationSwitcher } from "@/components/organization-switcher";
 import {
   Sidebar,
   SidebarContent,
@@ -20,9 +21,22 @@ import {
 import Link from "next/link";
 import { redirect, usePathname } from "next/navigation";
 import { authClient } from "@/lib/auth-client";
+import { getOrganizations } from "@/lib/actions/organizations";
+import { type Permission, hasPermission } from "@/lib/permissions";
+import type { MembershipRole } from "@/db/schema";
+
+interface NavItem {
+  title: string;
+  url: string;
+  isActive?: boolean;
+  permission?: Permission;
+}
 
 // This is sample data.
-const data = {
+const data: {
+  versions: string[];
+  navMain: { title: string; url: string; items: NavItem[] }[];
+} = {
   versions: ["1.0.1", "1.1.0-alpha", "2.0.0-beta1"],
   navMain: [
     {
@@ -37,15 +51,33 @@ const data = {
         {
           title: "Accounts",
           url: "/accounts",
+          permission: "accounts:manage",
         },
         {
           title: "Transactions",
           url: "/transactions",
         },
+        {
+          title: "Reconciliation",
+          url: "/reconciliation",
+          permission: "accounts:manage",
+        },
+        {
+          title: "Quotes",
+          url: "/quotes",
+        },
         {
           title: "Invoices",
           url: "/invoices",
         },
+        {
+          title: "Credit Notes",
+          url: "/credit-notes",
+        },
+        {
+          title: "Bills",
+          url: "/bills",
+        },
         {
           title: "Expenses",
           url: "/expenses",
@@ -53,10 +85,17 @@ const data = {
         {
           title: "Reports",
           url: "/reports",
+          permission: "reports:view",
         },
         {
           title: "Recurring",
           url: "/recurring",
+          permission: "recurring:manage",
+        },
+        {
+          title: "Recurring Invoices",
+          url: "/recurring-invoices",
+          permission: "recurring:manage",
         },
         {
           title: "Contacts",
@@ -74,11 +113,35 @@ const data = {
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const pathname = usePathname();
   const { setOpenMobile } = useSidebar();
+  const [organizations, setOrganizations] = React.useState<
+    { id: string; name: string; role: MembershipRole }[]
+  >([]);
+  const [activeOrganizationId, setActiveOrganizationId] = React.useState("");
+
+  React.useEffect(() => {
+    getOrganizations().then((result) => {
+      if (result.success && result.data) {
+        setOrganizations(result.data.organizations);
+        setActiveOrganizationId(result.data.activeOrganizationId);
+      }
+    });
+  }, []);
+
+  // Hide pages the active role cannot use; the server actions enforce the same rules
+  const role = organizations.find(
+    (organization) => organization.id === activeOrganizationId
+  )?.role;
+  const canSee = (item: NavItem) =>
+    !item.permission || (role !== undefined && hasPermission(role, item.permission));
 
   return (
     <Sidebar {...props}>
       <SidebarHeader>
         <VersionSwitcher />
+        <OrganizationSwitcher
+          organizations={organizations}
+          activeId={activeOrganizationId}
+        />
       </SidebarHeader>
       <SidebarContent>
         {/* We create a SidebarGroup for each parent. */}
@@ -87,7 +150,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             <SidebarGroupLabel>{item.title}</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                {item.items.map((item) => (
+                {item.items.filter(canSee).map((item) => (
                   <SidebarMenuItem key={item.title}>
                     <SidebarMenuButton asChild isActive={item.url == pathname}>
                       <Link
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileText, Loader2, Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  deleteAttachment,
+  getAttachments,
+  uploadAttachment,
+} from "@/lib/actions/attachments";
+import { toast } from "sonner";
+
+interface Attachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: Date;
+}
+
+interface AttachmentsPanelProps {
+  sourceType: "transaction" | "expense";
+  sourceId: string;
+  readOnly?: boolean;
+}
+
+// Mirrors the server-side checks so users get feedback before uploading
+const MAX_SIZE = 10 * 1024 * 1024;
+const ACCEPT = "application/pdf,image/png,image/jpeg,image/webp,image/gif,image/heic";
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function AttachmentsPanel({
+  sourceType,
+  sourceId,
+  readOnly = false,
+}: AttachmentsPanelProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getAttachments(sourceType, sourceId).then((result) => {
+      if (result.success && result.data) {
+        setAttachments(result.data);
+      }
+    });
+  }, [sourceType, sourceId]);
+
+  const handleUpload = async (file: File) => {
+    if (file.size > MAX_SIZE) {
+      toast.error("Files must be 10 MB or smaller");
+      return;
+    }
+
+    setUploading(true);
+    const formData = new FormData();
+    formData.append("sourceType", sourceType);
+    formData.append("sourceId", sourceId);
+    formData.append("file", file);
+
+    const result = await uploadAttachment(formData);
+    if (result.success && result.data) {
+      setAttachments([...attachments, result.data]);
+      toast.success("File attached");
+    } else {
+      toast.error(result.error);
+    }
+    setUploading(false);
+    if (inputRef.current) {
+      inputRef.current.value = "";
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteAttachment(id);
+    if (result.success) {
+      setAttachments(attachments.filter((attachment) => attachment.id !== id));
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Attachments</Label>
+        {!readOnly && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              accept={ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUpload(file);
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={uploading}
+              onClick={() => inputRef.current?.click()}
+            >
+              {uploading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Paperclip className="mr-2 h-4 w-4" />
+              )}
+              Attach File
+            </Button>
+          </>
+        )}
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No files attached.</p>
+      ) : (
+        <div className="grid gap-2">
+          {attachments.map((attachment) => {
+            const url = `/api/attachments/${attachment.id}`;
+            return (
+              <div
+                key={attachment.id}
+                className="flex items-center gap-3 rounded-md border p-2"
+              >
+                <a href={url} target="_blank" rel="noopener noreferrer">
+                  {attachment.contentType.startsWith("image/") ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={url}
+                      alt={attachment.fileName}
+                      className="h-10 w-10 rounded object-cover"
+                    />
+                  ) : (
+                    <FileText className="h-10 w-10 p-2 text-muted-foreground" />
+                  )}
+                </a>
+                <div className="min-w-0 flex-1">
+                  <a
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block truncate text-sm font-medium hover:underline"
+                  >
+                    {attachment.fileName}
+                  </a>
+                  <p className="text-xs text-muted-foreground">
+                    {formatSize(attachment.size)}
+                  </p>
+                </div>
+                {!readOnly && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(attachment.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  importBankStatement,
+  previewBankImport,
+} from "@/lib/actions/bank-import";
+import {
+  CSV_DATE_FORMATS,
+  type CsvMapping,
+  type StatementFormat,
+  type StatementLine,
+} from "@/lib/bank-import";
+
+interface Account {
+  id: string;
+  name: string;
+  type: string | null;
+}
+
+interface PreviewLine extends StatementLine {
+  duplicate: boolean;
+  contactName: string | null;
+}
+
+interface Preview {
+  format: StatementFormat;
+  mapping: CsvMapping | null;
+  headers: string[];
+  lines: PreviewLine[];
+  parseError: string | null;
+}
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: "CSV",
+  ofx: "OFX/QFX",
+  camt053: "CAMT.053",
+  mobile_money: "Mobile money",
+};
+
+const DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+const NO_COLUMN = "none";
+
+interface BankImportWizardProps {
+  accounts: Account[];
+}
+
+export function BankImportWizard({ accounts }: BankImportWizardProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [accountId, setAccountId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const reset = () => {
+    setAccountId("");
+    setFile(null);
+    setPreview(null);
+    setMapping(null);
+    setSelected([]);
+  };
+
+  const loadPreview = async (withMapping?: CsvMapping) => {
+    if (!accountId || !file) {
+      toast.error("Choose an account and a statement file");
+      return;
+    }
+
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("accountId", accountId);
+    formData.append("file", file);
+    if (withMapping) {
+      formData.append("mapping", JSON.stringify(withMapping));
+    }
+
+    const result = await previewBankImport(formData);
+    if (result.success && result.data) {
+      setPreview(result.data);
+      setMapping(result.data.mapping);
+      // Lines already recorded start unticked
+      setSelected(
+        result.data.lines.flatMap((line, index) =>
+          line.duplicate ? [] : [index]
+        )
+      );
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("accountId", accountId);
+    formData.append(
+      "lines",
+      JSON.stringify(
+        selected.map((index) => {
+          const {
+            duplicate: _duplicate,
+            contactName: _contactName,
+            ...line
+          } = preview.lines[index];
+          return line;
+        })
+      )
+    );
+    if (preview.format === "csv" && mapping) {
+      formData.append("mapping", JSON.stringify(mapping));
+    }
+
+    const result = await importBankStatement(formData);
+    if (result.success && result.data) {
+      toast.success(
+        `Imported ${result.data.created} pending transaction${
+          result.data.created === 1 ? "" : "s"
+        }`
+      );
+      setOpen(false);
+      reset();
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const columnOptions = (preview?.headers ?? []).map((header, index) => ({
+    value: String(index),
+    label: header.trim() || `Column ${index + 1}`,
+  }));
+
+  const columnSelect = (
+    label: string,
+    key: keyof Pick<
+      CsvMapping,
+      | "dateColumn"
+      | "descriptionColumn"
+      | "referenceColumn"
+      | "amountColumn"
+      | "debitColumn"
+      | "creditColumn"
+    >,
+    optional = false
+  ) =>
+    mapping && (
+      <div>
+        <Label>{label}</Label>
+        <Select
+          value={mapping[key] === null ? NO_COLUMN : String(mapping[key])}
+          onValueChange={(value) =>
+            setMapping({
+              ...mapping,
+              [key]: value === NO_COLUMN ? null : Number(value),
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+            {columnOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+
+  const selectedTotal = selected.reduce(
+    (sum, index) =>
+      sum +
+      (preview?.lines[index]?.amount ?? 0) -
+      (preview?.lines[index]?.fee ?? 0),
+    0
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            Upload a CSV, OFX/QFX or CAMT.053 statement, or a mobile money
+            export (CSV or text copied from the PDF). Imported lines are
+            created as pending transactions against the chosen account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="importAccount">Account</Label>
+              <Select
+                value={accountId}
+                onValueChange={(value) => {
+                  setAccountId(value);
+                  setPreview(null);
+                  setMapping(null);
+                }}
+              >
+                <SelectTrigger id="importAccount">
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({account.type})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="statementFile">Statement File</Label>
+              <Input
+                id="statementFile"
+                type="file"
+                accept=".csv,.txt,.ofx,.qfx,.xml"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setPreview(null);
+                  setMapping(null);
+                }}
+              />
+            </div>
+          </div>
+
+          {!preview && (
+            <Button
+              type="button"
+              onClick={() => loadPreview()}
+              disabled={loading || !accountId || !file}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Read Statement
+            </Button>
+          )}
+
+          {preview && mapping && (
+            <div className="grid gap-4 rounded-md border p-4">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">Column Mapping</h4>
+                <span className="text-xs text-muted-foreground">
+                  Saved for this account when you import
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label>Delimiter</Label>
+                  <Select
+                    value={mapping.delimiter}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, delimiter: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITERS.map((delimiter) => (
+                        <SelectItem
+                          key={delimiter.label}
+                          value={delimiter.value}
+                        >
+                          {delimiter.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Date Format</Label>
+                  <Select
+                    value={mapping.dateFormat}
+                    onValueChange={(value: CsvMapping["dateFormat"]) =>
+                      setMapping({ ...mapping, dateFormat: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CSV_DATE_FORMATS.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>
+                          {dateFormat}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Decimal Separator</Label>
+                  <Select
+                    value={mapping.decimalSeparator}
+                    onValueChange={(value: CsvMapping["decimalSeparator"]) =>
+                      setMapping({ ...mapping, decimalSeparator: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">Point (1,234.50)</SelectItem>
+                      <SelectItem value=",">Comma (1.234,50)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {columnSelect("Date Column", "dateColumn")}
+                {columnSelect("Description Column", "descriptionColumn")}
+                {columnSelect("Reference Column", "referenceColumn", true)}
+                {columnSelect("Amount Column (signed)", "amountColumn", true)}
+                {mapping.amountColumn === null && (
+                  <>
+                    {columnSelect("Debit Column (money out)", "debitColumn", true)}
+                    {columnSelect("Credit Column (money in)", "creditColumn", true)}
+                  </>
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="hasHeader"
+                    checked={mapping.hasHeader}
+                    onCheckedChange={(checked) =>
+                      setMapping({ ...mapping, hasHeader: checked === true })
+                    }
+                  />
+                  <Label htmlFor="hasHeader">First row is a header</Label>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => loadPreview(mapping)}
+                  disabled={loading}
+                >
+                  Apply Mapping
+                </Button>
+              </div>
+              {preview.parseError && (
+                <p className="text-sm text-red-600">{preview.parseError}</p>
+              )}
+            </div>
+          )}
+
+          {preview && preview.lines.length > 0 && (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {FORMAT_LABELS[preview.format]} statement:{" "}
+                  {preview.lines.length} lines,{" "}
+                  {preview.lines.filter((line) => line.duplicate).length}{" "}
+                  already recorded
+                </span>
+                <span className="text-muted-foreground">
+                  {selected.length} selected, net K
+                  {selectedTotal.toLocaleString()}
+                </span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">
+                      <Checkbox
+                        checked={selected.length === preview.lines.length}
+                        onCheckedChange={(checked) =>
+                          setSelected(
+                            checked === true
+                              ? preview.lines.map((_, index) => index)
+                              : []
+                          )
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(index)}
+                          onCheckedChange={(checked) =>
+                            setSelected(
+                              checked === true
+                                ? [...selected, index]
+                                : selected.filter((i) => i !== index)
+                            )
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {format(new Date(line.date), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell className="max-w-[260px]">
+                        <div className="truncate">{line.description}</div>
+                        {(line.counterpartyPhone || line.fee) && (
+                          <div className="truncate text-xs text-muted-foreground">
+                            {[
+                              line.counterpartyPhone &&
+                                (line.contactName
+                                  ? `${line.counterpartyPhone} (${line.contactName})`
+                                  : line.counterpartyPhone),
+                              line.fee && `Fee K${line.fee.toLocaleString()}`,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {line.reference || "-"}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${
+                          line.amount > 0 ? "text-green-600" : "text-red-600"
+                        }`}
+                      >
+                        {line.amount > 0 ? "+" : "-"}K
+                        {Math.abs(line.amount).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {line.duplicate ? (
+                          <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300">
+                            Duplicate
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">New</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        {preview && preview.lines.length > 0 && (
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={loading || selected.length === 0}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {selected.length} Transaction
+              {selected.length === 1 ? "" : "s"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
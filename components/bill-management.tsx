@@ -0,0 +1,941 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Separator } from "@/components/ui/separator"
+import { Plus, Search, Edit, Trash2, Eye, Wallet, FileText, Clock, CheckCircle, AlertCircle } from "lucide-react"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { useRouter } from "next/navigation"
+import { createBill, deleteBill, getBillItems, updateBill } from "@/lib/actions/bills"
+import { deleteBillPayment, getBillPayments, recordBillPayment } from "@/lib/actions/bill-payments"
+import type { BillStatus, PaymentMethod } from "@/db/schema"
+
+const BILL_STATUS = {
+  draft: {
+    label: "Draft",
+    color: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300",
+    icon: FileText,
+  },
+  open: {
+    label: "Open",
+    color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+    icon: Clock,
+  },
+  partially_paid: {
+    label: "Partially Paid",
+    color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+    icon: Clock,
+  },
+  paid: {
+    label: "Paid",
+    color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+    icon: CheckCircle,
+  },
+} as const
+
+const OVERDUE_BADGE = "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+
+const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+  mobile_money: "Mobile Money",
+  card: "Card",
+  cheque: "Cheque",
+  other: "Other",
+}
+
+// Suggest a payment method from the kind of account the money leaves
+const METHOD_FOR_ACCOUNT_TYPE: Record<string, PaymentMethod> = {
+  cash: "cash",
+  bank: "bank_transfer",
+  mobile: "mobile_money",
+  credit: "card",
+}
+
+export interface DisplayBill {
+  id: string
+  billNumber: string
+  vendorId: string
+  vendorName: string
+  billDate: Date
+  dueDate: Date
+  status: BillStatus
+  subtotal: string
+  taxRate: string | null
+  taxAmount: string | null
+  total: string
+  paidAmount: string
+  notes: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+interface BillLineItem {
+  description: string
+  quantity: number
+  unitPrice: number
+  accountId: string
+}
+
+interface BillFormData {
+  billNumber: string
+  vendorId: string
+  billDate: string
+  dueDate: string
+  status: "draft" | "open"
+  taxRate: number
+  notes: string
+  lineItems: BillLineItem[]
+}
+
+interface BillPayment {
+  id: string
+  paymentDate: Date
+  amount: string
+  method: PaymentMethod
+  accountName: string
+  reference: string | null
+}
+
+interface Vendor {
+  id: string
+  name: string
+  email: string | null
+}
+
+interface Account {
+  id: string
+  name: string
+  type: string
+}
+
+interface ExpenseAccount {
+  id: string
+  code: string | null
+  name: string
+}
+
+interface BillManagementProps {
+  initialBills: DisplayBill[]
+  initialVendors: Vendor[]
+  initialAccounts: Account[]
+  initialExpenseAccounts: ExpenseAccount[]
+}
+
+const EMPTY_LINE: BillLineItem = { description: "", quantity: 1, unitPrice: 0, accountId: "default" }
+
+const emptyForm = (): BillFormData => ({
+  billNumber: "",
+  vendorId: "",
+  billDate: format(new Date(), "yyyy-MM-dd"),
+  dueDate: format(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), "yyyy-MM-dd"),
+  status: "open",
+  taxRate: 0,
+  notes: "",
+  lineItems: [{ ...EMPTY_LINE }],
+})
+
+const outstandingBalance = (bill: DisplayBill) =>
+  Number.parseFloat(bill.total || "0") - Number.parseFloat(bill.paidAmount || "0")
+
+const isOverdue = (bill: DisplayBill) =>
+  (bill.status === "open" || bill.status === "partially_paid") && new Date(bill.dueDate) < new Date()
+
+export function BillManagement({
+  initialBills,
+  initialVendors,
+  initialAccounts,
+  initialExpenseAccounts,
+}: BillManagementProps) {
+  const router = useRouter()
+  const bills = initialBills
+  const vendors = initialVendors
+  const accounts = initialAccounts
+  const expenseAccounts = initialExpenseAccounts
+  const [searchTerm, setSearchTerm] = useState("")
+  const [selectedStatus, setSelectedStatus] = useState<string>("ALL")
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingBill, setEditingBill] = useState<DisplayBill | null>(null)
+  const [formData, setFormData] = useState<BillFormData>(emptyForm)
+  const [viewingBill, setViewingBill] = useState<DisplayBill | null>(null)
+  const [isViewDialogOpen, setIsViewDialogOpen] = useState(false)
+  const [payments, setPayments] = useState<BillPayment[]>([])
+  const [payingBill, setPayingBill] = useState<DisplayBill | null>(null)
+  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false)
+  const [paymentFormData, setPaymentFormData] = useState({
+    paymentDate: format(new Date(), "yyyy-MM-dd"),
+    amount: "",
+    accountId: "",
+    method: "cash" as PaymentMethod,
+    reference: "",
+    notes: "",
+  })
+
+  const filteredBills = bills.filter((bill) => {
+    const matchesSearch =
+      bill.billNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      bill.vendorName.toLowerCase().includes(searchTerm.toLowerCase())
+    const matchesStatus =
+      selectedStatus === "ALL" || (selectedStatus === "overdue" ? isOverdue(bill) : bill.status === selectedStatus)
+    return matchesSearch && matchesStatus
+  })
+
+  const subtotal = formData.lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+  const taxAmount = (subtotal * formData.taxRate) / 100
+  const total = subtotal + taxAmount
+
+  const summary = {
+    outstanding: filteredBills
+      .filter((bill) => bill.status !== "draft")
+      .reduce((sum, bill) => sum + outstandingBalance(bill), 0),
+    overdue: filteredBills.filter(isOverdue).reduce((sum, bill) => sum + outstandingBalance(bill), 0),
+    paid: filteredBills.reduce((sum, bill) => sum + Number.parseFloat(bill.paidAmount || "0"), 0),
+    openCount: filteredBills.filter((bill) => bill.status === "open" || bill.status === "partially_paid").length,
+  }
+
+  const updateLineItem = (index: number, changes: Partial<BillLineItem>) => {
+    const lineItems = [...formData.lineItems]
+    lineItems[index] = { ...lineItems[index], ...changes }
+    setFormData({ ...formData, lineItems })
+  }
+
+  const resetForm = () => {
+    setFormData(emptyForm())
+    setEditingBill(null)
+    setIsDialogOpen(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const data = new FormData()
+      data.append("billNumber", formData.billNumber)
+      data.append("vendorId", formData.vendorId)
+      data.append("billDate", formData.billDate)
+      data.append("dueDate", formData.dueDate)
+      data.append("status", formData.status)
+      data.append("taxRate", formData.taxRate.toString())
+      data.append("notes", formData.notes)
+      data.append(
+        "items",
+        JSON.stringify(
+          formData.lineItems.map((item) => ({
+            ...item,
+            accountId: item.accountId === "default" ? null : item.accountId,
+          })),
+        ),
+      )
+
+      const result = editingBill ? await updateBill(editingBill.id, data) : await createBill(data)
+
+      if (result.success) {
+        toast(editingBill ? "Bill Updated" : "Bill Created", {
+          description: `Bill ${formData.billNumber} has been ${editingBill ? "updated" : "created"} successfully.`,
+        })
+        resetForm()
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to save bill")
+      }
+    } catch (error) {
+      console.error("Error saving bill:", error)
+      toast.error("Failed to save bill")
+    }
+  }
+
+  const handleEdit = async (bill: DisplayBill) => {
+    const result = await getBillItems(bill.id)
+    if (!result.success) {
+      toast.error(result.error || "Failed to load bill details")
+      return
+    }
+
+    setEditingBill(bill)
+    setFormData({
+      billNumber: bill.billNumber,
+      vendorId: bill.vendorId,
+      billDate: format(new Date(bill.billDate), "yyyy-MM-dd"),
+      dueDate: format(new Date(bill.dueDate), "yyyy-MM-dd"),
+      status: bill.status === "draft" ? "draft" : "open",
+      taxRate: Number.parseFloat(bill.taxRate || "0"),
+      notes: bill.notes || "",
+      lineItems: (result.data ?? []).map((item) => ({
+        description: item.description,
+        quantity: Number.parseFloat(item.quantity),
+        unitPrice: Number.parseFloat(item.unitPrice),
+        accountId: item.accountId ?? "default",
+      })),
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = async (billId: string) => {
+    try {
+      const result = await deleteBill(billId)
+      if (result.success) {
+        toast("Bill Deleted", { description: "The bill has been deleted successfully." })
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to delete bill")
+      }
+    } catch (error) {
+      console.error("Error deleting bill:", error)
+      toast.error("Failed to delete bill")
+    }
+  }
+
+  const loadPayments = async (billId: string) => {
+    const result = await getBillPayments(billId)
+    setPayments(result.success ? (result.data ?? []) : [])
+  }
+
+  const handleView = (bill: DisplayBill) => {
+    setViewingBill(bill)
+    setPayments([])
+    setIsViewDialogOpen(true)
+    loadPayments(bill.id)
+  }
+
+  const openPaymentDialog = (bill: DisplayBill) => {
+    setPayingBill(bill)
+    setPaymentFormData({
+      paymentDate: format(new Date(), "yyyy-MM-dd"),
+      amount: outstandingBalance(bill).toFixed(2),
+      accountId: "",
+      method: "cash",
+      reference: "",
+      notes: "",
+    })
+    setIsPaymentDialogOpen(true)
+  }
+
+  const handlePayment = async () => {
+    if (!payingBill) return
+
+    try {
+      const data = new FormData()
+      Object.entries(paymentFormData).forEach(([key, value]) => data.append(key, value))
+
+      const result = await recordBillPayment(payingBill.id, data)
+      if (!result.success) {
+        toast.error(result.error || "Failed to record payment")
+        return
+      }
+
+      toast.success("Payment Recorded", {
+        description: `Payment against Bill ${payingBill.billNumber} has been recorded.`,
+      })
+      if (viewingBill?.id === payingBill.id && result.data?.bill) {
+        setViewingBill({ ...viewingBill, ...result.data.bill })
+        loadPayments(payingBill.id)
+      }
+      setIsPaymentDialogOpen(false)
+      setPayingBill(null)
+      router.refresh()
+    } catch (error) {
+      console.error("Error recording bill payment:", error)
+      toast.error("Failed to record payment")
+    }
+  }
+
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      const result = await deleteBillPayment(paymentId)
+      if (!result.success) {
+        toast.error(result.error || "Failed to delete payment")
+        return
+      }
+
+      toast("Payment Deleted", { description: "The payment and its transaction have been removed." })
+      if (viewingBill && result.data) {
+        setViewingBill({ ...viewingBill, ...result.data })
+        loadPayments(viewingBill.id)
+      }
+      router.refresh()
+    } catch (error) {
+      console.error("Error deleting bill payment:", error)
+      toast.error("Failed to delete payment")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Bills</h1>
+          <p className="text-muted-foreground">Track vendor bills and what you owe</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Bill
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSubmit}>
+              <DialogHeader>
+                <DialogTitle>{editingBill ? "Edit Bill" : "Enter New Bill"}</DialogTitle>
+                <DialogDescription>
+                  {editingBill ? "Update the bill details below." : "Record a bill received from a vendor."}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-6 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="vendor">Vendor</Label>
+                    <Select
+                      value={formData.vendorId}
+                      onValueChange={(value) => setFormData({ ...formData, vendorId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select vendor" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {vendors.map((vendor) => (
+                          <SelectItem key={vendor.id} value={vendor.id}>
+                            {vendor.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="billNumber">Bill Number</Label>
+                    <Input
+                      id="billNumber"
+                      value={formData.billNumber}
+                      onChange={(e) => setFormData({ ...formData, billNumber: e.target.value })}
+                      placeholder="Vendor's invoice number"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="billDate">Bill Date</Label>
+                    <Input
+                      id="billDate"
+                      type="date"
+                      value={formData.billDate}
+                      onChange={(e) => setFormData({ ...formData, billDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="dueDate">Due Date</Label>
+                    <Input
+                      id="dueDate"
+                      type="date"
+                      value={formData.dueDate}
+                      onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="status">Status</Label>
+                    <Select
+                      value={formData.status}
+                      onValueChange={(value: "draft" | "open") => setFormData({ ...formData, status: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="open">Open</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label>Line Items</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData({ ...formData, lineItems: [...formData.lineItems, { ...EMPTY_LINE }] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Item
+                  </Button>
+                </div>
+                <div className="space-y-4">
+                  {formData.lineItems.map((item, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                      <div className="col-span-4">
+                        <Label>Description</Label>
+                        <Input
+                          value={item.description}
+                          onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="col-span-3">
+                        <Label>Account</Label>
+                        <Select value={item.accountId} onValueChange={(value) => updateLineItem(index, { accountId: value })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">General Expenses</SelectItem>
+                            {expenseAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {account.code ? `${account.code} · ` : ""}
+                                {account.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-2">
+                        <Label>Quantity</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.quantity}
+                          onChange={(e) => updateLineItem(index, { quantity: Number.parseFloat(e.target.value) || 0 })}
+                          required
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <Label>Unit Price</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.unitPrice}
+                          onChange={(e) => updateLineItem(index, { unitPrice: Number.parseFloat(e.target.value) || 0 })}
+                          required
+                        />
+                      </div>
+                      <div className="col-span-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={formData.lineItems.length === 1}
+                          onClick={() =>
+                            setFormData({ ...formData, lineItems: formData.lineItems.filter((_, i) => i !== index) })
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Separator />
+                  <div className="flex justify-between">
+                    <span>Subtotal:</span>
+                    <span>K{subtotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center gap-2">
+                      <span>Tax Rate:</span>
+                      <Input
+                        type="number"
+                        value={formData.taxRate}
+                        onChange={(e) => setFormData({ ...formData, taxRate: Number.parseFloat(e.target.value) || 0 })}
+                        className="w-20"
+                        step="0.1"
+                        min="0"
+                        max="100"
+                      />
+                      <span>%</span>
+                    </div>
+                    <span>K{taxAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Total:</span>
+                    <span>K{total.toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    placeholder="Additional notes..."
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={!formData.vendorId}>
+                  {editingBill ? "Update Bill" : "Save Bill"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">K{summary.outstanding.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">{summary.openCount} open bills</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+            <AlertCircle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">K{summary.overdue.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">{filteredBills.filter(isOverdue).length} bills</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Paid</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">K{summary.paid.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              {filteredBills.filter((bill) => bill.status === "paid").length} bills settled
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{filteredBills.filter((bill) => bill.status === "draft").length}</div>
+            <p className="text-xs text-muted-foreground">not yet posted</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vendor Bills</CardTitle>
+          <CardDescription>View and pay bills from your vendors</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4 mb-6">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search bills..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Status</SelectItem>
+                {Object.entries(BILL_STATUS).map(([key, value]) => (
+                  <SelectItem key={key} value={key}>
+                    {value.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value="overdue">Overdue</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bill #</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Bill Date</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredBills.map((bill) => (
+                <TableRow key={bill.id}>
+                  <TableCell className="font-mono font-medium">{bill.billNumber}</TableCell>
+                  <TableCell>{bill.vendorName}</TableCell>
+                  <TableCell>{format(new Date(bill.billDate), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>{format(new Date(bill.dueDate), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>
+                    <Badge className={isOverdue(bill) ? OVERDUE_BADGE : BILL_STATUS[bill.status].color}>
+                      {isOverdue(bill) ? "Overdue" : BILL_STATUS[bill.status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    K{Number.parseFloat(bill.total).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">K{outstandingBalance(bill).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleView(bill)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(bill)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      {(bill.status === "open" || bill.status === "partially_paid") && (
+                        <Button variant="ghost" size="sm" onClick={() => openPaymentDialog(bill)}>
+                          <Wallet className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(bill.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredBills.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No bills found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          {viewingBill && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Bill {viewingBill.billNumber}</DialogTitle>
+                <DialogDescription>{viewingBill.vendorName}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <p>
+                    <strong>Bill Date:</strong> {format(new Date(viewingBill.billDate), "MMM dd, yyyy")}
+                  </p>
+                  <p className="text-right">
+                    <strong>Due Date:</strong> {format(new Date(viewingBill.dueDate), "MMM dd, yyyy")}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Separator />
+                  <div className="flex justify-between">
+                    <span>Subtotal:</span>
+                    <span>K{Number.parseFloat(viewingBill.subtotal).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Tax:</span>
+                    <span>K{Number.parseFloat(viewingBill.taxAmount || "0").toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Total:</span>
+                    <span>K{Number.parseFloat(viewingBill.total).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-green-600">
+                    <span>Paid:</span>
+                    <span>K{Number.parseFloat(viewingBill.paidAmount).toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Balance Due:</span>
+                    <span>K{outstandingBalance(viewingBill).toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold">Payment History</h3>
+                    {viewingBill.status !== "draft" && outstandingBalance(viewingBill) > 0 && (
+                      <Button variant="outline" size="sm" onClick={() => openPaymentDialog(viewingBill)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Record Payment
+                      </Button>
+                    )}
+                  </div>
+                  {payments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Method</TableHead>
+                          <TableHead>Account</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {payments.map((payment) => (
+                          <TableRow key={payment.id}>
+                            <TableCell>
+                              {format(new Date(payment.paymentDate), "MMM dd, yyyy")}
+                              {payment.reference && (
+                                <p className="text-xs text-muted-foreground">{payment.reference}</p>
+                              )}
+                            </TableCell>
+                            <TableCell>{PAYMENT_METHODS[payment.method]}</TableCell>
+                            <TableCell>{payment.accountName}</TableCell>
+                            <TableCell className="text-right font-mono">
+                              K{Number.parseFloat(payment.amount).toFixed(2)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => handleDeletePayment(payment.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+
+                {viewingBill.notes && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Notes</h3>
+                    <p className="text-sm text-muted-foreground">{viewingBill.notes}</p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Pay Bill</DialogTitle>
+            <DialogDescription>Record a full or partial payment for Bill {payingBill?.billNumber}.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label>Balance Due</Label>
+              <div className="text-2xl font-bold text-red-600">
+                K{payingBill ? outstandingBalance(payingBill).toLocaleString() : "0"}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="paymentDate">Payment Date</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={paymentFormData.paymentDate}
+                  onChange={(e) => setPaymentFormData({ ...paymentFormData, paymentDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="paymentAmount">Amount</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={paymentFormData.amount}
+                  onChange={(e) => setPaymentFormData({ ...paymentFormData, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Pay From Account</Label>
+              <Select
+                value={paymentFormData.accountId}
+                onValueChange={(value) => {
+                  const account = accounts.find((a) => a.id === value)
+                  setPaymentFormData({
+                    ...paymentFormData,
+                    accountId: value,
+                    method: METHOD_FOR_ACCOUNT_TYPE[account?.type ?? ""] ?? paymentFormData.method,
+                  })
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select paying account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({account.type})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Method</Label>
+              <Select
+                value={paymentFormData.method}
+                onValueChange={(value: PaymentMethod) => setPaymentFormData({ ...paymentFormData, method: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHODS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="paymentReference">Reference</Label>
+              <Input
+                id="paymentReference"
+                value={paymentFormData.reference}
+                onChange={(e) => setPaymentFormData({ ...paymentFormData, reference: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handlePayment}
+              disabled={!paymentFormData.accountId || !(Number.parseFloat(paymentFormData.amount) > 0)}
+            >
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import type { CategoryTotal } from "@/lib/categories";
+import { currencySymbol } from "@/lib/currency";
+
+interface CategoryBreakdownProps {
+  breakdown: { income: CategoryTotal[]; expense: CategoryTotal[] };
+  currency: string;
+}
+
+function CategoryList({
+  title,
+  totals,
+  color,
+  currency,
+}: {
+  title: string;
+  totals: CategoryTotal[];
+  color: string;
+  currency: string;
+}) {
+  return (
+    <div>
+      <h4 className={`font-semibold mb-2 ${color}`}>{title}</h4>
+      {totals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No transactions</p>
+      ) : (
+        <div className="space-y-2">
+          {totals.map((entry) => (
+            <div key={entry.categoryId ?? "uncategorised"}>
+              <div className="flex justify-between">
+                <span
+                  className={entry.categoryId ? "" : "text-muted-foreground"}
+                >
+                  {entry.name}
+                </span>
+                <span className={`font-mono ${color}`}>
+                  {currencySymbol(currency)}
+                  {entry.total.toLocaleString()}
+                </span>
+              </div>
+              {entry.subcategories.map((sub) => (
+                <div
+                  key={sub.categoryId}
+                  className="flex justify-between pl-4 text-sm text-muted-foreground"
+                >
+                  <span>{sub.name}</span>
+                  <span className="font-mono">
+                    {currencySymbol(currency)}
+                    {sub.total.toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Income and expense totals per category, with subcategories listed under their parent
+ */
+export function CategoryBreakdown({ breakdown, currency }: CategoryBreakdownProps) {
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <CategoryList
+        title="Income"
+        totals={breakdown.income}
+        color="text-green-600"
+        currency={currency}
+      />
+      <CategoryList
+        title="Expenses"
+        totals={breakdown.expense}
+        color="text-red-600"
+        currency={currency}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tags, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { createCategory, deleteCategory } from "@/lib/actions/categories";
+
+export interface Category {
+  id: string;
+  name: string;
+  type: "income" | "expense";
+  parentId: string | null;
+  isActive: boolean;
+}
+
+const NO_PARENT = "none";
+
+/**
+ * Display name of a category, prefixed with its parent for subcategories
+ */
+export function categoryLabel(category: Category, categories: Category[]) {
+  const parent = categories.find((c) => c.id === category.parentId);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+}
+
+/**
+ * Categories ordered so that each subcategory follows its parent
+ */
+export function sortCategories(categories: Category[]) {
+  const topLevel = categories
+    .filter((c) => !c.parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return topLevel.flatMap((parent) => [
+    parent,
+    ...categories
+      .filter((c) => c.parentId === parent.id)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  ]);
+}
+
+interface CategoryManagerProps {
+  categories: Category[];
+  onCategoriesChange: (categories: Category[]) => void;
+}
+
+export function CategoryManager({
+  categories,
+  onCategoriesChange,
+}: CategoryManagerProps) {
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: "",
+    type: "expense" as Category["type"],
+    parentId: NO_PARENT,
+  });
+
+  const parentOptions = categories.filter(
+    (c) => c.type === formData.type && !c.parentId
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const formDataObj = new FormData();
+    formDataObj.append("name", formData.name);
+    formDataObj.append("type", formData.type);
+    if (formData.parentId !== NO_PARENT) {
+      formDataObj.append("parentId", formData.parentId);
+    }
+
+    const result = await createCategory(formDataObj);
+    if (result.success && result.data) {
+      onCategoriesChange([...categories, result.data]);
+      setFormData({ ...formData, name: "" });
+      toast.success("Category created");
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleDelete = async (category: Category) => {
+    setLoading(true);
+    const result = await deleteCategory(category.id);
+    if (result.success) {
+      // Mirror the database: subcategories move to the top level
+      onCategoriesChange(
+        categories
+          .filter((c) => c.id !== category.id)
+          .map((c) =>
+            c.parentId === category.id ? { ...c, parentId: null } : c
+          )
+      );
+      toast.success("Category deleted");
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Tags className="mr-2 h-4 w-4" />
+          Categories
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            Group income and expense transactions. Subcategories roll up into
+            their parent in reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="grid gap-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="categoryName">Name</Label>
+              <Input
+                id="categoryName"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="Office Supplies"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="categoryType">Type</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value: Category["type"]) =>
+                  setFormData({ ...formData, type: value, parentId: NO_PARENT })
+                }
+              >
+                <SelectTrigger id="categoryType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="income">Income</SelectItem>
+                  <SelectItem value="expense">Expense</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="categoryParent">Parent</Label>
+            <Select
+              value={formData.parentId}
+              onValueChange={(value) =>
+                setFormData({ ...formData, parentId: value })
+              }
+            >
+              <SelectTrigger id="categoryParent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                {parentOptions.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={loading}>
+            Add Category
+          </Button>
+        </form>
+
+        <div className="max-h-[300px] space-y-1 overflow-y-auto">
+          {categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No categories yet.
+            </p>
+          ) : (
+            sortCategories(categories).map((category) => (
+              <div
+                key={category.id}
+                className="flex items-center justify-between rounded-md border p-2"
+              >
+                <span
+                  className={`text-sm ${category.parentId ? "pl-4" : "font-medium"}`}
+                >
+                  {category.name}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {category.type === "income" ? "Income" : "Expense"}
+                  </Badge>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={loading}
+                    onClick={() => handleDelete(category)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -42,6 +42,7 @@ import {
   deleteContact,
 } from "@/lib/actions/contacts";
 import { toast } from "sonner";
+import { CURRENCIES } from "@/lib/currency";
 
 interface Contact {
   id: string;
@@ -51,6 +52,7 @@ interface Contact {
   address?: string | null;
   type: "customer" | "vendor";
   taxId?: string | null;
+  currency: string;
   balance: string | null;
   isActive: boolean | null;
   createdAt: Date | null;
@@ -89,6 +91,7 @@ export function ContactManagement({
     address: "",
     type: "customer" as "customer" | "vendor",
     taxId: "",
+    currency: "base",
     notes: "",
   });
 
@@ -114,6 +117,9 @@ export function ContactManagement({
       formDataObj.append("address", formData.address);
       formDataObj.append("type", formData.type);
       formDataObj.append("taxId", formData.taxId);
+      if (formData.currency !== "base") {
+        formDataObj.append("currency", formData.currency);
+      }
 
       let result;
       if (editingContact) {
@@ -170,6 +176,7 @@ export function ContactManagement({
       address: "",
       type: "customer",
       taxId: "",
+      currency: "base",
       notes: "",
     });
     setEditingContact(null);
@@ -191,6 +198,7 @@ export function ContactManagement({
               <Badge className={getTypeColor(contact.type)}>
                 {contact.type}
               </Badge>
+              <Badge variant="outline">{contact.currency}</Badge>
             </div>
             <div className="space-y-2 text-sm text-muted-foreground">
               {contact.email && (
@@ -240,6 +248,7 @@ export function ContactManagement({
                   address: contact.address || "",
                   type: contact.type,
                   taxId: contact.taxId || "",
+                  currency: contact.currency,
                   notes: "",
                 });
                 setIsDialogOpen(true);
@@ -365,16 +374,39 @@ export function ContactManagement({
                   />
                 </div>
 
-                <div>
-                  <Label htmlFor="taxId">Tax ID</Label>
-                  <Input
-                    id="taxId"
-                    value={formData.taxId}
-                    onChange={(e) =>
-                      setFormData({ ...formData, taxId: e.target.value })
-                    }
-                    placeholder="Tax identification number"
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="taxId">Tax ID</Label>
+                    <Input
+                      id="taxId"
+                      value={formData.taxId}
+                      onChange={(e) =>
+                        setFormData({ ...formData, taxId: e.target.value })
+                      }
+                      placeholder="Tax identification number"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="currency">Currency</Label>
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, currency: value })
+                      }
+                    >
+                      <SelectTrigger id="currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="base">Base currency</SelectItem>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               </div>
               <DialogFooter>
@@ -0,0 +1,856 @@
+"use client"
+
+import { Fragment, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Separator } from "@/components/ui/separator"
+import { Plus, Search, Trash2, Ban, Send, Banknote, ArrowRightLeft, Undo2 } from "lucide-react"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { useRouter } from "next/navigation"
+import {
+  applyCustomerCredit,
+  createCreditNote,
+  deleteCreditNote,
+  deleteCreditRefund,
+  getCreditableInvoiceLines,
+  issueCreditNote,
+  refundCustomerCredit,
+  unapplyCustomerCredit,
+  voidCreditNote,
+} from "@/lib/actions/credit-notes"
+import { currencySymbol } from "@/lib/currency"
+import type { CreditNoteStatus, InvoiceStatus, PaymentMethod, TaxCodeKind } from "@/db/schema"
+
+const CREDIT_NOTE_STATUS: Record<CreditNoteStatus, { label: string; color: string }> = {
+  draft: { label: "Draft", color: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300" },
+  issued: { label: "Issued", color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300" },
+  void: { label: "Void", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300" },
+}
+
+const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+  mobile_money: "Mobile Money",
+  card: "Card",
+  cheque: "Cheque",
+  other: "Other",
+}
+
+// Suggest a payment method from the kind of account the money leaves
+const METHOD_FOR_ACCOUNT_TYPE: Record<string, PaymentMethod> = {
+  cash: "cash",
+  bank: "bank_transfer",
+  mobile: "mobile_money",
+  credit: "card",
+}
+
+interface DisplayCreditNote {
+  id: string
+  creditNoteNumber: string
+  customerName: string
+  invoiceNumber: string
+  issueDate: Date
+  status: CreditNoteStatus
+  total: string
+  currency: string
+  reason: string | null
+}
+
+interface CustomerCredit {
+  id: string
+  contactId: string
+  contactName: string
+  creditNoteNumber: string | null
+  amount: number
+  currency: string
+  remaining: number
+  createdAt: Date | null
+  applications: { id: string; invoiceNumber: string; applicationDate: Date; amount: string }[]
+  refunds: { id: string; refundDate: Date; amount: string; method: PaymentMethod; accountName: string }[]
+}
+
+interface Invoice {
+  id: string
+  invoiceNumber: string
+  customerId: string
+  customerName: string
+  status: InvoiceStatus | null
+  total: string
+  paidAmount: string | null
+  taxRate: string | null
+  currency: string
+}
+
+interface Account {
+  id: string
+  name: string
+  type: string | null
+  currency: string
+}
+
+interface CreditableLine {
+  id: string
+  description: string
+  unitPrice: string
+  taxCodeId: string | null
+  taxRate: string
+  kind: TaxCodeKind | null
+  remainingQuantity: number
+  quantity: string
+}
+
+interface CreditNoteManagementProps {
+  initialCreditNotes: DisplayCreditNote[]
+  initialCredits: CustomerCredit[]
+  initialInvoices: Invoice[]
+  initialAccounts: Account[]
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd")
+
+const outstandingBalance = (invoice: Invoice) =>
+  Number.parseFloat(invoice.total || "0") - Number.parseFloat(invoice.paidAmount || "0")
+
+const money = (currency: string, amount: number) => `${currencySymbol(currency)}${amount.toFixed(2)}`
+
+export function CreditNoteManagement({
+  initialCreditNotes,
+  initialCredits,
+  initialInvoices,
+  initialAccounts,
+}: CreditNoteManagementProps) {
+  const router = useRouter()
+  const creditNotes = initialCreditNotes
+  const credits = initialCredits
+  const issuedInvoices = initialInvoices.filter((invoice) => invoice.status && invoice.status !== "draft")
+  const accounts = initialAccounts
+  const [searchTerm, setSearchTerm] = useState("")
+
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
+  const [creditForm, setCreditForm] = useState({
+    invoiceId: "",
+    issueDate: today(),
+    reason: "",
+    status: "issued" as "draft" | "issued",
+    applyToInvoice: true,
+  })
+  const [lines, setLines] = useState<CreditableLine[]>([])
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+
+  const [applyingCredit, setApplyingCredit] = useState<CustomerCredit | null>(null)
+  const [applicationForm, setApplicationForm] = useState({ invoiceId: "", amount: "", applicationDate: today() })
+
+  const [refundingCredit, setRefundingCredit] = useState<CustomerCredit | null>(null)
+  const [refundForm, setRefundForm] = useState({
+    refundDate: today(),
+    amount: "",
+    accountId: "",
+    method: "bank_transfer" as PaymentMethod,
+    reference: "",
+  })
+
+  const filteredCreditNotes = creditNotes.filter(
+    (creditNote) =>
+      creditNote.creditNoteNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      creditNote.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      creditNote.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()),
+  )
+
+  const creditedInvoice = issuedInvoices.find((invoice) => invoice.id === creditForm.invoiceId)
+
+  // Mirrors the server's pricing so the totals shown match what is posted
+  const preview = lines.reduce(
+    (totals, line) => {
+      const quantity = Number.parseFloat(quantities[line.id] || "0") || 0
+      const total = Number((quantity * Number.parseFloat(line.unitPrice)).toFixed(2))
+      const rate = Number.parseFloat(line.taxCodeId ? line.taxRate : creditedInvoice?.taxRate || "0")
+      const tax = Number(((total * rate) / 100).toFixed(2))
+      return {
+        subtotal: totals.subtotal + total,
+        taxAmount: totals.taxAmount + (line.kind === "withholding" ? -tax : tax),
+      }
+    },
+    { subtotal: 0, taxAmount: 0 },
+  )
+
+  const openCreateDialog = () => {
+    setCreditForm({ invoiceId: "", issueDate: today(), reason: "", status: "issued", applyToInvoice: true })
+    setLines([])
+    setQuantities({})
+    setIsCreateDialogOpen(true)
+  }
+
+  const selectInvoice = async (invoiceId: string) => {
+    setCreditForm({ ...creditForm, invoiceId })
+    const result = await getCreditableInvoiceLines(invoiceId)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load invoice lines")
+      return
+    }
+    setLines(result.data)
+    setQuantities(Object.fromEntries(result.data.map((line) => [line.id, String(line.remainingQuantity)])))
+  }
+
+  const handleCreate = async () => {
+    try {
+      const data = new FormData()
+      data.append("invoiceId", creditForm.invoiceId)
+      data.append("issueDate", creditForm.issueDate)
+      data.append("status", creditForm.status)
+      data.append("reason", creditForm.reason)
+      data.append("applyToInvoice", String(creditForm.applyToInvoice))
+      data.append(
+        "lines",
+        JSON.stringify(lines.map((line) => ({ invoiceItemId: line.id, quantity: quantities[line.id] || 0 }))),
+      )
+
+      const result = await createCreditNote(data)
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Failed to create credit note")
+        return
+      }
+
+      const { creditNote, applied } = result.data
+      toast.success(`Credit note ${creditNote.creditNoteNumber} ${creditNote.status === "draft" ? "saved" : "issued"}`, {
+        description:
+          applied > 0
+            ? `${money(creditNote.currency, applied)} was applied to the invoice.`
+            : creditNote.status === "issued"
+              ? "The amount is held as credit for the customer."
+              : undefined,
+      })
+      setIsCreateDialogOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error("Error creating credit note:", error)
+      toast.error("Failed to create credit note")
+    }
+  }
+
+  const handleIssue = async (creditNote: DisplayCreditNote) => {
+    const applyToInvoice = confirm(`Apply ${creditNote.creditNoteNumber} to Invoice ${creditNote.invoiceNumber}?`)
+    const result = await issueCreditNote(creditNote.id, applyToInvoice)
+    if (result.success) {
+      toast.success(`Credit note ${creditNote.creditNoteNumber} issued`)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to issue credit note")
+    }
+  }
+
+  const handleVoid = async (creditNote: DisplayCreditNote) => {
+    if (!confirm(`Void ${creditNote.creditNoteNumber}? Any credit applied from it is taken back off invoices.`)) {
+      return
+    }
+    const result = await voidCreditNote(creditNote.id)
+    if (result.success) {
+      toast(`Credit note ${creditNote.creditNoteNumber} voided`)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to void credit note")
+    }
+  }
+
+  const handleDelete = async (creditNote: DisplayCreditNote) => {
+    const result = await deleteCreditNote(creditNote.id)
+    if (result.success) {
+      toast(`Credit note ${creditNote.creditNoteNumber} deleted`)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete credit note")
+    }
+  }
+
+  const openApplyDialog = (credit: CustomerCredit) => {
+    setApplyingCredit(credit)
+    setApplicationForm({ invoiceId: "", amount: credit.remaining.toFixed(2), applicationDate: today() })
+  }
+
+  // Credit settles the same customer's open invoices in its own currency
+  const applicableInvoices = applyingCredit
+    ? issuedInvoices.filter(
+        (invoice) =>
+          invoice.customerId === applyingCredit.contactId &&
+          invoice.currency === applyingCredit.currency &&
+          outstandingBalance(invoice) > 0,
+      )
+    : []
+
+  const handleApply = async () => {
+    if (!applyingCredit) return
+
+    const data = new FormData()
+    Object.entries(applicationForm).forEach(([key, value]) => data.append(key, value))
+
+    const result = await applyCustomerCredit(applyingCredit.id, data)
+    if (result.success) {
+      toast.success("Credit applied")
+      setApplyingCredit(null)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to apply credit")
+    }
+  }
+
+  const handleUnapply = async (applicationId: string) => {
+    const result = await unapplyCustomerCredit(applicationId)
+    if (result.success) {
+      toast("Credit application removed")
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to remove credit application")
+    }
+  }
+
+  const openRefundDialog = (credit: CustomerCredit) => {
+    setRefundingCredit(credit)
+    setRefundForm({
+      refundDate: today(),
+      amount: credit.remaining.toFixed(2),
+      accountId: "",
+      method: "bank_transfer",
+      reference: "",
+    })
+  }
+
+  const handleRefund = async () => {
+    if (!refundingCredit) return
+
+    const data = new FormData()
+    Object.entries(refundForm).forEach(([key, value]) => data.append(key, value))
+
+    const result = await refundCustomerCredit(refundingCredit.id, data)
+    if (result.success) {
+      toast.success("Refund recorded", { description: `${refundingCredit.contactName} has been refunded.` })
+      setRefundingCredit(null)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to refund credit")
+    }
+  }
+
+  const handleDeleteRefund = async (refundId: string) => {
+    const result = await deleteCreditRefund(refundId)
+    if (result.success) {
+      toast("Refund deleted", { description: "The refund and its transaction have been removed." })
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete refund")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Credit Notes</h1>
+          <p className="text-muted-foreground">Credit customers for returns and corrections, then apply or refund it</p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Credit Note
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Credit Notes</CardTitle>
+          <CardDescription>Credit notes raised against issued invoices</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="relative mb-6">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search credit notes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credit Note #</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredCreditNotes.map((creditNote) => (
+                <TableRow key={creditNote.id}>
+                  <TableCell className="font-mono font-medium">
+                    {creditNote.creditNoteNumber}
+                    {creditNote.reason && <p className="text-xs text-muted-foreground">{creditNote.reason}</p>}
+                  </TableCell>
+                  <TableCell>{creditNote.customerName}</TableCell>
+                  <TableCell className="font-mono">{creditNote.invoiceNumber}</TableCell>
+                  <TableCell>{format(new Date(creditNote.issueDate), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>
+                    <Badge className={CREDIT_NOTE_STATUS[creditNote.status].color}>
+                      {CREDIT_NOTE_STATUS[creditNote.status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {money(creditNote.currency, Number.parseFloat(creditNote.total))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {creditNote.status === "draft" && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => handleIssue(creditNote)}>
+                            <Send className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(creditNote)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {creditNote.status === "issued" && (
+                        <Button variant="ghost" size="sm" onClick={() => handleVoid(creditNote)}>
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredCreditNotes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No credit notes found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Credit</CardTitle>
+          <CardDescription>Credit from credit notes and overpayments, and how it has been used</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {credits.map((credit) => (
+                <Fragment key={credit.id}>
+                  <TableRow>
+                    <TableCell className="font-medium">{credit.contactName}</TableCell>
+                    <TableCell>
+                      {credit.creditNoteNumber ? `Credit note ${credit.creditNoteNumber}` : "Overpayment"}
+                      {credit.createdAt && (
+                        <p className="text-xs text-muted-foreground">{format(new Date(credit.createdAt), "MMM dd, yyyy")}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{money(credit.currency, credit.amount)}</TableCell>
+                    <TableCell className="text-right font-mono font-semibold">
+                      {money(credit.currency, credit.remaining)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {credit.remaining > 0 && (
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openApplyDialog(credit)}>
+                            <ArrowRightLeft className="mr-2 h-4 w-4" />
+                            Apply
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => openRefundDialog(credit)}>
+                            <Banknote className="mr-2 h-4 w-4" />
+                            Refund
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {credit.applications.map((application) => (
+                    <TableRow key={application.id} className="text-sm text-muted-foreground">
+                      <TableCell />
+                      <TableCell>
+                        Applied to Invoice {application.invoiceNumber} on{" "}
+                        {format(new Date(application.applicationDate), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        -{money(credit.currency, Number.parseFloat(application.amount))}
+                      </TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleUnapply(application.id)}>
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {credit.refunds.map((refund) => (
+                    <TableRow key={refund.id} className="text-sm text-muted-foreground">
+                      <TableCell />
+                      <TableCell>
+                        Refunded by {PAYMENT_METHODS[refund.method].toLowerCase()} from {refund.accountName} on{" "}
+                        {format(new Date(refund.refundDate), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        -{money(credit.currency, Number.parseFloat(refund.amount))}
+                      </TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteRefund(refund.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
+              ))}
+              {credits.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No customer credit is held.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Credit Note</DialogTitle>
+            <DialogDescription>
+              Credit all or part of an issued invoice. Lines are credited at the price and tax they were invoiced at.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-6 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Invoice</Label>
+                <Select value={creditForm.invoiceId} onValueChange={selectInvoice}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select invoice" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {issuedInvoices.map((invoice) => (
+                      <SelectItem key={invoice.id} value={invoice.id}>
+                        {invoice.invoiceNumber} · {invoice.customerName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="creditIssueDate">Issue Date</Label>
+                <Input
+                  id="creditIssueDate"
+                  type="date"
+                  value={creditForm.issueDate}
+                  onChange={(e) => setCreditForm({ ...creditForm, issueDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Select
+                  value={creditForm.status}
+                  onValueChange={(value: "draft" | "issued") => setCreditForm({ ...creditForm, status: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="issued">Issued</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Checkbox
+                  id="applyToInvoice"
+                  checked={creditForm.applyToInvoice}
+                  disabled={creditForm.status === "draft"}
+                  onCheckedChange={(checked) => setCreditForm({ ...creditForm, applyToInvoice: checked === true })}
+                />
+                <Label htmlFor="applyToInvoice">Apply to the invoice&apos;s balance</Label>
+              </div>
+            </div>
+
+            {lines.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                    <TableHead className="w-28 text-right">Credit Qty</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {money(creditedInvoice?.currency ?? "", Number.parseFloat(line.unitPrice))}
+                      </TableCell>
+                      <TableCell className="text-right">{line.remainingQuantity}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={line.remainingQuantity}
+                          step="0.01"
+                          value={quantities[line.id] ?? ""}
+                          disabled={line.remainingQuantity <= 0}
+                          onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {creditedInvoice && (
+              <div className="space-y-2">
+                <Separator />
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>{money(creditedInvoice.currency, preview.subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Tax:</span>
+                  <span>{money(creditedInvoice.currency, preview.taxAmount)}</span>
+                </div>
+                <div className="flex justify-between font-bold text-lg">
+                  <span>Credit Total:</span>
+                  <span>{money(creditedInvoice.currency, preview.subtotal + preview.taxAmount)}</span>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="creditReason">Reason</Label>
+              <Textarea
+                id="creditReason"
+                value={creditForm.reason}
+                onChange={(e) => setCreditForm({ ...creditForm, reason: e.target.value })}
+                placeholder="Returned goods, pricing correction..."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!creditForm.invoiceId || preview.subtotal <= 0}>
+              {creditForm.status === "draft" ? "Save Draft" : "Issue Credit Note"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!applyingCredit} onOpenChange={(open) => !open && setApplyingCredit(null)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Apply Credit</DialogTitle>
+            <DialogDescription>
+              Set {applyingCredit?.contactName}&apos;s credit against one of their open invoices.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label>Available Credit</Label>
+              <div className="text-2xl font-bold text-green-600">
+                {applyingCredit ? money(applyingCredit.currency, applyingCredit.remaining) : ""}
+              </div>
+            </div>
+            <div>
+              <Label>Invoice</Label>
+              <Select
+                value={applicationForm.invoiceId}
+                onValueChange={(value) => {
+                  const invoice = applicableInvoices.find((candidate) => candidate.id === value)
+                  const amount = Math.min(applyingCredit?.remaining ?? 0, invoice ? outstandingBalance(invoice) : 0)
+                  setApplicationForm({ ...applicationForm, invoiceId: value, amount: amount.toFixed(2) })
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={applicableInvoices.length ? "Select invoice" : "No open invoices"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {applicableInvoices.map((invoice) => (
+                    <SelectItem key={invoice.id} value={invoice.id}>
+                      {invoice.invoiceNumber} · {money(invoice.currency, outstandingBalance(invoice))} due
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="applicationDate">Date</Label>
+                <Input
+                  id="applicationDate"
+                  type="date"
+                  value={applicationForm.applicationDate}
+                  onChange={(e) => setApplicationForm({ ...applicationForm, applicationDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="applicationAmount">Amount</Label>
+                <Input
+                  id="applicationAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={applicationForm.amount}
+                  onChange={(e) => setApplicationForm({ ...applicationForm, amount: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyingCredit(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApply}
+              disabled={!applicationForm.invoiceId || !(Number.parseFloat(applicationForm.amount) > 0)}
+            >
+              Apply Credit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!refundingCredit} onOpenChange={(open) => !open && setRefundingCredit(null)}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Refund Credit</DialogTitle>
+            <DialogDescription>Pay {refundingCredit?.contactName}&apos;s credit back to them.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label>Available Credit</Label>
+              <div className="text-2xl font-bold text-green-600">
+                {refundingCredit ? money(refundingCredit.currency, refundingCredit.remaining) : ""}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="refundDate">Refund Date</Label>
+                <Input
+                  id="refundDate"
+                  type="date"
+                  value={refundForm.refundDate}
+                  onChange={(e) => setRefundForm({ ...refundForm, refundDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="refundAmount">Amount</Label>
+                <Input
+                  id="refundAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={refundForm.amount}
+                  onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Pay From Account</Label>
+              <Select
+                value={refundForm.accountId}
+                onValueChange={(value) => {
+                  const account = accounts.find((a) => a.id === value)
+                  setRefundForm({
+                    ...refundForm,
+                    accountId: value,
+                    method: METHOD_FOR_ACCOUNT_TYPE[account?.type ?? ""] ?? refundForm.method,
+                  })
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select paying account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({account.currency})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Method</Label>
+              <Select
+                value={refundForm.method}
+                onValueChange={(value: PaymentMethod) => setRefundForm({ ...refundForm, method: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHODS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="refundReference">Reference</Label>
+              <Input
+                id="refundReference"
+                value={refundForm.reference}
+                onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundingCredit(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRefund}
+              disabled={!refundForm.accountId || !(Number.parseFloat(refundForm.amount) > 0)}
+            >
+              Record Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
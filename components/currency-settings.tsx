@@ -0,0 +1,374 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Coins, Plus, RefreshCw, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  deleteExchangeRate,
+  getCurrencySettings,
+  importExchangeRates,
+  revalueCurrencies,
+  saveExchangeRate,
+  setBaseCurrency,
+} from "@/lib/actions/exchange-rates";
+import { CURRENCIES } from "@/lib/currency";
+import { hasPermission } from "@/lib/permissions";
+import type { MembershipRole } from "@/db/schema";
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rateDate: Date;
+  rate: string;
+}
+
+interface CurrencySettingsData {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  lastRevaluation: Date | null;
+  canChangeBaseCurrency: boolean;
+}
+
+/**
+ * Base currency, stored exchange rates and foreign currency revaluation
+ */
+export function CurrencySettings({ role }: { role: MembershipRole }) {
+  const [settings, setSettings] = useState<CurrencySettingsData | null>(null);
+  const [baseCurrency, setBaseCurrencyValue] = useState("");
+  const [newRate, setNewRate] = useState({
+    currency: "USD",
+    rateDate: format(new Date(), "yyyy-MM-dd"),
+    rate: "",
+  });
+  const [ratesFile, setRatesFile] = useState<File | null>(null);
+  const [revalueDate, setRevalueDate] = useState(
+    format(new Date(), "yyyy-MM-dd")
+  );
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    const result = await getCurrencySettings();
+    if (result.success && result.data) {
+      setSettings(result.data);
+      setBaseCurrencyValue(result.data.baseCurrency);
+    }
+  };
+
+  const handleChangeBaseCurrency = async () => {
+    if (
+      !confirm(
+        `Keep the books in ${baseCurrency}? Stored exchange rates will be cleared.`
+      )
+    ) {
+      return;
+    }
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("baseCurrency", baseCurrency);
+
+    const result = await setBaseCurrency(formData);
+
+    if (result.success) {
+      toast.success(`Base currency set to ${baseCurrency}`);
+      loadSettings();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleSaveRate = async () => {
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("currency", newRate.currency);
+    formData.append("rateDate", newRate.rateDate);
+    formData.append("rate", newRate.rate);
+
+    const result = await saveExchangeRate(formData);
+
+    if (result.success) {
+      toast.success("Exchange rate saved");
+      setNewRate({ ...newRate, rate: "" });
+      loadSettings();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    const result = await deleteExchangeRate(id);
+    if (result.success) {
+      loadSettings();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleImportRates = async () => {
+    if (!ratesFile) {
+      return;
+    }
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("file", ratesFile);
+
+    const result = await importExchangeRates(formData);
+
+    if (result.success && result.data) {
+      toast.success(`Imported ${result.data.imported} exchange rates`);
+      setRatesFile(null);
+      loadSettings();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleRevalue = async () => {
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("asOf", revalueDate);
+
+    const result = await revalueCurrencies(formData);
+
+    if (result.success && result.data) {
+      const { adjustment } = result.data;
+      toast.success(
+        adjustment === 0
+          ? "Foreign currency balances are already at current rates"
+          : `Posted an unrealised ${adjustment > 0 ? "gain" : "loss"} of ${
+              settings?.baseCurrency
+            } ${Math.abs(adjustment).toFixed(2)}`
+      );
+      loadSettings();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  const canManageOrganization = hasPermission(role, "organization:manage");
+  const canManageRates = hasPermission(role, "accounts:manage");
+  const foreignCurrencies = CURRENCIES.filter(
+    (currency) => currency !== settings.baseCurrency
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Currencies
+        </CardTitle>
+        <CardDescription>
+          Rates give the value of one unit of a currency in{" "}
+          {settings.baseCurrency}. Documents use the latest rate on or before
+          their date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="baseCurrency">Base Currency</Label>
+            <Select
+              value={baseCurrency}
+              onValueChange={setBaseCurrencyValue}
+              disabled={!canManageOrganization || !settings.canChangeBaseCurrency}
+            >
+              <SelectTrigger id="baseCurrency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canManageOrganization && settings.canChangeBaseCurrency && (
+            <Button
+              onClick={handleChangeBaseCurrency}
+              disabled={loading || baseCurrency === settings.baseCurrency}
+            >
+              Save
+            </Button>
+          )}
+        </div>
+        {!settings.canChangeBaseCurrency && (
+          <p className="text-sm text-muted-foreground">
+            The base currency is fixed once entries have been posted.
+          </p>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          {settings.rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No exchange rates have been entered.
+            </p>
+          ) : (
+            settings.rates.map((rate) => (
+              <div
+                key={rate.id}
+                className="flex items-center justify-between rounded-md border p-3"
+              >
+                <div>
+                  <p className="font-medium">
+                    1 {rate.currency} = {Number.parseFloat(rate.rate)}{" "}
+                    {settings.baseCurrency}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(rate.rateDate), "MMM dd, yyyy")}
+                  </p>
+                </div>
+                {canManageRates && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteRate(rate.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {canManageRates && (
+          <>
+            <div className="grid grid-cols-[120px_1fr_1fr_auto] items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="rateCurrency">Currency</Label>
+                <Select
+                  value={newRate.currency}
+                  onValueChange={(value) =>
+                    setNewRate({ ...newRate, currency: value })
+                  }
+                >
+                  <SelectTrigger id="rateCurrency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {foreignCurrencies.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rateDate">Date</Label>
+                <Input
+                  id="rateDate"
+                  type="date"
+                  value={newRate.rateDate}
+                  onChange={(e) =>
+                    setNewRate({ ...newRate, rateDate: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate">Rate in {settings.baseCurrency}</Label>
+                <Input
+                  id="rate"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={newRate.rate}
+                  onChange={(e) =>
+                    setNewRate({ ...newRate, rate: e.target.value })
+                  }
+                />
+              </div>
+              <Button onClick={handleSaveRate} disabled={loading || !newRate.rate}>
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="ratesFile">
+                  Import rates (CSV with date, currency and rate columns)
+                </Label>
+                <Input
+                  id="ratesFile"
+                  type="file"
+                  accept=".csv,.txt"
+                  onChange={(e) => setRatesFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleImportRates}
+                disabled={loading || !ratesFile}
+              >
+                <Upload className="h-4 w-4" />
+                Import
+              </Button>
+            </div>
+
+            <Separator />
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="revalueDate">Revalue foreign balances at</Label>
+                <Input
+                  id="revalueDate"
+                  type="date"
+                  value={revalueDate}
+                  onChange={(e) => setRevalueDate(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" onClick={handleRevalue} disabled={loading}>
+                <RefreshCw className="h-4 w-4" />
+                Revalue
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {settings.lastRevaluation
+                ? `Last revalued at ${format(
+                    new Date(settings.lastRevaluation),
+                    "MMM dd, yyyy"
+                  )}. Revaluing again replaces that entry.`
+                : "Foreign currency balances have not been revalued yet."}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { DollarSign, TrendingUp, TrendingDown, Users, FileText, Receipt, Plus } from "lucide-react"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { currencySymbol } from "@/lib/currency"
 
 // Mock data - will be replaced with real data later
 interface DashboardOverviewProps {
@@ -18,6 +19,7 @@ interface DashboardOverviewProps {
       totalPaid: number
       outstandingAmount: number
       pendingExpenses: number
+      baseCurrency: string
       recentTransactions: any[]
       accountsData: any[]
       accountsByType: {
@@ -51,9 +53,11 @@ export function DashboardOverview({ data }: DashboardOverviewProps) {
     totalPaid,
     outstandingAmount,
     pendingExpenses,
+    baseCurrency,
     recentTransactions,
     accountsByType,
   } = data.data
+  const symbol = currencySymbol(baseCurrency)
 
   const chartData = [
     { name: "Cash", amount: accountsByType.Cash },
@@ -90,7 +94,7 @@ export function DashboardOverview({ data }: DashboardOverviewProps) {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">K{totalBalance.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{symbol}{totalBalance.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
               <TrendingUp className="inline h-3 w-3 mr-1" />
               Across all accounts
@@ -104,7 +108,7 @@ export function DashboardOverview({ data }: DashboardOverviewProps) {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">K{monthlyIncome.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{symbol}{monthlyIncome.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">This month</p>
           </CardContent>
         </Card>
@@ -115,7 +119,7 @@ export function DashboardOverview({ data }: DashboardOverviewProps) {
             <TrendingDown className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">K{monthlyExpenses.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{symbol}{monthlyExpenses.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">This month</p>
           </CardContent>
         </Card>
@@ -127,7 +131,8 @@ export function DashboardOverview({ data }: DashboardOverviewProps) {
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${netIncome >= 0 ? "text-green-600" : "text-red-600"}`}>
-              K{netIncome.toLocaleString()}
+              {symbol}
+              {netIncome.toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground">This month</p>
           </CardContent>
@@ -192,7 +197,9 @@ export function DashboardOverview({ data }: DashboardOverviewProps) {
                         transaction.type === "income" ? "text-green-600" : "text-red-600"
                       }`}
                     >
-                      {transaction.type === "income" ? "+" : "-"}K{Number.parseFloat(transaction.amount).toFixed(2)}
+                      {transaction.type === "income" ? "+" : "-"}
+                      {currencySymbol(transaction.currency)}
+                      {Number.parseFloat(transaction.amount).toFixed(2)}
                     </div>
                   </div>
                 ))
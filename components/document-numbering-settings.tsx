@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Hash } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getDocumentSequences,
+  updateDocumentSequence,
+} from "@/lib/actions/document-sequences";
+import {
+  DOCUMENT_TYPE_LABELS,
+  MAX_NUMBER_PADDING,
+  formatDocumentNumber,
+} from "@/lib/document-numbers";
+import { hasPermission } from "@/lib/permissions";
+import type { DocumentType, MembershipRole } from "@/db/schema";
+
+interface DocumentSequence {
+  documentType: DocumentType;
+  prefix: string;
+  padding: number;
+  resetYearly: boolean;
+  nextNumber: number;
+}
+
+/**
+ * Prefix, digits, yearly restart and next number for invoices, credit notes and quotes
+ */
+export function DocumentNumberingSettings({ role }: { role: MembershipRole }) {
+  const [sequences, setSequences] = useState<DocumentSequence[]>([]);
+  const [savingType, setSavingType] = useState<DocumentType | null>(null);
+
+  useEffect(() => {
+    loadSequences();
+  }, []);
+
+  const loadSequences = async () => {
+    const result = await getDocumentSequences();
+    if (result.success && result.data) {
+      setSequences(result.data);
+    }
+  };
+
+  const updateSequence = (
+    documentType: DocumentType,
+    changes: Partial<DocumentSequence>
+  ) => {
+    setSequences(
+      sequences.map((sequence) =>
+        sequence.documentType === documentType
+          ? { ...sequence, ...changes }
+          : sequence
+      )
+    );
+  };
+
+  const handleSave = async (sequence: DocumentSequence) => {
+    setSavingType(sequence.documentType);
+    const formData = new FormData();
+    formData.append("documentType", sequence.documentType);
+    formData.append("prefix", sequence.prefix);
+    formData.append("padding", String(sequence.padding));
+    formData.append("resetYearly", String(sequence.resetYearly));
+    formData.append("nextNumber", String(sequence.nextNumber));
+
+    const result = await updateDocumentSequence(formData);
+
+    if (result.success && result.data) {
+      toast.success(
+        `${DOCUMENT_TYPE_LABELS[sequence.documentType]} will continue from ${result.data.preview}`
+      );
+      loadSequences();
+    } else {
+      toast.error(result.error);
+    }
+    setSavingType(null);
+  };
+
+  const canManage = hasPermission(role, "organization:manage");
+  const year = new Date().getFullYear();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Numbers already in use are skipped, so a deleted document leaves a
+          gap rather than a duplicate. Yearly numbering restarts at 1 each
+          January with the year after the prefix.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sequences.map((sequence) => (
+          <div
+            key={sequence.documentType}
+            className="grid grid-cols-[1fr_100px_120px_auto_auto] items-end gap-2 rounded-md border p-3"
+          >
+            <div className="space-y-2">
+              <Label htmlFor={`${sequence.documentType}-prefix`}>
+                {DOCUMENT_TYPE_LABELS[sequence.documentType]} prefix
+              </Label>
+              <Input
+                id={`${sequence.documentType}-prefix`}
+                value={sequence.prefix}
+                maxLength={20}
+                disabled={!canManage}
+                onChange={(e) =>
+                  updateSequence(sequence.documentType, {
+                    prefix: e.target.value,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${sequence.documentType}-padding`}>Digits</Label>
+              <Input
+                id={`${sequence.documentType}-padding`}
+                type="number"
+                min="1"
+                max={MAX_NUMBER_PADDING}
+                value={sequence.padding}
+                disabled={!canManage}
+                onChange={(e) =>
+                  updateSequence(sequence.documentType, {
+                    padding: Number.parseInt(e.target.value) || 1,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${sequence.documentType}-next`}>Next number</Label>
+              <Input
+                id={`${sequence.documentType}-next`}
+                type="number"
+                min="1"
+                value={sequence.nextNumber}
+                disabled={!canManage}
+                onChange={(e) =>
+                  updateSequence(sequence.documentType, {
+                    nextNumber: Number.parseInt(e.target.value) || 1,
+                  })
+                }
+              />
+            </div>
+            <div className="flex h-9 items-center gap-2">
+              <Checkbox
+                id={`${sequence.documentType}-yearly`}
+                checked={sequence.resetYearly}
+                disabled={!canManage}
+                onCheckedChange={(checked) =>
+                  updateSequence(sequence.documentType, {
+                    resetYearly: checked === true,
+                  })
+                }
+              />
+              <Label htmlFor={`${sequence.documentType}-yearly`}>Yearly</Label>
+            </div>
+            {canManage && (
+              <Button
+                onClick={() => handleSave(sequence)}
+                disabled={savingType === sequence.documentType}
+              >
+                Save
+              </Button>
+            )}
+            <p className="col-span-full text-sm text-muted-foreground">
+              Next: {formatDocumentNumber(sequence, sequence.nextNumber, year)}
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
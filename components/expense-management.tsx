@@ -38,6 +38,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -57,17 +58,22 @@ import {
   XCircle,
   FileText,
   Loader2,
+  Send,
+  Undo2,
+  Eye,
 } from "lucide-react";
 import { toast } from "sonner";
+import { AttachmentsPanel } from "@/components/attachments-panel";
 import { format } from "date-fns";
 import { useRouter } from "next/navigation";
 import {
   createExpense,
   updateExpense,
   deleteExpense,
+  changeExpenseStatus,
+  getExpenseEvents,
   getVendors,
 } from "@/lib/actions/expenses";
-import { createTransaction } from "@/lib/actions/transactions";
 import { createContact } from "@/lib/actions/contacts";
 
 type ExpenseStatus =
@@ -77,6 +83,26 @@ type ExpenseStatus =
   | "rejected"
   | "reimbursed";
 
+type PaymentMethod =
+  | "cash"
+  | "bank_transfer"
+  | "mobile_money"
+  | "card"
+  | "cheque"
+  | "other";
+
+const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+  mobile_money: "Mobile Money",
+  card: "Card",
+  cheque: "Cheque",
+  other: "Other",
+};
+
+// Select items cannot use an empty value, so "none" stands for no category
+const NO_CATEGORY = "none";
+
 const EXPENSE_STATUS: Record<
   ExpenseStatus,
   {
@@ -117,6 +143,15 @@ interface Expense {
   id: string;
   amount: string;
   status: ExpenseStatus;
+  expenseDate: Date;
+  description: string | null;
+  taxAmount: string;
+  paymentMethod: PaymentMethod | null;
+  receiptUrl: string | null;
+  submittedAt: Date | null;
+  approvedAt: Date | null;
+  rejectionReason: string | null;
+  reimbursedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   vendor: {
@@ -127,8 +162,29 @@ interface Expense {
   account: {
     id: string;
     name: string;
-    type: string;
+    type: string | null;
+  } | null;
+  category: {
+    id: string;
+    name: string;
   } | null;
+  submittedBy: {
+    id: string;
+    name: string;
+  } | null;
+  reviewedBy: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface ExpenseEvent {
+  id: string;
+  fromStatus: ExpenseStatus | null;
+  toStatus: ExpenseStatus;
+  note: string | null;
+  createdAt: Date;
+  userName: string | null;
 }
 
 interface Vendor {
@@ -144,39 +200,62 @@ interface Account {
   balance: string;
 }
 
+interface Category {
+  id: string;
+  code: string | null;
+  name: string;
+}
+
 interface ExpenseManagementProps {
   initialExpenses: Expense[];
+  initialApprovalQueue: Expense[];
   initialVendors: Vendor[];
   initialAccounts: Account[];
+  initialCategories: Category[];
 }
 
 export function ExpenseManagement({
   initialExpenses,
+  initialApprovalQueue,
   initialVendors,
   initialAccounts,
+  initialCategories,
 }: ExpenseManagementProps) {
   const router = useRouter();
 
   const [expenses] = useState<Expense[]>(initialExpenses);
+  const [approvalQueue] = useState<Expense[]>(initialApprovalQueue);
   const [vendors, setVendors] = useState<Vendor[]>(initialVendors);
   const [accounts] = useState<Account[]>(initialAccounts);
+  const [categories] = useState<Category[]>(initialCategories);
 
   const [submitting, setSubmitting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isVendorDialogOpen, setIsVendorDialogOpen] = useState(false);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [isRejectDialogOpen, setIsRejectDialogOpen] = useState(false);
 
   const [formData, setFormData] = useState({
     amount: "",
-    status: "draft" as ExpenseStatus,
+    expenseDate: format(new Date(), "yyyy-MM-dd"),
     vendorId: "",
     accountId: "",
+    categoryAccountId: NO_CATEGORY,
+    description: "",
+    taxAmount: "",
+    paymentMethod: "" as PaymentMethod | "",
+    receiptUrl: "",
   });
 
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [viewingExpense, setViewingExpense] = useState<Expense | null>(null);
+  const [viewingEvents, setViewingEvents] = useState<ExpenseEvent[]>([]);
   const [payingExpense, setPayingExpense] = useState<Expense | null>(null);
+  const [rejectingExpense, setRejectingExpense] = useState<Expense | null>(
+    null
+  );
+  const [rejectionReason, setRejectionReason] = useState("");
   const [selectedPaymentAccount, setSelectedPaymentAccount] = useState("");
   const [selectedExpenses, setSelectedExpenses] = useState<string[]>([]);
 
@@ -194,12 +273,16 @@ export function ExpenseManagement({
     return expenses.filter((expense) => {
       const matchesSearch =
         expense.vendor?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        expense.account?.name.toLowerCase().includes(searchTerm.toLowerCase());
+        expense.account?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        expense.category?.name
+          .toLowerCase()
+          .includes(searchTerm.toLowerCase()) ||
+        expense.description?.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesStatus =
         selectedStatus === "ALL" || expense.status === selectedStatus;
       const matchesDateRange =
-        (!dateRange.from || new Date(expense.createdAt) >= dateRange.from) &&
-        (!dateRange.to || new Date(expense.createdAt) <= dateRange.to);
+        (!dateRange.from || new Date(expense.expenseDate) >= dateRange.from) &&
+        (!dateRange.to || new Date(expense.expenseDate) <= dateRange.to);
       return matchesSearch && matchesStatus && matchesDateRange;
     });
   }, [expenses, searchTerm, selectedStatus, dateRange]);
@@ -229,9 +312,16 @@ export function ExpenseManagement({
     try {
       const formDataObj = new FormData();
       formDataObj.append("amount", formData.amount);
-      formDataObj.append("status", formData.status);
+      formDataObj.append("expenseDate", formData.expenseDate);
       formDataObj.append("vendorId", formData.vendorId);
       formDataObj.append("accountId", formData.accountId);
+      if (formData.categoryAccountId !== NO_CATEGORY) {
+        formDataObj.append("categoryAccountId", formData.categoryAccountId);
+      }
+      formDataObj.append("description", formData.description);
+      formDataObj.append("taxAmount", formData.taxAmount);
+      formDataObj.append("paymentMethod", formData.paymentMethod);
+      formDataObj.append("receiptUrl", formData.receiptUrl);
 
       let result;
       if (editingExpense) {
@@ -277,108 +367,92 @@ export function ExpenseManagement({
   };
 
   const handleStatusChange = async (
-    expenseId: string,
-    newStatus: ExpenseStatus
+    expense: Expense,
+    newStatus: ExpenseStatus,
+    extra: { reason?: string; accountId?: string } = {}
   ) => {
-    if (newStatus === "approved") {
-      const expense = expenses.find((e) => e.id === expenseId);
-      if (expense) {
-        setPayingExpense(expense);
-        setIsPaymentDialogOpen(true);
-        return;
-      }
-    }
-
     try {
-      const expense = expenses.find((e) => e.id === expenseId);
-      if (!expense) return;
-
       const formDataObj = new FormData();
-      formDataObj.append("amount", expense.amount);
       formDataObj.append("status", newStatus);
-      formDataObj.append("vendorId", expense.vendor?.id || "");
-      formDataObj.append("accountId", expense.account?.id || "");
+      if (extra.reason) formDataObj.append("reason", extra.reason);
+      if (extra.accountId) formDataObj.append("accountId", extra.accountId);
 
-      const result = await updateExpense(expenseId, formDataObj);
+      const result = await changeExpenseStatus(expense.id, formDataObj);
       if (result.success) {
         toast("Status Updated", {
           description: `Expense status has been updated to ${EXPENSE_STATUS[newStatus].label}.`,
         });
         router.refresh();
-      } else {
-        toast.error(result.error || "Failed to update status");
+        return true;
       }
+      toast.error(result.error || "Failed to update status");
     } catch (error) {
       toast.error("An unexpected error occurred");
     }
+    return false;
   };
 
+  const openReimburseDialog = (expense: Expense) => {
+    setPayingExpense(expense);
+    setSelectedPaymentAccount(expense.account?.id || "");
+    setIsPaymentDialogOpen(true);
+  };
+
+  const openRejectDialog = (expense: Expense) => {
+    setRejectingExpense(expense);
+    setRejectionReason("");
+    setIsRejectDialogOpen(true);
+  };
+
+  // Reimbursement settles the approved payable from the chosen account
   const handlePayment = async () => {
     if (!payingExpense || !selectedPaymentAccount) {
       toast.error("Please select an account for payment");
       return;
     }
 
-    try {
-      const formDataObj = new FormData();
-      formDataObj.append("amount", payingExpense.amount);
-      formDataObj.append("status", "approved");
-      formDataObj.append("vendorId", payingExpense.vendor?.id || "");
-      formDataObj.append("accountId", payingExpense.account?.id || "");
-
-      const statusResult = await updateExpense(payingExpense.id, formDataObj);
-      if (!statusResult.success) {
-        throw new Error(
-          statusResult.error || "Failed to update expense status"
-        );
-      }
-
-      const transactionData = new FormData();
-      transactionData.append(
-        "description",
-        `Expense payment to ${payingExpense.vendor?.name || "Vendor"}`
-      );
-      transactionData.append("amount", payingExpense.amount);
-      transactionData.append("type", "expense");
-      transactionData.append("status", "completed");
-      transactionData.append(
-        "transactionDate",
-        format(new Date(), "yyyy-MM-dd")
-      );
-      transactionData.append("fromAccount", selectedPaymentAccount);
-      transactionData.append("contact", payingExpense.vendor?.id || "");
-      transactionData.append("reference", `EXP-${payingExpense.id}`);
-
-      const transactionResult = await createTransaction(transactionData);
-      if (!transactionResult.success) {
-        console.warn(
-          "Failed to create transaction record:",
-          transactionResult.error
-        );
-      }
-
-      toast("Expense Approved", {
-        description: `Expense has been approved and payment transaction recorded.`,
-      });
-
+    const done = await handleStatusChange(payingExpense, "reimbursed", {
+      accountId: selectedPaymentAccount,
+    });
+    if (done) {
       setIsPaymentDialogOpen(false);
       setPayingExpense(null);
       setSelectedPaymentAccount("");
-      router.refresh();
-    } catch (error) {
-      console.error("Error processing expense payment:", error);
-      toast.error("Failed to process expense payment");
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectingExpense || !rejectionReason.trim()) {
+      toast.error("Please give a reason for rejecting");
+      return;
+    }
+
+    const done = await handleStatusChange(rejectingExpense, "rejected", {
+      reason: rejectionReason,
+    });
+    if (done) {
+      setIsRejectDialogOpen(false);
+      setRejectingExpense(null);
+      setRejectionReason("");
     }
   };
 
   const handleBulkAction = async (action: string) => {
     if (action === "delete") {
       try {
-        await Promise.all(selectedExpenses.map((id) => deleteExpense(id)));
+        const results = await Promise.all(
+          selectedExpenses.map((id) => deleteExpense(id))
+        );
+        const deleted = results.filter((result) => result.success).length;
         setSelectedExpenses([]);
         toast("Expenses Deleted", {
-          description: `${selectedExpenses.length} expenses have been deleted.`,
+          description: `${deleted} expenses have been deleted.`,
         });
+        if (deleted < results.length) {
+          toast.error(
+            `${results.length - deleted} expenses were not deleted. Approved and reimbursed expenses have to be reversed or rejected instead.`
+          );
+        }
         router.refresh();
       } catch (error) {
         toast.error("Failed to delete expenses");
@@ -435,24 +509,40 @@ export function ExpenseManagement({
     setEditingExpense(expense);
     setFormData({
       amount: expense.amount,
-      status: expense.status,
+      expenseDate: format(new Date(expense.expenseDate), "yyyy-MM-dd"),
       vendorId: expense.vendor?.id || "",
       accountId: expense.account?.id || "",
+      categoryAccountId: expense.category?.id || NO_CATEGORY,
+      description: expense.description || "",
+      taxAmount: Number.parseFloat(expense.taxAmount) ? expense.taxAmount : "",
+      paymentMethod: expense.paymentMethod || "",
+      receiptUrl: expense.receiptUrl || "",
     });
     setIsDialogOpen(true);
   };
 
-  const handleView = (expense: Expense) => {
+  const handleView = async (expense: Expense) => {
     setViewingExpense(expense);
+    setViewingEvents([]);
     setIsViewDialogOpen(true);
+
+    const result = await getExpenseEvents(expense.id);
+    if (result.success && result.data) {
+      setViewingEvents(result.data);
+    }
   };
 
   const resetForm = () => {
     setFormData({
       amount: "",
-      status: "draft" as ExpenseStatus,
+      expenseDate: format(new Date(), "yyyy-MM-dd"),
       vendorId: "",
       accountId: "",
+      categoryAccountId: NO_CATEGORY,
+      description: "",
+      taxAmount: "",
+      paymentMethod: "" as PaymentMethod | "",
+      receiptUrl: "",
     });
     setEditingExpense(null);
     setIsDialogOpen(false);
@@ -521,26 +611,19 @@ export function ExpenseManagement({
                       />
                     </div>
                     <div>
-                      <Label htmlFor="status">Status</Label>
-                      <Select
-                        value={formData.status}
-                        onValueChange={(value: ExpenseStatus) =>
-                          setFormData({ ...formData, status: value })
+                      <Label htmlFor="expenseDate">Date</Label>
+                      <Input
+                        id="expenseDate"
+                        type="date"
+                        value={formData.expenseDate}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            expenseDate: e.target.value,
+                          })
                         }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {Object.entries(EXPENSE_STATUS).map(
-                            ([key, value]) => (
-                              <SelectItem key={key} value={key}>
-                                {value.label}
-                              </SelectItem>
-                            )
-                          )}
-                        </SelectContent>
-                      </Select>
+                        required
+                      />
                     </div>
                   </div>
 
@@ -596,6 +679,110 @@ export function ExpenseManagement({
                       </Select>
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="category">Category</Label>
+                      <Select
+                        value={formData.categoryAccountId}
+                        onValueChange={(value) =>
+                          setFormData({ ...formData, categoryAccountId: value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_CATEGORY}>
+                            General Expenses
+                          </SelectItem>
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.code
+                                ? `${category.code} · ${category.name}`
+                                : category.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="paymentMethod">Payment Method</Label>
+                      <Select
+                        value={formData.paymentMethod}
+                        onValueChange={(value: PaymentMethod) =>
+                          setFormData({ ...formData, paymentMethod: value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select method" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PAYMENT_METHODS).map(
+                            ([key, label]) => (
+                              <SelectItem key={key} value={key}>
+                                {label}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="taxAmount">Tax Included</Label>
+                      <Input
+                        id="taxAmount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="0.00"
+                        value={formData.taxAmount}
+                        onChange={(e) =>
+                          setFormData({ ...formData, taxAmount: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="receiptUrl">Receipt Link</Label>
+                      <Input
+                        id="receiptUrl"
+                        type="url"
+                        placeholder="https://"
+                        value={formData.receiptUrl}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            receiptUrl: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          description: e.target.value,
+                        })
+                      }
+                      placeholder="What was this expense for?"
+                    />
+                  </div>
+
+                  {editingExpense && (
+                    <AttachmentsPanel
+                      sourceType="expense"
+                      sourceId={editingExpense.id}
+                    />
+                  )}
                 </div>
                 <DialogFooter>
                   <Button type="submit" disabled={submitting}>
@@ -681,6 +868,67 @@ export function ExpenseManagement({
         </Card>
       </div>
 
+      {/* Approval Queue */}
+      {approvalQueue.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Submitted to Me</CardTitle>
+            <CardDescription>
+              Expenses waiting for your approval
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Submitted By</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvalQueue.map((expense) => (
+                  <TableRow key={expense.id}>
+                    <TableCell>
+                      {format(
+                        new Date(expense.submittedAt ?? expense.createdAt),
+                        "MMM dd, yyyy"
+                      )}
+                    </TableCell>
+                    <TableCell>{expense.submittedBy?.name || "N/A"}</TableCell>
+                    <TableCell>{expense.vendor?.name || "N/A"}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      K{Number.parseFloat(expense.amount).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleStatusChange(expense, "approved")}
+                        >
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openRejectDialog(expense)}
+                        >
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters and Actions */}
       <Card>
         <CardHeader>
@@ -766,6 +1014,7 @@ export function ExpenseManagement({
                 </TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead>Vendor</TableHead>
+                <TableHead>Category</TableHead>
                 <TableHead>Account</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
@@ -795,9 +1044,12 @@ export function ExpenseManagement({
                       />
                     </TableCell>
                     <TableCell>
-                      {format(new Date(expense.createdAt), "MMM dd, yyyy")}
+                      {format(new Date(expense.expenseDate), "MMM dd, yyyy")}
                     </TableCell>
                     <TableCell>{expense.vendor?.name || "N/A"}</TableCell>
+                    <TableCell>
+                      {expense.category?.name || "General Expenses"}
+                    </TableCell>
                     <TableCell>{expense.account?.name || "N/A"}</TableCell>
                     <TableCell>
                       <Badge className={EXPENSE_STATUS[expense.status].color}>
@@ -814,36 +1066,92 @@ export function ExpenseManagement({
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleEdit(expense)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Select
-                          value={expense.status}
-                          onValueChange={(value: ExpenseStatus) =>
-                            handleStatusChange(expense.id, value)
-                          }
-                        >
-                          <SelectTrigger className="w-[150px] h-8">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {Object.entries(EXPENSE_STATUS).map(
-                              ([key, value]) => (
-                                <SelectItem key={key} value={key}>
-                                  {value.label}
-                                </SelectItem>
-                              )
-                            )}
-                          </SelectContent>
-                        </Select>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(expense.id)}
+                          onClick={() => handleView(expense)}
                         >
-                          <Trash2 className="h-4 w-4" />
+                          <Eye className="h-4 w-4" />
                         </Button>
+                        {expense.status === "draft" && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(expense)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                handleStatusChange(expense, "submitted")
+                              }
+                            >
+                              <Send className="mr-2 h-4 w-4" />
+                              Submit
+                            </Button>
+                          </>
+                        )}
+                        {expense.status === "submitted" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleStatusChange(expense, "draft")}
+                          >
+                            <Undo2 className="mr-2 h-4 w-4" />
+                            Withdraw
+                          </Button>
+                        )}
+                        {expense.status === "approved" && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openReimburseDialog(expense)}
+                            >
+                              <DollarSign className="mr-2 h-4 w-4" />
+                              Reimburse
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openRejectDialog(expense)}
+                            >
+                              <XCircle className="mr-2 h-4 w-4" />
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {expense.status === "reimbursed" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleStatusChange(expense, "approved")}
+                          >
+                            <Undo2 className="mr-2 h-4 w-4" />
+                            Reverse
+                          </Button>
+                        )}
+                        {expense.status === "rejected" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleStatusChange(expense, "draft")}
+                          >
+                            <Undo2 className="mr-2 h-4 w-4" />
+                            Reopen
+                          </Button>
+                        )}
+                        {/* Posted expenses are reversed rather than deleted */}
+                        {(expense.status === "draft" ||
+                          expense.status === "rejected") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(expense.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -869,7 +1177,7 @@ export function ExpenseManagement({
                     <Label className="text-sm font-medium">Date</Label>
                     <p>
                       {format(
-                        new Date(viewingExpense.createdAt),
+                        new Date(viewingExpense.expenseDate),
                         "MMM dd, yyyy"
                       )}
                     </p>
@@ -896,6 +1204,57 @@ export function ExpenseManagement({
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-sm font-medium">Category</Label>
+                    <p>{viewingExpense.category?.name || "General Expenses"}</p>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium">
+                      Payment Method
+                    </Label>
+                    <p>
+                      {viewingExpense.paymentMethod
+                        ? PAYMENT_METHODS[viewingExpense.paymentMethod]
+                        : "N/A"}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-sm font-medium">Tax Included</Label>
+                    <p className="font-mono">
+                      K
+                      {Number.parseFloat(
+                        viewingExpense.taxAmount
+                      ).toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium">Receipt</Label>
+                    {viewingExpense.receiptUrl ? (
+                      <a
+                        href={viewingExpense.receiptUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary underline"
+                      >
+                        View receipt
+                      </a>
+                    ) : (
+                      <p>N/A</p>
+                    )}
+                  </div>
+                </div>
+
+                {viewingExpense.description && (
+                  <div>
+                    <Label className="text-sm font-medium">Description</Label>
+                    <p className="text-sm">{viewingExpense.description}</p>
+                  </div>
+                )}
+
                 <div>
                   <Label className="text-sm font-medium">Status</Label>
                   <Badge
@@ -904,6 +1263,44 @@ export function ExpenseManagement({
                     {EXPENSE_STATUS[viewingExpense.status]?.label}
                   </Badge>
                 </div>
+
+                {viewingExpense.rejectionReason && (
+                  <div>
+                    <Label className="text-sm font-medium">
+                      Rejection Reason
+                    </Label>
+                    <p className="text-sm">{viewingExpense.rejectionReason}</p>
+                  </div>
+                )}
+
+                <AttachmentsPanel
+                  sourceType="expense"
+                  sourceId={viewingExpense.id}
+                  readOnly={viewingExpense.status !== "draft"}
+                />
+
+                <div>
+                  <Label className="text-sm font-medium">History</Label>
+                  <div className="mt-2 space-y-2">
+                    {viewingEvents.map((event) => (
+                      <div key={event.id} className="text-sm">
+                        <p>
+                          <span className="font-medium">
+                            {EXPENSE_STATUS[event.toStatus].label}
+                          </span>{" "}
+                          by {event.userName || "Unknown"} on{" "}
+                          {format(
+                            new Date(event.createdAt),
+                            "MMM dd, yyyy HH:mm"
+                          )}
+                        </p>
+                        {event.note && (
+                          <p className="text-muted-foreground">{event.note}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
             </>
           )}
@@ -914,7 +1311,7 @@ export function ExpenseManagement({
       <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
         <DialogContent className="sm:max-w-[400px]">
           <DialogHeader>
-            <DialogTitle>Approve Expense</DialogTitle>
+            <DialogTitle>Reimburse Expense</DialogTitle>
             <DialogDescription>
               Select the account from which this expense will be paid.
             </DialogDescription>
@@ -964,7 +1361,43 @@ export function ExpenseManagement({
               Cancel
             </Button>
             <Button onClick={handlePayment} disabled={!selectedPaymentAccount}>
-              Approve & Pay
+              Reimburse
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rejection Dialog */}
+      <Dialog open={isRejectDialogOpen} onOpenChange={setIsRejectDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Reject Expense</DialogTitle>
+            <DialogDescription>
+              The submitter will see this reason and can rework the expense.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="rejectionReason">Reason</Label>
+            <Textarea
+              id="rejectionReason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsRejectDialogOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectionReason.trim()}
+            >
+              Reject
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -10,6 +10,7 @@ import {
   Image,
 } from "@react-pdf/renderer";
 import type { DisplayInvoice } from "@/components/invoice-management";
+import { currencySymbol } from "@/lib/currency";
 
 // ✅ Optional: register custom font
 // Font.register({
@@ -17,7 +18,8 @@ import type { DisplayInvoice } from "@/components/invoice-management";
 //   src: "https://fonts.gstatic.com/s/inter/v12/UcCO3FwrK3iLTeHuS_fvQtMwCp50KnMa.ttf",
 // });
 
-const styles = StyleSheet.create({
+// Shared with the quote PDF so both documents carry the same branding
+export const styles = StyleSheet.create({
   page: {
     fontSize: 10.5,
     padding: 40,
@@ -175,6 +177,24 @@ const styles = StyleSheet.create({
   },
 });
 
+// Logo, name and contact details printed at the top left of every document
+export const CompanyDetails: React.FC = () => (
+  <View style={styles.column}>
+    <View style={styles.headerWithLogo}>
+      <Image style={styles.logoSmall} src="/logo.png" />
+      <View>
+        <Text style={styles.companyName}>Samuel Kaoma Accounting System</Text>
+      </View>
+    </View>
+    <Text style={styles.companyInfo}>
+      1234, Great East Road{"\n"}
+      Lusaka 00000{"\n"}
+      Phone: 0762112817{"\n"}
+      Email: samuelkaomaa@gmail.com
+    </Text>
+  </View>
+);
+
 interface InvoicePDFProps {
   invoice: DisplayInvoice;
 }
@@ -184,20 +204,7 @@ export const InvoicePDF: React.FC<InvoicePDFProps> = ({ invoice }) => (
     <Page size="A4" style={styles.page}>
       {/* ---------- HEADER ---------- */}
       <View style={styles.twoColumn}>
-        <View style={styles.column}>
-          <View style={styles.headerWithLogo}>
-            <Image style={styles.logoSmall} src="/logo.png" />
-            <View>
-              <Text style={styles.companyName}>Samuel Kaoma Accounting System</Text>
-            </View>
-          </View>
-          <Text style={styles.companyInfo}>
-            1234, Great East Road{"\n"}
-            Lusaka 00000{"\n"}
-            Phone: 0762112817{"\n"}
-            Email: samuelkaomaa@gmail.com
-          </Text>
-        </View>
+        <CompanyDetails />
 
         <View style={[styles.column, styles.invoiceBox]}>
           <Text style={styles.invoiceTitle}>INVOICE</Text>
@@ -249,13 +256,16 @@ export const InvoicePDF: React.FC<InvoicePDFProps> = ({ invoice }) => (
 
         {(invoice as any).items?.map((item: any, i: number) => (
           <View key={i} style={styles.tableRow}>
-            <Text style={styles.cellDescription}>{item.description}</Text>
+            <Text style={styles.cellDescription}>
+              {item.description}
+              {item.taxCodeName ? ` (${item.taxCodeName})` : ""}
+            </Text>
             <Text style={styles.cellQty}>{item.quantity}</Text>
             <Text style={styles.cellRate}>
-              K{parseFloat(item.unitPrice).toFixed(2)}
+              {currencySymbol(invoice.currency)}{parseFloat(item.unitPrice).toFixed(2)}
             </Text>
             <Text style={styles.cellAmount}>
-              K{parseFloat(item.total).toFixed(2)}
+              {currencySymbol(invoice.currency)}{parseFloat(item.total).toFixed(2)}
             </Text>
           </View>
         ))}
@@ -265,15 +275,15 @@ export const InvoicePDF: React.FC<InvoicePDFProps> = ({ invoice }) => (
       <View style={styles.totalsSection}>
         <View style={styles.totalRow}>
           <Text>Subtotal</Text>
-          <Text>K{parseFloat(invoice.subtotal).toFixed(2)}</Text>
+          <Text>{currencySymbol(invoice.currency)}{parseFloat(invoice.subtotal).toFixed(2)}</Text>
         </View>
         <View style={styles.totalRow}>
-          <Text>Tax ({parseFloat(invoice.taxRate || "0").toFixed(1)}%)</Text>
-          <Text>K{parseFloat(invoice.taxAmount || "0").toFixed(2)}</Text>
+          <Text>Tax</Text>
+          <Text>{currencySymbol(invoice.currency)}{parseFloat(invoice.taxAmount || "0").toFixed(2)}</Text>
         </View>
         <View style={styles.grandTotal}>
           <Text>Total</Text>
-          <Text>K{parseFloat(invoice.total).toFixed(2)}</Text>
+          <Text>{currencySymbol(invoice.currency)}{parseFloat(invoice.total).toFixed(2)}</Text>
         </View>
       </View>
 
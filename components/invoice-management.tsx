@@ -33,8 +33,9 @@ import {
   Clock,
   CheckCircle,
   AlertCircle,
+  Wallet,
 } from "lucide-react"
-import { format } from "date-fns"
+import { format, startOfToday } from "date-fns"
 import {
   getInvoiceById,
   createInvoice,
@@ -42,11 +43,25 @@ import {
   deleteInvoice,
   updateInvoiceStatus,
 } from "@/lib/actions/invoices"
-import { createTransaction } from "@/lib/actions/transactions"
+import {
+  deleteInvoicePayment,
+  getCustomerCredit,
+  getInvoicePayments,
+  recordInvoicePayment,
+} from "@/lib/actions/invoice-payments"
 import { createContact } from "@/lib/actions/contacts"
-import type { InvoiceStatus } from "@/db/schema"
+import type { InvoiceStatus, PaymentMethod, TaxCodeKind } from "@/db/schema"
+import { CURRENCIES, currencySymbol, toBaseAmount } from "@/lib/currency"
 import { toast } from "sonner"
 import { useRouter } from "next/navigation"
+import {
+  type LineItem,
+  LineItemsEditor,
+  calculateLineItemTotals,
+  emptyLineItem,
+  serializeLineItems,
+  toLineItems,
+} from "./line-items-editor"
 import { InvoicePDF } from "./invoice-export"
 import { pdf } from "@react-pdf/renderer"
 
@@ -62,6 +77,11 @@ const INVOICE_STATUS = {
     color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
     icon: Send,
   },
+  partially_paid: {
+    label: "Partially Paid",
+    color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+    icon: Clock,
+  },
   paid: {
     label: "Paid",
     color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
@@ -74,12 +94,21 @@ const INVOICE_STATUS = {
   },
 } as const
 
-interface LineItem {
-  id?: string
-  description: string
-  quantity: number
-  rate: number
-  amount: number
+const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+  mobile_money: "Mobile Money",
+  card: "Card",
+  cheque: "Cheque",
+  other: "Other",
+}
+
+// Suggest a payment method from the kind of account the money lands in
+const METHOD_FOR_ACCOUNT_TYPE: Record<string, PaymentMethod> = {
+  cash: "cash",
+  bank: "bank_transfer",
+  mobile: "mobile_money",
+  credit: "card",
 }
 
 interface InvoiceFormData {
@@ -94,6 +123,8 @@ interface InvoiceFormData {
   taxRate: number
   taxAmount: number
   total: number
+  currency: string
+  exchangeRate: string
   notes: string
   terms: string
   lineItems: LineItem[]
@@ -108,38 +139,79 @@ export interface DisplayInvoice {
   customerEmail: string | null
   issueDate: Date
   dueDate: Date
-  status: "draft" | "sent" | "paid" | "overdue" | null
+  status: InvoiceStatus | null
   subtotal: string
   taxRate: string | null
   taxAmount: string | null
   total: string
   paidAmount: string | null
+  currency: string
+  exchangeRate: string
   notes: string | null
   terms: string | null
+  // The quote the invoice was converted from
+  quoteNumber?: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
 
+interface InvoicePayment {
+  id: string
+  paymentDate: Date
+  amount: string
+  method: PaymentMethod
+  accountName: string
+  reference: string | null
+  notes: string | null
+}
+
+interface PaymentFormData {
+  paymentDate: string
+  amount: string
+  exchangeRate: string
+  method: PaymentMethod
+  reference: string
+  notes: string
+}
+
 interface Customer {
   id: string
   name: string
   email: string | null
   address: string | null
+  currency: string
 }
 
 interface Account {
   id: string
   name: string
   type: string
+  currency: string
+}
+
+interface TaxCode {
+  id: string
+  name: string
+  rate: string
+  kind: TaxCodeKind
+  isActive: boolean
 }
 
 interface InvoiceManagementProps {
   initialInvoices: DisplayInvoice[]
   initialCustomers: Customer[]
   initialAccounts: Account[]
+  taxCodes: TaxCode[]
+  baseCurrency: string
 }
 
-export function InvoiceManagement({ initialInvoices, initialCustomers, initialAccounts }: InvoiceManagementProps) {
+export function InvoiceManagement({
+  initialInvoices,
+  initialCustomers,
+  initialAccounts,
+  taxCodes,
+  baseCurrency,
+}: InvoiceManagementProps) {
   const router = useRouter()
   const [invoices, setInvoices] = useState<DisplayInvoice[]>(initialInvoices)
   const [customers, setCustomers] = useState<Customer[]>(initialCustomers)
@@ -153,6 +225,16 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false)
   const [payingInvoice, setPayingInvoice] = useState<DisplayInvoice | null>(null)
   const [selectedAccount, setSelectedAccount] = useState("")
+  const [payments, setPayments] = useState<InvoicePayment[]>([])
+  const [customerCredit, setCustomerCredit] = useState<{ currency: string; amount: number }[]>([])
+  const [paymentFormData, setPaymentFormData] = useState<PaymentFormData>({
+    paymentDate: format(new Date(), "yyyy-MM-dd"),
+    amount: "",
+    exchangeRate: "",
+    method: "cash",
+    reference: "",
+    notes: "",
+  })
   const [isCustomerDialogOpen, setIsCustomerDialogOpen] = useState(false)
   const [customerFormData, setCustomerFormData] = useState({
     name: "",
@@ -168,12 +250,14 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     dueDate: format(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), "yyyy-MM-dd"),
     status: "draft",
     subtotal: 0,
-    taxRate: 8.5,
+    taxRate: 0,
     taxAmount: 0,
     total: 0,
+    currency: baseCurrency,
+    exchangeRate: "",
     notes: "",
     terms: "",
-    lineItems: [{ description: "", quantity: 1, rate: 0, amount: 0 }],
+    lineItems: [emptyLineItem(taxCodes)],
   })
 
   useEffect(() => {
@@ -202,54 +286,17 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     return matchesSearch && matchesStatus
   })
 
-  const calculateTotals = () => {
-    const subtotal = formData.lineItems.reduce((sum, item) => sum + item.amount, 0)
-    const taxAmount = (subtotal * formData.taxRate) / 100
-    const total = subtotal + taxAmount
-    return { subtotal, taxAmount, total }
-  }
-
-  const updateLineItem = (index: number, field: keyof LineItem, value: string | number) => {
-    const newLineItems = [...formData.lineItems]
-    newLineItems[index] = { ...newLineItems[index], [field]: value }
-
-    if (field === "quantity" || field === "rate") {
-      newLineItems[index].amount = newLineItems[index].quantity * newLineItems[index].rate
-    }
-
-    const { subtotal, taxAmount, total } = calculateTotals()
+  const updateLineItems = (lineItems: LineItem[]) => {
+    const { subtotal, taxAmount, total } = calculateLineItemTotals(lineItems, formData.taxRate, taxCodes)
     setFormData({
       ...formData,
-      lineItems: newLineItems,
+      lineItems,
       subtotal,
       taxAmount,
       total,
     })
   }
 
-  const addLineItem = () => {
-    setFormData({
-      ...formData,
-      lineItems: [...formData.lineItems, { description: "", quantity: 1, rate: 0, amount: 0 }],
-    })
-  }
-
-  const removeLineItem = (index: number) => {
-    if (formData.lineItems.length > 1) {
-      const newLineItems = formData.lineItems.filter((_, i) => i !== index)
-      const subtotal = newLineItems.reduce((sum, item) => sum + item.amount, 0)
-      const taxAmount = (subtotal * formData.taxRate) / 100
-      const total = subtotal + taxAmount
-      setFormData({
-        ...formData,
-        lineItems: newLineItems,
-        subtotal,
-        taxAmount,
-        total,
-      })
-    }
-  }
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -273,7 +320,16 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
       formDataToSubmit.append("notes", formData.notes)
       formDataToSubmit.append("terms", formData.terms)
       formDataToSubmit.append("taxRate", formData.taxRate.toString())
-      formDataToSubmit.append("items", JSON.stringify(formData.lineItems))
+      formDataToSubmit.append("currency", formData.currency)
+      // Left blank, the stored rate for the issue date is used
+      formDataToSubmit.append("exchangeRate", formData.currency === baseCurrency ? "" : formData.exchangeRate)
+      // Saved as paid, the balance is recorded as received into this account along with the invoice
+      if (formData.status === "paid" && selectedAccount) {
+        const account = accounts.find((a) => a.id === selectedAccount)
+        formDataToSubmit.append("paymentAccountId", selectedAccount)
+        formDataToSubmit.append("paymentMethod", METHOD_FOR_ACCOUNT_TYPE[account?.type ?? ""] ?? "other")
+      }
+      formDataToSubmit.append("items", serializeLineItems(formData.lineItems))
 
       let result
       if (editingInvoice) {
@@ -283,26 +339,6 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
       }
 
       if (result.success) {
-        if (formData.status === "paid" && selectedAccount && result.data) {
-          const transactionData = new FormData()
-          transactionData.append(
-            "description",
-            `Payment received for Invoice ${result.data.invoiceNumber || "New Invoice"}`,
-          )
-          transactionData.append("amount", formData.total.toString())
-          transactionData.append("type", "income")
-          transactionData.append("status", "completed")
-          transactionData.append("transactionDate", format(new Date(), "yyyy-MM-dd"))
-          transactionData.append("toAccountId", selectedAccount)
-          transactionData.append("contactId", formData.contactId)
-          transactionData.append("reference", result.data.invoiceNumber || "")
-
-          const transactionResult = await createTransaction(transactionData)
-          if (!transactionResult.success) {
-            console.warn("Failed to create transaction record:", transactionResult.error)
-          }
-        }
-
         toast(editingInvoice ? "Invoice Updated" : "Invoice Created", {
           description: `Invoice has been ${editingInvoice ? "updated" : "created"} successfully.`,
         })
@@ -325,12 +361,14 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
       dueDate: format(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), "yyyy-MM-dd"),
       status: "draft",
       subtotal: 0,
-      taxRate: 8.5,
+      taxRate: 0,
       taxAmount: 0,
       total: 0,
+      currency: baseCurrency,
+      exchangeRate: "",
       notes: "",
       terms: "",
-      lineItems: [{ description: "", quantity: 1, rate: 0, amount: 0 }],
+      lineItems: [emptyLineItem(taxCodes)],
     })
     setEditingInvoice(null)
     setIsDialogOpen(false)
@@ -397,18 +435,14 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
           dueDate: format(new Date(invoice.dueDate), "yyyy-MM-dd"),
           status: invoice.status || "draft",
           subtotal: Number.parseFloat(invoice.subtotal || "0"),
-          taxRate: Number.parseFloat(invoice.taxRate || "8.5"),
+          taxRate: Number.parseFloat(invoice.taxRate || "0"),
           taxAmount: Number.parseFloat(invoice.taxAmount || "0"),
           total: Number.parseFloat(invoice.total || "0"),
+          currency: invoice.currency,
+          exchangeRate: invoice.currency === baseCurrency ? "" : invoice.exchangeRate,
           notes: invoice.notes || "",
           terms: invoice.terms || "",
-          lineItems: invoiceData.items?.map((item) => ({
-            id: item.id,
-            description: item.description,
-            quantity: Number.parseFloat(item.quantity),
-            rate: Number.parseFloat(item.unitPrice),
-            amount: Number.parseFloat(item.total),
-          })) || [{ description: "", quantity: 1, rate: 0, amount: 0 }],
+          lineItems: invoiceData.items?.length ? toLineItems(invoiceData.items) : [emptyLineItem(taxCodes)],
         })
         setSelectedAccount("")
         setIsDialogOpen(true)
@@ -421,9 +455,21 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     }
   }
 
+  const loadPayments = async (invoiceId: string) => {
+    const result = await getInvoicePayments(invoiceId)
+    if (result.success) {
+      setPayments(result.data ?? [])
+    } else {
+      setPayments([])
+      toast.error(result.error || "Failed to load payments")
+    }
+  }
+
   const handleView = (invoice: DisplayInvoice) => {
     setViewingInvoice(invoice)
+    setPayments([])
     setIsViewDialogOpen(true)
+    loadPayments(invoice.id)
   }
 
   const handleDelete = async (invoiceId: string) => {
@@ -443,12 +489,11 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     }
   }
 
-  const handleStatusChange = async (invoiceId: string, newStatus: "draft" | "sent" | "paid" | "overdue") => {
-    if (newStatus === "paid") {
+  const handleStatusChange = async (invoiceId: string, newStatus: InvoiceStatus) => {
+    if (newStatus === "paid" || newStatus === "partially_paid") {
       const invoice = invoices.find((i) => i.id === invoiceId)
       if (invoice) {
-        setPayingInvoice(invoice)
-        setIsPaymentDialogOpen(true)
+        openPaymentDialog(invoice)
         return
       }
     }
@@ -469,6 +514,33 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     }
   }
 
+  // Payments land in an account held in the invoice currency or the base currency
+  const accountsFor = (currency: string) =>
+    accounts.filter((account) => account.currency === currency || account.currency === baseCurrency)
+
+  const outstandingBalance = (invoice: DisplayInvoice) =>
+    Number.parseFloat(invoice.total || "0") - Number.parseFloat(invoice.paidAmount || "0")
+
+  const openPaymentDialog = async (invoice: DisplayInvoice) => {
+    setPayingInvoice(invoice)
+    setSelectedAccount("")
+    setPaymentFormData({
+      paymentDate: format(new Date(), "yyyy-MM-dd"),
+      amount: outstandingBalance(invoice).toFixed(2),
+      exchangeRate: "",
+      method: "cash",
+      reference: "",
+      notes: "",
+    })
+    setCustomerCredit([])
+    setIsPaymentDialogOpen(true)
+
+    const creditResult = await getCustomerCredit(invoice.customerId)
+    if (creditResult.success && creditResult.data) {
+      setCustomerCredit(creditResult.data.filter((credit) => credit.amount > 0))
+    }
+  }
+
   const handlePayment = async () => {
     if (!payingInvoice || !selectedAccount) {
       toast.error("Please select an account for payment")
@@ -476,30 +548,36 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     }
 
     try {
-      const statusResult = await updateInvoiceStatus(payingInvoice.id, "paid")
-      if (!statusResult.success) {
-        throw new Error(statusResult.error || "Failed to update invoice status")
-      }
-
-      const transactionData = new FormData()
-      transactionData.append("description", `Payment received for Invoice ${payingInvoice.invoiceNumber}`)
-      transactionData.append("amount", payingInvoice.total)
-      transactionData.append("type", "income")
-      transactionData.append("status", "completed")
-      transactionData.append("transactionDate", format(new Date(), "yyyy-MM-dd"))
-      transactionData.append("toAccountId", selectedAccount) // Fixed: was "toAccount"
-      transactionData.append("contactId", payingInvoice.customerId) // Fixed: was "contact"
-      transactionData.append("reference", payingInvoice.invoiceNumber)
-
-      const transactionResult = await createTransaction(transactionData)
-      if (!transactionResult.success) {
-        console.warn("Failed to create transaction record:", transactionResult.error)
+      const paymentData = new FormData()
+      paymentData.append("paymentDate", paymentFormData.paymentDate)
+      paymentData.append("amount", paymentFormData.amount)
+      paymentData.append("exchangeRate", paymentFormData.exchangeRate)
+      paymentData.append("method", paymentFormData.method)
+      paymentData.append("accountId", selectedAccount)
+      paymentData.append("reference", paymentFormData.reference)
+      paymentData.append("notes", paymentFormData.notes)
+
+      const result = await recordInvoicePayment(payingInvoice.id, paymentData)
+      if (!result.success) {
+        toast.error(result.error || "Failed to record payment")
+        return
       }
 
+      const status = result.data?.invoice?.status ?? "paid"
+      const credit = result.data?.credit ?? 0
       toast.success("Payment Recorded", {
-        description: `Invoice ${payingInvoice.invoiceNumber} has been marked as paid and transaction recorded.`,
+        description:
+          `Invoice ${payingInvoice.invoiceNumber} is now ${INVOICE_STATUS[status].label.toLowerCase()}.` +
+          (credit > 0
+            ? ` ${currencySymbol(payingInvoice.currency)}${credit.toFixed(2)} is held as customer credit.`
+            : ""),
       })
 
+      if (viewingInvoice?.id === payingInvoice.id && result.data?.invoice) {
+        setViewingInvoice({ ...viewingInvoice, ...result.data.invoice })
+        loadPayments(payingInvoice.id)
+      }
+
       setIsPaymentDialogOpen(false)
       setPayingInvoice(null)
       setSelectedAccount("")
@@ -510,6 +588,28 @@ export function InvoiceManagement({ initialInvoices, initialCustomers, initialAc
     }
   }
 
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      const result = await deleteInvoicePayment(paymentId)
+      if (!result.success) {
+        toast.error(result.error || "Failed to delete payment")
+        return
+      }
+
+      toast("Payment Deleted", {
+        description: "The payment and its transaction have been removed.",
+      })
+      if (viewingInvoice && result.data) {
+        setViewingInvoice({ ...viewingInvoice, ...result.data })
+        loadPayments(viewingInvoice.id)
+      }
+      loadInvoices()
+    } catch (error) {
+      console.error("Error deleting payment:", error)
+      toast.error("Failed to delete payment")
+    }
+  }
+
 const handleExportPDF = async (invoice: DisplayInvoice) => {
   const blob = await pdf(<InvoicePDF invoice={invoice} />).toBlob();
 
@@ -525,17 +625,25 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
   });
 };
 
+  // Invoices in other currencies are totalled at their own rates
+  const inBase = (invoice: DisplayInvoice, amount: number) =>
+    toBaseAmount(amount, Number.parseFloat(invoice.exchangeRate || "1"))
+
   const calculateSummary = () => {
-    const totalAmount = filteredInvoices.reduce((sum, invoice) => sum + Number.parseFloat(invoice.total || "0"), 0)
-    const paidAmount = filteredInvoices
-      .filter((i) => i.status === "paid")
-      .reduce((sum, invoice) => sum + Number.parseFloat(invoice.total || "0"), 0)
+    const totalAmount = filteredInvoices.reduce(
+      (sum, invoice) => sum + inBase(invoice, Number.parseFloat(invoice.total || "0")),
+      0,
+    )
+    const paidAmount = filteredInvoices.reduce(
+      (sum, invoice) => sum + inBase(invoice, Number.parseFloat(invoice.paidAmount || "0")),
+      0,
+    )
     const pendingAmount = filteredInvoices
-      .filter((i) => i.status === "sent")
-      .reduce((sum, invoice) => sum + Number.parseFloat(invoice.total || "0"), 0)
+      .filter((i) => i.status === "sent" || i.status === "partially_paid")
+      .reduce((sum, invoice) => sum + inBase(invoice, outstandingBalance(invoice)), 0)
     const overdueAmount = filteredInvoices
       .filter((i) => i.status === "overdue")
-      .reduce((sum, invoice) => sum + Number.parseFloat(invoice.total || "0"), 0)
+      .reduce((sum, invoice) => sum + inBase(invoice, outstandingBalance(invoice)), 0)
 
     return { totalAmount, paidAmount, pendingAmount, overdueAmount }
   }
@@ -592,6 +700,7 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                             ...formData,
                             contactId: value,
                             customerName: customer?.name || "",
+                            currency: customer?.currency ?? formData.currency,
                           })
                         }}
                       >
@@ -626,14 +735,51 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {Object.entries(INVOICE_STATUS).map(([key, value]) => (
-                          <SelectItem key={key} value={key}>
-                            {value.label}
+                        {Object.entries(INVOICE_STATUS)
+                          .filter(([key]) => key !== "partially_paid" || formData.status === "partially_paid")
+                          .map(([key, value]) => (
+                            <SelectItem key={key} value={key}>
+                              {value.label}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="currency">Currency</Label>
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                    >
+                      <SelectTrigger id="currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                   </div>
+                  {formData.currency !== baseCurrency && (
+                    <div>
+                      <Label htmlFor="exchangeRate">Rate in {baseCurrency}</Label>
+                      <Input
+                        id="exchangeRate"
+                        type="number"
+                        min="0"
+                        step="0.000001"
+                        value={formData.exchangeRate}
+                        onChange={(e) => setFormData({ ...formData, exchangeRate: e.target.value })}
+                        placeholder="Stored rate for the issue date"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 {formData.status === "paid" && (
@@ -644,7 +790,7 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                         <SelectValue placeholder="Select account to receive payment" />
                       </SelectTrigger>
                       <SelectContent>
-                        {accounts.map((account) => (
+                        {accountsFor(formData.currency).map((account) => (
                           <SelectItem key={account.id} value={account.id}>
                             {account.name} ({account.type})
                           </SelectItem>
@@ -654,104 +800,14 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                   </div>
                 )}
 
-                <div className="flex items-center justify-between mb-4">
-                  <Label>Line Items</Label>
-                  <Button type="button" variant="outline" size="sm" onClick={addLineItem}>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Item
-                  </Button>
-                </div>
-                <div className="space-y-4">
-                  {formData.lineItems.map((item, index) => (
-                    <div key={index} className="grid grid-cols-12 gap-2 items-end">
-                      <div className="col-span-5">
-                        <Label>Description</Label>
-                        <Input
-                          value={item.description}
-                          onChange={(e) => updateLineItem(index, "description", e.target.value)}
-                          placeholder="Service or product description"
-                          required
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>Quantity</Label>
-                        <Input
-                          type="number"
-                          value={item.quantity}
-                          onChange={(e) => updateLineItem(index, "quantity", Number.parseFloat(e.target.value) || 0)}
-                          min="0"
-                          step="0.01"
-                          required
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>Rate</Label>
-                        <Input
-                          type="number"
-                          value={item.rate}
-                          onChange={(e) => updateLineItem(index, "rate", Number.parseFloat(e.target.value) || 0)}
-                          min="0"
-                          step="0.01"
-                          required
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <Label>Amount</Label>
-                        <Input value={`K${item.amount.toFixed(2)}`} disabled />
-                      </div>
-                      <div className="col-span-1">
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeLineItem(index)}
-                          disabled={formData.lineItems.length === 1}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-
-                <div className="space-y-2">
-                  <Separator />
-                  <div className="flex justify-between">
-                    <span>Subtotal:</span>
-                    <span>K{calculateTotals().subtotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <div className="flex items-center gap-2">
-                      <span>Tax Rate:</span>
-                      <Input
-                        type="number"
-                        value={formData.taxRate}
-                        onChange={(e) => {
-                          const newTaxRate = Number.parseFloat(e.target.value) || 0
-                          const { subtotal } = calculateTotals()
-                          const taxAmount = (subtotal * newTaxRate) / 100
-                          const total = subtotal + taxAmount
-                          setFormData({
-                            ...formData,
-                            taxRate: newTaxRate,
-                            taxAmount,
-                            total,
-                          })
-                        }}
-                        className="w-20"
-                        step="0.1"
-                        min="0"
-                        max="100"
-                      />
-                      <span>%</span>
-                    </div>
-                    <span>K{calculateTotals().taxAmount.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between font-bold text-lg">
-                    <span>Total:</span>
-                    <span>K{calculateTotals().total.toFixed(2)}</span>
-                  </div>
-                </div>
+                <LineItemsEditor
+                  lineItems={formData.lineItems}
+                  onChange={updateLineItems}
+                  taxCodes={taxCodes}
+                  taxRate={formData.taxRate}
+                  currency={formData.currency}
+                  documentLabel="Invoice"
+                />
 
                 <div>
                   <Label htmlFor="notes">Notes</Label>
@@ -788,7 +844,7 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">K{summary.totalAmount.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{currencySymbol(baseCurrency)}{summary.totalAmount.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">{filteredInvoices.length} invoices</p>
           </CardContent>
         </Card>
@@ -799,7 +855,7 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
             <CheckCircle className="h-4 w-4 text-green-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">K{summary.paidAmount.toLocaleString()}</div>
+            <div className="text-2xl font-bold text-green-600">{currencySymbol(baseCurrency)}{summary.paidAmount.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
               {filteredInvoices.filter((i) => i.status === "paid").length} invoices
             </p>
@@ -812,9 +868,9 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
             <Clock className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">K{summary.pendingAmount.toLocaleString()}</div>
+            <div className="text-2xl font-bold text-blue-600">{currencySymbol(baseCurrency)}{summary.pendingAmount.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
-              {filteredInvoices.filter((i) => i.status === "sent").length} invoices
+              {filteredInvoices.filter((i) => i.status === "sent" || i.status === "partially_paid").length} invoices
             </p>
           </CardContent>
         </Card>
@@ -825,7 +881,7 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
             <AlertCircle className="h-4 w-4 text-red-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-red-600">K{summary.overdueAmount.toLocaleString()}</div>
+            <div className="text-2xl font-bold text-red-600">{currencySymbol(baseCurrency)}{summary.overdueAmount.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
               {filteredInvoices.filter((i) => i.status === "overdue").length} invoices
             </p>
@@ -881,7 +937,7 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
               {filteredInvoices.map((invoice) => {
                 const status = invoice.status || "draft"
                 const StatusIcon = INVOICE_STATUS[status].icon
-                const isOverdue = invoice.status === "sent" && new Date(invoice.dueDate) < new Date()
+                const isOverdue = invoice.status === "sent" && new Date(invoice.dueDate) < startOfToday()
                 const displayStatus = isOverdue ? "overdue" : status
 
                 return (
@@ -891,7 +947,12 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                     <TableCell>{format(new Date(invoice.issueDate), "MMM dd, yyyy")}</TableCell>
                     <TableCell>{format(new Date(invoice.dueDate), "MMM dd, yyyy")}</TableCell>
                     <TableCell className="text-right font-mono">
-                      K{Number.parseFloat(invoice.total || "0").toLocaleString()}
+                      {currencySymbol(invoice.currency)}{Number.parseFloat(invoice.total || "0").toLocaleString()}
+                      {invoice.status === "partially_paid" && (
+                        <p className="text-xs text-muted-foreground">
+                          {currencySymbol(invoice.currency)}{outstandingBalance(invoice).toLocaleString()} due
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
@@ -904,11 +965,14 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                         <Button variant="ghost" size="sm" onClick={() => handleEdit(invoice)}>
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {invoice.status !== "draft" && invoice.status !== "paid" && (
+                          <Button variant="ghost" size="sm" onClick={() => openPaymentDialog(invoice)}>
+                            <Wallet className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Select
                           value={invoice.status || "draft"}
-                          onValueChange={(value: "draft" | "sent" | "paid" | "overdue") =>
-                            handleStatusChange(invoice.id, value)
-                          }
+                          onValueChange={(value: InvoiceStatus) => handleStatusChange(invoice.id, value)}
                         >
                           <SelectTrigger className="w-[120px] h-8">
                             <SelectValue />
@@ -958,6 +1022,11 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                     <p>
                       <strong>Due Date:</strong> {format(new Date(viewingInvoice.dueDate), "MMM dd, yyyy")}
                     </p>
+                    {viewingInvoice.quoteNumber && (
+                      <p>
+                        <strong>From Quote:</strong> {viewingInvoice.quoteNumber}
+                      </p>
+                    )}
                     <div className="mt-2">
                       <Badge className={INVOICE_STATUS[viewingInvoice.status || "draft"].color}>
                         {INVOICE_STATUS[viewingInvoice.status || "draft"].label}
@@ -970,19 +1039,73 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                   <Separator />
                   <div className="flex justify-between">
                     <span>Subtotal:</span>
-                    <span>K{Number.parseFloat(viewingInvoice.subtotal || "0").toFixed(2)}</span>
+                    <span>{currencySymbol(viewingInvoice.currency)}{Number.parseFloat(viewingInvoice.subtotal || "0").toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>
-                      Tax ({Number.parseFloat(viewingInvoice.taxRate || "0").toFixed(1)}
-                      %):
-                    </span>
-                    <span>K{Number.parseFloat(viewingInvoice.taxAmount || "0").toFixed(2)}</span>
+                    <span>Tax:</span>
+                    <span>{currencySymbol(viewingInvoice.currency)}{Number.parseFloat(viewingInvoice.taxAmount || "0").toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between font-bold text-lg">
                     <span>Total:</span>
-                    <span>K{Number.parseFloat(viewingInvoice.total || "0").toFixed(2)}</span>
+                    <span>{currencySymbol(viewingInvoice.currency)}{Number.parseFloat(viewingInvoice.total || "0").toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-green-600">
+                    <span>Paid:</span>
+                    <span>{currencySymbol(viewingInvoice.currency)}{Number.parseFloat(viewingInvoice.paidAmount || "0").toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Balance Due:</span>
+                    <span>{currencySymbol(viewingInvoice.currency)}{outstandingBalance(viewingInvoice).toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-semibold">Payment History</h3>
+                    {viewingInvoice.status !== "draft" && outstandingBalance(viewingInvoice) > 0 && (
+                      <Button variant="outline" size="sm" onClick={() => openPaymentDialog(viewingInvoice)}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Record Payment
+                      </Button>
+                    )}
                   </div>
+                  {payments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Method</TableHead>
+                          <TableHead>Account</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {payments.map((payment) => (
+                          <TableRow key={payment.id}>
+                            <TableCell>
+                              {format(new Date(payment.paymentDate), "MMM dd, yyyy")}
+                              {payment.reference && (
+                                <p className="text-xs text-muted-foreground">{payment.reference}</p>
+                              )}
+                            </TableCell>
+                            <TableCell>{PAYMENT_METHODS[payment.method]}</TableCell>
+                            <TableCell>{payment.accountName}</TableCell>
+                            <TableCell className="text-right font-mono">
+                              {currencySymbol(viewingInvoice.currency)}{Number.parseFloat(payment.amount).toFixed(2)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => handleDeletePayment(payment.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
                 </div>
 
                 {viewingInvoice.notes && (
@@ -1011,28 +1134,93 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
       </Dialog>
 
       <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
-        <DialogContent className="sm:max-w-[400px]">
+        <DialogContent className="sm:max-w-[440px]">
           <DialogHeader>
             <DialogTitle>Record Payment</DialogTitle>
             <DialogDescription>
-              Select the account where payment for Invoice {payingInvoice?.invoiceNumber} will be deposited.
+              Record a full or partial payment for Invoice {payingInvoice?.invoiceNumber}.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div>
-              <Label>Invoice Amount</Label>
+              <Label>Balance Due</Label>
               <div className="text-2xl font-bold text-green-600">
-                K{payingInvoice ? Number.parseFloat(payingInvoice.total || "0").toLocaleString() : "0"}
+                {currencySymbol(payingInvoice?.currency ?? baseCurrency)}
+                {payingInvoice ? outstandingBalance(payingInvoice).toLocaleString() : "0"}
+              </div>
+              {customerCredit.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Customer credit held:{" "}
+                  {customerCredit
+                    .map((credit) => `${currencySymbol(credit.currency)}${credit.amount.toFixed(2)}`)
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="paymentDate">Payment Date</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={paymentFormData.paymentDate}
+                  onChange={(e) => setPaymentFormData({ ...paymentFormData, paymentDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="paymentAmount">Amount</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={paymentFormData.amount}
+                  onChange={(e) => setPaymentFormData({ ...paymentFormData, amount: e.target.value })}
+                />
               </div>
             </div>
+            {payingInvoice && Number.parseFloat(paymentFormData.amount) > outstandingBalance(payingInvoice) && (
+              <p className="text-sm text-muted-foreground">
+                {currencySymbol(payingInvoice.currency)}
+                {(Number.parseFloat(paymentFormData.amount) - outstandingBalance(payingInvoice)).toFixed(2)} more than
+                the balance due will be held as credit for the customer.
+              </p>
+            )}
+            {payingInvoice && payingInvoice.currency !== baseCurrency && (
+              <div>
+                <Label htmlFor="paymentExchangeRate">Rate in {baseCurrency}</Label>
+                <Input
+                  id="paymentExchangeRate"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={paymentFormData.exchangeRate}
+                  onChange={(e) => setPaymentFormData({ ...paymentFormData, exchangeRate: e.target.value })}
+                  placeholder="Stored rate for the payment date"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The difference from the invoice rate is posted as a realised exchange gain or loss.
+                </p>
+              </div>
+            )}
             <div>
               <Label htmlFor="account">Deposit to Account</Label>
-              <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+              <Select
+                value={selectedAccount}
+                onValueChange={(value) => {
+                  const account = accounts.find((a) => a.id === value)
+                  setSelectedAccount(value)
+                  setPaymentFormData({
+                    ...paymentFormData,
+                    method: METHOD_FOR_ACCOUNT_TYPE[account?.type ?? ""] ?? paymentFormData.method,
+                  })
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue placeholder="Select account to receive payment" />
                 </SelectTrigger>
                 <SelectContent>
-                  {accounts.map((account) => (
+                  {accountsFor(payingInvoice?.currency ?? baseCurrency).map((account) => (
                     <SelectItem key={account.id} value={account.id}>
                       {account.name} ({account.type})
                     </SelectItem>
@@ -1040,12 +1228,50 @@ const handleExportPDF = async (invoice: DisplayInvoice) => {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="paymentMethod">Method</Label>
+              <Select
+                value={paymentFormData.method}
+                onValueChange={(value: PaymentMethod) => setPaymentFormData({ ...paymentFormData, method: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHODS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="paymentReference">Reference</Label>
+              <Input
+                id="paymentReference"
+                value={paymentFormData.reference}
+                onChange={(e) => setPaymentFormData({ ...paymentFormData, reference: e.target.value })}
+                placeholder="Receipt or transfer reference"
+              />
+            </div>
+            <div>
+              <Label htmlFor="paymentNotes">Notes</Label>
+              <Textarea
+                id="paymentNotes"
+                value={paymentFormData.notes}
+                onChange={(e) => setPaymentFormData({ ...paymentFormData, notes: e.target.value })}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handlePayment} disabled={!selectedAccount}>
+            <Button
+              onClick={handlePayment}
+              disabled={!selectedAccount || !(Number.parseFloat(paymentFormData.amount) > 0)}
+            >
               Record Payment
             </Button>
           </DialogFooter>
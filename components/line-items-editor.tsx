@@ -0,0 +1,223 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Plus, Trash2 } from "lucide-react"
+import type { TaxCodeKind } from "@/db/schema"
+import { currencySymbol } from "@/lib/currency"
+import { calculateLineTax } from "@/lib/tax-codes"
+
+export interface LineItem {
+  id?: string
+  description: string
+  quantity: number
+  rate: number
+  amount: number
+  taxCodeId: string
+}
+
+// Lines without a tax code are taxed at the document's own rate, which only older documents have
+export const NO_TAX_CODE = "none"
+
+interface TaxCode {
+  id: string
+  name: string
+  rate: string
+  kind: TaxCodeKind
+  isActive: boolean
+}
+
+export function emptyLineItem(taxCodes: TaxCode[]): LineItem {
+  const taxCodeId = taxCodes.find((code) => code.isActive && code.kind === "standard")?.id ?? NO_TAX_CODE
+  return { description: "", quantity: 1, rate: 0, amount: 0, taxCodeId }
+}
+
+/**
+ * Editor lines from saved line items
+ */
+export function toLineItems(
+  items: { id: string; description: string; quantity: string; unitPrice: string; total: string; taxCodeId: string | null }[],
+): LineItem[] {
+  return items.map((item) => ({
+    id: item.id,
+    description: item.description,
+    quantity: Number.parseFloat(item.quantity),
+    rate: Number.parseFloat(item.unitPrice),
+    amount: Number.parseFloat(item.total),
+    taxCodeId: item.taxCodeId ?? NO_TAX_CODE,
+  }))
+}
+
+/**
+ * The items field submitted with the document form
+ */
+export function serializeLineItems(lineItems: LineItem[]) {
+  return JSON.stringify(
+    lineItems.map((item) => ({
+      ...item,
+      unitPrice: item.rate,
+      taxCodeId: item.taxCodeId === NO_TAX_CODE ? null : item.taxCodeId,
+    })),
+  )
+}
+
+export function calculateLineItemTotals(lineItems: LineItem[], taxRate: number, taxCodes: TaxCode[]) {
+  const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0)
+  let taxAmount = 0
+  let withheldAmount = 0
+  for (const item of lineItems) {
+    const code = taxCodes.find((candidate) => candidate.id === item.taxCodeId)
+    const tax = calculateLineTax(Number(item.amount.toFixed(2)), taxRate, code).amount
+    if (tax < 0) {
+      withheldAmount -= tax
+    } else {
+      taxAmount += tax
+    }
+  }
+  const total = subtotal + taxAmount - withheldAmount
+  return { subtotal, taxAmount, withheldAmount, total }
+}
+
+interface LineItemsEditorProps {
+  lineItems: LineItem[]
+  onChange: (lineItems: LineItem[]) => void
+  taxCodes: TaxCode[]
+  // The document's own rate, applied to lines without a tax code
+  taxRate: number
+  currency: string
+  documentLabel: string
+}
+
+export function LineItemsEditor({ lineItems, onChange, taxCodes, taxRate, currency, documentLabel }: LineItemsEditorProps) {
+  const totals = calculateLineItemTotals(lineItems, taxRate, taxCodes)
+
+  const updateLineItem = (index: number, field: keyof LineItem, value: string | number) => {
+    const newLineItems = [...lineItems]
+    newLineItems[index] = { ...newLineItems[index], [field]: value }
+
+    if (field === "quantity" || field === "rate") {
+      newLineItems[index].amount = newLineItems[index].quantity * newLineItems[index].rate
+    }
+
+    onChange(newLineItems)
+  }
+
+  const addLineItem = () => {
+    onChange([...lineItems, emptyLineItem(taxCodes)])
+  }
+
+  const removeLineItem = (index: number) => {
+    if (lineItems.length > 1) {
+      onChange(lineItems.filter((_, i) => i !== index))
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <Label>Line Items</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addLineItem}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Item
+        </Button>
+      </div>
+      <div className="space-y-4">
+        {lineItems.map((item, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-end">
+            <div className="col-span-3">
+              <Label>Description</Label>
+              <Input
+                value={item.description}
+                onChange={(e) => updateLineItem(index, "description", e.target.value)}
+                placeholder="Service or product description"
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <Label>Quantity</Label>
+              <Input
+                type="number"
+                value={item.quantity}
+                onChange={(e) => updateLineItem(index, "quantity", Number.parseFloat(e.target.value) || 0)}
+                min="0"
+                step="0.01"
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <Label>Rate</Label>
+              <Input
+                type="number"
+                value={item.rate}
+                onChange={(e) => updateLineItem(index, "rate", Number.parseFloat(e.target.value) || 0)}
+                min="0"
+                step="0.01"
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <Label>Tax</Label>
+              <Select value={item.taxCodeId} onValueChange={(value) => updateLineItem(index, "taxCodeId", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TAX_CODE}>
+                    {taxRate > 0 ? `${documentLabel} rate (${taxRate}%)` : "No tax"}
+                  </SelectItem>
+                  {taxCodes
+                    .filter((code) => code.isActive || code.id === item.taxCodeId)
+                    .map((code) => (
+                      <SelectItem key={code.id} value={code.id}>
+                        {code.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label>Amount</Label>
+              <Input value={`${currencySymbol(currency)}${item.amount.toFixed(2)}`} disabled />
+            </div>
+            <div className="col-span-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeLineItem(index)}
+                disabled={lineItems.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Separator />
+        <div className="flex justify-between">
+          <span>Subtotal:</span>
+          <span>{currencySymbol(currency)}{totals.subtotal.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Tax:</span>
+          <span>{currencySymbol(currency)}{totals.taxAmount.toFixed(2)}</span>
+        </div>
+        {totals.withheldAmount > 0 && (
+          <div className="flex justify-between text-muted-foreground">
+            <span>Withholding tax:</span>
+            <span>-{currencySymbol(currency)}{totals.withheldAmount.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-bold text-lg">
+          <span>Total:</span>
+          <span>{currencySymbol(currency)}{totals.total.toFixed(2)}</span>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { Building, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createOrganization,
+  switchOrganization,
+} from "@/lib/actions/organizations";
+import { toast } from "sonner";
+
+interface OrganizationOption {
+  id: string;
+  name: string;
+  role: string;
+}
+
+interface OrganizationSwitcherProps {
+  organizations: OrganizationOption[];
+  activeId: string;
+}
+
+const CREATE_VALUE = "__create__";
+
+export function OrganizationSwitcher({
+  organizations,
+  activeId,
+}: OrganizationSwitcherProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  // Every page reads data for the active organisation, so reload after a switch
+  const handleChange = async (value: string) => {
+    if (value === CREATE_VALUE) {
+      setIsDialogOpen(true);
+      return;
+    }
+
+    const result = await switchOrganization(value);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const formData = new FormData();
+    formData.append("name", name);
+    const result = await createOrganization(formData);
+
+    if (result.success) {
+      toast.success("Organisation created");
+      window.location.reload();
+    } else {
+      toast.error(result.error);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Select value={activeId} onValueChange={handleChange}>
+        <SelectTrigger className="w-full">
+          <Building className="h-4 w-4" />
+          <SelectValue placeholder="Select organisation" />
+        </SelectTrigger>
+        <SelectContent>
+          {organizations.map((organization) => (
+            <SelectItem key={organization.id} value={organization.id}>
+              {organization.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={CREATE_VALUE}>
+            <Plus className="h-4 w-4" />
+            New organisation
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New Organisation</DialogTitle>
+              <DialogDescription>
+                Organisations keep their own accounts, contacts and documents.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="organizationName">Name</Label>
+              <Input
+                id="organizationName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsDialogOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import { Document, Page, Text, View } from "@react-pdf/renderer";
+import type { DisplayQuote, QuoteLine } from "@/components/quote-management";
+import { CompanyDetails, styles } from "@/components/invoice-export";
+import { currencySymbol } from "@/lib/currency";
+
+interface QuotePDFProps {
+  quote: DisplayQuote;
+  items: QuoteLine[];
+}
+
+export const QuotePDF: React.FC<QuotePDFProps> = ({ quote, items }) => {
+  const symbol = currencySymbol(quote.currency);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* ---------- HEADER ---------- */}
+        <View style={styles.twoColumn}>
+          <CompanyDetails />
+
+          <View style={[styles.column, styles.invoiceBox]}>
+            <Text style={styles.invoiceTitle}>QUOTE</Text>
+            <Text style={styles.invoiceNumber}>#{quote.quoteNumber}</Text>
+            <Text style={styles.statusBadge}>{quote.status.toUpperCase()}</Text>
+          </View>
+        </View>
+
+        {/* ---------- DETAILS ---------- */}
+        <View style={styles.twoColumn}>
+          <View style={styles.column}>
+            <Text style={styles.label}>Quote Number</Text>
+            <Text style={styles.value}>{quote.quoteNumber}</Text>
+
+            <Text style={styles.label}>Issue Date</Text>
+            <Text style={styles.value}>
+              {new Date(quote.issueDate).toLocaleDateString()}
+            </Text>
+
+            <Text style={styles.label}>Valid Until</Text>
+            <Text style={styles.value}>
+              {new Date(quote.expiryDate).toLocaleDateString()}
+            </Text>
+          </View>
+
+          <View style={styles.column}>
+            <Text style={styles.label}>Prepared For</Text>
+            <Text style={[styles.value, styles.bold]}>{quote.customerName}</Text>
+            {quote.customerEmail && (
+              <Text style={[styles.value, { color: "#6b7280" }]}>
+                {quote.customerEmail}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* ---------- ITEMS TABLE ---------- */}
+        <View style={styles.tableContainer}>
+          <View style={styles.tableHeader}>
+            <Text style={styles.cellDescription}>Description</Text>
+            <Text style={styles.cellQty}>Qty</Text>
+            <Text style={styles.cellRate}>Rate</Text>
+            <Text style={styles.cellAmount}>Amount</Text>
+          </View>
+
+          {items.map((item, i) => (
+            <View key={i} style={styles.tableRow}>
+              <Text style={styles.cellDescription}>
+                {item.description}
+                {item.taxCodeName ? ` (${item.taxCodeName})` : ""}
+              </Text>
+              <Text style={styles.cellQty}>{item.quantity}</Text>
+              <Text style={styles.cellRate}>
+                {symbol}{parseFloat(item.unitPrice).toFixed(2)}
+              </Text>
+              <Text style={styles.cellAmount}>
+                {symbol}{parseFloat(item.total).toFixed(2)}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {/* ---------- TOTALS ---------- */}
+        <View style={styles.totalsSection}>
+          <View style={styles.totalRow}>
+            <Text>Subtotal</Text>
+            <Text>{symbol}{parseFloat(quote.subtotal).toFixed(2)}</Text>
+          </View>
+          <View style={styles.totalRow}>
+            <Text>Tax</Text>
+            <Text>{symbol}{parseFloat(quote.taxAmount || "0").toFixed(2)}</Text>
+          </View>
+          <View style={styles.grandTotal}>
+            <Text>Total</Text>
+            <Text>{symbol}{parseFloat(quote.total).toFixed(2)}</Text>
+          </View>
+        </View>
+
+        {/* ---------- NOTES & TERMS ---------- */}
+        {quote.notes && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <Text style={styles.sectionText}>{quote.notes}</Text>
+          </View>
+        )}
+
+        {quote.terms && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Terms & Conditions</Text>
+            <Text style={styles.sectionText}>{quote.terms}</Text>
+          </View>
+        )}
+
+        {/* ---------- FOOTER ---------- */}
+        <View style={styles.footer}>
+          <Text>
+            This quote is valid until {new Date(quote.expiryDate).toLocaleDateString()}.
+            Thank you for considering Samuel!
+          </Text>
+        </View>
+      </Page>
+    </Document>
+  );
+};
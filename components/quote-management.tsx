@@ -0,0 +1,674 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Plus, Search, Edit, Trash2, Download, Send, FileText, FileCheck, CheckCircle, XCircle, Clock } from "lucide-react"
+import { format } from "date-fns"
+import {
+  getQuoteById,
+  createQuote,
+  updateQuote,
+  deleteQuote,
+  updateQuoteStatus,
+  convertQuoteToInvoice,
+} from "@/lib/actions/quotes"
+import type { QuoteStatus, TaxCodeKind } from "@/db/schema"
+import { CURRENCIES, currencySymbol } from "@/lib/currency"
+import { toast } from "sonner"
+import { useRouter } from "next/navigation"
+import {
+  type LineItem,
+  LineItemsEditor,
+  emptyLineItem,
+  serializeLineItems,
+  toLineItems,
+} from "./line-items-editor"
+import { QuotePDF } from "./quote-export"
+import { pdf } from "@react-pdf/renderer"
+
+const QUOTE_STATUS = {
+  draft: {
+    label: "Draft",
+    color: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300",
+    icon: FileText,
+  },
+  sent: {
+    label: "Sent",
+    color: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+    icon: Send,
+  },
+  accepted: {
+    label: "Accepted",
+    color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+    icon: CheckCircle,
+  },
+  declined: {
+    label: "Declined",
+    color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+    icon: XCircle,
+  },
+  expired: {
+    label: "Expired",
+    color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+    icon: Clock,
+  },
+} as const
+
+// Quotes become accepted by converting them, so the status pickers leave accepted out
+const SELECTABLE_STATUSES = (Object.keys(QUOTE_STATUS) as QuoteStatus[]).filter((status) => status !== "accepted")
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DisplayQuote {
+  id: string
+  quoteNumber: string
+  customerId: string
+  customerName: string
+  customerEmail: string | null
+  issueDate: Date
+  expiryDate: Date
+  status: QuoteStatus
+  subtotal: string
+  taxRate: string | null
+  taxAmount: string | null
+  total: string
+  currency: string
+  notes: string | null
+  terms: string | null
+  // The invoice the quote was converted into
+  invoiceId: string | null
+  invoiceNumber: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export interface QuoteLine {
+  id: string
+  description: string
+  quantity: string
+  unitPrice: string
+  total: string
+  taxCodeId: string | null
+  taxCodeName: string | null
+}
+
+interface QuoteFormData {
+  customerId: string
+  issueDate: string
+  expiryDate: string
+  status: QuoteStatus
+  taxRate: number
+  currency: string
+  notes: string
+  terms: string
+  lineItems: LineItem[]
+}
+
+interface Customer {
+  id: string
+  name: string
+  email: string | null
+  currency: string
+}
+
+interface TaxCode {
+  id: string
+  name: string
+  rate: string
+  kind: TaxCodeKind
+  isActive: boolean
+}
+
+interface QuoteManagementProps {
+  initialQuotes: DisplayQuote[]
+  initialCustomers: Customer[]
+  taxCodes: TaxCode[]
+  baseCurrency: string
+}
+
+export function QuoteManagement({ initialQuotes, initialCustomers, taxCodes, baseCurrency }: QuoteManagementProps) {
+  const router = useRouter()
+  const [quotes, setQuotes] = useState<DisplayQuote[]>(initialQuotes)
+  const [customers, setCustomers] = useState<Customer[]>(initialCustomers)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [selectedStatus, setSelectedStatus] = useState<string>("ALL")
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingQuote, setEditingQuote] = useState<DisplayQuote | null>(null)
+  const [convertingId, setConvertingId] = useState<string | null>(null)
+
+  const emptyForm = (): QuoteFormData => ({
+    customerId: "",
+    issueDate: format(new Date(), "yyyy-MM-dd"),
+    expiryDate: format(new Date(Date.now() + 30 * DAY_MS), "yyyy-MM-dd"),
+    status: "draft",
+    taxRate: 0,
+    currency: baseCurrency,
+    notes: "",
+    terms: "",
+    lineItems: [emptyLineItem(taxCodes)],
+  })
+
+  const [formData, setFormData] = useState<QuoteFormData>(emptyForm)
+
+  useEffect(() => {
+    setQuotes(initialQuotes)
+    setCustomers(initialCustomers)
+  }, [initialQuotes, initialCustomers])
+
+  const loadQuotes = () => {
+    router.refresh()
+  }
+
+  // Sent quotes past their expiry date show as expired before the expiry job catches up
+  const displayStatus = (quote: DisplayQuote): QuoteStatus =>
+    quote.status === "sent" && new Date(quote.expiryDate) < new Date(new Date().toDateString()) ? "expired" : quote.status
+
+  const canConvert = (quote: DisplayQuote) =>
+    !quote.invoiceId && displayStatus(quote) !== "declined" && displayStatus(quote) !== "expired"
+
+  const filteredQuotes = quotes.filter((quote) => {
+    const matchesSearch =
+      quote.quoteNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (quote.customerName || "").toLowerCase().includes(searchTerm.toLowerCase())
+    const matchesStatus = selectedStatus === "ALL" || displayStatus(quote) === selectedStatus
+    return matchesSearch && matchesStatus
+  })
+
+  const resetForm = () => {
+    setFormData(emptyForm())
+    setEditingQuote(null)
+    setIsDialogOpen(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.customerId) {
+      toast.error("Please select a customer")
+      return
+    }
+
+    try {
+      const formDataToSubmit = new FormData()
+      formDataToSubmit.append("customerId", formData.customerId)
+      formDataToSubmit.append("issueDate", formData.issueDate)
+      formDataToSubmit.append("expiryDate", formData.expiryDate)
+      formDataToSubmit.append("status", formData.status)
+      formDataToSubmit.append("notes", formData.notes)
+      formDataToSubmit.append("terms", formData.terms)
+      formDataToSubmit.append("taxRate", formData.taxRate.toString())
+      formDataToSubmit.append("currency", formData.currency)
+      formDataToSubmit.append("items", serializeLineItems(formData.lineItems))
+
+      const result = editingQuote
+        ? await updateQuote(editingQuote.id, formDataToSubmit)
+        : await createQuote(formDataToSubmit)
+
+      if (result.success) {
+        toast(editingQuote ? "Quote Updated" : "Quote Created", {
+          description: `Quote has been ${editingQuote ? "updated" : "created"} successfully.`,
+        })
+        resetForm()
+        loadQuotes()
+      } else {
+        toast.error(result.error || "Failed to save quote")
+      }
+    } catch (error) {
+      console.error("Error saving quote:", error)
+      toast.error("Failed to save quote")
+    }
+  }
+
+  const handleEdit = async (quote: DisplayQuote) => {
+    try {
+      const result = await getQuoteById(quote.id)
+      if (result.success && result.data) {
+        setEditingQuote(quote)
+        setFormData({
+          customerId: quote.customerId,
+          issueDate: format(new Date(quote.issueDate), "yyyy-MM-dd"),
+          expiryDate: format(new Date(quote.expiryDate), "yyyy-MM-dd"),
+          status: quote.status,
+          taxRate: Number.parseFloat(quote.taxRate || "0"),
+          currency: quote.currency,
+          notes: quote.notes || "",
+          terms: quote.terms || "",
+          lineItems: result.data.items.length ? toLineItems(result.data.items) : [emptyLineItem(taxCodes)],
+        })
+        setIsDialogOpen(true)
+      } else {
+        toast.error(result.error || "Failed to load quote details")
+      }
+    } catch (error) {
+      console.error("Error loading quote details:", error)
+      toast.error("Failed to load quote details")
+    }
+  }
+
+  const handleDelete = async (quoteId: string) => {
+    try {
+      const result = await deleteQuote(quoteId)
+      if (result.success) {
+        toast("Quote Deleted", {
+          description: "The quote has been deleted successfully.",
+        })
+        loadQuotes()
+      } else {
+        toast.error(result.error || "Failed to delete quote")
+      }
+    } catch (error) {
+      console.error("Error deleting quote:", error)
+      toast.error("Failed to delete quote")
+    }
+  }
+
+  const handleStatusChange = async (quoteId: string, newStatus: QuoteStatus) => {
+    try {
+      const result = await updateQuoteStatus(quoteId, newStatus)
+      if (result.success) {
+        toast.success("Status Updated", {
+          description: `Quote status has been updated to ${QUOTE_STATUS[newStatus].label}.`,
+        })
+        loadQuotes()
+      } else {
+        toast.error(result.error || "Failed to update status")
+      }
+    } catch (error) {
+      console.error("Error updating status:", error)
+      toast.error("Failed to update status")
+    }
+  }
+
+  const handleConvert = async (quote: DisplayQuote) => {
+    setConvertingId(quote.id)
+    try {
+      const result = await convertQuoteToInvoice(quote.id)
+      if (result.success && result.data) {
+        toast.success("Quote Converted", {
+          description: `${quote.quoteNumber} is now draft invoice ${result.data.invoice.invoiceNumber}.`,
+          action: { label: "View Invoices", onClick: () => router.push("/invoices") },
+        })
+        loadQuotes()
+      } else {
+        toast.error(result.error || "Failed to convert quote")
+      }
+    } catch (error) {
+      console.error("Error converting quote:", error)
+      toast.error("Failed to convert quote")
+    } finally {
+      setConvertingId(null)
+    }
+  }
+
+  const handleExportPDF = async (quote: DisplayQuote) => {
+    const result = await getQuoteById(quote.id)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load quote details")
+      return
+    }
+
+    const blob = await pdf(<QuotePDF quote={quote} items={result.data.items} />).toBlob()
+
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `Quote-${quote.quoteNumber}.pdf`
+    link.click()
+    URL.revokeObjectURL(url)
+
+    toast.success("Quote exported", {
+      description: `Quote ${quote.quoteNumber} has been downloaded.`,
+    })
+  }
+
+  // Quotes are not posted, so totals in other currencies are listed by currency rather than converted
+  const totalsByCurrency = (statuses: QuoteStatus[]) =>
+    filteredQuotes
+      .filter((quote) => statuses.includes(displayStatus(quote)))
+      .reduce<Record<string, number>>((totals, quote) => {
+        totals[quote.currency] = (totals[quote.currency] ?? 0) + Number.parseFloat(quote.total || "0")
+        return totals
+      }, {})
+
+  const formatTotals = (totals: Record<string, number>) => {
+    const entries = Object.entries(totals)
+    if (entries.length === 0) {
+      return `${currencySymbol(baseCurrency)}0`
+    }
+    return entries.map(([currency, amount]) => `${currencySymbol(currency)}${amount.toLocaleString()}`).join(" + ")
+  }
+
+  const countWith = (statuses: QuoteStatus[]) =>
+    filteredQuotes.filter((quote) => statuses.includes(displayStatus(quote))).length
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Quotes</h1>
+          <p className="text-muted-foreground">Price work for customers and turn accepted quotes into invoices</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Quote
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSubmit}>
+              <DialogHeader>
+                <DialogTitle>{editingQuote ? `Edit Quote ${editingQuote.quoteNumber}` : "Create New Quote"}</DialogTitle>
+                <DialogDescription>
+                  {editingQuote ? "Update the quote details below." : "Prepare a quote for your customer."}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-6 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="customer">Customer</Label>
+                    <Select
+                      value={formData.customerId}
+                      onValueChange={(value) => {
+                        const customer = customers.find((c) => c.id === value)
+                        setFormData({ ...formData, customerId: value, currency: customer?.currency ?? formData.currency })
+                      }}
+                    >
+                      <SelectTrigger id="customer">
+                        <SelectValue placeholder="Select customer" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {customers.map((customer) => (
+                          <SelectItem key={customer.id} value={customer.id}>
+                            {customer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="status">Status</Label>
+                    <Select
+                      value={formData.status}
+                      onValueChange={(value: QuoteStatus) => setFormData({ ...formData, status: value })}
+                    >
+                      <SelectTrigger id="status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SELECTABLE_STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {QUOTE_STATUS[status].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="issueDate">Issue Date</Label>
+                    <Input
+                      id="issueDate"
+                      type="date"
+                      value={formData.issueDate}
+                      onChange={(e) => setFormData({ ...formData, issueDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="expiryDate">Valid Until</Label>
+                    <Input
+                      id="expiryDate"
+                      type="date"
+                      value={formData.expiryDate}
+                      min={formData.issueDate}
+                      onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="currency">Currency</Label>
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                    >
+                      <SelectTrigger id="currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <LineItemsEditor
+                  lineItems={formData.lineItems}
+                  onChange={(lineItems) => setFormData({ ...formData, lineItems })}
+                  taxCodes={taxCodes}
+                  taxRate={formData.taxRate}
+                  currency={formData.currency}
+                  documentLabel="Quote"
+                />
+
+                <div>
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    placeholder="Additional notes..."
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="terms">Terms</Label>
+                  <Textarea
+                    id="terms"
+                    value={formData.terms}
+                    onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                    placeholder="Terms of the offer..."
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit">{editingQuote ? "Update Quote" : "Create Quote"}</Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Response</CardTitle>
+            <Send className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTotals(totalsByCurrency(["sent"]))}</div>
+            <p className="text-xs text-muted-foreground">{countWith(["sent"])} quotes</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Accepted</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatTotals(totalsByCurrency(["accepted"]))}</div>
+            <p className="text-xs text-muted-foreground">{countWith(["accepted"])} quotes</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Declined or Expired</CardTitle>
+            <XCircle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">
+              {formatTotals(totalsByCurrency(["declined", "expired"]))}
+            </div>
+            <p className="text-xs text-muted-foreground">{countWith(["declined", "expired"])} quotes</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quote History</CardTitle>
+          <CardDescription>View, send and convert your quotes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4 mb-6">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search quotes..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Status</SelectItem>
+                {Object.entries(QUOTE_STATUS).map(([key, value]) => (
+                  <SelectItem key={key} value={key}>
+                    {value.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quote #</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Issue Date</TableHead>
+                <TableHead>Valid Until</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredQuotes.map((quote) => {
+                const status = displayStatus(quote)
+                const StatusIcon = QUOTE_STATUS[status].icon
+
+                return (
+                  <TableRow key={quote.id}>
+                    <TableCell className="font-mono font-medium">{quote.quoteNumber}</TableCell>
+                    <TableCell>{quote.customerName || "Unknown Customer"}</TableCell>
+                    <TableCell>{format(new Date(quote.issueDate), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>{format(new Date(quote.expiryDate), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>
+                      <Badge className={QUOTE_STATUS[status].color}>
+                        <StatusIcon className="mr-1 h-3 w-3" />
+                        {QUOTE_STATUS[status].label}
+                      </Badge>
+                      {quote.invoiceNumber && (
+                        <p className="text-xs text-muted-foreground mt-1">Invoice {quote.invoiceNumber}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {currencySymbol(quote.currency)}{Number.parseFloat(quote.total || "0").toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleExportPDF(quote)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {!quote.invoiceId && (
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(quote)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canConvert(quote) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Convert to invoice"
+                            disabled={convertingId === quote.id}
+                            onClick={() => handleConvert(quote)}
+                          >
+                            <FileCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {!quote.invoiceId && (
+                          <Select
+                            value={quote.status}
+                            onValueChange={(value: QuoteStatus) => handleStatusChange(quote.id, value)}
+                          >
+                            <SelectTrigger className="w-[120px] h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SELECTABLE_STATUSES.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                  {QUOTE_STATUS[value].label}
+                                </SelectItem>
+                              ))}
+                              {quote.status === "accepted" && (
+                                <SelectItem value="accepted" disabled>
+                                  {QUOTE_STATUS.accepted.label}
+                                </SelectItem>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(quote.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+              {filteredQuotes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No quotes found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
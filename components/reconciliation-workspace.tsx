@@ -0,0 +1,615 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle2, Landmark, Lock, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  cancelReconciliation,
+  getReconciliation,
+  reopenReconciliation,
+  saveReconciliation,
+  startReconciliation,
+} from "@/lib/actions/reconciliation";
+
+interface ReconciliationSummary {
+  id: string;
+  statementDate: Date;
+  statementBalance: string;
+  status: "in_progress" | "completed";
+  completedAt: Date | null;
+  completedBy: string | null;
+}
+
+interface ReconciliationAccount {
+  id: string;
+  name: string;
+  type: string | null;
+  balance: number;
+  inProgress: ReconciliationSummary | null;
+  history: ReconciliationSummary[];
+}
+
+interface ReconciliationLine {
+  id: string;
+  description: string;
+  reference: string | null;
+  type: string;
+  transactionDate: Date;
+  amount: number;
+  cleared: boolean;
+}
+
+interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: Date;
+  statementBalance: string;
+  status: "in_progress" | "completed";
+  openingBalance: number;
+  lines: ReconciliationLine[];
+}
+
+interface ReconciliationWorkspaceProps {
+  initialAccounts: ReconciliationAccount[];
+}
+
+const formatKwacha = (amount: number) =>
+  `K${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export function ReconciliationWorkspace({
+  initialAccounts,
+}: ReconciliationWorkspaceProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [startAccount, setStartAccount] =
+    useState<ReconciliationAccount | null>(null);
+  const [startForm, setStartForm] = useState({
+    statementDate: format(new Date(), "yyyy-MM-dd"),
+    statementBalance: "",
+  });
+
+  const [active, setActive] = useState<Reconciliation | null>(null);
+  const [statementDate, setStatementDate] = useState("");
+  const [statementBalance, setStatementBalance] = useState("");
+  const [cleared, setCleared] = useState<string[]>([]);
+
+  const activeAccount = initialAccounts.find(
+    (account) => account.id === active?.accountId
+  );
+  const readOnly = active?.status === "completed";
+
+  const openReconciliation = async (id: string) => {
+    setLoading(true);
+    const result = await getReconciliation(id);
+    if (result.success && result.data) {
+      setActive(result.data);
+      setStatementDate(format(new Date(result.data.statementDate), "yyyy-MM-dd"));
+      setStatementBalance(result.data.statementBalance);
+      setCleared(
+        result.data.lines.filter((line) => line.cleared).map((line) => line.id)
+      );
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startAccount) return;
+
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("accountId", startAccount.id);
+    formData.append("statementDate", startForm.statementDate);
+    formData.append("statementBalance", startForm.statementBalance);
+
+    const result = await startReconciliation(formData);
+    setLoading(false);
+    if (result.success && result.data) {
+      setStartAccount(null);
+      router.refresh();
+      await openReconciliation(result.data.id);
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleSave = async (complete: boolean) => {
+    if (!active) return;
+
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("statementDate", statementDate);
+    formData.append("statementBalance", statementBalance);
+    formData.append("transactionIds", JSON.stringify(cleared));
+
+    const result = await saveReconciliation(active.id, formData, complete);
+    if (result.success) {
+      toast.success(
+        complete ? "Reconciliation completed" : "Reconciliation saved"
+      );
+      router.refresh();
+      if (complete) {
+        setActive(null);
+      } else {
+        await openReconciliation(active.id);
+      }
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleDiscard = async () => {
+    if (!active) return;
+
+    setLoading(true);
+    const result = await cancelReconciliation(active.id);
+    if (result.success) {
+      toast.success("Reconciliation discarded");
+      setActive(null);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleReopen = async (id: string) => {
+    setLoading(true);
+    const result = await reopenReconciliation(id);
+    if (result.success) {
+      toast.success("Reconciliation reopened");
+      router.refresh();
+      await openReconciliation(id);
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const clearedLines = active
+    ? active.lines.filter((line) => cleared.includes(line.id))
+    : [];
+  const clearedIn = clearedLines
+    .filter((line) => line.amount > 0)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const clearedOut = clearedLines
+    .filter((line) => line.amount < 0)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const clearedBalance = (active?.openingBalance ?? 0) + clearedIn + clearedOut;
+  const difference =
+    (Number.parseFloat(statementBalance) || 0) - clearedBalance;
+  const balanced = Math.abs(difference) < 0.005;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">
+          Bank Reconciliation
+        </h1>
+        <p className="text-muted-foreground">
+          Match your bank and mobile accounts against their statements
+        </p>
+      </div>
+
+      {initialAccounts.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            <Landmark className="mx-auto mb-4 h-12 w-12 opacity-50" />
+            <p>No bank or mobile accounts to reconcile</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {initialAccounts.map((account) => {
+            const last = account.history[0];
+            return (
+              <Card
+                key={account.id}
+                className={
+                  active?.accountId === account.id ? "border-primary" : ""
+                }
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    {account.name}
+                    <Badge variant="outline" className="capitalize">
+                      {account.type}
+                    </Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Book balance {formatKwacha(account.balance)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    {last
+                      ? `Reconciled to ${format(
+                          new Date(last.statementDate),
+                          "MMM dd, yyyy"
+                        )} at ${formatKwacha(
+                          Number.parseFloat(last.statementBalance)
+                        )}`
+                      : "Never reconciled"}
+                  </p>
+                  {account.inProgress ? (
+                    <Button
+                      size="sm"
+                      onClick={() => openReconciliation(account.inProgress!.id)}
+                      disabled={loading}
+                    >
+                      Continue Reconciliation
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => {
+                        setStartForm({
+                          statementDate: format(new Date(), "yyyy-MM-dd"),
+                          statementBalance: "",
+                        });
+                        setStartAccount(account);
+                      }}
+                      disabled={loading}
+                    >
+                      Reconcile
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {active && activeAccount && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {activeAccount.name}
+              {readOnly && (
+                <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                  <Lock className="mr-1 h-3 w-3" />
+                  Reconciled
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {readOnly
+                ? "Transactions cleared by this reconciliation are locked."
+                : "Tick each transaction that appears on the statement."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="statementDate">Statement Date</Label>
+                <Input
+                  id="statementDate"
+                  type="date"
+                  value={statementDate}
+                  onChange={(e) => setStatementDate(e.target.value)}
+                  disabled={readOnly}
+                />
+              </div>
+              <div>
+                <Label htmlFor="statementBalance">
+                  Statement Closing Balance
+                </Label>
+                <Input
+                  id="statementBalance"
+                  type="number"
+                  step="0.01"
+                  value={statementBalance}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                  disabled={readOnly}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-5">
+              <div>
+                <p className="text-xs text-muted-foreground">Opening Balance</p>
+                <p className="font-mono font-medium">
+                  {formatKwacha(active.openingBalance)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Cleared In</p>
+                <p className="font-mono font-medium text-green-600">
+                  {formatKwacha(clearedIn)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Cleared Out</p>
+                <p className="font-mono font-medium text-red-600">
+                  {formatKwacha(Math.abs(clearedOut))}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Cleared Balance</p>
+                <p className="font-mono font-medium">
+                  {formatKwacha(clearedBalance)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Difference</p>
+                <p
+                  className={`font-mono font-bold ${
+                    balanced ? "text-green-600" : "text-red-600"
+                  }`}
+                >
+                  {formatKwacha(difference)}
+                </p>
+              </div>
+            </div>
+
+            {active.lines.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                No completed transactions on this account up to the statement
+                date.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">
+                      <Checkbox
+                        checked={cleared.length === active.lines.length}
+                        onCheckedChange={(checked) =>
+                          setCleared(
+                            checked === true
+                              ? active.lines.map((line) => line.id)
+                              : []
+                          )
+                        }
+                        disabled={readOnly}
+                      />
+                    </TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {active.lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={cleared.includes(line.id)}
+                          onCheckedChange={(checked) =>
+                            setCleared(
+                              checked === true
+                                ? [...cleared, line.id]
+                                : cleared.filter((id) => id !== line.id)
+                            )
+                          }
+                          disabled={readOnly}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {format(new Date(line.transactionDate), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell className="max-w-[300px] truncate">
+                        {line.description}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {line.reference || "-"}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${
+                          line.amount > 0 ? "text-green-600" : "text-red-600"
+                        }`}
+                      >
+                        {line.amount > 0 ? "+" : "-"}
+                        {formatKwacha(Math.abs(line.amount))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => setActive(null)}
+                disabled={loading}
+              >
+                Close
+              </Button>
+              {readOnly ? (
+                <Button
+                  variant="outline"
+                  onClick={() => handleReopen(active.id)}
+                  disabled={loading}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Reopen
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={handleDiscard}
+                    disabled={loading}
+                  >
+                    Discard
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleSave(false)}
+                    disabled={loading}
+                  >
+                    Save Progress
+                  </Button>
+                  <Button
+                    onClick={() => handleSave(true)}
+                    disabled={loading || !balanced}
+                  >
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Finish Reconciliation
+                  </Button>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {initialAccounts.some((account) => account.history.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reconciliation History</CardTitle>
+            <CardDescription>Completed statement reconciliations</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Statement Date</TableHead>
+                  <TableHead className="text-right">Closing Balance</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {initialAccounts.flatMap((account) =>
+                  account.history.map((reconciliation) => (
+                    <TableRow key={reconciliation.id}>
+                      <TableCell>{account.name}</TableCell>
+                      <TableCell>
+                        {format(
+                          new Date(reconciliation.statementDate),
+                          "MMM dd, yyyy"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatKwacha(
+                          Number.parseFloat(reconciliation.statementBalance)
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {reconciliation.completedAt
+                          ? `${format(
+                              new Date(reconciliation.completedAt),
+                              "MMM dd, yyyy"
+                            )}${
+                              reconciliation.completedBy
+                                ? ` by ${reconciliation.completedBy}`
+                                : ""
+                            }`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openReconciliation(reconciliation.id)}
+                          disabled={loading}
+                        >
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog
+        open={startAccount !== null}
+        onOpenChange={(open) => !open && setStartAccount(null)}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleStart}>
+            <DialogHeader>
+              <DialogTitle>Reconcile {startAccount?.name}</DialogTitle>
+              <DialogDescription>
+                Enter the closing date and balance from the statement.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div>
+                <Label htmlFor="startStatementDate">Statement Date</Label>
+                <Input
+                  id="startStatementDate"
+                  type="date"
+                  value={startForm.statementDate}
+                  onChange={(e) =>
+                    setStartForm({ ...startForm, statementDate: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="startStatementBalance">
+                  Statement Closing Balance
+                </Label>
+                <Input
+                  id="startStatementBalance"
+                  type="number"
+                  step="0.01"
+                  value={startForm.statementBalance}
+                  onChange={(e) =>
+                    setStartForm({
+                      ...startForm,
+                      statementBalance: e.target.value,
+                    })
+                  }
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={loading}>
+                Start Reconciliation
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  describeRecurrence,
+  upcomingOccurrences,
+  usesNthWeekday,
+  WEEKDAY_LABELS,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+
+export interface RecurrenceFormValues {
+  frequency: string;
+  interval: string;
+  monthlyRule: string;
+  dayOfMonth: string;
+  weekOfMonth: string;
+  dayOfWeek: string;
+  maxOccurrences: string;
+  startDate: Date;
+  endDate: Date | undefined;
+}
+
+export const frequencyOptions = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const intervalUnits: Record<string, string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+  quarterly: "quarter(s)",
+  yearly: "year(s)",
+};
+
+const monthBasedFrequencies = ["monthly", "quarterly", "yearly"];
+
+const weekOfMonthOptions = [
+  { value: "1", label: "First" },
+  { value: "2", label: "Second" },
+  { value: "3", label: "Third" },
+  { value: "4", label: "Fourth" },
+  { value: "-1", label: "Last" },
+];
+
+export function defaultRecurrenceValues(): RecurrenceFormValues {
+  return {
+    frequency: "monthly",
+    interval: "1",
+    monthlyRule: "start_date",
+    dayOfMonth: "1",
+    weekOfMonth: "1",
+    dayOfWeek: "1",
+    maxOccurrences: "",
+    startDate: new Date(),
+    endDate: undefined,
+  };
+}
+
+export function recurrenceValuesFrom(schedule: RecurrenceRule): RecurrenceFormValues {
+  return {
+    frequency: schedule.frequency,
+    interval: String(schedule.interval ?? 1),
+    monthlyRule: usesNthWeekday(schedule)
+      ? "nth_weekday"
+      : schedule.dayOfMonth != null
+      ? "day_of_month"
+      : "start_date",
+    dayOfMonth: String(schedule.dayOfMonth ?? 1),
+    weekOfMonth: String(schedule.weekOfMonth ?? 1),
+    dayOfWeek: String(schedule.dayOfWeek ?? 1),
+    maxOccurrences: schedule.maxOccurrences
+      ? String(schedule.maxOccurrences)
+      : "",
+    startDate: new Date(schedule.startDate),
+    endDate: schedule.endDate ? new Date(schedule.endDate) : undefined,
+  };
+}
+
+export function appendRecurrenceValues(
+  formData: FormData,
+  values: RecurrenceFormValues
+) {
+  formData.append("frequency", values.frequency);
+  formData.append("interval", values.interval);
+  formData.append("monthlyRule", values.monthlyRule);
+  formData.append("dayOfMonth", values.dayOfMonth);
+  formData.append("weekOfMonth", values.weekOfMonth);
+  formData.append("dayOfWeek", values.dayOfWeek);
+  formData.append("maxOccurrences", values.maxOccurrences);
+  formData.append("startDate", values.startDate.toISOString());
+  if (values.endDate) {
+    formData.append("endDate", values.endDate.toISOString());
+  }
+}
+
+function toRecurrenceRule(values: RecurrenceFormValues): RecurrenceRule {
+  const monthBased = monthBasedFrequencies.includes(values.frequency);
+  const nthWeekday = monthBased && values.monthlyRule === "nth_weekday";
+
+  return {
+    frequency: values.frequency as RecurrenceRule["frequency"],
+    interval: Number(values.interval) || 1,
+    dayOfMonth:
+      monthBased && values.monthlyRule === "day_of_month"
+        ? Number(values.dayOfMonth)
+        : null,
+    weekOfMonth: nthWeekday ? Number(values.weekOfMonth) : null,
+    dayOfWeek: nthWeekday ? Number(values.dayOfWeek) : null,
+    startDate: values.startDate,
+    endDate: values.endDate ?? null,
+    maxOccurrences: Number(values.maxOccurrences) || null,
+  };
+}
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormValues;
+  onChange: (value: RecurrenceFormValues) => void;
+  // Preview dates on or after this date; defaults to the start date
+  previewFrom?: Date;
+}
+
+export function RecurrenceFields({
+  value,
+  onChange,
+  previewFrom,
+}: RecurrenceFieldsProps) {
+  const monthBased = monthBasedFrequencies.includes(value.frequency);
+  const rule = toRecurrenceRule(value);
+  const previewDates = upcomingOccurrences(
+    rule,
+    previewFrom ?? value.startDate,
+    5
+  );
+
+  const update = (changes: Partial<RecurrenceFormValues>) =>
+    onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="frequency">Frequency</Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency) => update({ frequency })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {frequencyOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="interval">Repeat Every</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="interval"
+              type="number"
+              min="1"
+              max="365"
+              value={value.interval}
+              onChange={(e) => update({ interval: e.target.value })}
+              required
+            />
+            <span className="text-sm text-muted-foreground">
+              {intervalUnits[value.frequency]}
+            </span>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="maxOccurrences">End After (Optional)</Label>
+          <Input
+            id="maxOccurrences"
+            type="number"
+            min="1"
+            placeholder="Occurrences"
+            value={value.maxOccurrences}
+            onChange={(e) => update({ maxOccurrences: e.target.value })}
+          />
+        </div>
+      </div>
+      {monthBased && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="monthlyRule">On</Label>
+            <Select
+              value={value.monthlyRule}
+              onValueChange={(monthlyRule) => update({ monthlyRule })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="start_date">Same day as start</SelectItem>
+                <SelectItem value="day_of_month">Day of month</SelectItem>
+                <SelectItem value="nth_weekday">Weekday of month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {value.monthlyRule === "day_of_month" && (
+            <div className="space-y-2">
+              <Label htmlFor="dayOfMonth">Day</Label>
+              <Select
+                value={value.dayOfMonth}
+                onValueChange={(dayOfMonth) => update({ dayOfMonth })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+                    <SelectItem key={day} value={String(day)}>
+                      {day === 31 ? "Last day" : day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {value.monthlyRule === "nth_weekday" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="weekOfMonth">Week</Label>
+                <Select
+                  value={value.weekOfMonth}
+                  onValueChange={(weekOfMonth) => update({ weekOfMonth })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {weekOfMonthOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dayOfWeek">Weekday</Label>
+                <Select
+                  value={value.dayOfWeek}
+                  onValueChange={(dayOfWeek) => update({ dayOfWeek })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, index) => (
+                      <SelectItem key={label} value={String(index)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Start Date</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn(
+                  "w-full justify-start text-left font-normal",
+                  !value.startDate && "text-muted-foreground"
+                )}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {value.startDate
+                  ? format(value.startDate, "PPP")
+                  : "Pick a date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0">
+              <Calendar
+                mode="single"
+                selected={value.startDate}
+                onSelect={(date) => update({ startDate: date || new Date() })}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <div className="space-y-2">
+          <Label>End Date (Optional)</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn(
+                  "w-full justify-start text-left font-normal",
+                  !value.endDate && "text-muted-foreground"
+                )}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {value.endDate ? format(value.endDate, "PPP") : "Pick a date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0">
+              <Calendar
+                mode="single"
+                selected={value.endDate}
+                onSelect={(date) => update({ endDate: date })}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+      <div className="rounded-md border p-3 space-y-2">
+        <p className="text-sm font-medium">{describeRecurrence(rule)}</p>
+        {previewDates.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {previewDates.map((date) => (
+              <Badge key={date.toISOString()} variant="outline">
+                {format(date, "EEE, MMM d, yyyy")}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No upcoming dates for this schedule
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Plus, Search, Edit, Trash2, Play, Pause, RefreshCw } from "lucide-react"
+import { format, startOfToday } from "date-fns"
+import { toast } from "sonner"
+import { useRouter } from "next/navigation"
+import {
+  createRecurringInvoice,
+  deleteRecurringInvoice,
+  generateDueRecurringInvoices,
+  toggleRecurringInvoiceStatus,
+  updateRecurringInvoice,
+} from "@/lib/actions/recurring-invoices"
+import {
+  RecurrenceFields,
+  appendRecurrenceValues,
+  defaultRecurrenceValues,
+  recurrenceValuesFrom,
+  type RecurrenceFormValues,
+} from "@/components/recurrence-fields"
+import {
+  LineItemsEditor,
+  NO_TAX_CODE,
+  calculateLineItemTotals,
+  emptyLineItem,
+  serializeLineItems,
+  type LineItem,
+} from "@/components/line-items-editor"
+import { currencySymbol } from "@/lib/currency"
+import { describeRecurrence } from "@/lib/recurrence"
+import type { RecurringFrequency, TaxCodeKind } from "@/db/schema"
+
+export interface RecurringInvoiceTemplate {
+  id: string
+  name: string
+  customerId: string
+  customerName: string
+  customerCurrency: string
+  taxRate: string | null
+  paymentTermsDays: number
+  autoSend: boolean
+  notes: string | null
+  terms: string | null
+  frequency: RecurringFrequency
+  interval: number
+  dayOfMonth: number | null
+  weekOfMonth: number | null
+  dayOfWeek: number | null
+  startDate: Date
+  endDate: Date | null
+  maxOccurrences: number | null
+  nextDate: Date
+  isActive: boolean | null
+  lastRunAt: Date | null
+  items: { id: string; description: string; quantity: string; unitPrice: string; taxCodeId: string | null }[]
+}
+
+interface TemplateFormData {
+  name: string
+  customerId: string
+  taxRate: number
+  paymentTermsDays: string
+  autoSend: boolean
+  notes: string
+  terms: string
+  lineItems: LineItem[]
+  schedule: RecurrenceFormValues
+}
+
+interface Customer {
+  id: string
+  name: string
+  email: string | null
+  currency: string
+}
+
+interface TaxCode {
+  id: string
+  name: string
+  rate: string
+  kind: TaxCodeKind
+  isActive: boolean
+}
+
+interface RecurringInvoiceManagementProps {
+  initialTemplates: RecurringInvoiceTemplate[]
+  initialCustomers: Customer[]
+  taxCodes: TaxCode[]
+  baseCurrency: string
+}
+
+// Template lines store no totals, so the editor's amounts are worked out from quantity and price
+const templateLineItems = (template: RecurringInvoiceTemplate): LineItem[] =>
+  template.items.map((item) => {
+    const quantity = Number.parseFloat(item.quantity)
+    const rate = Number.parseFloat(item.unitPrice)
+    return {
+      id: item.id,
+      description: item.description,
+      quantity,
+      rate,
+      amount: quantity * rate,
+      taxCodeId: item.taxCodeId ?? NO_TAX_CODE,
+    }
+  })
+
+const emptyForm = (taxCodes: TaxCode[]): TemplateFormData => ({
+  name: "",
+  customerId: "",
+  taxRate: 0,
+  paymentTermsDays: "30",
+  autoSend: false,
+  notes: "",
+  terms: "",
+  lineItems: [emptyLineItem(taxCodes)],
+  schedule: defaultRecurrenceValues(),
+})
+
+const templateTotal = (template: RecurringInvoiceTemplate, taxCodes: TaxCode[]) =>
+  calculateLineItemTotals(templateLineItems(template), Number.parseFloat(template.taxRate || "0"), taxCodes).total
+
+export function RecurringInvoiceManagement({
+  initialTemplates,
+  initialCustomers,
+  taxCodes,
+  baseCurrency,
+}: RecurringInvoiceManagementProps) {
+  const router = useRouter()
+  const templates = initialTemplates
+  const customers = initialCustomers
+  const [searchTerm, setSearchTerm] = useState("")
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<RecurringInvoiceTemplate | null>(null)
+  const [formData, setFormData] = useState<TemplateFormData>(() => emptyForm(taxCodes))
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const filteredTemplates = templates.filter(
+    (template) =>
+      template.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      template.customerName.toLowerCase().includes(searchTerm.toLowerCase()),
+  )
+
+  const formCurrency =
+    customers.find((customer) => customer.id === formData.customerId)?.currency ?? baseCurrency
+
+  const resetForm = () => {
+    setFormData(emptyForm(taxCodes))
+    setEditingTemplate(null)
+    setIsDialogOpen(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const data = new FormData()
+      data.append("name", formData.name)
+      data.append("customerId", formData.customerId)
+      data.append("taxRate", formData.taxRate.toString())
+      data.append("paymentTermsDays", formData.paymentTermsDays)
+      data.append("autoSend", String(formData.autoSend))
+      data.append("notes", formData.notes)
+      data.append("terms", formData.terms)
+      data.append("items", serializeLineItems(formData.lineItems))
+      appendRecurrenceValues(data, formData.schedule)
+
+      const result = editingTemplate
+        ? await updateRecurringInvoice(editingTemplate.id, data)
+        : await createRecurringInvoice(data)
+
+      if (result.success) {
+        toast(editingTemplate ? "Recurring Invoice Updated" : "Recurring Invoice Created", {
+          description: `${formData.name} has been ${editingTemplate ? "updated" : "scheduled"} successfully.`,
+        })
+        resetForm()
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to save recurring invoice")
+      }
+    } catch (error) {
+      console.error("Error saving recurring invoice:", error)
+      toast.error("Failed to save recurring invoice")
+    }
+  }
+
+  const handleEdit = (template: RecurringInvoiceTemplate) => {
+    setEditingTemplate(template)
+    setFormData({
+      name: template.name,
+      customerId: template.customerId,
+      taxRate: Number.parseFloat(template.taxRate || "0"),
+      paymentTermsDays: String(template.paymentTermsDays),
+      autoSend: template.autoSend,
+      notes: template.notes || "",
+      terms: template.terms || "",
+      lineItems: template.items.length ? templateLineItems(template) : [emptyLineItem(taxCodes)],
+      schedule: recurrenceValuesFrom(template),
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = async (template: RecurringInvoiceTemplate) => {
+    if (!confirm(`Delete the recurring invoice "${template.name}"? Invoices already issued are kept.`)) {
+      return
+    }
+
+    try {
+      const result = await deleteRecurringInvoice(template.id)
+      if (result.success) {
+        toast("Recurring Invoice Deleted", { description: "No further invoices will be generated." })
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to delete recurring invoice")
+      }
+    } catch (error) {
+      console.error("Error deleting recurring invoice:", error)
+      toast.error("Failed to delete recurring invoice")
+    }
+  }
+
+  const handleToggle = async (template: RecurringInvoiceTemplate) => {
+    try {
+      const result = await toggleRecurringInvoiceStatus(template.id)
+      if (result.success) {
+        toast.success(template.isActive ? "Recurring invoice paused" : "Recurring invoice resumed")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to update recurring invoice")
+      }
+    } catch (error) {
+      console.error("Error toggling recurring invoice:", error)
+      toast.error("Failed to update recurring invoice")
+    }
+  }
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    try {
+      const result = await generateDueRecurringInvoices()
+      if (!result.success || !result.data) {
+        toast.error(result.error || "Failed to generate invoices")
+        return
+      }
+
+      const { generated, failures } = result.data
+      if (generated > 0) {
+        toast.success(`Generated ${generated} invoice(s)`)
+      } else if (failures.length === 0) {
+        toast("No recurring invoices are due")
+      }
+      failures.forEach((failure) => toast.error(failure))
+      router.refresh()
+    } catch (error) {
+      console.error("Error generating recurring invoices:", error)
+      toast.error("Failed to generate invoices")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Recurring Invoices</h1>
+          <p className="text-muted-foreground">Bill subscription customers automatically on a schedule</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleGenerate} disabled={isGenerating}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {isGenerating ? "Generating..." : "Generate Due Invoices"}
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Recurring Invoice
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>{editingTemplate ? "Edit Recurring Invoice" : "New Recurring Invoice"}</DialogTitle>
+                  <DialogDescription>
+                    An invoice is generated from this template on every scheduled date.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-6 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="name">Name</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        placeholder="e.g. Monthly support plan"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="customer">Customer</Label>
+                      <Select
+                        value={formData.customerId}
+                        onValueChange={(value) => setFormData({ ...formData, customerId: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select customer" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {customers.map((customer) => (
+                            <SelectItem key={customer.id} value={customer.id}>
+                              {customer.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="paymentTermsDays">Payment Terms (days)</Label>
+                      <Input
+                        id="paymentTermsDays"
+                        type="number"
+                        min="0"
+                        max="365"
+                        value={formData.paymentTermsDays}
+                        onChange={(e) => setFormData({ ...formData, paymentTermsDays: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="flex items-end gap-2 pb-2">
+                      <Checkbox
+                        id="autoSend"
+                        checked={formData.autoSend}
+                        onCheckedChange={(checked) => setFormData({ ...formData, autoSend: checked === true })}
+                      />
+                      <Label htmlFor="autoSend">Mark generated invoices as sent</Label>
+                    </div>
+                  </div>
+
+                  <RecurrenceFields
+                    value={formData.schedule}
+                    onChange={(schedule) => setFormData({ ...formData, schedule })}
+                    previewFrom={editingTemplate ? startOfToday() : undefined}
+                  />
+
+                  <LineItemsEditor
+                    lineItems={formData.lineItems}
+                    onChange={(lineItems) => setFormData({ ...formData, lineItems })}
+                    taxCodes={taxCodes}
+                    taxRate={formData.taxRate}
+                    currency={formCurrency}
+                    documentLabel="Template"
+                  />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="notes">Notes</Label>
+                      <Textarea
+                        id="notes"
+                        value={formData.notes}
+                        onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                        placeholder="Shown on every invoice..."
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="terms">Terms</Label>
+                      <Textarea
+                        id="terms"
+                        value={formData.terms}
+                        onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                        placeholder="Payment terms..."
+                      />
+                    </div>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button type="submit" disabled={!formData.customerId}>
+                    {editingTemplate ? "Update Recurring Invoice" : "Save Recurring Invoice"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>Each active template issues a numbered invoice on its schedule</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="relative mb-6">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search recurring invoices..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Next Invoice</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredTemplates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>{template.customerName}</TableCell>
+                  <TableCell>{describeRecurrence(template)}</TableCell>
+                  <TableCell>
+                    {template.isActive ? format(new Date(template.nextDate), "MMM dd, yyyy") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Badge variant={template.isActive ? "default" : "secondary"}>
+                        {template.isActive ? "Active" : "Paused"}
+                      </Badge>
+                      {template.autoSend && <Badge variant="outline">Auto-send</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {currencySymbol(template.customerCurrency)}
+                    {templateTotal(template, taxCodes).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(template)}>
+                        {template.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(template)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(template)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredTemplates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No recurring invoices yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
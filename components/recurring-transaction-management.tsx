@@ -24,15 +24,8 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Calendar } from "@/components/ui/calendar";
-import {
-  Popover,
-  PopoverContent,
-  PopoverTrigger,
-} from "@/components/ui/popover";
-import { CalendarIcon, Plus, Edit, Trash2, Play, Pause } from "lucide-react";
-import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import { Plus, Edit, Trash2, Play, Pause } from "lucide-react";
+import { format, startOfToday } from "date-fns";
 import { toast } from "sonner";
 import {
   createRecurringTransaction,
@@ -40,6 +33,18 @@ import {
   deleteRecurringTransaction,
   toggleRecurringTransactionStatus,
 } from "@/lib/actions/recurring";
+import {
+  RecurrenceFields,
+  appendRecurrenceValues,
+  defaultRecurrenceValues,
+  recurrenceValuesFrom,
+} from "@/components/recurrence-fields";
+import {
+  categoryLabel,
+  sortCategories,
+  type Category,
+} from "@/components/category-manager";
+import { describeRecurrence } from "@/lib/recurrence";
 
 interface RecurringTransaction {
   id: string;
@@ -47,14 +52,20 @@ interface RecurringTransaction {
   description: string;
   amount: string;
   type: "income" | "expense" | "transfer";
-  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  frequency: "daily" | "weekly" | "monthly" | "quarterly" | "yearly";
+  interval: number;
+  dayOfMonth: number | null;
+  weekOfMonth: number | null;
+  dayOfWeek: number | null;
   startDate: Date;
   endDate: Date | null;
+  maxOccurrences: number | null;
   nextDate: Date;
   isActive: boolean | null;
-  fromAccount?: { id: string; name: string; type: string } | null;
-  toAccount?: { id: string; name: string; type: string } | null;
+  fromAccount?: { id: string; name: string; type: string | null } | null;
+  toAccount?: { id: string; name: string; type: string | null } | null;
   contact?: { id: string; name: string; type: string } | null;
+  category?: { id: string; name: string } | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 }
@@ -82,14 +93,10 @@ interface RecurringTransactionManagementProps {
   initialAccounts: Account[];
   initialCustomers: Customer[];
   initialVendors: Vendor[];
+  initialCategories: Category[];
 }
 
-const frequencyOptions = [
-  { value: "daily", label: "Daily" },
-  { value: "weekly", label: "Weekly" },
-  { value: "monthly", label: "Monthly" },
-  { value: "yearly", label: "Yearly" },
-];
+const NO_CATEGORY = "none";
 
 const typeOptions = [
   { value: "income", label: "Income" },
@@ -102,6 +109,7 @@ export function RecurringTransactionManagement({
   initialAccounts,
   initialCustomers,
   initialVendors,
+  initialCategories,
 }: RecurringTransactionManagementProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
@@ -117,12 +125,11 @@ export function RecurringTransactionManagement({
     description: "",
     amount: "",
     type: "expense",
-    frequency: "monthly",
     fromAccountId: "",
     toAccountId: "",
     contactId: "",
-    startDate: new Date(),
-    endDate: undefined as Date | undefined,
+    categoryId: "",
+    schedule: defaultRecurrenceValues(),
   });
 
   const filteredTransactions = initialRecurringTransactions.filter(
@@ -150,14 +157,11 @@ export function RecurringTransactionManagement({
       formDataObj.append("description", formData.description);
       formDataObj.append("amount", formData.amount);
       formDataObj.append("type", formData.type);
-      formDataObj.append("frequency", formData.frequency);
       formDataObj.append("fromAccountId", formData.fromAccountId);
       formDataObj.append("toAccountId", formData.toAccountId);
       formDataObj.append("contactId", formData.contactId);
-      formDataObj.append("startDate", formData.startDate.toISOString());
-      if (formData.endDate) {
-        formDataObj.append("endDate", formData.endDate.toISOString());
-      }
+      formDataObj.append("categoryId", formData.categoryId);
+      appendRecurrenceValues(formDataObj, formData.schedule);
 
       let result;
       if (editingTransaction) {
@@ -194,12 +198,11 @@ export function RecurringTransactionManagement({
       description: "",
       amount: "",
       type: "expense",
-      frequency: "monthly",
       fromAccountId: "",
       toAccountId: "",
       contactId: "",
-      startDate: new Date(),
-      endDate: undefined,
+      categoryId: "",
+      schedule: defaultRecurrenceValues(),
     });
     setEditingTransaction(null);
   };
@@ -245,12 +248,11 @@ export function RecurringTransactionManagement({
       description: transaction.description,
       amount: transaction.amount,
       type: transaction.type,
-      frequency: transaction.frequency,
       fromAccountId: transaction.fromAccount?.id || "",
       toAccountId: transaction.toAccount?.id || "",
       contactId: transaction.contact?.id || "",
-      startDate: new Date(transaction.startDate),
-      endDate: transaction.endDate ? new Date(transaction.endDate) : undefined,
+      categoryId: transaction.category?.id || "",
+      schedule: recurrenceValuesFrom(transaction),
     });
     setIsDialogOpen(true);
   };
@@ -276,6 +278,8 @@ export function RecurringTransactionManagement({
         return "bg-blue-100 text-blue-800";
       case "monthly":
         return "bg-green-100 text-green-800";
+      case "quarterly":
+        return "bg-orange-100 text-orange-800";
       case "yearly":
         return "bg-red-100 text-red-800";
       default:
@@ -287,10 +291,16 @@ export function RecurringTransactionManagement({
     (t) => t.isActive
   );
   const monthlyIncome = activeTransactions
-    .filter((t) => t.type === "income" && t.frequency === "monthly")
+    .filter(
+      (t) =>
+        t.type === "income" && t.frequency === "monthly" && t.interval === 1
+    )
     .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0);
   const monthlyExpenses = activeTransactions
-    .filter((t) => t.type === "expense" && t.frequency === "monthly")
+    .filter(
+      (t) =>
+        t.type === "expense" && t.frequency === "monthly" && t.interval === 1
+    )
     .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0);
 
   return (
@@ -379,6 +389,7 @@ export function RecurringTransactionManagement({
               <SelectItem value="daily">Daily</SelectItem>
               <SelectItem value="weekly">Weekly</SelectItem>
               <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="quarterly">Quarterly</SelectItem>
               <SelectItem value="yearly">Yearly</SelectItem>
             </SelectContent>
           </Select>
@@ -446,7 +457,7 @@ export function RecurringTransactionManagement({
                   <Select
                     value={formData.type}
                     onValueChange={(value) =>
-                      setFormData({ ...formData, type: value })
+                      setFormData({ ...formData, type: value, categoryId: "" })
                     }
                   >
                     <SelectTrigger>
@@ -461,26 +472,38 @@ export function RecurringTransactionManagement({
                     </SelectContent>
                   </Select>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="frequency">Frequency</Label>
-                  <Select
-                    value={formData.frequency}
-                    onValueChange={(value) =>
-                      setFormData({ ...formData, frequency: value })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {frequencyOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                {formData.type !== "transfer" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="categoryId">Category</Label>
+                    <Select
+                      value={formData.categoryId || NO_CATEGORY}
+                      onValueChange={(value) =>
+                        setFormData({
+                          ...formData,
+                          categoryId: value === NO_CATEGORY ? "" : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger id="categoryId">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Uncategorised</SelectItem>
+                        {sortCategories(
+                          initialCategories.filter(
+                            (c) =>
+                              c.type === formData.type &&
+                              (c.isActive || c.id === formData.categoryId)
+                          )
+                        ).map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {categoryLabel(category, initialCategories)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -552,69 +575,11 @@ export function RecurringTransactionManagement({
                   </SelectContent>
                 </Select>
               </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label>Start Date</Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className={cn(
-                          "w-full justify-start text-left font-normal",
-                          !formData.startDate && "text-muted-foreground"
-                        )}
-                      >
-                        <CalendarIcon className="mr-2 h-4 w-4" />
-                        {formData.startDate
-                          ? format(formData.startDate, "PPP")
-                          : "Pick a date"}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0">
-                      <Calendar
-                        mode="single"
-                        selected={formData.startDate}
-                        onSelect={(date) =>
-                          setFormData({
-                            ...formData,
-                            startDate: date || new Date(),
-                          })
-                        }
-                        initialFocus
-                      />
-                    </PopoverContent>
-                  </Popover>
-                </div>
-                <div className="space-y-2">
-                  <Label>End Date (Optional)</Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className={cn(
-                          "w-full justify-start text-left font-normal",
-                          !formData.endDate && "text-muted-foreground"
-                        )}
-                      >
-                        <CalendarIcon className="mr-2 h-4 w-4" />
-                        {formData.endDate
-                          ? format(formData.endDate, "PPP")
-                          : "Pick a date"}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0">
-                      <Calendar
-                        mode="single"
-                        selected={formData.endDate}
-                        onSelect={(date) =>
-                          setFormData({ ...formData, endDate: date })
-                        }
-                        initialFocus
-                      />
-                    </PopoverContent>
-                  </Popover>
-                </div>
-              </div>
+              <RecurrenceFields
+                value={formData.schedule}
+                onChange={(schedule) => setFormData({ ...formData, schedule })}
+                previewFrom={editingTransaction ? startOfToday() : undefined}
+              />
               <DialogFooter>
                 <Button
                   type="button"
@@ -649,7 +614,7 @@ export function RecurringTransactionManagement({
                       {transaction.type}
                     </Badge>
                     <Badge className={getFrequencyColor(transaction.frequency)}>
-                      {transaction.frequency}
+                      {describeRecurrence(transaction)}
                     </Badge>
                     {!transaction.isActive && (
                       <Badge variant="secondary">Inactive</Badge>
@@ -694,6 +659,14 @@ export function RecurringTransactionManagement({
                         </span>
                       </p>
                     )}
+                    {transaction.category && (
+                      <p>
+                        Category:{" "}
+                        <span className="font-medium">
+                          {transaction.category.name}
+                        </span>
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
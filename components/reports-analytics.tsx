@@ -8,6 +8,9 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { TrendingUp, TrendingDown, DollarSign, Download, RefreshCw } from "lucide-react"
+import { AGING_BUCKETS, type AgingReport } from "@/lib/aging"
+import { CategoryBreakdown } from "@/components/category-breakdown"
+import { DEFAULT_BASE_CURRENCY, currencySymbol } from "@/lib/currency"
 
 const DATE_RANGES = [
   { value: "current-month", label: "This Month" },
@@ -15,8 +18,73 @@ const DATE_RANGES = [
   { value: "current-year", label: "This Year" },
 ]
 
-const formatKwacha = (amount: number) => {
-  return `K${amount.toLocaleString()}`
+// Report amounts are all in the organisation's base currency
+const formatAmount = (amount: number, currency: string) => {
+  return `${currencySymbol(currency)}${amount.toLocaleString()}`
+}
+
+function AgingTable({
+  title,
+  description,
+  report,
+  currency,
+}: {
+  title: string
+  description: string
+  report: AgingReport | null
+  currency: string
+}) {
+  const formatMoney = (amount: number) => formatAmount(amount, currency)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {report && report.rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contact</TableHead>
+                {AGING_BUCKETS.map((bucket) => (
+                  <TableHead key={bucket.key} className="text-right">
+                    {bucket.label}
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={row.contactId}>
+                  <TableCell>{row.contactName}</TableCell>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket.key} className="text-right font-mono">
+                      {row[bucket.key] ? formatMoney(row[bucket.key]) : "—"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-mono font-semibold">{formatMoney(row.total)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>Total</TableCell>
+                {AGING_BUCKETS.map((bucket) => (
+                  <TableCell key={bucket.key} className="text-right font-mono">
+                    {formatMoney(report.totals[bucket.key])}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-mono">{formatMoney(report.totals.total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">Nothing outstanding.</div>
+        )}
+      </CardContent>
+    </Card>
+  )
 }
 
 interface ReportsAnalyticsProps {
@@ -24,6 +92,9 @@ interface ReportsAnalyticsProps {
   initialProfitLossData: any
   initialExpenseAnalysisData: any
   initialRevenueAnalysisData: any
+  initialReceivablesAgingData: AgingReport | null
+  initialPayablesAgingData: AgingReport | null
+  initialTaxData: any
   initialDateRange: string
 }
 
@@ -32,6 +103,9 @@ export function ReportsAnalytics({
   initialProfitLossData,
   initialExpenseAnalysisData,
   initialRevenueAnalysisData,
+  initialReceivablesAgingData,
+  initialPayablesAgingData,
+  initialTaxData,
   initialDateRange,
 }: ReportsAnalyticsProps) {
   const router = useRouter()
@@ -42,6 +116,9 @@ export function ReportsAnalytics({
   const profitLossData = initialProfitLossData
   const expenseAnalysisData = initialExpenseAnalysisData
   const revenueAnalysisData = initialRevenueAnalysisData
+  const taxData = initialTaxData
+  const baseCurrency: string = kpiData?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+  const formatMoney = (amount: number) => formatAmount(amount, baseCurrency)
 
   const handleDateRangeChange = (value: string) => {
     setDateRange(value)
@@ -109,7 +186,7 @@ export function ReportsAnalytics({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              {kpiData ? formatKwacha(kpiData.revenue || 0) : formatKwacha(0)}
+              {kpiData ? formatMoney(kpiData.revenue || 0) : formatMoney(0)}
             </div>
           </CardContent>
         </Card>
@@ -121,7 +198,7 @@ export function ReportsAnalytics({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">
-              {kpiData ? formatKwacha(kpiData.expenses || 0) : formatKwacha(0)}
+              {kpiData ? formatMoney(kpiData.expenses || 0) : formatMoney(0)}
             </div>
           </CardContent>
         </Card>
@@ -133,7 +210,7 @@ export function ReportsAnalytics({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-blue-600">
-              {kpiData ? formatKwacha((kpiData.revenue || 0) - (kpiData.expenses || 0)) : formatKwacha(0)}
+              {kpiData ? formatMoney((kpiData.revenue || 0) - (kpiData.expenses || 0)) : formatMoney(0)}
             </div>
           </CardContent>
         </Card>
@@ -145,7 +222,7 @@ export function ReportsAnalytics({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-purple-600">
-              {kpiData ? formatKwacha(kpiData.assets || 0) : formatKwacha(0)}
+              {kpiData ? formatMoney(kpiData.assets || 0) : formatMoney(0)}
             </div>
           </CardContent>
         </Card>
@@ -171,7 +248,7 @@ export function ReportsAnalytics({
                   <TableRow key={index}>
                     <TableCell>{customer.customerName}</TableCell>
                     <TableCell className="text-right font-mono text-green-600">
-                      {formatKwacha(Number(customer.amount) || 0)}
+                      {formatMoney(Number(customer.amount) || 0)}
                     </TableCell>
                     <TableCell className="text-right">{customer.count}</TableCell>
                   </TableRow>
@@ -186,6 +263,81 @@ export function ReportsAnalytics({
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Expenses by Category</CardTitle>
+          <CardDescription>Spending per expense category, with recoverable tax</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {expenseAnalysisData?.byCategory && expenseAnalysisData.byCategory.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expenseAnalysisData.byCategory.map((category: any, index: number) => (
+                  <TableRow key={index}>
+                    <TableCell>{category.categoryName}</TableCell>
+                    <TableCell className="text-right font-mono text-red-600">
+                      {formatMoney(Number(category.amount) || 0)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(Number(category.taxAmount) || 0)}</TableCell>
+                    <TableCell className="text-right">{category.count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No expense data available for the selected period.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {expenseAnalysisData?.byPeriod && expenseAnalysisData.byPeriod.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Expenses by Month</CardTitle>
+            <CardDescription>Category spending for each month</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expenseAnalysisData.byPeriod.map((row: any, index: number) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      {new Date(row.month).toLocaleDateString("en-US", {
+                        month: "short",
+                        year: "numeric",
+                      })}
+                    </TableCell>
+                    <TableCell>{row.categoryName}</TableCell>
+                    <TableCell className="text-right font-mono text-red-600">
+                      {formatMoney(Number(row.amount) || 0)}
+                    </TableCell>
+                    <TableCell className="text-right">{row.count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Expense Summary</CardTitle>
@@ -206,7 +358,7 @@ export function ReportsAnalytics({
                   <TableRow key={index}>
                     <TableCell>{vendor.vendorName}</TableCell>
                     <TableCell className="text-right font-mono text-red-600">
-                      {formatKwacha(Number(vendor.amount) || 0)}
+                      {formatMoney(Number(vendor.amount) || 0)}
                     </TableCell>
                     <TableCell className="text-right">{vendor.count}</TableCell>
                   </TableRow>
@@ -221,6 +373,96 @@ export function ReportsAnalytics({
         </CardContent>
       </Card>
 
+      <AgingTable
+        title="Accounts Receivable Aging"
+        description="Outstanding customer balances by days past due"
+        report={initialReceivablesAgingData}
+        currency={baseCurrency}
+      />
+
+      <AgingTable
+        title="Accounts Payable Aging"
+        description="Outstanding vendor bills by days past due"
+        report={initialPayablesAgingData}
+        currency={baseCurrency}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Summary</CardTitle>
+          <CardDescription>
+            Output tax on issued invoices less input tax on approved expenses and bills. Tax withheld by customers is
+            shown separately.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {taxData?.periods && taxData.periods.length > 0 ? (
+            <div className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Taxable Sales</TableHead>
+                    <TableHead className="text-right">Output Tax</TableHead>
+                    <TableHead className="text-right">Input Tax</TableHead>
+                    <TableHead className="text-right">Net Payable</TableHead>
+                    <TableHead className="text-right">Withheld</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {taxData.periods.map((row: any) => (
+                    <TableRow key={row.month}>
+                      <TableCell>
+                        {new Date(`${row.month}-01T00:00:00`).toLocaleDateString("en-US", {
+                          month: "short",
+                          year: "numeric",
+                        })}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(row.taxableSales)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(row.outputTax)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(row.inputTax)}</TableCell>
+                      <TableCell className="text-right font-mono font-semibold">{formatMoney(row.netPayable)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(row.withheldTax)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell />
+                    <TableCell className="text-right font-mono">{formatMoney(taxData.totals.outputTax)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(taxData.totals.inputTax)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(taxData.totals.netPayable)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatMoney(taxData.totals.withheldTax)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              {taxData.byCode.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tax Code</TableHead>
+                      <TableHead className="text-right">Taxable Amount</TableHead>
+                      <TableHead className="text-right">Tax</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taxData.byCode.map((row: any) => (
+                      <TableRow key={row.taxCodeId ?? "none"}>
+                        <TableCell>{row.name}</TableCell>
+                        <TableCell className="text-right font-mono">{formatMoney(row.taxable)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatMoney(row.tax)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">No tax recorded for the selected period.</div>
+          )}
+        </CardContent>
+      </Card>
+
       {profitLossData && (profitLossData.revenue?.length > 0 || profitLossData.expenses?.length > 0) && (
         <Card>
           <CardHeader>
@@ -240,7 +482,7 @@ export function ReportsAnalytics({
                           year: "numeric",
                         })}
                       </span>
-                      <span className="font-mono text-green-600">{formatKwacha(Number(item.revenue) || 0)}</span>
+                      <span className="font-mono text-green-600">{formatMoney(Number(item.revenue) || 0)}</span>
                     </div>
                   ))}
                 </div>
@@ -257,7 +499,7 @@ export function ReportsAnalytics({
                           year: "numeric",
                         })}
                       </span>
-                      <span className="font-mono text-red-600">{formatKwacha(Number(item.expenses) || 0)}</span>
+                      <span className="font-mono text-red-600">{formatMoney(Number(item.expenses) || 0)}</span>
                     </div>
                   ))}
                 </div>
@@ -266,6 +508,18 @@ export function ReportsAnalytics({
           </CardContent>
         </Card>
       )}
+
+      {profitLossData?.byCategory && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Profit & Loss by Category</CardTitle>
+            <CardDescription>Completed income and expense transactions by category</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryBreakdown breakdown={profitLossData.byCategory} currency={baseCurrency} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -22,23 +22,46 @@ import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Building, User, Plus, Trash2 } from "lucide-react";
+import { Building, User, Plus, Trash2, CheckCircle } from "lucide-react";
 import {
   updateCompanyInfo,
   changePassword,
-  createUser,
-  getUsers,
 } from "@/lib/actions/settings";
+import {
+  addOrganizationMember,
+  getOrganizationMembers,
+  getOrganizations,
+  removeOrganizationMember,
+  renameOrganization,
+} from "@/lib/actions/organizations";
+import {
+  getExpenseApprovers,
+  removeExpenseApprover,
+  saveExpenseApprover,
+} from "@/lib/actions/expenses";
+import { CurrencySettings } from "@/components/currency-settings";
+import { TaxCodeSettings } from "@/components/tax-code-settings";
+import { DocumentNumberingSettings } from "@/components/document-numbering-settings";
+import { ROLE_LABELS, hasPermission } from "@/lib/permissions";
+import type { MembershipRole } from "@/db/schema";
 import { toast } from "sonner";
 
-interface User {
+interface Member {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: MembershipRole;
+}
+
+interface ExpenseApprover {
   id: string;
+  userId: string;
   name: string;
   email: string;
-  type: "staff" | "accountant";
+  maxAmount: string | null;
 }
 export function SettingsManagement() {
-  const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
 
   const [companySettings, setCompanySettings] = useState({
@@ -55,26 +78,110 @@ export function SettingsManagement() {
     confirmPassword: "",
   });
 
-  const [newUser, setNewUser] = useState({
-    name: "",
-    email: "",
-    userType: "",
-    password: "",
-  });
+  const [organizationName, setOrganizationName] = useState("");
+  const [members, setMembers] = useState<Member[]>([]);
+  const [role, setRole] = useState<MembershipRole>("member");
+  const [approvers, setApprovers] = useState<ExpenseApprover[]>([]);
+  const [newApprover, setNewApprover] = useState({ userId: "", maxAmount: "" });
+  const [newMember, setNewMember] = useState({ email: "", role: "member" });
 
   useEffect(() => {
-    loadUsers();
+    loadOrganization();
   }, []);
 
-  const loadUsers = async () => {
-    const result = await getUsers();
+  const loadOrganization = async () => {
+    const [organizationsResult, membersResult, approversResult] =
+      await Promise.all([
+        getOrganizations(),
+        getOrganizationMembers(),
+        getExpenseApprovers(),
+      ]);
+    if (organizationsResult.success && organizationsResult.data) {
+      const { activeOrganizationId, organizations } = organizationsResult.data;
+      const active = organizations.find((org) => org.id === activeOrganizationId);
+      setOrganizationName(active?.name ?? "");
+      if (active) {
+        setRole(active.role);
+      }
+    }
+    if (membersResult.success) {
+      setMembers(membersResult.data ?? []);
+    }
+    if (approversResult.success) {
+      setApprovers(approversResult.data ?? []);
+    }
+  };
+
+  const handleRenameOrganization = async () => {
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("name", organizationName);
+
+    const result = await renameOrganization(formData);
+
+    if (result.success) {
+      toast.success("Organisation renamed");
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleAddMember = async () => {
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("email", newMember.email);
+    formData.append("role", newMember.role);
+
+    const result = await addOrganizationMember(formData);
+
     if (result.success) {
-      setUsers(
-        (result.data ?? []).map((user: any) => ({
-          ...user,
-          type: user.type === "accountant" ? "accountant" : "staff",
-        }))
-      );
+      toast.success("Member added");
+      setNewMember({ email: "", role: "member" });
+      loadOrganization();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleRemoveMember = async (membershipId: string) => {
+    const result = await removeOrganizationMember(membershipId);
+
+    if (result.success) {
+      toast.success("Member removed");
+      loadOrganization();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleSaveApprover = async () => {
+    setLoading(true);
+    const formData = new FormData();
+    formData.append("userId", newApprover.userId);
+    formData.append("maxAmount", newApprover.maxAmount);
+
+    const result = await saveExpenseApprover(formData);
+
+    if (result.success) {
+      toast.success("Approver saved");
+      setNewApprover({ userId: "", maxAmount: "" });
+      loadOrganization();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleRemoveApprover = async (approverId: string) => {
+    const result = await removeExpenseApprover(approverId);
+
+    if (result.success) {
+      toast.success("Approver removed");
+      loadOrganization();
+    } else {
+      toast.error(result.error);
     }
   };
 
@@ -119,28 +226,206 @@ export function SettingsManagement() {
     setLoading(false);
   };
 
-  const handleCreateUser = async () => {
-    setLoading(true);
-    const formData = new FormData();
-    formData.append("name", newUser.name);
-    formData.append("email", newUser.email);
-    formData.append("userType", newUser.userType);
-    formData.append("password", newUser.password);
-
-    const result = await createUser(formData);
-
-    if (result.success) {
-      toast.success(result.data);
-      setNewUser({ name: "", email: "", userType: "", password: "" });
-      loadUsers();
-    } else {
-      toast.error(result.error);
-    }
-    setLoading(false);
-  };
+  const canManageOrganization = hasPermission(role, "organization:manage");
+  const canManageUsers = hasPermission(role, "users:manage");
 
   return (
     <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building className="h-5 w-5" />
+            Organisation
+          </CardTitle>
+          <CardDescription>
+            Everyone listed here shares this organisation&apos;s books.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="organizationName">Name</Label>
+              <Input
+                id="organizationName"
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+                disabled={!canManageOrganization}
+              />
+            </div>
+            {canManageOrganization && (
+              <Button onClick={handleRenameOrganization} disabled={loading}>
+                Save
+              </Button>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            {members.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between rounded-md border p-3"
+              >
+                <div className="flex items-center gap-2">
+                  <User className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">{member.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {member.email}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                  {canManageUsers && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveMember(member.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {canManageUsers && (
+            <div className="grid grid-cols-[1fr_160px_auto] items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="memberEmail">Add an existing user</Label>
+                <Input
+                  id="memberEmail"
+                  type="email"
+                  placeholder="name@example.com"
+                  value={newMember.email}
+                  onChange={(e) =>
+                    setNewMember({ ...newMember, email: e.target.value })
+                  }
+                />
+              </div>
+              <Select
+                value={newMember.role}
+                onValueChange={(value) =>
+                  setNewMember({ ...newMember, role: value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="member">Member</SelectItem>
+                  <SelectItem value="accountant">Accountant</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="owner">Owner</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddMember} disabled={loading}>
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CurrencySettings role={role} />
+
+      <TaxCodeSettings role={role} />
+
+      <DocumentNumberingSettings role={role} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5" />
+            Expense Approvers
+          </CardTitle>
+          <CardDescription>
+            Once approvers are listed, only they can approve submitted
+            expenses, each up to their limit. Otherwise anyone with an
+            approving role can.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {approvers.map((approver) => (
+              <div
+                key={approver.id}
+                className="flex items-center justify-between rounded-md border p-3"
+              >
+                <div>
+                  <p className="font-medium">{approver.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {approver.maxAmount
+                      ? `Up to K${Number.parseFloat(
+                          approver.maxAmount
+                        ).toLocaleString()}`
+                      : "No limit"}
+                  </p>
+                </div>
+                {canManageUsers && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveApprover(approver.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canManageUsers && (
+            <div className="grid grid-cols-[1fr_160px_auto] items-end gap-2">
+              <div className="space-y-2">
+                <Label>Member</Label>
+                <Select
+                  value={newApprover.userId}
+                  onValueChange={(value) =>
+                    setNewApprover({ ...newApprover, userId: value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map((member) => (
+                      <SelectItem key={member.userId} value={member.userId}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approverLimit">Limit</Label>
+                <Input
+                  id="approverLimit"
+                  type="number"
+                  step="0.01"
+                  placeholder="No limit"
+                  value={newApprover.maxAmount}
+                  onChange={(e) =>
+                    setNewApprover({ ...newApprover, maxAmount: e.target.value })
+                  }
+                />
+              </div>
+              <Button
+                onClick={handleSaveApprover}
+                disabled={loading || !newApprover.userId}
+              >
+                <Plus className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Change Password</CardTitle>
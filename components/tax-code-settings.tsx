@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Percent, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { getChartOfAccounts } from "@/lib/actions/accounts";
+import {
+  createTaxCode,
+  deleteTaxCode,
+  getTaxCodes,
+  seedTaxCodes,
+  updateTaxCode,
+} from "@/lib/actions/tax-codes";
+import { hasPermission } from "@/lib/permissions";
+import { TAX_CODE_KIND_LABELS } from "@/lib/tax-codes";
+import type { MembershipRole, TaxCodeKind } from "@/db/schema";
+
+interface TaxCode {
+  id: string;
+  name: string;
+  rate: string;
+  kind: TaxCodeKind;
+  accountId: string | null;
+  accountName: string | null;
+  isActive: boolean;
+}
+
+interface LedgerAccount {
+  id: string;
+  code: string | null;
+  name: string;
+  accountClass: string;
+}
+
+const DEFAULT_ACCOUNT = "default";
+
+const emptyTaxCode = {
+  name: "",
+  kind: "standard" as TaxCodeKind,
+  rate: "",
+  accountId: DEFAULT_ACCOUNT,
+};
+
+function taxCodeFormData(code: {
+  name: string;
+  kind: TaxCodeKind;
+  rate: string;
+  accountId: string | null;
+  isActive: boolean;
+}) {
+  const formData = new FormData();
+  formData.append("name", code.name);
+  formData.append("kind", code.kind);
+  formData.append("rate", code.rate);
+  if (code.accountId && code.accountId !== DEFAULT_ACCOUNT) {
+    formData.append("accountId", code.accountId);
+  }
+  formData.append("isActive", String(code.isActive));
+  return formData;
+}
+
+/**
+ * Tax codes offered on invoice lines and the accounts their tax posts to
+ */
+export function TaxCodeSettings({ role }: { role: MembershipRole }) {
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([]);
+  const [newCode, setNewCode] = useState(emptyTaxCode);
+  const [loading, setLoading] = useState(false);
+
+  const canManage = hasPermission(role, "accounts:manage");
+
+  useEffect(() => {
+    loadTaxCodes();
+    getChartOfAccounts().then((result) => {
+      if (result.success && result.data) {
+        setLedgerAccounts(
+          result.data.filter(
+            (account) =>
+              account.accountClass === "liability" ||
+              account.accountClass === "asset"
+          )
+        );
+      }
+    });
+  }, []);
+
+  const loadTaxCodes = async () => {
+    const result = await getTaxCodes();
+    if (result.success && result.data) {
+      setTaxCodes(result.data);
+    }
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    const result = await createTaxCode(
+      taxCodeFormData({ ...newCode, isActive: true })
+    );
+
+    if (result.success) {
+      toast.success("Tax code added");
+      setNewCode(emptyTaxCode);
+      loadTaxCodes();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleToggleActive = async (code: TaxCode) => {
+    const result = await updateTaxCode(
+      code.id,
+      taxCodeFormData({ ...code, isActive: !code.isActive })
+    );
+    if (result.success) {
+      loadTaxCodes();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteTaxCode(id);
+    if (result.success) {
+      loadTaxCodes();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleSeed = async () => {
+    setLoading(true);
+    const result = await seedTaxCodes();
+    if (result.success && result.data) {
+      toast.success(
+        result.data.created === 0
+          ? "The default tax codes are already set up"
+          : `Added ${result.data.created} tax codes`
+      );
+      loadTaxCodes();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const chargesTax =
+    newCode.kind === "standard" || newCode.kind === "withholding";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Tax Codes
+        </CardTitle>
+        <CardDescription>
+          Chosen on each invoice line. Tax posts to Sales Tax Payable unless a
+          code names its own account; withholding is deducted from what the
+          customer pays and posts to Withholding Tax Receivable.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {taxCodes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No tax codes have been set up.
+            </p>
+          ) : (
+            taxCodes.map((code) => (
+              <div
+                key={code.id}
+                className="flex items-center justify-between rounded-md border p-3"
+              >
+                <div>
+                  <p className="font-medium">
+                    {code.name}{" "}
+                    {!code.isActive && (
+                      <Badge variant="secondary">Inactive</Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {TAX_CODE_KIND_LABELS[code.kind]} ·{" "}
+                    {Number.parseFloat(code.rate)}%
+                    {code.accountName && ` · ${code.accountName}`}
+                  </p>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(code)}
+                    >
+                      {code.isActive ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(code.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {canManage && (
+          <>
+            <div className="grid grid-cols-[1fr_140px_100px_1fr_auto] items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="taxCodeName">Name</Label>
+                <Input
+                  id="taxCodeName"
+                  value={newCode.name}
+                  onChange={(e) =>
+                    setNewCode({ ...newCode, name: e.target.value })
+                  }
+                  placeholder="VAT 16%"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="taxCodeKind">Kind</Label>
+                <Select
+                  value={newCode.kind}
+                  onValueChange={(value) =>
+                    setNewCode({ ...newCode, kind: value as TaxCodeKind })
+                  }
+                >
+                  <SelectTrigger id="taxCodeKind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TAX_CODE_KIND_LABELS).map(
+                      ([kind, label]) => (
+                        <SelectItem key={kind} value={kind}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="taxCodeRate">Rate (%)</Label>
+                <Input
+                  id="taxCodeRate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={chargesTax ? newCode.rate : "0"}
+                  disabled={!chargesTax}
+                  onChange={(e) =>
+                    setNewCode({ ...newCode, rate: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="taxCodeAccount">Account</Label>
+                <Select
+                  value={newCode.accountId}
+                  onValueChange={(value) =>
+                    setNewCode({ ...newCode, accountId: value })
+                  }
+                >
+                  <SelectTrigger id="taxCodeAccount">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_ACCOUNT}>Default</SelectItem>
+                    {ledgerAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.code ? `${account.code} ` : ""}
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={handleCreate}
+                disabled={loading || !newCode.name.trim()}
+              >
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            <Button variant="outline" onClick={handleSeed} disabled={loading}>
+              Add default tax codes
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -58,8 +58,24 @@ import {
   TrendingUp,
   TrendingDown,
   ArrowRightLeft,
+  Wand2,
 } from "lucide-react";
+import { AttachmentsPanel } from "@/components/attachments-panel";
+import { BankImportWizard } from "@/components/bank-import-wizard";
+import {
+  CategoryManager,
+  categoryLabel,
+  sortCategories,
+  type Category,
+} from "@/components/category-manager";
+import {
+  EMPTY_RULE,
+  RuleFormDialog,
+  TransactionRulesManager,
+  type RuleDraft,
+} from "@/components/transaction-rules";
 import { toast } from "sonner";
+import { currencySymbol, toBaseAmount } from "@/lib/currency";
 import { format } from "date-fns";
 import {
   createTransaction,
@@ -68,7 +84,7 @@ import {
 } from "@/lib/actions/transactions";
 import { createContact } from "@/lib/actions/contacts";
 
-// Transaction types and categories
+// Transaction types and statuses
 const TRANSACTION_TYPES = {
   income: {
     label: "Income",
@@ -87,22 +103,6 @@ const TRANSACTION_TYPES = {
   },
 };
 
-const TRANSACTION_CATEGORIES = {
-  income: ["Sales", "Services", "Interest", "Dividends", "Other Income"],
-  expense: [
-    "Office Supplies",
-    "Rent",
-    "Utilities",
-    "Marketing",
-    "Travel",
-    "Meals",
-    "Professional Services",
-    "Insurance",
-    "Other Expense",
-  ],
-  transfer: ["Bank Transfer", "Account Transfer", "Investment Transfer"],
-};
-
 const TRANSACTION_STATUS = {
   pending: {
     label: "Pending",
@@ -122,7 +122,8 @@ const TRANSACTION_STATUS = {
 interface Account {
   id: string;
   name: string;
-  type: string;
+  type: string | null;
+  currency: string;
 }
 
 interface Contact {
@@ -135,6 +136,8 @@ interface Transaction {
   id?: string;
   description: string;
   amount: string;
+  currency?: string;
+  exchangeRate?: string;
   type: keyof typeof TRANSACTION_TYPES;
   status: keyof typeof TRANSACTION_STATUS;
   reference?: string | null;
@@ -144,24 +147,32 @@ interface Transaction {
   fromAccount?: Account | null;
   toAccount?: Account | null;
   contact?: Contact | null;
+  categoryId?: string | null;
 }
 
 interface TransactionManagementProps {
   initialTransactions: Transaction[];
   initialAccounts: Account[];
   initialContacts: Contact[];
+  initialCategories: Category[];
+  baseCurrency: string;
 }
 
+const NO_CATEGORY = "none";
+
 export function TransactionManagement({
   initialTransactions,
   initialAccounts,
   initialContacts,
+  initialCategories,
+  baseCurrency,
 }: TransactionManagementProps) {
   const router = useRouter();
   const [transactions, setTransactions] =
     useState<Transaction[]>(initialTransactions);
   const [accounts, setAccounts] = useState<Account[]>(initialAccounts);
   const [contacts, setContacts] = useState<Contact[]>(initialContacts);
+  const [categories, setCategories] = useState<Category[]>(initialCategories);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedType, setSelectedType] = useState<string>("all");
@@ -174,6 +185,7 @@ export function TransactionManagement({
   const [editingTransaction, setEditingTransaction] =
     useState<Transaction | null>(null);
   const [dateRange, setDateRange] = useState<{ from?: Date; to?: Date }>({});
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null);
 
   const [isContactDialogOpen, setIsContactDialogOpen] = useState(false);
   const [contactFormData, setContactFormData] = useState({
@@ -194,6 +206,7 @@ export function TransactionManagement({
     fromAccount: null,
     toAccount: null,
     contact: null,
+    categoryId: null,
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -250,6 +263,7 @@ export function TransactionManagement({
       fromAccount: null,
       toAccount: null,
       contact: null,
+      categoryId: null,
     });
     setEditingTransaction(null);
     setIsDialogOpen(false);
@@ -271,10 +285,34 @@ export function TransactionManagement({
       fromAccount: transaction.fromAccount || null,
       toAccount: transaction.toAccount || null,
       contact: transaction.contact || null,
+      categoryId: transaction.categoryId || null,
+      exchangeRate:
+        transaction.currency && transaction.currency !== baseCurrency
+          ? transaction.exchangeRate
+          : undefined,
     });
     setIsDialogOpen(true);
   };
 
+  // Prefill a rule that would categorise similar transactions the same way
+  const handleCreateRule = (transaction: Transaction) => {
+    const isTransfer = transaction.type === "transfer";
+    const account =
+      transaction.type === "income"
+        ? transaction.toAccount
+        : transaction.fromAccount;
+    setRuleDraft({
+      ...EMPTY_RULE,
+      name: transaction.description,
+      descriptionPattern: transaction.description,
+      accountId: account?.id ?? "",
+      type: transaction.type,
+      transferAccountId: isTransfer ? transaction.toAccount?.id ?? "" : "",
+      contactId: transaction.contact?.id ?? "",
+      categoryId: isTransfer ? "" : transaction.categoryId ?? "",
+    });
+  };
+
   const handleDelete = async (transactionId: string) => {
     setLoading(true);
     try {
@@ -327,20 +365,30 @@ export function TransactionManagement({
     }
   };
 
+  // Totals are in the base currency, converting foreign transactions at their own rates
+  const inBase = (t: Transaction) =>
+    toBaseAmount(Number.parseFloat(t.amount), Number.parseFloat(t.exchangeRate || "1"));
+
   const calculateTotals = () => {
     const income = transactions
       .filter((t) => t.type === "income")
-      .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0);
+      .reduce((sum, t) => sum + inBase(t), 0);
 
     const expenses = transactions
       .filter((t) => t.type === "expense")
-      .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0);
+      .reduce((sum, t) => sum + inBase(t), 0);
 
     return { income, expenses, net: income - expenses };
   };
 
   const totals = calculateTotals();
 
+  // Money moving through a foreign currency account is recorded in that currency
+  const formCurrency =
+    [formData.fromAccount, formData.toAccount].find(
+      (account) => account && account.currency !== baseCurrency
+    )?.currency ?? baseCurrency;
+
   const handleCreateContact = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -401,11 +449,17 @@ export function TransactionManagement({
           {/* <Button variant="outline">
             <Download className="mr-2 h-4 w-4" />
             Export
-          </Button>
-          <Button variant="outline">
-            <Upload className="mr-2 h-4 w-4" />
-            Import
           </Button> */}
+          <BankImportWizard accounts={accounts} />
+          <CategoryManager
+            categories={categories}
+            onCategoriesChange={setCategories}
+          />
+          <TransactionRulesManager
+            accounts={accounts}
+            contacts={contacts}
+            categories={categories}
+          />
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button
@@ -471,6 +525,7 @@ export function TransactionManagement({
                             fromAccount: null,
                             toAccount: null,
                             contact: null,
+                            categoryId: null,
                           });
                         }}
                       >
@@ -504,6 +559,11 @@ export function TransactionManagement({
                         }
                         required
                       />
+                      {formCurrency !== baseCurrency && (
+                        <p className="text-xs text-muted-foreground">
+                          In {formCurrency}
+                        </p>
+                      )}
                     </div>
                     <div>
                       <Label htmlFor="status">Status</Label>
@@ -530,6 +590,65 @@ export function TransactionManagement({
                     </div>
                   </div>
 
+                  {formCurrency !== baseCurrency && (
+                    <div>
+                      <Label htmlFor="exchangeRate">
+                        {formCurrency} rate in {baseCurrency}
+                      </Label>
+                      <Input
+                        id="exchangeRate"
+                        name="exchangeRate"
+                        type="number"
+                        step="0.000001"
+                        min="0"
+                        value={formData.exchangeRate ?? ""}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            exchangeRate: e.target.value,
+                          })
+                        }
+                        placeholder="Stored rate for the transaction date"
+                      />
+                    </div>
+                  )}
+
+                  {formData.type !== "transfer" && (
+                    <div>
+                      <Label htmlFor="categoryId">Category</Label>
+                      <Select
+                        name="categoryId"
+                        value={formData.categoryId || NO_CATEGORY}
+                        onValueChange={(value) =>
+                          setFormData({
+                            ...formData,
+                            categoryId: value === NO_CATEGORY ? null : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger id="categoryId">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_CATEGORY}>
+                            Uncategorised
+                          </SelectItem>
+                          {sortCategories(
+                            categories.filter(
+                              (c) =>
+                                c.type === formData.type &&
+                                (c.isActive || c.id === formData.categoryId)
+                            )
+                          ).map((category) => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {categoryLabel(category, categories)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   {formData.type === "transfer" && (
                     <div className="grid grid-cols-2 gap-4">
                       <div>
@@ -777,6 +896,13 @@ export function TransactionManagement({
                       placeholder="Additional notes..."
                     />
                   </div>
+
+                  {editingTransaction?.id && (
+                    <AttachmentsPanel
+                      sourceType="transaction"
+                      sourceId={editingTransaction.id}
+                    />
+                  )}
                 </div>
                 <DialogFooter>
                   <Button type="submit" disabled={loading}>
@@ -799,7 +925,8 @@ export function TransactionManagement({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              K{totals.income.toLocaleString()}
+              {currencySymbol(baseCurrency)}
+              {totals.income.toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground">
               {transactions.filter((t) => t.type === "income").length}{" "}
@@ -817,7 +944,8 @@ export function TransactionManagement({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">
-              K{totals.expenses.toLocaleString()}
+              {currencySymbol(baseCurrency)}
+              {totals.expenses.toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground">
               {transactions.filter((t) => t.type === "expense").length}{" "}
@@ -837,7 +965,8 @@ export function TransactionManagement({
                 totals.net >= 0 ? "text-green-600" : "text-red-600"
               }`}
             >
-              K{totals.net.toLocaleString()}
+              {currencySymbol(baseCurrency)}
+              {totals.net.toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground">
               {transactions.length} total transactions
@@ -945,6 +1074,7 @@ export function TransactionManagement({
                 <TableHead>Date</TableHead>
                 <TableHead>Type</TableHead>
                 <TableHead>Description</TableHead>
+                <TableHead>Category</TableHead>
                 <TableHead>From</TableHead>
                 <TableHead>To</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
@@ -959,6 +1089,9 @@ export function TransactionManagement({
                 const fromAccountName = transaction.fromAccount?.name;
                 const toAccountName = transaction.toAccount?.name;
                 const contactName = transaction.contact?.name;
+                const category = categories.find(
+                  (c) => c.id === transaction.categoryId
+                );
 
                 return (
                   <TableRow key={transaction.id}>
@@ -1000,6 +1133,9 @@ export function TransactionManagement({
                     <TableCell className="max-w-[200px] truncate">
                       {transaction.description}
                     </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {category ? categoryLabel(category, categories) : "-"}
+                    </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
                       {transaction.type === "transfer" && fromAccountName ? (
                         <span>{fromAccountName}</span>
@@ -1030,7 +1166,8 @@ export function TransactionManagement({
                           : "text-red-600"
                       }`}
                     >
-                      K{Number.parseFloat(transaction.amount).toLocaleString()}
+                      {currencySymbol(transaction.currency ?? baseCurrency)}
+                      {Number.parseFloat(transaction.amount).toLocaleString()}
                     </TableCell>
                     <TableCell>
                       <Badge
@@ -1052,6 +1189,14 @@ export function TransactionManagement({
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Create rule from this transaction"
+                          onClick={() => handleCreateRule(transaction)}
+                        >
+                          <Wand2 className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1150,6 +1295,14 @@ export function TransactionManagement({
           </form>
         </DialogContent>
       </Dialog>
+
+      <RuleFormDialog
+        draft={ruleDraft}
+        onClose={() => setRuleDraft(null)}
+        accounts={accounts}
+        contacts={contacts}
+        categories={categories}
+      />
     </div>
   );
 }
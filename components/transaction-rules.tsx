@@ -0,0 +1,560 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Edit, Play, Plus, Trash2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  createTransactionRule,
+  deleteTransactionRule,
+  getTransactionRules,
+  runTransactionRules,
+  updateTransactionRule,
+} from "@/lib/actions/transaction-rules";
+import { categoryLabel, type Category } from "@/components/category-manager";
+
+interface Account {
+  id: string;
+  name: string;
+  type: string | null;
+}
+
+interface Contact {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface RuleDraft {
+  id?: string;
+  name: string;
+  priority: string;
+  isActive: boolean;
+  descriptionPattern: string;
+  matchType: "contains" | "regex";
+  minAmount: string;
+  maxAmount: string;
+  accountId: string;
+  type: "" | "income" | "expense" | "transfer";
+  transferAccountId: string;
+  contactId: string;
+  categoryId: string;
+  notes: string;
+}
+
+interface Rule {
+  id: string;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  descriptionPattern: string | null;
+  matchType: "contains" | "regex";
+  minAmount: string | null;
+  maxAmount: string | null;
+  accountId: string | null;
+  type: "income" | "expense" | "transfer" | null;
+  transferAccountId: string | null;
+  contactId: string | null;
+  categoryId: string | null;
+  notes: string | null;
+}
+
+// Radix selects cannot hold an empty value
+const ANY = "any";
+
+export const EMPTY_RULE: RuleDraft = {
+  name: "",
+  priority: "100",
+  isActive: true,
+  descriptionPattern: "",
+  matchType: "contains",
+  minAmount: "",
+  maxAmount: "",
+  accountId: "",
+  type: "",
+  transferAccountId: "",
+  contactId: "",
+  categoryId: "",
+  notes: "",
+};
+
+function ruleToDraft(rule: Rule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    priority: String(rule.priority),
+    isActive: rule.isActive,
+    descriptionPattern: rule.descriptionPattern ?? "",
+    matchType: rule.matchType,
+    minAmount: rule.minAmount ?? "",
+    maxAmount: rule.maxAmount ?? "",
+    accountId: rule.accountId ?? "",
+    type: rule.type ?? "",
+    transferAccountId: rule.transferAccountId ?? "",
+    contactId: rule.contactId ?? "",
+    categoryId: rule.categoryId ?? "",
+    notes: rule.notes ?? "",
+  };
+}
+
+interface RuleOptions {
+  accounts: Account[];
+  contacts: Contact[];
+  categories: Category[];
+}
+
+interface RuleFormDialogProps extends RuleOptions {
+  draft: RuleDraft | null;
+  onClose: () => void;
+  onSaved?: (rule: Rule) => void;
+}
+
+/**
+ * Create or edit a rule. Opened from the rules list or prefilled from a transaction.
+ */
+export function RuleFormDialog({
+  draft,
+  onClose,
+  onSaved,
+  accounts,
+  contacts,
+  categories,
+}: RuleFormDialogProps) {
+  const [formData, setFormData] = useState<RuleDraft>(draft ?? EMPTY_RULE);
+  const [loading, setLoading] = useState(false);
+  const [openedDraft, setOpenedDraft] = useState(draft);
+
+  // Reset the form whenever a different draft is opened
+  if (draft !== openedDraft) {
+    setOpenedDraft(draft);
+    setFormData(draft ?? EMPTY_RULE);
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const formDataObj = new FormData();
+    Object.entries(formData).forEach(([key, value]) => {
+      if (key !== "id" && value !== "") {
+        formDataObj.append(key, String(value));
+      }
+    });
+
+    const result = formData.id
+      ? await updateTransactionRule(formData.id, formDataObj)
+      : await createTransactionRule(formDataObj);
+
+    if (result.success && result.data) {
+      toast.success(formData.id ? "Rule updated" : "Rule created");
+      onSaved?.(result.data);
+      onClose();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const categoryOptions = categories.filter(
+    (c) =>
+      c.isActive &&
+      (formData.type === "income" || formData.type === "expense"
+        ? c.type === formData.type
+        : true)
+  );
+
+  const optionalSelect = (
+    id: keyof RuleDraft,
+    label: string,
+    anyLabel: string,
+    options: { value: string; label: string }[]
+  ) => (
+    <div>
+      <Label htmlFor={`rule-${id}`}>{label}</Label>
+      <Select
+        value={(formData[id] as string) || ANY}
+        onValueChange={(value) =>
+          setFormData({ ...formData, [id]: value === ANY ? "" : value })
+        }
+      >
+        <SelectTrigger id={`rule-${id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{anyLabel}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{formData.id ? "Edit Rule" : "New Rule"}</DialogTitle>
+            <DialogDescription>
+              Rules fill in missing details on imported and pending
+              transactions. The first matching rule by priority is used.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  min="0"
+                  value={formData.priority}
+                  onChange={(e) =>
+                    setFormData({ ...formData, priority: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+
+            <h4 className="text-sm font-semibold">When</h4>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="rule-pattern">Description</Label>
+                <Input
+                  id="rule-pattern"
+                  value={formData.descriptionPattern}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      descriptionPattern: e.target.value,
+                    })
+                  }
+                  placeholder="e.g. ZESCO"
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-matchType">Match</Label>
+                <Select
+                  value={formData.matchType}
+                  onValueChange={(value: RuleDraft["matchType"]) =>
+                    setFormData({ ...formData, matchType: value })
+                  }
+                >
+                  <SelectTrigger id="rule-matchType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="contains">Contains</SelectItem>
+                    <SelectItem value="regex">Regular expression</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="rule-minAmount">Min Amount</Label>
+                <Input
+                  id="rule-minAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.minAmount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, minAmount: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-maxAmount">Max Amount</Label>
+                <Input
+                  id="rule-maxAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.maxAmount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, maxAmount: e.target.value })
+                  }
+                />
+              </div>
+              {optionalSelect(
+                "accountId",
+                "Account",
+                "Any account",
+                accounts.map((a) => ({ value: a.id, label: a.name }))
+              )}
+            </div>
+
+            <h4 className="text-sm font-semibold">Then</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-type">Type</Label>
+                <Select
+                  value={formData.type || ANY}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      type: value === ANY ? "" : (value as RuleDraft["type"]),
+                      categoryId: "",
+                      transferAccountId: "",
+                    })
+                  }
+                >
+                  <SelectTrigger id="rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Keep as imported</SelectItem>
+                    <SelectItem value="income">Income (money in)</SelectItem>
+                    <SelectItem value="expense">Expense (money out)</SelectItem>
+                    <SelectItem value="transfer">Transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.type === "transfer"
+                ? optionalSelect(
+                    "transferAccountId",
+                    "Transfer Account",
+                    "Select account",
+                    accounts
+                      .filter((a) => a.id !== formData.accountId)
+                      .map((a) => ({ value: a.id, label: a.name }))
+                  )
+                : optionalSelect(
+                    "categoryId",
+                    "Category",
+                    "No category",
+                    categoryOptions.map((c) => ({
+                      value: c.id,
+                      label: categoryLabel(c, categories),
+                    }))
+                  )}
+              {optionalSelect(
+                "contactId",
+                "Contact",
+                "No contact",
+                contacts.map((c) => ({ value: c.id, label: c.name }))
+              )}
+              <div className="flex items-end gap-2 pb-2">
+                <Checkbox
+                  id="rule-isActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) =>
+                    setFormData({ ...formData, isActive: checked === true })
+                  }
+                />
+                <Label htmlFor="rule-isActive">Active</Label>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="rule-notes">Notes</Label>
+              <Textarea
+                id="rule-notes"
+                value={formData.notes}
+                onChange={(e) =>
+                  setFormData({ ...formData, notes: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={loading}>
+              {formData.id ? "Update Rule" : "Create Rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Lists the organisation's rules and runs them over pending transactions
+ */
+export function TransactionRulesManager({
+  accounts,
+  contacts,
+  categories,
+}: RuleOptions) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const loadRules = async () => {
+    const result = await getTransactionRules();
+    if (result.success && result.data) {
+      setRules(result.data);
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleRun = async () => {
+    setLoading(true);
+    const result = await runTransactionRules();
+    if (result.success && result.data) {
+      toast.success(
+        `Rules updated ${result.data.updated} pending transaction${
+          result.data.updated === 1 ? "" : "s"
+        }`
+      );
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteTransactionRule(id);
+    if (result.success) {
+      setRules(rules.filter((rule) => rule.id !== id));
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const describeRule = (rule: Rule) => {
+    const conditions = [
+      rule.descriptionPattern &&
+        (rule.matchType === "regex"
+          ? `description matches /${rule.descriptionPattern}/`
+          : `description contains "${rule.descriptionPattern}"`),
+      rule.minAmount && `amount ≥ K${rule.minAmount}`,
+      rule.maxAmount && `amount ≤ K${rule.maxAmount}`,
+      rule.accountId &&
+        `account is ${accounts.find((a) => a.id === rule.accountId)?.name ?? "unknown"}`,
+    ].filter(Boolean);
+    return conditions.length > 0 ? conditions.join(", ") : "every transaction";
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => {
+          setOpen(true);
+          loadRules();
+        }}
+      >
+        <Wand2 className="mr-2 h-4 w-4" />
+        Rules
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Categorisation Rules</DialogTitle>
+            <DialogDescription>
+              Rules run automatically on imported statements. Run them again
+              to fill in pending transactions.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[400px] space-y-2 overflow-y-auto">
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rules yet.</p>
+            ) : (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between rounded-md border p-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge variant="outline">#{rule.priority}</Badge>
+                      {!rule.isActive && (
+                        <Badge variant="secondary">Inactive</Badge>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      When {describeRule(rule)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(ruleToDraft(rule))}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={handleRun}
+              disabled={loading || rules.length === 0}
+            >
+              <Play className="mr-2 h-4 w-4" />
+              Run on Pending
+            </Button>
+            <Button onClick={() => setDraft(EMPTY_RULE)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RuleFormDialog
+        draft={draft}
+        onClose={() => setDraft(null)}
+        onSaved={loadRules}
+        accounts={accounts}
+        contacts={contacts}
+        categories={categories}
+      />
+    </>
+  );
+}
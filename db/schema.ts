@@ -3,10 +3,14 @@ import {
   text,
   varchar,
   decimal,
+  integer,
   timestamp,
   boolean,
   uuid,
   pgEnum,
+  index,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -24,7 +28,6 @@ export const user = pgTable("user", {
   updatedAt: timestamp("updated_at")
     .$defaultFn(() => /* @__PURE__ */ new Date())
     .notNull(),
-  role: text("role").default("staff"),
 });
 
 export const session = pgTable("session", {
@@ -38,6 +41,11 @@ export const session = pgTable("session", {
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
+  // Organisation the session is working in; every action is scoped to it
+  activeOrganizationId: uuid("active_organization_id").references(
+    (): AnyPgColumn => organizations.id,
+    { onDelete: "set null" }
+  ),
 });
 
 export const account = pgTable("account", {
@@ -78,6 +86,13 @@ export const accountTypeEnum = pgEnum("account_type", [
   "mobile",
   "credit",
 ]);
+export const accountClassEnum = pgEnum("account_class", [
+  "asset",
+  "liability",
+  "equity",
+  "revenue",
+  "expense",
+]);
 export const transactionTypeEnum = pgEnum("transaction_type", [
   "income",
   "expense",
@@ -87,13 +102,41 @@ export const contactTypeEnum = pgEnum("contact_type", ["customer", "vendor"]);
 export const invoiceStatusEnum = pgEnum("invoice_status", [
   "draft",
   "sent",
+  "partially_paid",
   "paid",
   "overdue",
 ]);
+export const quoteStatusEnum = pgEnum("quote_status", [
+  "draft",
+  "sent",
+  "accepted",
+  "declined",
+  "expired",
+]);
+export const creditNoteStatusEnum = pgEnum("credit_note_status", [
+  "draft",
+  "issued",
+  "void",
+]);
+export const billStatusEnum = pgEnum("bill_status", [
+  "draft",
+  "open",
+  "partially_paid",
+  "paid",
+]);
+export const paymentMethodEnum = pgEnum("payment_method", [
+  "cash",
+  "bank_transfer",
+  "mobile_money",
+  "card",
+  "cheque",
+  "other",
+]);
 export const recurringFrequencyEnum = pgEnum("recurring_frequency", [
   "daily",
   "weekly",
   "monthly",
+  "quarterly",
   "yearly",
 ]);
 
@@ -111,22 +154,126 @@ export const expenseStatusEnum = pgEnum("expense_status", [
   "reimbursed",
 ]);
 
-export const accounts = pgTable("accounts", {
+export const membershipRoleEnum = pgEnum("membership_role", [
+  "owner",
+  "admin",
+  "accountant",
+  "member",
+]);
+
+export const journalSourceEnum = pgEnum("journal_source", [
+  "transaction",
+  "invoice",
+  "expense",
+  "account",
+  "bill",
+  "revaluation",
+  "credit_note",
+  "credit_application",
+]);
+export const reconciliationStatusEnum = pgEnum("reconciliation_status", [
+  "in_progress",
+  "completed",
+]);
+export const ruleMatchTypeEnum = pgEnum("rule_match_type", [
+  "contains",
+  "regex",
+]);
+export const categoryTypeEnum = pgEnum("category_type", ["income", "expense"]);
+export const taxCodeKindEnum = pgEnum("tax_code_kind", [
+  "standard",
+  "zero_rated",
+  "exempt",
+  "withholding",
+]);
+export const documentTypeEnum = pgEnum("document_type", [
+  "invoice",
+  "credit_note",
+  "quote",
+]);
+export const attachmentSourceEnum = pgEnum("attachment_source", [
+  "transaction",
+  "expense",
+]);
+
+// Organisations own all accounting data; users reach it through memberships
+export const organizations = pgTable("organizations", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: varchar("name", { length: 255 }).notNull(),
-  type: accountTypeEnum("type").notNull(),
-  description: text("description"),
-  balance: decimal("balance", {
-    precision: 15,
-    scale: 2,
-  })
-    .default("0.00")
-    .notNull(),
-  isActive: boolean("is_active").default(true),
+  // ISO 4217 code the ledger and reports are kept in
+  baseCurrency: varchar("base_currency", { length: 3 }).default("ZMW").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const memberships = pgTable(
+  "memberships",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    role: membershipRoleEnum("role").default("member").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("memberships_organization_user_unique").on(
+      table.organizationId,
+      table.userId
+    ),
+  ]
+);
+
+export const accounts = pgTable(
+  "accounts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    code: varchar("code", { length: 20 }),
+    name: varchar("name", { length: 255 }).notNull(),
+    // Payment account kind; null for ledger-only accounts (receivables, revenue...)
+    type: accountTypeEnum("type"),
+    accountClass: accountClassEnum("account_class").default("asset").notNull(),
+    // Currency money in the account is held in
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+    // Identifies accounts the ledger posts to automatically
+    systemKey: varchar("system_key", { length: 50 }),
+    // Groups accounts under a header account of the same class
+    parentId: uuid("parent_id").references((): AnyPgColumn => accounts.id),
+    description: text("description"),
+    // Posted against Opening Balance Equity when the account is created
+    openingBalance: decimal("opening_balance", { precision: 15, scale: 2 })
+      .default("0.00")
+      .notNull(),
+    // Snapshot of the ledger balance, refreshed whenever the account is posted to
+    balance: decimal("balance", {
+      precision: 15,
+      scale: 2,
+    })
+      .default("0.00")
+      .notNull(),
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  // Codes and system accounts are unique within an organisation
+  (table) => [
+    unique("accounts_organization_code_unique").on(
+      table.organizationId,
+      table.code
+    ),
+    unique("accounts_organization_system_key_unique").on(
+      table.organizationId,
+      table.systemKey
+    ),
+  ]
+);
+
 export const contacts = pgTable("contacts", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: varchar("name", { length: 255 }).notNull(),
@@ -135,8 +282,13 @@ export const contacts = pgTable("contacts", {
   phone: varchar("phone", { length: 50 }),
   address: text("address"),
   taxId: varchar("tax_id", { length: 50 }),
+  // Default currency for documents with this contact
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
   balance: decimal("balance", { precision: 15, scale: 2 }).default("0.00"),
   isActive: boolean("is_active").default(true),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
@@ -144,10 +296,107 @@ export const contacts = pgTable("contacts", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Labels for grouping income and expense transactions; categories nest under a parent of the same type
+export const categories = pgTable(
+  "categories",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: categoryTypeEnum("type").notNull(),
+    parentId: uuid("parent_id").references((): AnyPgColumn => categories.id, {
+      onDelete: "set null",
+    }),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("categories_organization_idx").on(table.organizationId)]
+);
+
+// Fills in contact, category, type and notes on transactions whose description, amount and account match.
+// Rules run in priority order and the first match wins.
+export const transactionRules = pgTable(
+  "transaction_rules",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    priority: integer("priority").default(100).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+
+    // Conditions; empty ones match everything
+    descriptionPattern: varchar("description_pattern", { length: 255 }),
+    matchType: ruleMatchTypeEnum("match_type").default("contains").notNull(),
+    minAmount: decimal("min_amount", { precision: 15, scale: 2 }),
+    maxAmount: decimal("max_amount", { precision: 15, scale: 2 }),
+    accountId: uuid("account_id").references(() => accounts.id, {
+      onDelete: "cascade",
+    }),
+
+    // Actions. Income and expense rules only apply to money in and money out respectively;
+    // transfer rules move the money to or from the transfer account.
+    type: transactionTypeEnum("type"),
+    transferAccountId: uuid("transfer_account_id").references(
+      () => accounts.id,
+      { onDelete: "cascade" }
+    ),
+    contactId: uuid("contact_id").references(() => contacts.id, {
+      onDelete: "set null",
+    }),
+    categoryId: uuid("category_id").references(() => categories.id, {
+      onDelete: "set null",
+    }),
+    notes: text("notes"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("transaction_rules_organization_idx").on(table.organizationId),
+  ]
+);
+
+// Saved CSV column mapping for statements imported into a bank account
+export const bankImportMappings = pgTable("bank_import_mappings", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  accountId: uuid("account_id")
+    .notNull()
+    .unique()
+    .references(() => accounts.id, { onDelete: "cascade" }),
+  delimiter: varchar("delimiter", { length: 1 }).default(",").notNull(),
+  hasHeader: boolean("has_header").default(true).notNull(),
+  dateColumn: integer("date_column").notNull(),
+  dateFormat: varchar("date_format", { length: 20 }).notNull(),
+  descriptionColumn: integer("description_column").notNull(),
+  referenceColumn: integer("reference_column"),
+  // Either a signed amount column, or separate debit (out) and credit (in) columns
+  amountColumn: integer("amount_column"),
+  debitColumn: integer("debit_column"),
+  creditColumn: integer("credit_column"),
+  decimalSeparator: varchar("decimal_separator", { length: 1 })
+    .default(".")
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const transactions = pgTable("transactions", {
   id: uuid("id").primaryKey().defaultRandom(),
   type: transactionTypeEnum("type").notNull(),
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  // The amount's currency and the base currency one unit of it was worth on the day
+  currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 })
+    .default("1")
+    .notNull(),
   description: text("description").notNull(),
   reference: varchar("reference", { length: 100 }),
   transactionDate: timestamp("transaction_date").notNull(),
@@ -160,7 +409,20 @@ export const transactions = pgTable("transactions", {
   // Contact relationships
   contactId: uuid("contact_id").references(() => contacts.id),
 
-  // User relationship
+  // Income or expense category; transfers are never categorised
+  categoryId: uuid("category_id").references(() => categories.id, {
+    onDelete: "set null",
+  }),
+
+  // Set when the transaction settles an invoice or a vendor bill, or reimburses an expense
+  invoiceId: uuid("invoice_id").references(() => invoices.id),
+  billId: uuid("bill_id").references((): AnyPgColumn => bills.id),
+  expenseId: uuid("expense_id").references((): AnyPgColumn => expenses.id),
+
+  // Owning organisation and the user who created the record
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
@@ -173,58 +435,481 @@ export const transactions = pgTable("transactions", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const invoices = pgTable("invoices", {
+// A bank or mobile account matched against a statement up to its closing date
+export const reconciliations = pgTable(
+  "reconciliations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    accountId: uuid("account_id")
+      .notNull()
+      .references(() => accounts.id, { onDelete: "cascade" }),
+    statementDate: timestamp("statement_date").notNull(),
+    statementBalance: decimal("statement_balance", {
+      precision: 15,
+      scale: 2,
+    }).notNull(),
+    status: reconciliationStatusEnum("status").default("in_progress").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("reconciliations_account_idx").on(table.accountId)]
+);
+
+// Transactions ticked off as cleared in a reconciliation; locked once it is completed
+export const reconciliationItems = pgTable(
+  "reconciliation_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    reconciliationId: uuid("reconciliation_id")
+      .notNull()
+      .references(() => reconciliations.id, { onDelete: "cascade" }),
+    transactionId: uuid("transaction_id")
+      .notNull()
+      .references(() => transactions.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    unique("reconciliation_items_reconciliation_transaction_unique").on(
+      table.reconciliationId,
+      table.transactionId
+    ),
+    index("reconciliation_items_transaction_idx").on(table.transactionId),
+  ]
+);
+
+export const invoices = pgTable(
+  "invoices",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    invoiceNumber: varchar("invoice_number", { length: 50 }).notNull(),
+    customerId: uuid("customer_id")
+      .references(() => contacts.id)
+      .notNull(),
+
+    // Invoice details
+    issueDate: timestamp("issue_date").notNull(),
+    dueDate: timestamp("due_date").notNull(),
+    status: invoiceStatusEnum("status").default("draft"),
+
+    // Amounts
+    subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull(),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0.00"),
+    taxAmount: decimal("tax_amount", { precision: 15, scale: 2 }).default("0.00"),
+    total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+    paidAmount: decimal("paid_amount", { precision: 15, scale: 2 }).default(
+      "0.00"
+    ),
+    // Amounts are in the invoice currency; the rate converts them to base at issue
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+    exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 })
+      .default("1")
+      .notNull(),
+
+    // Owning organisation and the user who created the record
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    // Additional fields
+    notes: text("notes"),
+    terms: text("terms"),
+
+    // Set when the invoice was generated from a recurring invoice template
+    recurringInvoiceId: uuid("recurring_invoice_id").references(
+      (): AnyPgColumn => recurringInvoices.id,
+      { onDelete: "set null" }
+    ),
+    // Set when the invoice was converted from an accepted quote
+    quoteId: uuid("quote_id").references((): AnyPgColumn => quotes.id, {
+      onDelete: "set null",
+    }),
+
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  // One invoice per template and issue date, so a schedule run can't invoice twice
+  (table) => [
+    unique("invoices_organization_number_unique").on(
+      table.organizationId,
+      table.invoiceNumber
+    ),
+    unique("invoices_recurring_issue_date_unique").on(
+      table.recurringInvoiceId,
+      table.issueDate
+    ),
+    // A quote converts into at most one invoice
+    unique("invoices_quote_unique").on(table.quoteId),
+  ]
+);
+
+// Payments received against an invoice; each one is backed by an income transaction
+export const invoicePayments = pgTable(
+  "invoice_payments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    invoiceId: uuid("invoice_id")
+      .references(() => invoices.id)
+      .notNull(),
+    transactionId: uuid("transaction_id")
+      .references(() => transactions.id)
+      .notNull(),
+    paymentDate: timestamp("payment_date").notNull(),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    method: paymentMethodEnum("method").notNull(),
+    // Payment account the money was deposited into
+    accountId: uuid("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    reference: varchar("reference", { length: 100 }),
+    notes: text("notes"),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("invoice_payments_invoice_idx").on(table.invoiceId)]
+);
+
+// Credit held for a customer, from an overpayment or an issued credit note. It is used up by
+// applying it to their invoices or refunding it.
+export const customerCredits = pgTable(
+  "customer_credits",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    contactId: uuid("contact_id")
+      .references(() => contacts.id)
+      .notNull(),
+    // The deposit an overpayment arrived with; it posts the credit to the ledger
+    transactionId: uuid("transaction_id").references(() => transactions.id, {
+      onDelete: "cascade",
+    }),
+    // Or the credit note that granted it
+    creditNoteId: uuid("credit_note_id").references(
+      (): AnyPgColumn => creditNotes.id,
+      { onDelete: "cascade" }
+    ),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    // The credit's currency and the rate it was booked to the ledger at
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+    exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 })
+      .default("1")
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("customer_credits_contact_idx").on(table.contactId),
+    unique("customer_credits_transaction_unique").on(table.transactionId),
+    unique("customer_credits_credit_note_unique").on(table.creditNoteId),
+  ]
+);
+
+// Quotes offered to a customer; an accepted quote converts into an invoice with the same lines
+export const quotes = pgTable(
+  "quotes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    quoteNumber: varchar("quote_number", { length: 50 }).notNull(),
+    customerId: uuid("customer_id")
+      .references(() => contacts.id)
+      .notNull(),
+    issueDate: timestamp("issue_date").notNull(),
+    // The offer lapses after this date
+    expiryDate: timestamp("expiry_date").notNull(),
+    status: quoteStatusEnum("status").default("draft").notNull(),
+    subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull(),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0.00"),
+    taxAmount: decimal("tax_amount", { precision: 15, scale: 2 }).default(
+      "0.00"
+    ),
+    total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+    // Quotes are never posted, so no exchange rate is fixed until conversion
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+    notes: text("notes"),
+    terms: text("terms"),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("quotes_organization_number_unique").on(
+      table.organizationId,
+      table.quoteNumber
+    ),
+  ]
+);
+
+export const quoteItems = pgTable("quote_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  quoteId: uuid("quote_id")
+    .references(() => quotes.id, { onDelete: "cascade" })
+    .notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+  taxCodeId: uuid("tax_code_id").references(() => taxCodes.id, {
+    onDelete: "set null",
+  }),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  taxAmount: decimal("tax_amount", { precision: 15, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Credit notes reduce what a customer owes on an issued invoice, in full or line by line
+export const creditNotes = pgTable(
+  "credit_notes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    creditNoteNumber: varchar("credit_note_number", { length: 50 }).notNull(),
+    customerId: uuid("customer_id")
+      .references(() => contacts.id)
+      .notNull(),
+    invoiceId: uuid("invoice_id")
+      .references(() => invoices.id)
+      .notNull(),
+    issueDate: timestamp("issue_date").notNull(),
+    status: creditNoteStatusEnum("status").default("draft").notNull(),
+    subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull(),
+    taxAmount: decimal("tax_amount", { precision: 15, scale: 2 })
+      .default("0.00")
+      .notNull(),
+    total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+    // Always the invoice's currency and rate, so the credit reverses what the invoice posted
+    currency: varchar("currency", { length: 3 }).default("ZMW").notNull(),
+    exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 })
+      .default("1")
+      .notNull(),
+    reason: text("reason"),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("credit_notes_organization_number_unique").on(
+      table.organizationId,
+      table.creditNoteNumber
+    ),
+    index("credit_notes_invoice_idx").on(table.invoiceId),
+  ]
+);
+
+export const creditNoteItems = pgTable("credit_note_items", {
   id: uuid("id").primaryKey().defaultRandom(),
-  invoiceNumber: varchar("invoice_number", { length: 50 }).notNull().unique(),
-  customerId: uuid("customer_id")
+  creditNoteId: uuid("credit_note_id")
+    .references(() => creditNotes.id, { onDelete: "cascade" })
+    .notNull(),
+  // The invoice line being credited
+  invoiceItemId: text("invoice_item_id").references(() => invoiceItems.id, {
+    onDelete: "set null",
+  }),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+  taxCodeId: uuid("tax_code_id").references(() => taxCodes.id, {
+    onDelete: "set null",
+  }),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  taxAmount: decimal("tax_amount", { precision: 15, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Customer credit set against an open invoice; counts towards the invoice's paid amount
+export const creditApplications = pgTable(
+  "credit_applications",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    customerCreditId: uuid("customer_credit_id")
+      .references(() => customerCredits.id)
+      .notNull(),
+    invoiceId: uuid("invoice_id")
+      .references(() => invoices.id)
+      .notNull(),
+    applicationDate: timestamp("application_date").notNull(),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("credit_applications_credit_idx").on(table.customerCreditId),
+    index("credit_applications_invoice_idx").on(table.invoiceId),
+  ]
+);
+
+// Customer credit paid back in cash; each refund is backed by an outgoing transaction
+export const creditRefunds = pgTable(
+  "credit_refunds",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    customerCreditId: uuid("customer_credit_id")
+      .references(() => customerCredits.id)
+      .notNull(),
+    transactionId: uuid("transaction_id")
+      .references(() => transactions.id)
+      .notNull(),
+    refundDate: timestamp("refund_date").notNull(),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    method: paymentMethodEnum("method").notNull(),
+    accountId: uuid("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    reference: varchar("reference", { length: 100 }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("credit_refunds_credit_idx").on(table.customerCreditId),
+    unique("credit_refunds_transaction_unique").on(table.transactionId),
+  ]
+);
+
+export const invoiceItems = pgTable("invoice_items", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  invoiceId: uuid("invoice_id")
+    .references(() => invoices.id)
+    .notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+  // Tax code applied to the line; lines without one were taxed at the invoice rate
+  taxCodeId: uuid("tax_code_id").references(() => taxCodes.id, {
+    onDelete: "set null",
+  }),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  // Negative for withholding, which the customer deducts from what they pay
+  taxAmount: decimal("tax_amount", { precision: 15, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Bills received from vendors; the vendor's own number is kept in billNumber
+export const bills = pgTable("bills", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  billNumber: varchar("bill_number", { length: 50 }).notNull(),
+  vendorId: uuid("vendor_id")
     .references(() => contacts.id)
     .notNull(),
 
-  // Invoice details
-  issueDate: timestamp("issue_date").notNull(),
+  // Bill details
+  billDate: timestamp("bill_date").notNull(),
   dueDate: timestamp("due_date").notNull(),
-  status: invoiceStatusEnum("status").default("draft"),
+  status: billStatusEnum("status").default("draft").notNull(),
 
   // Amounts
   subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull(),
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0.00"),
   taxAmount: decimal("tax_amount", { precision: 15, scale: 2 }).default("0.00"),
   total: decimal("total", { precision: 15, scale: 2 }).notNull(),
-  paidAmount: decimal("paid_amount", { precision: 15, scale: 2 }).default(
-    "0.00"
-  ),
+  paidAmount: decimal("paid_amount", { precision: 15, scale: 2 })
+    .default("0.00")
+    .notNull(),
 
-  // User relationship
+  // Owning organisation and the user who created the record
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
 
-  // Additional fields
   notes: text("notes"),
-  terms: text("terms"),
 
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const invoiceItems = pgTable("invoice_items", {
-  id: text("id")
-    .primaryKey()
-    .$defaultFn(() => crypto.randomUUID()),
-  invoiceId: uuid("invoice_id")
-    .references(() => invoices.id)
+export const billItems = pgTable("bill_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  billId: uuid("bill_id")
+    .references(() => bills.id, { onDelete: "cascade" })
     .notNull(),
   description: text("description").notNull(),
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
   unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
   total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+  // Expense account the line is booked to; General Expenses when empty
+  accountId: uuid("account_id").references(() => accounts.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Payments made against a bill; each one is backed by an expense transaction
+export const billPayments = pgTable(
+  "bill_payments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    billId: uuid("bill_id")
+      .references(() => bills.id)
+      .notNull(),
+    transactionId: uuid("transaction_id")
+      .references(() => transactions.id)
+      .notNull(),
+    paymentDate: timestamp("payment_date").notNull(),
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    method: paymentMethodEnum("method").notNull(),
+    // Payment account the money was paid from
+    accountId: uuid("account_id")
+      .references(() => accounts.id)
+      .notNull(),
+    reference: varchar("reference", { length: 100 }),
+    notes: text("notes"),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("bill_payments_bill_idx").on(table.billId)]
+);
+
 export const expenses = pgTable("expenses", {
   id: uuid("id").primaryKey().defaultRandom(),
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
   status: expenseStatusEnum("status").default("draft").notNull(),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
@@ -234,10 +919,98 @@ export const expenses = pgTable("expenses", {
   accountId: uuid("account_id")
     .notNull()
     .references(() => accounts.id, { onDelete: "cascade" }),
+
+  // What was spent, when and how
+  expenseDate: timestamp("expense_date").defaultNow().notNull(),
+  // Expense account the cost is booked to; General Expenses when empty
+  categoryAccountId: uuid("category_account_id").references(() => accounts.id),
+  description: text("description"),
+  // Recoverable tax included in the amount
+  taxAmount: decimal("tax_amount", { precision: 15, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  paymentMethod: paymentMethodEnum("payment_method"),
+  receiptUrl: varchar("receipt_url", { length: 255 }),
+
+  // Approval workflow; the full history is kept in expense_events
+  submittedAt: timestamp("submitted_at"),
+  reviewedById: text("reviewed_by_id").references(() => user.id, {
+    onDelete: "set null",
+  }),
+  approvedAt: timestamp("approved_at"),
+  rejectionReason: text("rejection_reason"),
+  reimbursedAt: timestamp("reimbursed_at"),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Files uploaded against a transaction or expense; the bytes live in the storage backend
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    sourceType: attachmentSourceEnum("source_type").notNull(),
+    sourceId: uuid("source_id").notNull(),
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    contentType: varchar("content_type", { length: 100 }).notNull(),
+    size: integer("size").notNull(),
+    storageKey: varchar("storage_key", { length: 255 }).notNull().unique(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("attachments_source_idx").on(table.sourceType, table.sourceId),
+  ]
+);
+
+// Members allowed to approve expenses, optionally only up to an amount
+export const expenseApprovers = pgTable(
+  "expense_approvers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Largest expense this approver may approve; no limit when empty
+    maxAmount: decimal("max_amount", { precision: 15, scale: 2 }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("expense_approvers_organization_user_unique").on(
+      table.organizationId,
+      table.userId
+    ),
+  ]
+);
+
+// Audit trail of every status change on an expense
+export const expenseEvents = pgTable(
+  "expense_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    expenseId: uuid("expense_id")
+      .notNull()
+      .references(() => expenses.id, { onDelete: "cascade" }),
+    fromStatus: expenseStatusEnum("from_status"),
+    toStatus: expenseStatusEnum("to_status").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("expense_events_expense_idx").on(table.expenseId)]
+);
+
 export const recurringTransactions = pgTable("recurring_transactions", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: varchar("name", { length: 255 }).notNull(),
@@ -252,36 +1025,293 @@ export const recurringTransactions = pgTable("recurring_transactions", {
   // Contact relationships
   contactId: uuid("contact_id").references(() => contacts.id),
 
-  // User relationship
+  // Category given to each generated transaction; transfers are never categorised
+  categoryId: uuid("category_id").references(() => categories.id, {
+    onDelete: "set null",
+  }),
+
+  // Owning organisation and the user who created the record
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
 
   // Recurring settings
   frequency: recurringFrequencyEnum("frequency").notNull(),
+  interval: integer("interval").default(1).notNull(),
+  // Monthly and longer: a fixed day of the month (clamped to month end), or the nth weekday (-1 = last)
+  dayOfMonth: integer("day_of_month"),
+  weekOfMonth: integer("week_of_month"),
+  dayOfWeek: integer("day_of_week"),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date"),
+  maxOccurrences: integer("max_occurrences"),
   nextDate: timestamp("next_date").notNull(),
 
   // Status
   isActive: boolean("is_active").default(true),
+  lastRunAt: timestamp("last_run_at"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per materialised occurrence; the unique key stops a date being posted twice
+export const recurringOccurrences = pgTable(
+  "recurring_occurrences",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    recurringTransactionId: uuid("recurring_transaction_id")
+      .references(() => recurringTransactions.id, { onDelete: "cascade" })
+      .notNull(),
+    occurrenceDate: timestamp("occurrence_date").notNull(),
+    transactionId: uuid("transaction_id").references(() => transactions.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("recurring_occurrences_schedule_date_unique").on(
+      table.recurringTransactionId,
+      table.occurrenceDate
+    ),
+  ]
+);
+
+// Invoice templates that generate a numbered invoice on each scheduled date
+export const recurringInvoices = pgTable("recurring_invoices", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 255 }).notNull(),
+  customerId: uuid("customer_id")
+    .references(() => contacts.id)
+    .notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0.00"),
+  notes: text("notes"),
+  terms: text("terms"),
+  // Generated invoices fall due this many days after their issue date
+  paymentTermsDays: integer("payment_terms_days").default(30).notNull(),
+  // Generated invoices are marked sent (and posted) instead of left as drafts
+  autoSend: boolean("auto_send").default(false).notNull(),
+
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+
+  // Recurring settings, as on recurring transactions
+  frequency: recurringFrequencyEnum("frequency").notNull(),
+  interval: integer("interval").default(1).notNull(),
+  dayOfMonth: integer("day_of_month"),
+  weekOfMonth: integer("week_of_month"),
+  dayOfWeek: integer("day_of_week"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  maxOccurrences: integer("max_occurrences"),
+  nextDate: timestamp("next_date").notNull(),
+
+  isActive: boolean("is_active").default(true),
+  lastRunAt: timestamp("last_run_at"),
 
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const recurringInvoiceItems = pgTable("recurring_invoice_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  recurringInvoiceId: uuid("recurring_invoice_id")
+    .references(() => recurringInvoices.id, { onDelete: "cascade" })
+    .notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 15, scale: 2 }).notNull(),
+  // Generated invoices are taxed at the code's rate on the day they are issued
+  taxCodeId: uuid("tax_code_id").references(() => taxCodes.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const journalEntries = pgTable("journal_entries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  entryDate: timestamp("entry_date").notNull(),
+  description: text("description").notNull(),
+  reference: varchar("reference", { length: 100 }),
+
+  // The document that produced this entry
+  sourceType: journalSourceEnum("source_type").notNull(),
+  sourceId: uuid("source_id").notNull(),
+
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  // Null for entries generated by background jobs
+  userId: text("user_id").references(() => user.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("journal_entries_source_idx").on(table.sourceType, table.sourceId),
+]);
+
+export const journalLines = pgTable("journal_lines", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  journalEntryId: uuid("journal_entry_id")
+    .notNull()
+    .references(() => journalEntries.id, { onDelete: "cascade" }),
+  accountId: uuid("account_id")
+    .notNull()
+    .references(() => accounts.id),
+  debit: decimal("debit", { precision: 15, scale: 2 }).default("0.00").notNull(),
+  credit: decimal("credit", { precision: 15, scale: 2 })
+    .default("0.00")
+    .notNull(),
+  // Set on lines in a foreign currency: the amount in that currency, debits positive
+  currency: varchar("currency", { length: 3 }),
+  currencyAmount: decimal("currency_amount", { precision: 15, scale: 2 }),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Base currency units one unit of a foreign currency is worth from a date onwards
+export const exchangeRates = pgTable(
+  "exchange_rates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    rateDate: timestamp("rate_date").notNull(),
+    rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("exchange_rates_organization_currency_date_unique").on(
+      table.organizationId,
+      table.currency,
+      table.rateDate
+    ),
+  ]
+);
+
+// Named tax rates selectable on invoice lines; tax posts to the code's account or sales tax payable
+export const taxCodes = pgTable(
+  "tax_codes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    rate: decimal("rate", { precision: 5, scale: 2 }).default("0.00").notNull(),
+    kind: taxCodeKindEnum("kind").default("standard").notNull(),
+    accountId: uuid("account_id").references(() => accounts.id, {
+      onDelete: "set null",
+    }),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("tax_codes_organization_name_unique").on(
+      table.organizationId,
+      table.name
+    ),
+  ]
+);
+
+// Numbering for an organisation's documents of one type. The row is locked while a number is taken,
+// so concurrent creates never draw the same number.
+export const documentSequences = pgTable(
+  "document_sequences",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    documentType: documentTypeEnum("document_type").notNull(),
+    prefix: varchar("prefix", { length: 20 }).notNull(),
+    padding: integer("padding").default(4).notNull(),
+    // Restart at 1 every calendar year, with the year printed after the prefix
+    resetYearly: boolean("reset_yearly").default(false).notNull(),
+    nextNumber: integer("next_number").default(1).notNull(),
+    // The year nextNumber belongs to when resetting yearly
+    sequenceYear: integer("sequence_year"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("document_sequences_organization_type_unique").on(
+      table.organizationId,
+      table.documentType
+    ),
+  ]
+);
+
 export const userRelations = relations(user, ({ many }) => ({
+  memberships: many(memberships),
   accounts: many(accounts),
   contacts: many(contacts),
   transactions: many(transactions),
   invoices: many(invoices),
+  invoicePayments: many(invoicePayments),
+  bills: many(bills),
+  billPayments: many(billPayments),
   recurringTransactions: many(recurringTransactions),
+  recurringInvoices: many(recurringInvoices),
   expenses: many(expenses),
+  journalEntries: many(journalEntries),
   sessions: many(session),
   authAccounts: many(account),
 }));
 
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  memberships: many(memberships),
+  accounts: many(accounts),
+  contacts: many(contacts),
+  transactions: many(transactions),
+  invoices: many(invoices),
+  bills: many(bills),
+  expenses: many(expenses),
+  expenseApprovers: many(expenseApprovers),
+  attachments: many(attachments),
+  categories: many(categories),
+  recurringTransactions: many(recurringTransactions),
+  recurringInvoices: many(recurringInvoices),
+  journalEntries: many(journalEntries),
+  exchangeRates: many(exchangeRates),
+  taxCodes: many(taxCodes),
+  customerCredits: many(customerCredits),
+  creditNotes: many(creditNotes),
+  quotes: many(quotes),
+  documentSequences: many(documentSequences),
+}));
+
+export const membershipsRelations = relations(memberships, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [memberships.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(user, {
+    fields: [memberships.userId],
+    references: [user.id],
+  }),
+}));
+
 export const accountsRelations = relations(accounts, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [accounts.organizationId],
+    references: [organizations.id],
+  }),
+  parent: one(accounts, {
+    fields: [accounts.parentId],
+    references: [accounts.id],
+    relationName: "accountHierarchy",
+  }),
+  children: many(accounts, { relationName: "accountHierarchy" }),
   transactionsFrom: many(transactions, { relationName: "fromAccount" }),
   transactionsTo: many(transactions, { relationName: "toAccount" }),
   recurringTransactionsFrom: many(recurringTransactions, {
@@ -291,22 +1321,149 @@ export const accountsRelations = relations(accounts, ({ one, many }) => ({
     relationName: "toAccount",
   }),
   expenses: many(expenses),
+  billItems: many(billItems),
+  journalLines: many(journalLines),
+  taxCodes: many(taxCodes),
+}));
+
+export const bankImportMappingsRelations = relations(
+  bankImportMappings,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [bankImportMappings.organizationId],
+      references: [organizations.id],
+    }),
+    account: one(accounts, {
+      fields: [bankImportMappings.accountId],
+      references: [accounts.id],
+    }),
+  })
+);
+
+export const exchangeRatesRelations = relations(exchangeRates, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [exchangeRates.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const documentSequencesRelations = relations(
+  documentSequences,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [documentSequences.organizationId],
+      references: [organizations.id],
+    }),
+  })
+);
+
+export const taxCodesRelations = relations(taxCodes, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [taxCodes.organizationId],
+    references: [organizations.id],
+  }),
+  account: one(accounts, {
+    fields: [taxCodes.accountId],
+    references: [accounts.id],
+  }),
+  invoiceItems: many(invoiceItems),
+}));
+
+export const transactionRulesRelations = relations(
+  transactionRules,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [transactionRules.organizationId],
+      references: [organizations.id],
+    }),
+    account: one(accounts, {
+      fields: [transactionRules.accountId],
+      references: [accounts.id],
+    }),
+    contact: one(contacts, {
+      fields: [transactionRules.contactId],
+      references: [contacts.id],
+    }),
+    category: one(categories, {
+      fields: [transactionRules.categoryId],
+      references: [categories.id],
+    }),
+  })
+);
+
+export const reconciliationsRelations = relations(
+  reconciliations,
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [reconciliations.organizationId],
+      references: [organizations.id],
+    }),
+    account: one(accounts, {
+      fields: [reconciliations.accountId],
+      references: [accounts.id],
+    }),
+    user: one(user, {
+      fields: [reconciliations.userId],
+      references: [user.id],
+    }),
+    items: many(reconciliationItems),
+  })
+);
+
+export const reconciliationItemsRelations = relations(
+  reconciliationItems,
+  ({ one }) => ({
+    reconciliation: one(reconciliations, {
+      fields: [reconciliationItems.reconciliationId],
+      references: [reconciliations.id],
+    }),
+    transaction: one(transactions, {
+      fields: [reconciliationItems.transactionId],
+      references: [transactions.id],
+    }),
+  })
+);
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [categories.organizationId],
+    references: [organizations.id],
+  }),
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "categoryHierarchy",
+  }),
+  children: many(categories, { relationName: "categoryHierarchy" }),
+  transactions: many(transactions),
 }));
 
 export const contactsRelations = relations(contacts, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [contacts.organizationId],
+    references: [organizations.id],
+  }),
   user: one(user, {
     fields: [contacts.userId],
     references: [user.id],
   }),
   transactions: many(transactions),
   invoices: many(invoices),
+  quotes: many(quotes),
+  bills: many(bills),
   recurringTransactions: many(recurringTransactions),
+  recurringInvoices: many(recurringInvoices),
   expenses: many(expenses),
+  customerCredits: many(customerCredits),
 }));
 
 export const transactionsRelations = relations(
   transactions,
   ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [transactions.organizationId],
+      references: [organizations.id],
+    }),
     user: one(user, {
       fields: [transactions.userId],
       references: [user.id],
@@ -325,10 +1482,27 @@ export const transactionsRelations = relations(
       fields: [transactions.contactId],
       references: [contacts.id],
     }),
+    category: one(categories, {
+      fields: [transactions.categoryId],
+      references: [categories.id],
+    }),
+    invoice: one(invoices, {
+      fields: [transactions.invoiceId],
+      references: [invoices.id],
+    }),
+    bill: one(bills, {
+      fields: [transactions.billId],
+      references: [bills.id],
+    }),
+    reconciliationItems: many(reconciliationItems),
   })
 );
 
 export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [invoices.organizationId],
+    references: [organizations.id],
+  }),
   user: one(user, {
     fields: [invoices.userId],
     references: [user.id],
@@ -337,10 +1511,215 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
     fields: [invoices.customerId],
     references: [contacts.id],
   }),
+  recurringInvoice: one(recurringInvoices, {
+    fields: [invoices.recurringInvoiceId],
+    references: [recurringInvoices.id],
+  }),
+  quote: one(quotes, {
+    fields: [invoices.quoteId],
+    references: [quotes.id],
+  }),
   items: many(invoiceItems),
+  transactions: many(transactions),
+  payments: many(invoicePayments),
+  creditNotes: many(creditNotes),
+  creditApplications: many(creditApplications),
+}));
+
+export const invoicePaymentsRelations = relations(
+  invoicePayments,
+  ({ one }) => ({
+    invoice: one(invoices, {
+      fields: [invoicePayments.invoiceId],
+      references: [invoices.id],
+    }),
+    transaction: one(transactions, {
+      fields: [invoicePayments.transactionId],
+      references: [transactions.id],
+    }),
+    account: one(accounts, {
+      fields: [invoicePayments.accountId],
+      references: [accounts.id],
+    }),
+    user: one(user, {
+      fields: [invoicePayments.userId],
+      references: [user.id],
+    }),
+  })
+);
+
+export const customerCreditsRelations = relations(
+  customerCredits,
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [customerCredits.organizationId],
+      references: [organizations.id],
+    }),
+    contact: one(contacts, {
+      fields: [customerCredits.contactId],
+      references: [contacts.id],
+    }),
+    transaction: one(transactions, {
+      fields: [customerCredits.transactionId],
+      references: [transactions.id],
+    }),
+    creditNote: one(creditNotes, {
+      fields: [customerCredits.creditNoteId],
+      references: [creditNotes.id],
+    }),
+    applications: many(creditApplications),
+    refunds: many(creditRefunds),
+  })
+);
+
+export const quotesRelations = relations(quotes, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [quotes.organizationId],
+    references: [organizations.id],
+  }),
+  customer: one(contacts, {
+    fields: [quotes.customerId],
+    references: [contacts.id],
+  }),
+  user: one(user, {
+    fields: [quotes.userId],
+    references: [user.id],
+  }),
+  items: many(quoteItems),
+  invoices: many(invoices),
+}));
+
+export const quoteItemsRelations = relations(quoteItems, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteItems.quoteId],
+    references: [quotes.id],
+  }),
+  taxCode: one(taxCodes, {
+    fields: [quoteItems.taxCodeId],
+    references: [taxCodes.id],
+  }),
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [creditNotes.organizationId],
+    references: [organizations.id],
+  }),
+  customer: one(contacts, {
+    fields: [creditNotes.customerId],
+    references: [contacts.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+  user: one(user, {
+    fields: [creditNotes.userId],
+    references: [user.id],
+  }),
+  items: many(creditNoteItems),
+}));
+
+export const creditNoteItemsRelations = relations(
+  creditNoteItems,
+  ({ one }) => ({
+    creditNote: one(creditNotes, {
+      fields: [creditNoteItems.creditNoteId],
+      references: [creditNotes.id],
+    }),
+    invoiceItem: one(invoiceItems, {
+      fields: [creditNoteItems.invoiceItemId],
+      references: [invoiceItems.id],
+    }),
+    taxCode: one(taxCodes, {
+      fields: [creditNoteItems.taxCodeId],
+      references: [taxCodes.id],
+    }),
+  })
+);
+
+export const creditApplicationsRelations = relations(
+  creditApplications,
+  ({ one }) => ({
+    customerCredit: one(customerCredits, {
+      fields: [creditApplications.customerCreditId],
+      references: [customerCredits.id],
+    }),
+    invoice: one(invoices, {
+      fields: [creditApplications.invoiceId],
+      references: [invoices.id],
+    }),
+  })
+);
+
+export const creditRefundsRelations = relations(creditRefunds, ({ one }) => ({
+  customerCredit: one(customerCredits, {
+    fields: [creditRefunds.customerCreditId],
+    references: [customerCredits.id],
+  }),
+  transaction: one(transactions, {
+    fields: [creditRefunds.transactionId],
+    references: [transactions.id],
+  }),
+  account: one(accounts, {
+    fields: [creditRefunds.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const billsRelations = relations(bills, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [bills.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(user, {
+    fields: [bills.userId],
+    references: [user.id],
+  }),
+  vendor: one(contacts, {
+    fields: [bills.vendorId],
+    references: [contacts.id],
+  }),
+  items: many(billItems),
+  transactions: many(transactions),
+  payments: many(billPayments),
+}));
+
+export const billItemsRelations = relations(billItems, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billItems.billId],
+    references: [bills.id],
+  }),
+  account: one(accounts, {
+    fields: [billItems.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const billPaymentsRelations = relations(billPayments, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billPayments.billId],
+    references: [bills.id],
+  }),
+  transaction: one(transactions, {
+    fields: [billPayments.transactionId],
+    references: [transactions.id],
+  }),
+  account: one(accounts, {
+    fields: [billPayments.accountId],
+    references: [accounts.id],
+  }),
+  user: one(user, {
+    fields: [billPayments.userId],
+    references: [user.id],
+  }),
 }));
 
 export const expensesRelations = relations(expenses, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [expenses.organizationId],
+    references: [organizations.id],
+  }),
   user: one(user, {
     fields: [expenses.userId],
     references: [user.id],
@@ -353,6 +1732,43 @@ export const expensesRelations = relations(expenses, ({ one, many }) => ({
     fields: [expenses.accountId],
     references: [accounts.id],
   }),
+  events: many(expenseEvents),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [attachments.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(user, {
+    fields: [attachments.userId],
+    references: [user.id],
+  }),
+}));
+
+export const expenseApproversRelations = relations(
+  expenseApprovers,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [expenseApprovers.organizationId],
+      references: [organizations.id],
+    }),
+    user: one(user, {
+      fields: [expenseApprovers.userId],
+      references: [user.id],
+    }),
+  })
+);
+
+export const expenseEventsRelations = relations(expenseEvents, ({ one }) => ({
+  expense: one(expenses, {
+    fields: [expenseEvents.expenseId],
+    references: [expenses.id],
+  }),
+  user: one(user, {
+    fields: [expenseEvents.userId],
+    references: [user.id],
+  }),
 }));
 
 export const invoiceItemsRelations = relations(invoiceItems, ({ one }) => ({
@@ -360,11 +1776,19 @@ export const invoiceItemsRelations = relations(invoiceItems, ({ one }) => ({
     fields: [invoiceItems.invoiceId],
     references: [invoices.id],
   }),
+  taxCode: one(taxCodes, {
+    fields: [invoiceItems.taxCodeId],
+    references: [taxCodes.id],
+  }),
 }));
 
 export const recurringTransactionsRelations = relations(
   recurringTransactions,
-  ({ one }) => ({
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [recurringTransactions.organizationId],
+      references: [organizations.id],
+    }),
     user: one(user, {
       fields: [recurringTransactions.userId],
       references: [user.id],
@@ -383,14 +1807,89 @@ export const recurringTransactionsRelations = relations(
       fields: [recurringTransactions.contactId],
       references: [contacts.id],
     }),
+    occurrences: many(recurringOccurrences),
+  })
+);
+
+export const recurringOccurrencesRelations = relations(
+  recurringOccurrences,
+  ({ one }) => ({
+    recurringTransaction: one(recurringTransactions, {
+      fields: [recurringOccurrences.recurringTransactionId],
+      references: [recurringTransactions.id],
+    }),
+    transaction: one(transactions, {
+      fields: [recurringOccurrences.transactionId],
+      references: [transactions.id],
+    }),
+  })
+);
+
+export const recurringInvoicesRelations = relations(
+  recurringInvoices,
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [recurringInvoices.organizationId],
+      references: [organizations.id],
+    }),
+    user: one(user, {
+      fields: [recurringInvoices.userId],
+      references: [user.id],
+    }),
+    customer: one(contacts, {
+      fields: [recurringInvoices.customerId],
+      references: [contacts.id],
+    }),
+    items: many(recurringInvoiceItems),
+    invoices: many(invoices),
   })
 );
 
+export const recurringInvoiceItemsRelations = relations(
+  recurringInvoiceItems,
+  ({ one }) => ({
+    recurringInvoice: one(recurringInvoices, {
+      fields: [recurringInvoiceItems.recurringInvoiceId],
+      references: [recurringInvoices.id],
+    }),
+  })
+);
+
+export const journalEntriesRelations = relations(
+  journalEntries,
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [journalEntries.organizationId],
+      references: [organizations.id],
+    }),
+    user: one(user, {
+      fields: [journalEntries.userId],
+      references: [user.id],
+    }),
+    lines: many(journalLines),
+  })
+);
+
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  journalEntry: one(journalEntries, {
+    fields: [journalLines.journalEntryId],
+    references: [journalEntries.id],
+  }),
+  account: one(accounts, {
+    fields: [journalLines.accountId],
+    references: [accounts.id],
+  }),
+}));
+
 export const sessionRelations = relations(session, ({ one }) => ({
   user: one(user, {
     fields: [session.userId],
     references: [user.id],
   }),
+  activeOrganization: one(organizations, {
+    fields: [session.activeOrganizationId],
+    references: [organizations.id],
+  }),
 }));
 
 export const accountRelations = relations(account, ({ one }) => ({
@@ -414,6 +1913,12 @@ export type InsertVerification = typeof verification.$inferInsert;
 export type SelectVerification = typeof verification.$inferSelect;
 
 // Business table types
+export type InsertOrganizations = typeof organizations.$inferInsert;
+export type SelectOrganizations = typeof organizations.$inferSelect;
+
+export type InsertMemberships = typeof memberships.$inferInsert;
+export type SelectMemberships = typeof memberships.$inferSelect;
+
 export type InsertAccounts = typeof accounts.$inferInsert;
 export type SelectAccounts = typeof accounts.$inferSelect;
 
@@ -429,24 +1934,152 @@ export type SelectInvoices = typeof invoices.$inferSelect;
 export type InsertInvoiceItems = typeof invoiceItems.$inferInsert;
 export type SelectInvoiceItems = typeof invoiceItems.$inferSelect;
 
+export type InsertInvoicePayments = typeof invoicePayments.$inferInsert;
+export type SelectInvoicePayments = typeof invoicePayments.$inferSelect;
+
+export type InsertCustomerCredits = typeof customerCredits.$inferInsert;
+export type SelectCustomerCredits = typeof customerCredits.$inferSelect;
+
+export type InsertQuotes = typeof quotes.$inferInsert;
+export type SelectQuotes = typeof quotes.$inferSelect;
+
+export type InsertQuoteItems = typeof quoteItems.$inferInsert;
+export type SelectQuoteItems = typeof quoteItems.$inferSelect;
+
+export type InsertCreditNotes = typeof creditNotes.$inferInsert;
+export type SelectCreditNotes = typeof creditNotes.$inferSelect;
+
+export type InsertCreditNoteItems = typeof creditNoteItems.$inferInsert;
+export type SelectCreditNoteItems = typeof creditNoteItems.$inferSelect;
+
+export type InsertCreditApplications = typeof creditApplications.$inferInsert;
+export type SelectCreditApplications = typeof creditApplications.$inferSelect;
+
+export type InsertCreditRefunds = typeof creditRefunds.$inferInsert;
+export type SelectCreditRefunds = typeof creditRefunds.$inferSelect;
+
+export type InsertBills = typeof bills.$inferInsert;
+export type SelectBills = typeof bills.$inferSelect;
+
+export type InsertBillItems = typeof billItems.$inferInsert;
+export type SelectBillItems = typeof billItems.$inferSelect;
+
+export type InsertBillPayments = typeof billPayments.$inferInsert;
+export type SelectBillPayments = typeof billPayments.$inferSelect;
+
 export type InsertRecurringTransactions =
   typeof recurringTransactions.$inferInsert;
 export type SelectRecurringTransactions =
   typeof recurringTransactions.$inferSelect;
 
+export type InsertRecurringOccurrences =
+  typeof recurringOccurrences.$inferInsert;
+export type SelectRecurringOccurrences =
+  typeof recurringOccurrences.$inferSelect;
+
+export type InsertRecurringInvoices = typeof recurringInvoices.$inferInsert;
+export type SelectRecurringInvoices = typeof recurringInvoices.$inferSelect;
+
+export type InsertRecurringInvoiceItems =
+  typeof recurringInvoiceItems.$inferInsert;
+export type SelectRecurringInvoiceItems =
+  typeof recurringInvoiceItems.$inferSelect;
+
 export type InsertExpenses = typeof expenses.$inferInsert;
 export type SelectExpenses = typeof expenses.$inferSelect;
 
+export type InsertBankImportMappings = typeof bankImportMappings.$inferInsert;
+export type SelectBankImportMappings = typeof bankImportMappings.$inferSelect;
+
+export type InsertTransactionRules = typeof transactionRules.$inferInsert;
+export type SelectTransactionRules = typeof transactionRules.$inferSelect;
+
+export type InsertExchangeRates = typeof exchangeRates.$inferInsert;
+export type SelectExchangeRates = typeof exchangeRates.$inferSelect;
+
+export type InsertDocumentSequences = typeof documentSequences.$inferInsert;
+export type SelectDocumentSequences = typeof documentSequences.$inferSelect;
+
+export type InsertTaxCodes = typeof taxCodes.$inferInsert;
+export type SelectTaxCodes = typeof taxCodes.$inferSelect;
+
+export type InsertReconciliations = typeof reconciliations.$inferInsert;
+export type SelectReconciliations = typeof reconciliations.$inferSelect;
+
+export type InsertCategories = typeof categories.$inferInsert;
+export type SelectCategories = typeof categories.$inferSelect;
+
+export type InsertAttachments = typeof attachments.$inferInsert;
+export type SelectAttachments = typeof attachments.$inferSelect;
+
+export type InsertExpenseApprovers = typeof expenseApprovers.$inferInsert;
+export type SelectExpenseApprovers = typeof expenseApprovers.$inferSelect;
+
+export type InsertExpenseEvents = typeof expenseEvents.$inferInsert;
+export type SelectExpenseEvents = typeof expenseEvents.$inferSelect;
+
+export type InsertJournalEntries = typeof journalEntries.$inferInsert;
+export type SelectJournalEntries = typeof journalEntries.$inferSelect;
+
+export type InsertJournalLines = typeof journalLines.$inferInsert;
+export type SelectJournalLines = typeof journalLines.$inferSelect;
+
 // Enum types for convenience
 export type AccountType = "cash" | "bank" | "mobile" | "credit";
+export type AccountClass =
+  | "asset"
+  | "liability"
+  | "equity"
+  | "revenue"
+  | "expense";
 export type TransactionType = "income" | "expense" | "transfer";
 export type ContactType = "customer" | "vendor";
-export type InvoiceStatus = "draft" | "sent" | "paid" | "overdue";
+export type InvoiceStatus =
+  | "draft"
+  | "sent"
+  | "partially_paid"
+  | "paid"
+  | "overdue";
+export type QuoteStatus =
+  | "draft"
+  | "sent"
+  | "accepted"
+  | "declined"
+  | "expired";
+export type CreditNoteStatus = "draft" | "issued" | "void";
+export type BillStatus = "draft" | "open" | "partially_paid" | "paid";
+export type PaymentMethod =
+  | "cash"
+  | "bank_transfer"
+  | "mobile_money"
+  | "card"
+  | "cheque"
+  | "other";
 export type ExpenseStatus =
   | "draft"
   | "submitted"
   | "approved"
   | "rejected"
   | "reimbursed";
-export type RecurringFrequency = "daily" | "weekly" | "monthly" | "yearly";
+export type RecurringFrequency =
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly";
 export type TransactionStatus = "pending" | "completed" | "cancelled";
+export type ReconciliationStatus = "in_progress" | "completed";
+export type CategoryType = "income" | "expense";
+export type TaxCodeKind = "standard" | "zero_rated" | "exempt" | "withholding";
+export type DocumentType = "invoice" | "credit_note" | "quote";
+export type AttachmentSource = "transaction" | "expense";
+export type MembershipRole = "owner" | "admin" | "accountant" | "member";
+export type JournalSource =
+  | "transaction"
+  | "invoice"
+  | "expense"
+  | "account"
+  | "bill"
+  | "revaluation"
+  | "credit_note"
+  | "credit_application";
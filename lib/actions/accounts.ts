@@ -1,65 +1,189 @@
 "use server"
 
 import { db } from "@/db/drizzle"
-import { accounts } from "@/db/schema"
-import { eq, desc } from "drizzle-orm"
+import { accounts, journalLines, type SelectAccounts } from "@/db/schema"
+import { and, asc, eq, desc, ne } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
-import { auth } from "@/lib/auth"
-import { headers } from "next/headers"
-
-const accountSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  type: z.enum(["cash", "bank", "mobile", "credit"]),
-  description: z.string().optional(),
-  balance: z.number(),
-})
-
-async function getCurrentUserId(): Promise<string> {
-  const session = await auth.api.getSession({
-    headers: await headers(),
+import { seedDefaultChartOfAccounts, wouldCreateCycle } from "@/lib/chart-of-accounts"
+import { findBalanceDiscrepancies } from "@/lib/jobs/reconcile-balances"
+import { getExchangeRate } from "@/lib/exchange-rates"
+import { type DbTransaction, LedgerError, getBaseCurrency, getLedgerBalances, isPaymentAccount, postOpeningBalance } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const accountSchema = z
+  .object({
+    code: z
+      .string()
+      .regex(/^\d{3,10}$/, "Account code must be 3 to 10 digits")
+      .optional(),
+    name: z.string().min(1, "Name is required"),
+    accountClass: z.enum(["asset", "liability", "equity", "revenue", "expense"]),
+    type: z.enum(["cash", "bank", "mobile", "credit"]).optional(),
+    parentId: z.string().uuid().optional(),
+    description: z.string().optional(),
+    openingBalance: z.number(),
+    currency: z.string().length(3).optional(),
+  })
+  .refine((data) => !data.type || (data.type === "credit" ? "liability" : "asset") === data.accountClass, {
+    message: "Cash, bank and mobile accounts must be assets; credit accounts must be liabilities",
+    path: ["type"],
+  })
+
+function readAccountForm(formData: FormData) {
+  return accountSchema.parse({
+    code: (formData.get("code") as string) || undefined,
+    name: formData.get("name") as string,
+    accountClass: (formData.get("accountClass") as string) || "asset",
+    type: (formData.get("type") as string) || undefined,
+    parentId: (formData.get("parentId") as string) || undefined,
+    openingBalance: Number.parseFloat(formData.get("openingBalance") as string) || 0,
+    description: (formData.get("description") as string) || undefined,
+    currency: (formData.get("currency") as string) || undefined,
   })
-  if (!session?.user?.id) {
-    throw new Error("Unauthorized: No user session found")
+}
+
+/**
+ * Check the code is free and the parent is a valid header for this account.
+ * Returns an error message, or null when the account can be saved.
+ */
+async function validateAccountPlacement(
+  organizationId: string,
+  data: z.infer<typeof accountSchema>,
+  accountId?: string,
+): Promise<string | null> {
+  if (data.code) {
+    const [clash] = await db
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.organizationId, organizationId),
+          eq(accounts.code, data.code),
+          accountId ? ne(accounts.id, accountId) : undefined,
+        ),
+      )
+      .limit(1)
+    if (clash) {
+      return `Account code ${data.code} is already in use`
+    }
   }
-  return session.user.id
+
+  if (data.parentId) {
+    const [parent] = await db
+      .select({ accountClass: accounts.accountClass })
+      .from(accounts)
+      .where(and(eq(accounts.id, data.parentId), eq(accounts.organizationId, organizationId)))
+      .limit(1)
+    if (!parent) {
+      return "Parent account not found"
+    }
+    if (parent.accountClass !== data.accountClass) {
+      return "A parent account must belong to the same class"
+    }
+    if (accountId && (await wouldCreateCycle(db, accountId, data.parentId))) {
+      return "An account cannot be placed under one of its own sub-accounts"
+    }
+  }
+
+  return null
+}
+
+/**
+ * The rate a foreign currency opening balance is converted at, taken on the day the account was opened
+ */
+async function openingBalanceRate(tx: DbTransaction, account: SelectAccounts) {
+  if (Number.parseFloat(account.openingBalance) === 0) {
+    return 1
+  }
+  return getExchangeRate(tx, account.organizationId, account.currency, account.createdAt ?? new Date())
 }
 
 export async function getAccounts() {
   try {
-    const result = await db.select().from(accounts).where(eq(accounts.isActive, true)).orderBy(desc(accounts.createdAt))
-    return { success: true, data: result }
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.organizationId, organizationId), eq(accounts.isActive, true)))
+      .orderBy(desc(accounts.createdAt))
+    const balances = await getLedgerBalances(db, result.map((account) => account.id))
+
+    const data = result.filter(isPaymentAccount).map((account) => ({
+      ...account,
+      balance: (balances.get(account.id) ?? 0).toFixed(2),
+    }))
+
+    return { success: true, data }
   } catch (error) {
     console.error("Error fetching accounts:", error)
     return { success: false, error: "Failed to fetch accounts" }
   }
 }
 
+/**
+ * Full chart of accounts, including ledger-only accounts, ordered by code
+ */
+export async function getChartOfAccounts() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.organizationId, organizationId), eq(accounts.isActive, true)))
+      .orderBy(asc(accounts.code), asc(accounts.name))
+    const balances = await getLedgerBalances(db, result.map((account) => account.id))
+
+    const data = result.map((account) => ({
+      ...account,
+      balance: (balances.get(account.id) ?? 0).toFixed(2),
+    }))
+
+    return { success: true, data }
+  } catch (error) {
+    console.error("Error fetching chart of accounts:", error)
+    return { success: false, error: "Failed to fetch chart of accounts" }
+  }
+}
+
 export async function createAccount(formData: FormData) {
   try {
-    const data = {
-      name: formData.get("name") as string,
-      type: formData.get("type") as "cash" | "bank" | "mobile" | "credit",
-      balance: Number.parseFloat(formData.get("balance") as string) || 0,
-      description: formData.get("description") as string,
-    }
+    const { userId, organizationId } = await getOrganizationContext("accounts:manage")
 
-    console.log("Form Data Object:", data)
+    const validatedData = readAccountForm(formData)
 
-    const validatedData = accountSchema.parse(data)
+    const placementError = await validateAccountPlacement(organizationId, validatedData)
+    if (placementError) {
+      return { success: false, error: placementError }
+    }
 
-    await db.insert(accounts).values({
-      name: validatedData.name,
-      type: validatedData.type,
-      description: validatedData.description,
-      balance: validatedData.balance.toString(),
+    await db.transaction(async (tx) => {
+      const [newAccount] = await tx
+        .insert(accounts)
+        .values({
+          organizationId,
+          code: validatedData.code ?? null,
+          name: validatedData.name,
+          type: validatedData.type ?? null,
+          accountClass: validatedData.accountClass,
+          currency: validatedData.currency ?? (await getBaseCurrency(tx, organizationId)),
+          parentId: validatedData.parentId ?? null,
+          description: validatedData.description,
+          openingBalance: validatedData.openingBalance.toFixed(2),
+        })
+        .returning()
+
+      await postOpeningBalance(tx, newAccount, userId, await openingBalanceRate(tx, newAccount))
     })
 
     revalidatePath("/accounts")
     return { success: true, message: "Account created successfully" }
   } catch (error) {
     console.error("Error creating account:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to create account" }
@@ -68,31 +192,75 @@ export async function createAccount(formData: FormData) {
 
 export async function updateAccount(id: string, formData: FormData) {
   try {
-    const data = {
-      name: formData.get("name") as string,
-      type: formData.get("type") as "cash" | "bank" | "mobile" | "credit",
-      balance: Number.parseFloat(formData.get("balance") as string),
-      description: formData.get("description") as string,
-    }
+    const { userId, organizationId } = await getOrganizationContext("accounts:manage")
 
-    const validatedData = accountSchema.parse(data)
+    const validatedData = readAccountForm(formData)
 
-    await db
-      .update(accounts)
-      .set({
-        name: validatedData.name,
-        type: validatedData.type,
-        description: validatedData.description,
-        balance: validatedData.balance.toString(),
-        updatedAt: new Date(),
+    const [existing] = await db
+      .select({
+        systemKey: accounts.systemKey,
+        accountClass: accounts.accountClass,
+        type: accounts.type,
+        currency: accounts.currency,
       })
-      .where(eq(accounts.id, id))
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.organizationId, organizationId)))
+      .limit(1)
+
+    if (!existing) {
+      return { success: false, error: "Account not found" }
+    }
+
+    // The ledger relies on system accounts keeping their class
+    if (existing.systemKey && existing.accountClass !== validatedData.accountClass) {
+      return { success: false, error: "The class of a system account cannot be changed" }
+    }
+
+    const currency = validatedData.currency ?? existing.currency
+    if (currency !== existing.currency) {
+      // Posted amounts are tagged with the account's currency, so it is fixed once anything is posted
+      const [posted] = await db
+        .select({ id: journalLines.id })
+        .from(journalLines)
+        .where(eq(journalLines.accountId, id))
+        .limit(1)
+      if (posted) {
+        return { success: false, error: "The currency of an account with postings cannot be changed" }
+      }
+    }
+
+    const placementError = await validateAccountPlacement(organizationId, validatedData, id)
+    if (placementError) {
+      return { success: false, error: placementError }
+    }
+
+    await db.transaction(async (tx) => {
+      const [updatedAccount] = await tx
+        .update(accounts)
+        .set({
+          code: validatedData.code ?? null,
+          name: validatedData.name,
+          type: validatedData.type ?? null,
+          accountClass: validatedData.accountClass,
+          currency,
+          parentId: validatedData.parentId ?? null,
+          description: validatedData.description,
+          openingBalance: validatedData.openingBalance.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(accounts.id, id), eq(accounts.organizationId, organizationId)))
+        .returning()
+
+      if (updatedAccount) {
+        await postOpeningBalance(tx, updatedAccount, userId, await openingBalanceRate(tx, updatedAccount))
+      }
+    })
 
     revalidatePath("/accounts")
     return { success: true, message: "Account updated successfully" }
   } catch (error) {
     console.error("Error updating account:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to update account" }
@@ -101,45 +269,129 @@ export async function updateAccount(id: string, formData: FormData) {
 
 export async function deleteAccount(id: string) {
   try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const [account] = await db
+      .select({ systemKey: accounts.systemKey })
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.organizationId, organizationId)))
+      .limit(1)
+
+    if (!account) {
+      return { success: false, error: "Account not found" }
+    }
+
+    if (account.systemKey) {
+      return { success: false, error: "System accounts cannot be deleted" }
+    }
+
+    const children = await db
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(and(eq(accounts.parentId, id), eq(accounts.isActive, true)))
+      .limit(1)
+
+    if (children.length > 0) {
+      return { success: false, error: "Move or delete the sub-accounts first" }
+    }
+
     await db
       .update(accounts)
       .set({
         isActive: false,
         updatedAt: new Date(),
       })
-      .where(eq(accounts.id, id))
+      .where(and(eq(accounts.id, id), eq(accounts.organizationId, organizationId)))
 
     revalidatePath("/accounts")
     return { success: true, message: "Account deleted successfully" }
   } catch (error) {
     console.error("Error deleting account:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to delete account" }
   }
 }
 
 export async function getAccountsSummary() {
-  console.log("Summary")
   try {
-    const result = await db.select().from(accounts).where(eq(accounts.isActive, true))
+    const { organizationId } = await getOrganizationContext()
+    const activeInOrganization = and(eq(accounts.organizationId, organizationId), eq(accounts.isActive, true))
+
+    const result = (await db.select().from(accounts).where(activeInOrganization)).filter(isPaymentAccount)
+    const balances = await getLedgerBalances(db, result.map((account) => account.id))
+
+    const totalByType = (type: "cash" | "bank" | "mobile" | "credit") =>
+      result.filter((a) => a.type === type).reduce((sum, a) => sum + (balances.get(a.id) ?? 0), 0)
+
+    const accountsByType = {
+      cash: totalByType("cash"),
+      bank: totalByType("bank"),
+      mobile: totalByType("mobile"),
+      credit: totalByType("credit"),
+    }
 
-    console.log("Summary", result)
+    const allAccounts = await db
+      .select({ id: accounts.id, accountClass: accounts.accountClass })
+      .from(accounts)
+      .where(activeInOrganization)
+    const classBalances = await getLedgerBalances(db, allAccounts.map((account) => account.id))
+    const accountsByClass = { asset: 0, liability: 0, equity: 0, revenue: 0, expense: 0 }
+    for (const account of allAccounts) {
+      accountsByClass[account.accountClass] += classBalances.get(account.id) ?? 0
+    }
 
     const summary = {
       totalAccounts: result.length,
-      totalBalance: result.reduce((sum, account) => sum + Number.parseFloat(account.balance), 0),
-      accountsByType: {
-        cash: result.filter((a) => a.type === "cash").reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-        bank: result.filter((a) => a.type === "bank").reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-        mobile: result.filter((a) => a.type === "mobile").reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-        credit: result.filter((a) => a.type === "credit").reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-      },
+      // Credit balances are amounts owed, so they reduce the total
+      totalBalance: accountsByType.cash + accountsByType.bank + accountsByType.mobile - accountsByType.credit,
+      accountsByType,
+      accountsByClass,
+      baseCurrency: await getBaseCurrency(db, organizationId),
     }
 
-    console.log("Summary 2", summary)
-
     return { success: true, data: summary }
   } catch (error) {
     console.error("Error fetching accounts summary:", error)
     return { success: false, error: "Failed to fetch accounts summary" }
   }
 }
+
+/**
+ * Add the default chart of accounts, keeping any accounts that already exist
+ */
+export async function seedChartOfAccounts() {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const created = await db.transaction((tx) => seedDefaultChartOfAccounts(tx, organizationId))
+
+    revalidatePath("/accounts")
+    return { success: true, data: { created } }
+  } catch (error) {
+    console.error("Error seeding chart of accounts:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to load the default chart of accounts" }
+  }
+}
+
+/**
+ * List accounts whose cached balance no longer matches the ledger
+ */
+export async function getBalanceDiscrepancies() {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const discrepancies = await findBalanceDiscrepancies(organizationId)
+    return { success: true, data: discrepancies }
+  } catch (error) {
+    console.error("Error checking account balances:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to check account balances" }
+  }
+}
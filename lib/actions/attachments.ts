@@ -0,0 +1,114 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { attachments } from "@/db/schema"
+import { and, asc, eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { AttachmentError, assertAttachmentSource, removeAttachments, storeAttachment } from "@/lib/attachments"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const sourceSchema = z.object({
+  sourceType: z.enum(["transaction", "expense"]),
+  sourceId: z.string().uuid("Invalid record ID"),
+})
+
+// Pages that list the record an attachment belongs to
+const SOURCE_PATHS = {
+  transaction: "/transactions",
+  expense: "/expenses",
+} as const
+
+export async function getAttachments(sourceType: "transaction" | "expense", sourceId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext()
+    const source = sourceSchema.parse({ sourceType, sourceId })
+
+    const result = await db
+      .select({
+        id: attachments.id,
+        fileName: attachments.fileName,
+        contentType: attachments.contentType,
+        size: attachments.size,
+        createdAt: attachments.createdAt,
+      })
+      .from(attachments)
+      .where(
+        and(
+          eq(attachments.organizationId, organizationId),
+          eq(attachments.sourceType, source.sourceType),
+          eq(attachments.sourceId, source.sourceId),
+        ),
+      )
+      .orderBy(asc(attachments.createdAt))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching attachments:", error)
+    return { success: false, error: "Failed to fetch attachments" }
+  }
+}
+
+export async function uploadAttachment(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create")
+
+    const source = sourceSchema.parse({
+      sourceType: formData.get("sourceType") as string,
+      sourceId: formData.get("sourceId") as string,
+    })
+    const file = formData.get("file")
+    if (!(file instanceof File)) {
+      return { success: false, error: "Choose a file to upload" }
+    }
+
+    await assertAttachmentSource(db, organizationId, source.sourceType, source.sourceId)
+    const attachment = await storeAttachment({ organizationId, userId, ...source, file })
+
+    revalidatePath(SOURCE_PATHS[source.sourceType])
+    return {
+      success: true,
+      data: {
+        id: attachment.id,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+      },
+    }
+  } catch (error) {
+    console.error("Error uploading attachment:", error)
+    if (error instanceof z.ZodError || error instanceof AttachmentError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to upload attachment" }
+  }
+}
+
+export async function deleteAttachment(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:create")
+
+    const [attachment] = await db
+      .select({ id: attachments.id, storageKey: attachments.storageKey, sourceType: attachments.sourceType })
+      .from(attachments)
+      .where(and(eq(attachments.id, id), eq(attachments.organizationId, organizationId)))
+      .limit(1)
+
+    if (!attachment) {
+      return { success: false, error: "Attachment not found" }
+    }
+
+    await removeAttachments([attachment])
+
+    revalidatePath(SOURCE_PATHS[attachment.sourceType])
+    return { success: true }
+  } catch (error) {
+    console.error("Error deleting attachment:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to delete attachment" }
+  }
+}
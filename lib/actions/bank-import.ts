@@ -0,0 +1,359 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { accounts, bankImportMappings, contacts, transactions } from "@/db/schema"
+import { and, eq, gte, isNotNull, lte, or } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import {
+  CSV_DATE_FORMATS,
+  type CsvMapping,
+  type StatementLine,
+  StatementParseError,
+  detectCsvDelimiter,
+  detectStatementFormat,
+  guessCsvMapping,
+  normalizePhoneNumber,
+  parseCamt053Statement,
+  parseCsv,
+  parseCsvStatement,
+  parseMobileMoneyStatement,
+  parseOfxStatement,
+} from "@/lib/bank-import"
+import { getExchangeRate } from "@/lib/exchange-rates"
+import { LedgerError, type DbExecutor, isPaymentAccount, postTransaction } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+import { applyTransactionRules, getActiveRules } from "@/lib/transaction-rules"
+
+// Statements are text files; anything larger is almost certainly the wrong file
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024
+
+const column = z.number().int().min(0)
+
+const csvMappingSchema = z
+  .object({
+    delimiter: z.enum([",", ";", "\t", "|"]),
+    hasHeader: z.boolean(),
+    dateColumn: column,
+    dateFormat: z.enum(CSV_DATE_FORMATS),
+    descriptionColumn: column,
+    referenceColumn: column.nullable(),
+    amountColumn: column.nullable(),
+    debitColumn: column.nullable(),
+    creditColumn: column.nullable(),
+    decimalSeparator: z.enum([".", ","]),
+  })
+  .refine((data) => data.amountColumn !== null || (data.debitColumn !== null && data.creditColumn !== null), {
+    message: "Choose an amount column, or both a debit and a credit column",
+    path: ["amountColumn"],
+  })
+
+const statementLineSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid statement date"),
+  amount: z.number().refine((value) => value !== 0, "Statement lines cannot be zero"),
+  description: z.string().min(1).max(1000),
+  reference: z.string().max(100).nullable(),
+  fee: z.number().positive().optional(),
+  counterpartyPhone: z.string().max(50).nullable().optional(),
+})
+
+// Statements can only be imported into the organisation's cash, bank and mobile accounts
+async function getImportAccount(executor: DbExecutor, organizationId: string, accountId: string) {
+  const [account] = await executor
+    .select()
+    .from(accounts)
+    .where(and(eq(accounts.id, accountId), eq(accounts.organizationId, organizationId)))
+    .limit(1)
+
+  if (!account || !isPaymentAccount(account)) {
+    throw new LedgerError("Account not found")
+  }
+  return account
+}
+
+/**
+ * The organisation's contacts keyed by normalised phone number, for matching mobile money counterparties
+ */
+async function getContactsByPhone(executor: DbExecutor, organizationId: string) {
+  const rows = await executor
+    .select({ id: contacts.id, name: contacts.name, phone: contacts.phone })
+    .from(contacts)
+    .where(and(eq(contacts.organizationId, organizationId), isNotNull(contacts.phone)))
+
+  const byPhone = new Map<string, { id: string; name: string }>()
+  for (const row of rows) {
+    const phone = normalizePhoneNumber(row.phone)
+    if (phone && !byPhone.has(phone)) {
+      byPhone.set(phone, { id: row.id, name: row.name })
+    }
+  }
+  return byPhone
+}
+
+function toCsvMapping(row: typeof bankImportMappings.$inferSelect): CsvMapping {
+  return csvMappingSchema.parse({
+    delimiter: row.delimiter,
+    hasHeader: row.hasHeader,
+    dateColumn: row.dateColumn,
+    dateFormat: row.dateFormat,
+    descriptionColumn: row.descriptionColumn,
+    referenceColumn: row.referenceColumn,
+    amountColumn: row.amountColumn,
+    debitColumn: row.debitColumn,
+    creditColumn: row.creditColumn,
+    decimalSeparator: row.decimalSeparator,
+  })
+}
+
+/**
+ * Indexes of statement lines that match a transaction already recorded against the account:
+ * same date and signed amount, and the same reference when both sides have one.
+ * Each recorded transaction matches at most one line.
+ */
+async function findDuplicateLines(
+  executor: DbExecutor,
+  organizationId: string,
+  accountId: string,
+  lines: StatementLine[],
+) {
+  if (lines.length === 0) {
+    return new Set<number>()
+  }
+
+  const dates = lines.map((line) => line.date).sort()
+  const existing = await executor
+    .select({
+      amount: transactions.amount,
+      transactionDate: transactions.transactionDate,
+      reference: transactions.reference,
+      toAccountId: transactions.toAccountId,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.organizationId, organizationId),
+        or(eq(transactions.fromAccountId, accountId), eq(transactions.toAccountId, accountId)),
+        gte(transactions.transactionDate, new Date(`${dates[0]}T00:00:00Z`)),
+        lte(transactions.transactionDate, new Date(`${dates[dates.length - 1]}T23:59:59Z`)),
+      ),
+    )
+
+  const candidates = existing.map((row) => ({
+    date: row.transactionDate.toISOString().slice(0, 10),
+    amount: (row.toAccountId === accountId ? 1 : -1) * Number.parseFloat(row.amount),
+    reference: row.reference,
+    used: false,
+  }))
+
+  const duplicates = new Set<number>()
+  lines.forEach((line, index) => {
+    const match = candidates.find(
+      (candidate) =>
+        !candidate.used &&
+        candidate.date === line.date &&
+        Math.abs(candidate.amount - line.amount) < 0.005 &&
+        (!candidate.reference || !line.reference || candidate.reference === line.reference),
+    )
+    if (match) {
+      match.used = true
+      duplicates.add(index)
+    }
+  })
+  return duplicates
+}
+
+/**
+ * Parse an uploaded statement and flag lines already recorded against the account.
+ * CSV files are read with the mapping sent by the wizard, else the account's saved mapping,
+ * else one guessed from the header row; the mapping used is returned so it can be adjusted.
+ */
+export async function previewBankImport(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:create")
+
+    const accountId = z.string().uuid("Choose an account").parse(formData.get("accountId"))
+    const file = formData.get("file")
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: "Choose a statement file" }
+    }
+    if (file.size > MAX_STATEMENT_SIZE) {
+      return { success: false, error: "Statement files must be 5 MB or smaller" }
+    }
+
+    await getImportAccount(db, organizationId, accountId)
+
+    const content = await file.text()
+    const format = detectStatementFormat(file.name, content)
+
+    let mapping: CsvMapping | null = null
+    let headers: string[] = []
+    let lines
+    if (format === "csv") {
+      const rawMapping = formData.get("mapping") as string | null
+      if (rawMapping) {
+        mapping = csvMappingSchema.parse(JSON.parse(rawMapping))
+      } else {
+        const [saved] = await db
+          .select()
+          .from(bankImportMappings)
+          .where(and(eq(bankImportMappings.accountId, accountId), eq(bankImportMappings.organizationId, organizationId)))
+          .limit(1)
+        if (saved) {
+          mapping = toCsvMapping(saved)
+        }
+      }
+
+      const delimiter = mapping?.delimiter ?? detectCsvDelimiter(content)
+      const [firstRow = []] = parseCsv(content, delimiter)
+      headers = mapping && !mapping.hasHeader ? firstRow.map((_, index) => `Column ${index + 1}`) : firstRow
+      mapping ??= guessCsvMapping(firstRow, delimiter)
+
+      // A wrong mapping is reported alongside it so the wizard can correct it
+      try {
+        lines = parseCsvStatement(content, mapping)
+      } catch (error) {
+        if (error instanceof StatementParseError) {
+          return { success: true, data: { format, mapping, headers, lines: [], parseError: error.message } }
+        }
+        throw error
+      }
+    } else if (format === "mobile_money") {
+      lines = parseMobileMoneyStatement(content)
+    } else {
+      lines = format === "ofx" ? parseOfxStatement(content) : parseCamt053Statement(content)
+    }
+
+    if (lines.length === 0) {
+      return { success: false, error: "The statement has no transactions" }
+    }
+
+    const duplicates = await findDuplicateLines(db, organizationId, accountId, lines)
+    const contactsByPhone = await getContactsByPhone(db, organizationId)
+
+    return {
+      success: true,
+      data: {
+        format,
+        mapping,
+        headers,
+        lines: lines.map((line, index) => ({
+          ...line,
+          duplicate: duplicates.has(index),
+          contactName: contactsByPhone.get(normalizePhoneNumber(line.counterpartyPhone) ?? "")?.name ?? null,
+        })),
+        parseError: null,
+      },
+    }
+  } catch (error) {
+    console.error("Error previewing bank import:", error)
+    if (
+      error instanceof z.ZodError ||
+      error instanceof StatementParseError ||
+      error instanceof LedgerError ||
+      error instanceof PermissionError
+    ) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to read the statement" }
+  }
+}
+
+/**
+ * Create pending transactions for the chosen statement lines: money in as income to the account,
+ * money out as expenses from it, then filled in by the first matching rule.
+ * Mobile money fees become separate expenses and counterparties are matched to contacts by phone.
+ * The CSV mapping is saved for the account's next import.
+ */
+export async function importBankStatement(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create")
+
+    const accountId = z.string().uuid("Choose an account").parse(formData.get("accountId"))
+    const lines = z
+      .array(statementLineSchema)
+      .min(1, "Select at least one line to import")
+      .parse(JSON.parse((formData.get("lines") as string) || "[]"))
+    const rawMapping = formData.get("mapping") as string | null
+    const mapping = rawMapping ? csvMappingSchema.parse(JSON.parse(rawMapping)) : null
+
+    const created = await db.transaction(async (tx) => {
+      const account = await getImportAccount(tx, organizationId, accountId)
+      const rules = await getActiveRules(tx, organizationId)
+      const contactsByPhone = await getContactsByPhone(tx, organizationId)
+
+      // Statement lines are in the account's currency, converted at the rate on each line's date
+      const rates = new Map<string, string>()
+      for (const date of new Set(lines.map((line) => line.date))) {
+        rates.set(date, String(await getExchangeRate(tx, organizationId, account.currency, new Date(date))))
+      }
+
+      const toTransaction = (line: z.infer<typeof statementLineSchema>, contactId: string | null) => {
+        const values = {
+          organizationId,
+          userId,
+          type: line.amount > 0 ? ("income" as const) : ("expense" as const),
+          status: "pending" as const,
+          amount: Math.abs(line.amount).toFixed(2),
+          currency: account.currency,
+          exchangeRate: rates.get(line.date)!,
+          description: line.description,
+          reference: line.reference,
+          transactionDate: new Date(line.date),
+          fromAccountId: line.amount < 0 ? accountId : null,
+          toAccountId: line.amount > 0 ? accountId : null,
+          contactId,
+          categoryId: null,
+          notes: null,
+        }
+        const match = applyTransactionRules(rules, values)
+        return { ...values, ...match?.changes, notes: match?.changes.notes ?? "Imported from bank statement" }
+      }
+
+      const rows = await tx
+        .insert(transactions)
+        .values(
+          lines.flatMap((line) => {
+            const contact = contactsByPhone.get(normalizePhoneNumber(line.counterpartyPhone) ?? "")
+            const transaction = toTransaction(line, contact?.id ?? null)
+            if (!line.fee) {
+              return [transaction]
+            }
+            const fee = toTransaction(
+              { ...line, amount: -line.fee, description: `Transaction fee: ${line.description}` },
+              null,
+            )
+            return [transaction, fee]
+          }),
+        )
+        .returning()
+
+      // Pending transactions stay off the ledger until they are completed
+      for (const row of rows) {
+        await postTransaction(tx, row)
+      }
+
+      if (mapping) {
+        await tx
+          .insert(bankImportMappings)
+          .values({ ...mapping, organizationId, accountId })
+          .onConflictDoUpdate({
+            target: bankImportMappings.accountId,
+            set: { ...mapping, updatedAt: new Date() },
+          })
+      }
+
+      return rows.length
+    })
+
+    revalidatePath("/transactions")
+    revalidatePath("/")
+    return { success: true, data: { created } }
+  } catch (error) {
+    console.error("Error importing bank statement:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to import the statement" }
+  }
+}
@@ -0,0 +1,216 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { accounts, billPayments, bills, transactions } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  LedgerError,
+  getBaseCurrency,
+  postTransaction,
+  unpostSource,
+} from "@/lib/ledger";
+import { removeSourceAttachments } from "@/lib/attachments";
+import { syncBillPayments } from "@/lib/bill-payments";
+import { getOrganizationContext } from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+import { assertTransactionsNotReconciled } from "@/lib/reconciliation";
+
+const paymentSchema = z.object({
+  paymentDate: z.string().min(1, "Payment date is required"),
+  amount: z.number().positive("Amount must be greater than zero"),
+  method: z.enum([
+    "cash",
+    "bank_transfer",
+    "mobile_money",
+    "card",
+    "cheque",
+    "other",
+  ]),
+  accountId: z.string().uuid("Select the account the payment was made from"),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export async function getBillPayments(billId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: billPayments.id,
+        billId: billPayments.billId,
+        transactionId: billPayments.transactionId,
+        paymentDate: billPayments.paymentDate,
+        amount: billPayments.amount,
+        method: billPayments.method,
+        accountId: billPayments.accountId,
+        accountName: accounts.name,
+        reference: billPayments.reference,
+        notes: billPayments.notes,
+        createdAt: billPayments.createdAt,
+      })
+      .from(billPayments)
+      .innerJoin(accounts, eq(billPayments.accountId, accounts.id))
+      .innerJoin(bills, eq(billPayments.billId, bills.id))
+      .where(and(eq(billPayments.billId, billId), eq(bills.organizationId, organizationId)))
+      .orderBy(desc(billPayments.paymentDate));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching bill payments:", error);
+    return { success: false, error: "Failed to fetch bill payments" };
+  }
+}
+
+export async function recordBillPayment(billId: string, formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const validatedPayment = paymentSchema.parse({
+      paymentDate: formData.get("paymentDate") as string,
+      amount: Number(formData.get("amount")),
+      method: formData.get("method") as string,
+      accountId: formData.get("accountId") as string,
+      reference: (formData.get("reference") as string) || undefined,
+      notes: (formData.get("notes") as string) || undefined,
+    });
+
+    const result = await db.transaction(async (tx) => {
+      // Locked so concurrent payments queue and each sees the balance the last one left
+      const [bill] = await tx
+        .select()
+        .from(bills)
+        .where(and(eq(bills.id, billId), eq(bills.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (!bill) {
+        throw new LedgerError("Bill not found");
+      }
+      if (bill.status === "draft") {
+        throw new LedgerError("Open the bill before recording a payment");
+      }
+
+      const outstanding =
+        Number.parseFloat(bill.total) - Number.parseFloat(bill.paidAmount);
+      if (Math.round(validatedPayment.amount * 100) > Math.round(outstanding * 100)) {
+        throw new LedgerError(
+          `Payment exceeds the outstanding balance of ${outstanding.toFixed(2)}`
+        );
+      }
+
+      const [payingAccount] = await tx
+        .select({ id: accounts.id, type: accounts.type })
+        .from(accounts)
+        .where(
+          and(
+            eq(accounts.id, validatedPayment.accountId),
+            eq(accounts.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!payingAccount?.type) {
+        throw new LedgerError("Payments must be made from a payment account");
+      }
+
+      // The expense transaction debits payables because it carries the bill id;
+      // bills are kept in the base currency
+      const [paymentTransaction] = await tx
+        .insert(transactions)
+        .values({
+          type: "expense",
+          status: "completed",
+          amount: validatedPayment.amount.toFixed(2),
+          currency: await getBaseCurrency(tx, organizationId),
+          exchangeRate: "1",
+          description: `Payment for Bill ${bill.billNumber}`,
+          reference: validatedPayment.reference || bill.billNumber,
+          transactionDate: new Date(validatedPayment.paymentDate),
+          fromAccountId: validatedPayment.accountId,
+          contactId: bill.vendorId,
+          billId: bill.id,
+          notes: validatedPayment.notes || null,
+          organizationId,
+          userId,
+        })
+        .returning();
+
+      await postTransaction(tx, paymentTransaction);
+
+      const [payment] = await tx
+        .insert(billPayments)
+        .values({
+          billId: bill.id,
+          transactionId: paymentTransaction.id,
+          paymentDate: new Date(validatedPayment.paymentDate),
+          amount: validatedPayment.amount.toFixed(2),
+          method: validatedPayment.method,
+          accountId: validatedPayment.accountId,
+          reference: validatedPayment.reference || null,
+          notes: validatedPayment.notes || null,
+          userId,
+        })
+        .returning();
+
+      const updatedBill = await syncBillPayments(tx, bill.id);
+
+      return { payment, bill: updatedBill };
+    });
+
+    revalidatePath("/bills");
+    revalidatePath("/transactions");
+    revalidatePath("/");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error recording bill payment:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to record payment" };
+  }
+}
+
+export async function deleteBillPayment(paymentId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:void");
+
+    const result = await db.transaction(async (tx) => {
+      const [owned] = await tx
+        .select({ id: billPayments.id })
+        .from(billPayments)
+        .innerJoin(bills, eq(billPayments.billId, bills.id))
+        .where(and(eq(billPayments.id, paymentId), eq(bills.organizationId, organizationId)))
+        .limit(1);
+
+      if (!owned) {
+        throw new LedgerError("Payment not found");
+      }
+
+      const [payment] = await tx
+        .delete(billPayments)
+        .where(eq(billPayments.id, owned.id))
+        .returning();
+
+      await assertTransactionsNotReconciled(tx, [payment.transactionId]);
+      await tx.delete(transactions).where(eq(transactions.id, payment.transactionId));
+      await unpostSource(tx, "transaction", payment.transactionId);
+      await removeSourceAttachments(organizationId, "transaction", payment.transactionId, tx);
+
+      return syncBillPayments(tx, payment.billId);
+    });
+
+    revalidatePath("/bills");
+    revalidatePath("/transactions");
+    revalidatePath("/");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error deleting bill payment:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete payment" };
+  }
+}
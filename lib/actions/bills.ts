@@ -0,0 +1,342 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { accounts, billItems, billPayments, bills, contacts } from "@/db/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { LedgerError, postBill, unpostSource } from "@/lib/ledger";
+import { syncBillPayments } from "@/lib/bill-payments";
+import {
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+
+const billSchema = z.object({
+  billNumber: z.string().min(1, "Bill number is required").max(50),
+  vendorId: z.string().uuid("Select a vendor"),
+  billDate: z.string().min(1, "Bill date is required"),
+  dueDate: z.string().min(1, "Due date is required"),
+  status: z.enum(["draft", "open"]),
+  notes: z.string().optional(),
+  taxRate: z.number().min(0).max(100).optional().default(0),
+});
+
+const billItemSchema = z.object({
+  description: z.string().min(1, "Description is required"),
+  quantity: z.coerce.number().positive("Quantity must be positive"),
+  unitPrice: z.coerce.number().min(0, "Unit price must be non-negative"),
+  accountId: z.string().uuid().nullable().optional(),
+});
+
+type BillItemInput = z.infer<typeof billItemSchema> & { total: number };
+
+function readBillForm(formData: FormData) {
+  const bill = billSchema.parse({
+    billNumber: formData.get("billNumber") as string,
+    vendorId: formData.get("vendorId") as string,
+    billDate: formData.get("billDate") as string,
+    dueDate: formData.get("dueDate") as string,
+    status: (formData.get("status") as string) || "draft",
+    notes: (formData.get("notes") as string) || undefined,
+    taxRate: Number(formData.get("taxRate")) || 0,
+  });
+
+  const itemsData = formData.get("items") as string;
+  const items: BillItemInput[] = z
+    .array(billItemSchema)
+    .parse(itemsData ? JSON.parse(itemsData) : [])
+    .map((item) => ({
+      ...item,
+      total: Number((item.quantity * item.unitPrice).toFixed(2)),
+    }));
+
+  if (items.length === 0) {
+    throw new LedgerError("A bill needs at least one line item");
+  }
+
+  // Round each part before adding so the posted lines balance to the cent
+  const subtotal = Number(items.reduce((sum, item) => sum + item.total, 0).toFixed(2));
+  const taxAmount = Number(((subtotal * bill.taxRate) / 100).toFixed(2));
+  const total = subtotal + taxAmount;
+
+  return { bill, items, subtotal, taxAmount, total };
+}
+
+function toItemRows(billId: string, items: BillItemInput[]) {
+  return items.map((item) => ({
+    billId,
+    description: item.description,
+    quantity: item.quantity.toFixed(2),
+    unitPrice: item.unitPrice.toFixed(2),
+    total: item.total.toFixed(2),
+    accountId: item.accountId ?? null,
+  }));
+}
+
+export async function getBills() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: bills.id,
+        billNumber: bills.billNumber,
+        vendorId: bills.vendorId,
+        vendorName: contacts.name,
+        billDate: bills.billDate,
+        dueDate: bills.dueDate,
+        status: bills.status,
+        subtotal: bills.subtotal,
+        taxRate: bills.taxRate,
+        taxAmount: bills.taxAmount,
+        total: bills.total,
+        paidAmount: bills.paidAmount,
+        notes: bills.notes,
+        createdAt: bills.createdAt,
+        updatedAt: bills.updatedAt,
+      })
+      .from(bills)
+      .innerJoin(contacts, eq(bills.vendorId, contacts.id))
+      .where(eq(bills.organizationId, organizationId))
+      .orderBy(desc(bills.billDate));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching bills:", error);
+    return { success: false, error: "Failed to fetch bills" };
+  }
+}
+
+export async function getBillItems(billId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: billItems.id,
+        description: billItems.description,
+        quantity: billItems.quantity,
+        unitPrice: billItems.unitPrice,
+        total: billItems.total,
+        accountId: billItems.accountId,
+      })
+      .from(billItems)
+      .innerJoin(bills, eq(billItems.billId, bills.id))
+      .where(and(eq(billItems.billId, billId), eq(bills.organizationId, organizationId)))
+      .orderBy(asc(billItems.createdAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching bill items:", error);
+    return { success: false, error: "Failed to fetch bill items" };
+  }
+}
+
+export async function createBill(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+    const { bill, items, subtotal, taxAmount, total } = readBillForm(formData);
+
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, bill.vendorId);
+
+      const [newBill] = await tx
+        .insert(bills)
+        .values({
+          billNumber: bill.billNumber,
+          vendorId: bill.vendorId,
+          billDate: new Date(bill.billDate),
+          dueDate: new Date(bill.dueDate),
+          status: bill.status,
+          subtotal: subtotal.toFixed(2),
+          taxRate: bill.taxRate.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2),
+          paidAmount: "0.00",
+          notes: bill.notes || null,
+          organizationId,
+          userId,
+        })
+        .returning();
+
+      const itemRows = toItemRows(newBill.id, items);
+      await tx.insert(billItems).values(itemRows);
+      await postBill(tx, newBill, itemRows);
+
+      return newBill;
+    });
+
+    revalidatePath("/bills");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error creating bill:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create bill" };
+  }
+}
+
+export async function updateBill(id: string, formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:create");
+    const { bill, items, subtotal, taxAmount, total } = readBillForm(formData);
+
+    const result = await db.transaction(async (tx) => {
+      const [existingBill] = await tx
+        .select({ paidAmount: bills.paidAmount })
+        .from(bills)
+        .where(and(eq(bills.id, id), eq(bills.organizationId, organizationId)))
+        .limit(1);
+
+      if (!existingBill) {
+        throw new LedgerError("Bill not found");
+      }
+      await assertContactInOrganization(tx, organizationId, bill.vendorId);
+
+      const paidAmount = Number.parseFloat(existingBill.paidAmount);
+      if (paidAmount > 0 && bill.status === "draft") {
+        throw new LedgerError("Bills with recorded payments cannot be moved back to draft");
+      }
+      if (Math.round(total * 100) < Math.round(paidAmount * 100)) {
+        throw new LedgerError(
+          `Bill total cannot be less than the ${paidAmount.toFixed(2)} already paid`
+        );
+      }
+
+      await tx
+        .update(bills)
+        .set({
+          billNumber: bill.billNumber,
+          vendorId: bill.vendorId,
+          billDate: new Date(bill.billDate),
+          dueDate: new Date(bill.dueDate),
+          status: bill.status,
+          subtotal: subtotal.toFixed(2),
+          taxRate: bill.taxRate.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2),
+          notes: bill.notes || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(bills.id, id));
+
+      await tx.delete(billItems).where(eq(billItems.billId, id));
+      const itemRows = toItemRows(id, items);
+      await tx.insert(billItems).values(itemRows);
+
+      const syncedBill = await syncBillPayments(tx, id);
+      if (!syncedBill) {
+        throw new LedgerError("Bill not found");
+      }
+      await postBill(tx, syncedBill, itemRows);
+
+      return syncedBill;
+    });
+
+    revalidatePath("/bills");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error updating bill:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to update bill" };
+  }
+}
+
+export async function deleteBill(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:delete");
+
+    await db.transaction(async (tx) => {
+      const payments = await tx
+        .select({ id: billPayments.id })
+        .from(billPayments)
+        .where(eq(billPayments.billId, id))
+        .limit(1);
+
+      if (payments.length > 0) {
+        throw new LedgerError("Bills with recorded payments cannot be deleted");
+      }
+
+      const result = await tx
+        .delete(bills)
+        .where(and(eq(bills.id, id), eq(bills.organizationId, organizationId)))
+        .returning({ id: bills.id });
+
+      if (result.length === 0) {
+        throw new LedgerError("Bill not found");
+      }
+
+      await unpostSource(tx, "bill", id);
+    });
+
+    revalidatePath("/bills");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting bill:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete bill" };
+  }
+}
+
+// Helper function to get vendors for dropdown
+export async function getVendors() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: contacts.id,
+        name: contacts.name,
+        email: contacts.email,
+      })
+      .from(contacts)
+      .where(
+        and(
+          eq(contacts.type, "vendor"),
+          eq(contacts.organizationId, organizationId),
+          eq(contacts.isActive, true)
+        )
+      )
+      .orderBy(contacts.name);
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching vendors:", error);
+    return { success: false, error: "Failed to fetch vendors" };
+  }
+}
+
+// Expense accounts a bill line can be booked to
+export async function getExpenseAccounts() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: accounts.id,
+        code: accounts.code,
+        name: accounts.name,
+      })
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.organizationId, organizationId),
+          eq(accounts.accountClass, "expense"),
+          eq(accounts.isActive, true)
+        )
+      )
+      .orderBy(asc(accounts.code), asc(accounts.name));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching expense accounts:", error);
+    return { success: false, error: "Failed to fetch expense accounts" };
+  }
+}
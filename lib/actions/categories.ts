@@ -0,0 +1,148 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { categories } from "@/db/schema"
+import { and, asc, eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { assertValidParentCategory } from "@/lib/categories"
+import { LedgerError } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  type: z.enum(["income", "expense"]),
+  parentId: z.string().uuid().optional(),
+  isActive: z.boolean().default(true),
+})
+
+function readCategoryForm(formData: FormData) {
+  return categorySchema.parse({
+    name: formData.get("name") as string,
+    type: formData.get("type") as string,
+    parentId: (formData.get("parentId") as string) || undefined,
+    isActive: formData.get("isActive") !== "false",
+  })
+}
+
+export async function getCategories() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select({
+        id: categories.id,
+        name: categories.name,
+        type: categories.type,
+        parentId: categories.parentId,
+        isActive: categories.isActive,
+      })
+      .from(categories)
+      .where(eq(categories.organizationId, organizationId))
+      .orderBy(asc(categories.type), asc(categories.name))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching categories:", error)
+    return { success: false, error: "Failed to fetch categories" }
+  }
+}
+
+export async function createCategory(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const data = readCategoryForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      if (data.parentId) {
+        await assertValidParentCategory(tx, organizationId, data.parentId, data)
+      }
+
+      const [category] = await tx
+        .insert(categories)
+        .values({ ...data, organizationId })
+        .returning()
+      return category
+    })
+
+    revalidatePath("/transactions")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error creating category:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to create category" }
+  }
+}
+
+export async function updateCategory(id: string, formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const data = readCategoryForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ type: categories.type })
+        .from(categories)
+        .where(and(eq(categories.id, id), eq(categories.organizationId, organizationId)))
+        .limit(1)
+
+      if (!existing) {
+        throw new LedgerError("Category not found")
+      }
+      // Changing the type would leave existing transactions in a category of the wrong kind
+      if (existing.type !== data.type) {
+        throw new LedgerError("A category's type cannot be changed")
+      }
+      if (data.parentId) {
+        await assertValidParentCategory(tx, organizationId, data.parentId, { id, type: data.type })
+      }
+
+      const [category] = await tx
+        .update(categories)
+        .set({
+          name: data.name,
+          parentId: data.parentId ?? null,
+          isActive: data.isActive,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(categories.id, id), eq(categories.organizationId, organizationId)))
+        .returning()
+      return category
+    })
+
+    revalidatePath("/transactions")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error updating category:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to update category" }
+  }
+}
+
+/**
+ * Delete a category. Its subcategories move to the top level and its transactions become uncategorised.
+ */
+export async function deleteCategory(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    await db
+      .delete(categories)
+      .where(and(eq(categories.id, id), eq(categories.organizationId, organizationId)))
+
+    revalidatePath("/transactions")
+    revalidatePath("/")
+    return { success: true }
+  } catch (error) {
+    console.error("Error deleting category:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to delete category" }
+  }
+}
@@ -5,8 +5,9 @@ import { contacts } from "@/db/schema"
 import { eq, desc, and } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
-import { auth } from "@/lib/auth"
-import { headers } from "next/headers"
+import { getBaseCurrency } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
 
 const contactSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -15,27 +16,17 @@ const contactSchema = z.object({
   address: z.string().optional(),
   type: z.enum(["customer", "vendor"]),
   taxId: z.string().optional(),
+  currency: z.string().length(3).optional(),
 })
 
-// Get current user ID helper
-async function getCurrentUserId(): Promise<string> {
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  })
-  if (!session?.user?.id) {
-    throw new Error("Unauthorized: No user session found")
-  }
-  return session.user.id
-}
-
 export async function getContacts(type?: "customer" | "vendor") {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
-    let whereConditions = and(eq(contacts.isActive, true), eq(contacts.userId, userId))
+    let whereConditions = and(eq(contacts.isActive, true), eq(contacts.organizationId, organizationId))
 
     if (type) {
-      whereConditions = and(eq(contacts.isActive, true), eq(contacts.userId, userId), eq(contacts.type, type))
+      whereConditions = and(eq(contacts.isActive, true), eq(contacts.organizationId, organizationId), eq(contacts.type, type))
     }
 
     const result = await db
@@ -47,6 +38,7 @@ export async function getContacts(type?: "customer" | "vendor") {
         address: contacts.address,
         type: contacts.type,
         taxId: contacts.taxId,
+        currency: contacts.currency,
         balance: contacts.balance,
         isActive: contacts.isActive,
         createdAt: contacts.createdAt,
@@ -65,7 +57,7 @@ export async function getContacts(type?: "customer" | "vendor") {
 
 export async function getContactById(id: string) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
       .select({
@@ -76,13 +68,14 @@ export async function getContactById(id: string) {
         address: contacts.address,
         type: contacts.type,
         taxId: contacts.taxId,
+        currency: contacts.currency,
         balance: contacts.balance,
         isActive: contacts.isActive,
         createdAt: contacts.createdAt,
         updatedAt: contacts.updatedAt,
       })
       .from(contacts)
-      .where(and(eq(contacts.id, id), eq(contacts.userId, userId)))
+      .where(and(eq(contacts.id, id), eq(contacts.organizationId, organizationId)))
       .limit(1)
 
     if (result.length === 0) {
@@ -98,7 +91,7 @@ export async function getContactById(id: string) {
 
 export async function createContact(formData: FormData) {
   try {
-    const userId = await getCurrentUserId()
+    const { userId, organizationId } = await getOrganizationContext("records:create")
 
     const data = {
       name: formData.get("name") as string,
@@ -107,6 +100,7 @@ export async function createContact(formData: FormData) {
       address: (formData.get("address") as string) || null,
       type: formData.get("type") as "customer" | "vendor",
       taxId: (formData.get("taxId") as string) || null,
+      currency: (formData.get("currency") as string) || undefined,
     }
 
     // Clean up empty strings to null for optional fields
@@ -124,6 +118,8 @@ export async function createContact(formData: FormData) {
       .insert(contacts)
       .values({
         ...validatedData,
+        currency: validatedData.currency ?? (await getBaseCurrency(db, organizationId)),
+        organizationId,
         userId: userId,
         balance: "0.00", // Default balance
       })
@@ -133,7 +129,7 @@ export async function createContact(formData: FormData) {
     return { success: true, data: result[0] }
   } catch (error) {
     console.error("Error creating contact:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to create contact" }
@@ -142,7 +138,7 @@ export async function createContact(formData: FormData) {
 
 export async function updateContact(id: string, formData: FormData) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("records:create")
 
     const data = {
       name: formData.get("name") as string,
@@ -151,6 +147,7 @@ export async function updateContact(id: string, formData: FormData) {
       address: (formData.get("address") as string) || null,
       type: formData.get("type") as "customer" | "vendor",
       taxId: (formData.get("taxId") as string) || null,
+      currency: (formData.get("currency") as string) || undefined,
     }
 
     // Clean up empty strings to null for optional fields
@@ -170,7 +167,7 @@ export async function updateContact(id: string, formData: FormData) {
         ...validatedData,
         updatedAt: new Date(),
       })
-      .where(and(eq(contacts.id, id), eq(contacts.userId, userId)))
+      .where(and(eq(contacts.id, id), eq(contacts.organizationId, organizationId)))
       .returning()
 
     if (result.length === 0) {
@@ -181,7 +178,7 @@ export async function updateContact(id: string, formData: FormData) {
     return { success: true, data: result[0] }
   } catch (error) {
     console.error("Error updating contact:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to update contact" }
@@ -190,7 +187,7 @@ export async function updateContact(id: string, formData: FormData) {
 
 export async function deleteContact(id: string) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("records:delete")
 
     // Check if contact has any associated transactions, invoices, or expenses
     // You might want to prevent deletion if there are dependencies
@@ -200,7 +197,7 @@ export async function deleteContact(id: string) {
         isActive: false,
         updatedAt: new Date(),
       })
-      .where(and(eq(contacts.id, id), eq(contacts.userId, userId)))
+      .where(and(eq(contacts.id, id), eq(contacts.organizationId, organizationId)))
       .returning()
 
     if (result.length === 0) {
@@ -211,13 +208,16 @@ export async function deleteContact(id: string) {
     return { success: true }
   } catch (error) {
     console.error("Error deleting contact:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to delete contact" }
   }
 }
 
 export async function getContactsSummary() {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
       .select({
@@ -225,7 +225,7 @@ export async function getContactsSummary() {
         balance: contacts.balance,
       })
       .from(contacts)
-      .where(and(eq(contacts.isActive, true), eq(contacts.userId, userId)))
+      .where(and(eq(contacts.isActive, true), eq(contacts.organizationId, organizationId)))
 
     const summary = {
       totalContacts: result.length,
@@ -249,7 +249,7 @@ export async function getContactsSummary() {
 // Helper functions for dropdowns
 export async function getCustomers() {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
       .select({
@@ -257,9 +257,10 @@ export async function getCustomers() {
         name: contacts.name,
         email: contacts.email,
         address: contacts.address,
+        currency: contacts.currency,
       })
       .from(contacts)
-      .where(and(eq(contacts.type, "customer"), eq(contacts.userId, userId), eq(contacts.isActive, true)))
+      .where(and(eq(contacts.type, "customer"), eq(contacts.organizationId, organizationId), eq(contacts.isActive, true)))
       .orderBy(contacts.name)
 
     return { success: true, data: result }
@@ -271,7 +272,7 @@ export async function getCustomers() {
 
 export async function getVendors() {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
       .select({
@@ -280,7 +281,7 @@ export async function getVendors() {
         email: contacts.email,
       })
       .from(contacts)
-      .where(and(eq(contacts.type, "vendor"), eq(contacts.userId, userId), eq(contacts.isActive, true)))
+      .where(and(eq(contacts.type, "vendor"), eq(contacts.organizationId, organizationId), eq(contacts.isActive, true)))
       .orderBy(contacts.name)
 
     return { success: true, data: result }
@@ -293,7 +294,7 @@ export async function getVendors() {
 // Update contact balance (for when payments are made)
 export async function updateContactBalance(id: string, newBalance: number) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("records:create")
 
     const result = await db
       .update(contacts)
@@ -301,7 +302,7 @@ export async function updateContactBalance(id: string, newBalance: number) {
         balance: newBalance.toFixed(2),
         updatedAt: new Date(),
       })
-      .where(and(eq(contacts.id, id), eq(contacts.userId, userId)))
+      .where(and(eq(contacts.id, id), eq(contacts.organizationId, organizationId)))
       .returning()
 
     if (result.length === 0) {
@@ -311,6 +312,9 @@ export async function updateContactBalance(id: string, newBalance: number) {
     return { success: true, data: result[0] }
   } catch (error) {
     console.error("Error updating contact balance:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to update contact balance" }
   }
 }
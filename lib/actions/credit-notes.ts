@@ -0,0 +1,590 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import {
+  accounts,
+  contacts,
+  creditApplications,
+  creditNoteItems,
+  creditNotes,
+  creditRefunds,
+  customerCredits,
+  invoices,
+} from "@/db/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  applyCredit,
+  calculateCreditNoteLines,
+  creditNoteItemRows,
+  getCreditableLines,
+  listCustomerCredits,
+  markCreditNoteIssued,
+  markCreditNoteVoid,
+  refundCredit,
+  removeCreditApplication,
+  removeCreditRefund,
+} from "@/lib/credit-notes";
+import { nextDocumentNumber } from "@/lib/document-sequences";
+import { LedgerError } from "@/lib/ledger";
+import { getOrganizationContext } from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+import { assertTransactionsNotReconciled } from "@/lib/reconciliation";
+
+const creditNoteSchema = z.object({
+  invoiceId: z.string().uuid("Select the invoice to credit"),
+  issueDate: z.string().min(1, "Issue date is required"),
+  status: z.enum(["draft", "issued"]),
+  reason: z.string().optional(),
+  // Apply the credit to what the original invoice still owes when it is issued
+  applyToInvoice: z.boolean().default(false),
+});
+
+const creditNoteLineSchema = z.object({
+  invoiceItemId: z.string().min(1),
+  quantity: z.coerce.number().min(0, "Quantity cannot be negative"),
+});
+
+const applicationSchema = z.object({
+  invoiceId: z.string().uuid("Select an invoice"),
+  amount: z.number().positive("Amount must be greater than zero"),
+  applicationDate: z.string().min(1, "Date is required"),
+});
+
+const refundSchema = z.object({
+  refundDate: z.string().min(1, "Refund date is required"),
+  amount: z.number().positive("Amount must be greater than zero"),
+  method: z.enum([
+    "cash",
+    "bank_transfer",
+    "mobile_money",
+    "card",
+    "cheque",
+    "other",
+  ]),
+  accountId: z.string().uuid("Select the account the refund was paid from"),
+  // Base currency per unit of the credit's currency on the refund date
+  exchangeRate: z.number().positive("Exchange rate must be greater than zero").optional(),
+  reference: z.string().optional(),
+});
+
+function revalidateCreditPaths() {
+  revalidatePath("/credit-notes");
+  revalidatePath("/invoices");
+  revalidatePath("/");
+}
+
+export async function getCreditNotes() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: creditNotes.id,
+        creditNoteNumber: creditNotes.creditNoteNumber,
+        customerId: creditNotes.customerId,
+        customerName: contacts.name,
+        invoiceId: creditNotes.invoiceId,
+        invoiceNumber: invoices.invoiceNumber,
+        issueDate: creditNotes.issueDate,
+        status: creditNotes.status,
+        subtotal: creditNotes.subtotal,
+        taxAmount: creditNotes.taxAmount,
+        total: creditNotes.total,
+        currency: creditNotes.currency,
+        reason: creditNotes.reason,
+        createdAt: creditNotes.createdAt,
+      })
+      .from(creditNotes)
+      .innerJoin(contacts, eq(creditNotes.customerId, contacts.id))
+      .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+      .where(eq(creditNotes.organizationId, organizationId))
+      .orderBy(desc(creditNotes.createdAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching credit notes:", error);
+    return { success: false, error: "Failed to fetch credit notes" };
+  }
+}
+
+export async function getCreditNoteById(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const [creditNote] = await db
+      .select({
+        id: creditNotes.id,
+        creditNoteNumber: creditNotes.creditNoteNumber,
+        customerName: contacts.name,
+        invoiceNumber: invoices.invoiceNumber,
+        issueDate: creditNotes.issueDate,
+        status: creditNotes.status,
+        subtotal: creditNotes.subtotal,
+        taxAmount: creditNotes.taxAmount,
+        total: creditNotes.total,
+        currency: creditNotes.currency,
+        reason: creditNotes.reason,
+      })
+      .from(creditNotes)
+      .innerJoin(contacts, eq(creditNotes.customerId, contacts.id))
+      .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+      .where(and(eq(creditNotes.id, id), eq(creditNotes.organizationId, organizationId)))
+      .limit(1);
+
+    if (!creditNote) {
+      return { success: false, error: "Credit note not found" };
+    }
+
+    const items = await db
+      .select()
+      .from(creditNoteItems)
+      .where(eq(creditNoteItems.creditNoteId, id))
+      .orderBy(creditNoteItems.createdAt);
+
+    return { success: true, data: { ...creditNote, items } };
+  } catch (error) {
+    console.error("Error fetching credit note:", error);
+    return { success: false, error: "Failed to fetch credit note" };
+  }
+}
+
+/**
+ * An invoice's lines with how much of each can still be credited
+ */
+export async function getCreditableInvoiceLines(invoiceId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const [invoice] = await db
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(and(eq(invoices.id, invoiceId), eq(invoices.organizationId, organizationId)))
+      .limit(1);
+
+    if (!invoice) {
+      return { success: false, error: "Invoice not found" };
+    }
+
+    return { success: true, data: await getCreditableLines(db, invoice.id) };
+  } catch (error) {
+    console.error("Error fetching creditable invoice lines:", error);
+    return { success: false, error: "Failed to fetch invoice lines" };
+  }
+}
+
+/**
+ * Create a credit note against an issued invoice. Without a lines field the whole of what has not
+ * been credited yet is included.
+ */
+export async function createCreditNote(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const validatedCreditNote = creditNoteSchema.parse({
+      invoiceId: formData.get("invoiceId") as string,
+      issueDate: formData.get("issueDate") as string,
+      status: formData.get("status") as string,
+      reason: (formData.get("reason") as string) || undefined,
+      applyToInvoice: formData.get("applyToInvoice") === "true",
+    });
+
+    const linesData = formData.get("lines") as string;
+    const lines = linesData ? z.array(creditNoteLineSchema).parse(JSON.parse(linesData)) : undefined;
+
+    const result = await db.transaction(async (tx) => {
+      // Locked so two credit notes can't both credit the same remaining quantities
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(
+          and(
+            eq(invoices.id, validatedCreditNote.invoiceId),
+            eq(invoices.organizationId, organizationId)
+          )
+        )
+        .for("update")
+        .limit(1);
+
+      if (!invoice) {
+        throw new LedgerError("Invoice not found");
+      }
+      if (!invoice.status || invoice.status === "draft") {
+        throw new LedgerError("Only issued invoices can be credited. Edit the draft instead.");
+      }
+
+      const totals = await calculateCreditNoteLines(tx, invoice, lines);
+
+      const [creditNote] = await tx
+        .insert(creditNotes)
+        .values({
+          creditNoteNumber: await nextDocumentNumber(tx, organizationId, "credit_note"),
+          customerId: invoice.customerId,
+          invoiceId: invoice.id,
+          issueDate: new Date(validatedCreditNote.issueDate),
+          status: "draft",
+          subtotal: totals.subtotal.toFixed(2),
+          taxAmount: totals.taxAmount.toFixed(2),
+          total: totals.total.toFixed(2),
+          currency: invoice.currency,
+          exchangeRate: invoice.exchangeRate,
+          reason: validatedCreditNote.reason || null,
+          organizationId,
+          userId,
+        })
+        .returning();
+
+      await tx.insert(creditNoteItems).values(creditNoteItemRows(creditNote.id, totals.lines));
+
+      if (validatedCreditNote.status === "draft") {
+        return { creditNote, applied: 0 };
+      }
+      return markCreditNoteIssued(tx, creditNote, validatedCreditNote.applyToInvoice, userId);
+    });
+
+    revalidateCreditPaths();
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error creating credit note:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create credit note" };
+  }
+}
+
+/**
+ * Issue a draft credit note, optionally applying it to the invoice it credits
+ */
+export async function issueCreditNote(id: string, applyToInvoice: boolean) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const result = await db.transaction(async (tx) => {
+      const [creditNote] = await tx
+        .select()
+        .from(creditNotes)
+        .where(and(eq(creditNotes.id, id), eq(creditNotes.organizationId, organizationId)))
+        .limit(1);
+
+      if (!creditNote) {
+        throw new LedgerError("Credit note not found");
+      }
+      if (creditNote.status !== "draft") {
+        throw new LedgerError(`Credit note ${creditNote.creditNoteNumber} has already been issued`);
+      }
+
+      return markCreditNoteIssued(tx, creditNote, applyToInvoice, userId);
+    });
+
+    revalidateCreditPaths();
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error issuing credit note:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to issue credit note" };
+  }
+}
+
+export async function voidCreditNote(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:void");
+
+    const result = await db.transaction(async (tx) => {
+      const [creditNote] = await tx
+        .select()
+        .from(creditNotes)
+        .where(and(eq(creditNotes.id, id), eq(creditNotes.organizationId, organizationId)))
+        .limit(1);
+
+      if (!creditNote) {
+        throw new LedgerError("Credit note not found");
+      }
+      if (creditNote.status !== "issued") {
+        throw new LedgerError("Only issued credit notes can be voided");
+      }
+
+      return markCreditNoteVoid(tx, creditNote);
+    });
+
+    revalidateCreditPaths();
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error voiding credit note:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to void credit note" };
+  }
+}
+
+/**
+ * Delete a draft credit note; issued notes are voided instead so their number stays accounted for
+ */
+export async function deleteCreditNote(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:delete");
+
+    await db.transaction(async (tx) => {
+      const [creditNote] = await tx
+        .select({ status: creditNotes.status })
+        .from(creditNotes)
+        .where(and(eq(creditNotes.id, id), eq(creditNotes.organizationId, organizationId)))
+        .limit(1);
+
+      if (!creditNote) {
+        throw new LedgerError("Credit note not found");
+      }
+      if (creditNote.status !== "draft") {
+        throw new LedgerError("Only draft credit notes can be deleted. Void it instead.");
+      }
+
+      await tx.delete(creditNotes).where(eq(creditNotes.id, id));
+    });
+
+    revalidatePath("/credit-notes");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting credit note:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete credit note" };
+  }
+}
+
+/**
+ * Customer credits with what is left of each and how the rest was used
+ */
+export async function getCustomerCredits() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const credits = await listCustomerCredits(db, organizationId);
+    const creditIds = credits.map((credit) => credit.id);
+
+    const applications =
+      creditIds.length > 0
+        ? await db
+            .select({
+              id: creditApplications.id,
+              customerCreditId: creditApplications.customerCreditId,
+              invoiceNumber: invoices.invoiceNumber,
+              applicationDate: creditApplications.applicationDate,
+              amount: creditApplications.amount,
+            })
+            .from(creditApplications)
+            .innerJoin(invoices, eq(creditApplications.invoiceId, invoices.id))
+            .where(inArray(creditApplications.customerCreditId, creditIds))
+            .orderBy(desc(creditApplications.applicationDate))
+        : [];
+
+    const refunds =
+      creditIds.length > 0
+        ? await db
+            .select({
+              id: creditRefunds.id,
+              customerCreditId: creditRefunds.customerCreditId,
+              refundDate: creditRefunds.refundDate,
+              amount: creditRefunds.amount,
+              method: creditRefunds.method,
+              accountName: accounts.name,
+            })
+            .from(creditRefunds)
+            .innerJoin(accounts, eq(creditRefunds.accountId, accounts.id))
+            .where(inArray(creditRefunds.customerCreditId, creditIds))
+            .orderBy(desc(creditRefunds.refundDate))
+        : [];
+
+    return {
+      success: true,
+      data: credits.map((credit) => ({
+        ...credit,
+        applications: applications.filter((row) => row.customerCreditId === credit.id),
+        refunds: refunds.filter((row) => row.customerCreditId === credit.id),
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching customer credits:", error);
+    return { success: false, error: "Failed to fetch customer credits" };
+  }
+}
+
+export async function applyCustomerCredit(creditId: string, formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const validatedApplication = applicationSchema.parse({
+      invoiceId: formData.get("invoiceId") as string,
+      amount: Number(formData.get("amount")),
+      applicationDate: formData.get("applicationDate") as string,
+    });
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the credit and the invoice so concurrent applications, refunds and payments queue
+      // rather than spending the same balance twice
+      const [credit] = await tx
+        .select()
+        .from(customerCredits)
+        .where(and(eq(customerCredits.id, creditId), eq(customerCredits.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(
+          and(
+            eq(invoices.id, validatedApplication.invoiceId),
+            eq(invoices.organizationId, organizationId)
+          )
+        )
+        .for("update")
+        .limit(1);
+
+      if (!credit || !invoice) {
+        throw new LedgerError("Credit or invoice not found");
+      }
+
+      return applyCredit(
+        tx,
+        credit,
+        invoice,
+        validatedApplication.amount,
+        new Date(validatedApplication.applicationDate),
+        userId
+      );
+    });
+
+    revalidateCreditPaths();
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error applying customer credit:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to apply credit" };
+  }
+}
+
+export async function unapplyCustomerCredit(applicationId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:void");
+
+    await db.transaction(async (tx) => {
+      const [application] = await tx
+        .select({ id: creditApplications.id })
+        .from(creditApplications)
+        .where(
+          and(
+            eq(creditApplications.id, applicationId),
+            eq(creditApplications.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!application) {
+        throw new LedgerError("Credit application not found");
+      }
+
+      await removeCreditApplication(tx, application.id);
+    });
+
+    revalidateCreditPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing credit application:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to remove credit application" };
+  }
+}
+
+export async function refundCustomerCredit(creditId: string, formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const validatedRefund = refundSchema.parse({
+      refundDate: formData.get("refundDate") as string,
+      amount: Number(formData.get("amount")),
+      method: formData.get("method") as string,
+      accountId: formData.get("accountId") as string,
+      exchangeRate: Number(formData.get("exchangeRate")) || undefined,
+      reference: (formData.get("reference") as string) || undefined,
+    });
+
+    const result = await db.transaction(async (tx) => {
+      // Locked so concurrent refunds and applications can't overdraw the credit
+      const [credit] = await tx
+        .select()
+        .from(customerCredits)
+        .where(and(eq(customerCredits.id, creditId), eq(customerCredits.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (!credit) {
+        throw new LedgerError("Credit not found");
+      }
+
+      return refundCredit(
+        tx,
+        credit,
+        { ...validatedRefund, refundDate: new Date(validatedRefund.refundDate) },
+        userId
+      );
+    });
+
+    revalidatePath("/credit-notes");
+    revalidatePath("/transactions");
+    revalidatePath("/");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error refunding customer credit:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to refund credit" };
+  }
+}
+
+export async function deleteCreditRefund(refundId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:void");
+
+    await db.transaction(async (tx) => {
+      const [refund] = await tx
+        .select({ id: creditRefunds.id, transactionId: creditRefunds.transactionId })
+        .from(creditRefunds)
+        .innerJoin(customerCredits, eq(creditRefunds.customerCreditId, customerCredits.id))
+        .where(
+          and(
+            eq(creditRefunds.id, refundId),
+            eq(customerCredits.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!refund) {
+        throw new LedgerError("Refund not found");
+      }
+
+      await assertTransactionsNotReconciled(tx, [refund.transactionId]);
+      await removeCreditRefund(tx, refund.id);
+    });
+
+    revalidatePath("/credit-notes");
+    revalidatePath("/transactions");
+    revalidatePath("/");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting credit refund:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete refund" };
+  }
+}
@@ -3,38 +3,42 @@
 import { db } from "@/db/drizzle"
 import { accounts, transactions, invoices, expenses } from "@/db/schema"
 import { eq, desc, and, gte } from "drizzle-orm"
-import { auth } from "@/lib/auth"
-import { headers } from "next/headers"
+import { getBaseCurrency, getLedgerBalances, isPaymentAccount } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { getCategoryBreakdown } from "@/lib/categories"
+import { toBaseAmount } from "@/lib/currency"
 
 export async function getDashboardData() {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
-    }
-
-    const userId = session.user.id
-
-    const accountsData = await db
-      .select()
-      .from(accounts)
-      .where(eq(accounts.isActive, true))
+    const { organizationId } = await getOrganizationContext()
+
+    const activeAccounts = (
+      await db
+        .select()
+        .from(accounts)
+        .where(and(eq(accounts.organizationId, organizationId), eq(accounts.isActive, true)))
+    ).filter(isPaymentAccount)
+    const balances = await getLedgerBalances(db, activeAccounts.map((account) => account.id))
+    const accountsData = activeAccounts.map((account) => ({
+      ...account,
+      balance: (balances.get(account.id) ?? 0).toFixed(2),
+    }))
+    const balanceOfType = (type: "cash" | "bank" | "mobile" | "credit") =>
+      accountsData.filter((a) => a.type === type).reduce((sum, a) => sum + Number.parseFloat(a.balance), 0)
 
     const recentTransactions = await db
       .select({
         id: transactions.id,
         description: transactions.description,
         amount: transactions.amount,
+        currency: transactions.currency,
         type: transactions.type,
         transactionDate: transactions.transactionDate,
         fromAccountId: transactions.fromAccountId,
         toAccountId: transactions.toAccountId,
       })
       .from(transactions)
-      .where(and(eq(transactions.status, "completed"), eq(transactions.userId, userId)))
+      .where(and(eq(transactions.status, "completed"), eq(transactions.organizationId, organizationId)))
       .orderBy(desc(transactions.transactionDate))
       .limit(5)
 
@@ -69,26 +73,32 @@ export async function getDashboardData() {
         and(
           eq(transactions.status, "completed"),
           gte(transactions.transactionDate, startOfMonth),
-          eq(transactions.userId, userId),
+          eq(transactions.organizationId, organizationId),
         ),
       )
 
-    const totalBalance = accountsData.reduce((sum, account) => sum + Number.parseFloat(account.balance), 0)
+    // Credit balances are amounts owed, so they reduce the total
+    const totalBalance = balanceOfType("cash") + balanceOfType("bank") + balanceOfType("mobile") - balanceOfType("credit")
     const monthlyIncome = monthlyTransactions
       .filter((t) => t.type === "income")
-      .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0)
+      .reduce((sum, t) => sum + toBaseAmount(Number.parseFloat(t.amount), Number.parseFloat(t.exchangeRate)), 0)
     const monthlyExpenses = monthlyTransactions
       .filter((t) => t.type === "expense")
-      .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0)
+      .reduce((sum, t) => sum + toBaseAmount(Number.parseFloat(t.amount), Number.parseFloat(t.exchangeRate)), 0)
+
+    const categoryBreakdown = await getCategoryBreakdown(db, organizationId, { start: startOfMonth })
 
     // Get invoices summary
-    const invoicesData = await db.select().from(invoices).where(eq(invoices.userId, userId))
+    const invoicesData = await db.select().from(invoices).where(eq(invoices.organizationId, organizationId))
 
-    const totalInvoiced = invoicesData.reduce((sum, inv) => sum + Number.parseFloat(inv.total), 0)
-    const totalPaid = invoicesData.reduce((sum, inv) => sum + Number.parseFloat(inv.paidAmount || "0"), 0)
+    // Summed in the base currency
+    const inBase = (amount: string | null, exchangeRate: string) =>
+      toBaseAmount(Number.parseFloat(amount || "0"), Number.parseFloat(exchangeRate))
+    const totalInvoiced = invoicesData.reduce((sum, inv) => sum + inBase(inv.total, inv.exchangeRate), 0)
+    const totalPaid = invoicesData.reduce((sum, inv) => sum + inBase(inv.paidAmount, inv.exchangeRate), 0)
 
     // Get expenses summary
-    const expensesData = await db.select().from(expenses).where(eq(expenses.userId, userId))
+    const expensesData = await db.select().from(expenses).where(eq(expenses.organizationId, organizationId))
 
     const pendingExpenses = expensesData.filter((e) => e.status === "submitted").length
 
@@ -99,21 +109,19 @@ export async function getDashboardData() {
         monthlyIncome,
         monthlyExpenses,
         netIncome: monthlyIncome - monthlyExpenses,
+        categoryBreakdown,
         totalInvoiced,
         totalPaid,
         outstandingAmount: totalInvoiced - totalPaid,
         pendingExpenses,
+        baseCurrency: await getBaseCurrency(db, organizationId),
         recentTransactions: processedTransactions,
         accountsData,
         accountsByType: {
-          cash: accountsData.filter((a) => a.type === "cash").reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-          bank: accountsData.filter((a) => a.type === "bank").reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-          mobile: accountsData
-            .filter((a) => a.type === "mobile")
-            .reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
-          credit: accountsData
-            .filter((a) => a.type === "credit")
-            .reduce((sum, a) => sum + Number.parseFloat(a.balance), 0),
+          cash: balanceOfType("cash"),
+          bank: balanceOfType("bank"),
+          mobile: balanceOfType("mobile"),
+          credit: balanceOfType("credit"),
         },
       },
     }
@@ -0,0 +1,118 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { documentSequences } from "@/db/schema"
+import type { DocumentType } from "@/db/schema"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import {
+  DEFAULT_NUMBER_FORMATS,
+  DOCUMENT_TYPE_LABELS,
+  MAX_NUMBER_PADDING,
+  formatDocumentNumber,
+  pendingNumber,
+} from "@/lib/document-numbers"
+import { isDocumentNumberTaken, lockDocumentSequence } from "@/lib/document-sequences"
+import { LedgerError } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[]
+
+const sequenceSchema = z.object({
+  documentType: z.enum(["invoice", "credit_note", "quote"]),
+  prefix: z
+    .string()
+    .trim()
+    .max(20, "Prefix cannot be longer than 20 characters")
+    .regex(/^[A-Za-z0-9/_-]*$/, "Prefix can only contain letters, digits, dashes, slashes and underscores"),
+  padding: z.number().int().min(1, "Use at least one digit").max(MAX_NUMBER_PADDING),
+  resetYearly: z.boolean(),
+  nextNumber: z.number().int().min(1, "Next number must be at least 1"),
+})
+
+/**
+ * The numbering of every document type, with the number each will use next this year
+ */
+export async function getDocumentSequences() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const rows = await db
+      .select()
+      .from(documentSequences)
+      .where(eq(documentSequences.organizationId, organizationId))
+
+    const year = new Date().getFullYear()
+    const result = DOCUMENT_TYPES.map((documentType) => {
+      const row = rows.find((candidate) => candidate.documentType === documentType)
+      const sequence = row ?? { ...DEFAULT_NUMBER_FORMATS[documentType], nextNumber: 1, sequenceYear: null }
+
+      return {
+        documentType,
+        prefix: sequence.prefix,
+        padding: sequence.padding,
+        resetYearly: sequence.resetYearly,
+        nextNumber: pendingNumber(sequence, year),
+      }
+    })
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching document sequences:", error)
+    return { success: false, error: "Failed to fetch document numbering" }
+  }
+}
+
+/**
+ * Change how a document type is numbered. The next number can be moved back, but not onto a number
+ * a document already has.
+ */
+export async function updateDocumentSequence(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("organization:manage")
+
+    const data = sequenceSchema.parse({
+      documentType: formData.get("documentType") as string,
+      prefix: (formData.get("prefix") as string) ?? "",
+      padding: Number(formData.get("padding")),
+      resetYearly: formData.get("resetYearly") === "true",
+      nextNumber: Number(formData.get("nextNumber")),
+    })
+
+    const result = await db.transaction(async (tx) => {
+      const sequence = await lockDocumentSequence(tx, organizationId, data.documentType)
+      const year = new Date().getFullYear()
+
+      const documentNumber = formatDocumentNumber(data, data.nextNumber, year)
+      if (await isDocumentNumberTaken(tx, organizationId, data.documentType, documentNumber)) {
+        throw new LedgerError(`${documentNumber} is already in use. Choose a higher next number.`)
+      }
+
+      const [updated] = await tx
+        .update(documentSequences)
+        .set({
+          prefix: data.prefix,
+          padding: data.padding,
+          resetYearly: data.resetYearly,
+          nextNumber: data.nextNumber,
+          sequenceYear: year,
+          updatedAt: new Date(),
+        })
+        .where(eq(documentSequences.id, sequence.id))
+        .returning()
+
+      return { ...updated, preview: documentNumber }
+    })
+
+    revalidatePath("/settings")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error updating document sequence:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to update document numbering" }
+  }
+}
@@ -0,0 +1,260 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import {
+  accounts,
+  contacts,
+  creditNotes,
+  customerCredits,
+  exchangeRates,
+  invoices,
+  journalEntries,
+  organizations,
+  quotes,
+  transactions,
+} from "@/db/schema"
+import { and, desc, eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { parseExchangeRatesCsv, revalueForeignCurrencies } from "@/lib/exchange-rates"
+import { type DbExecutor, LedgerError, getBaseCurrency } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const MAX_RATES_FILE_SIZE = 1024 * 1024
+
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Enter a three letter currency code")
+
+const rateSchema = z.object({
+  currency: currencySchema,
+  rateDate: z.string().min(1, "Date is required"),
+  rate: z.number({ message: "Rate is required" }).positive("Rate must be greater than zero"),
+})
+
+async function hasPostedEntries(executor: DbExecutor, organizationId: string) {
+  const [entry] = await executor
+    .select({ id: journalEntries.id })
+    .from(journalEntries)
+    .where(eq(journalEntries.organizationId, organizationId))
+    .limit(1)
+  return !!entry
+}
+
+/**
+ * Store a rate, replacing any already entered for that currency and day
+ */
+async function upsertRate(executor: DbExecutor, organizationId: string, baseCurrency: string, input: z.infer<typeof rateSchema>) {
+  if (input.currency === baseCurrency) {
+    throw new LedgerError(`${baseCurrency} is the base currency and always has a rate of 1`)
+  }
+
+  await executor
+    .insert(exchangeRates)
+    .values({
+      organizationId,
+      currency: input.currency,
+      rateDate: new Date(input.rateDate),
+      rate: String(input.rate),
+    })
+    .onConflictDoUpdate({
+      target: [exchangeRates.organizationId, exchangeRates.currency, exchangeRates.rateDate],
+      set: { rate: String(input.rate), updatedAt: new Date() },
+    })
+}
+
+export async function getOrganizationBaseCurrency() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+    return { success: true, data: await getBaseCurrency(db, organizationId) }
+  } catch (error) {
+    console.error("Error fetching base currency:", error)
+    return { success: false, error: "Failed to fetch base currency" }
+  }
+}
+
+export async function getCurrencySettings() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const baseCurrency = await getBaseCurrency(db, organizationId)
+    const rates = await db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.organizationId, organizationId))
+      .orderBy(desc(exchangeRates.rateDate), exchangeRates.currency)
+
+    const [revaluation] = await db
+      .select({ entryDate: journalEntries.entryDate })
+      .from(journalEntries)
+      .where(
+        and(
+          eq(journalEntries.organizationId, organizationId),
+          eq(journalEntries.sourceType, "revaluation"),
+          eq(journalEntries.sourceId, organizationId),
+        ),
+      )
+      .limit(1)
+
+    return {
+      success: true,
+      data: {
+        baseCurrency,
+        rates,
+        lastRevaluation: revaluation?.entryDate ?? null,
+        canChangeBaseCurrency: !(await hasPostedEntries(db, organizationId)),
+      },
+    }
+  } catch (error) {
+    console.error("Error fetching currency settings:", error)
+    return { success: false, error: "Failed to fetch currency settings" }
+  }
+}
+
+/**
+ * Change the currency the books are kept in. Only allowed before anything has been posted; records
+ * still in the old base currency move to the new one, and stored rates are cleared because they were
+ * quoted against the old base.
+ */
+export async function setBaseCurrency(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("organization:manage")
+    const currency = currencySchema.parse(formData.get("baseCurrency"))
+
+    await db.transaction(async (tx) => {
+      if (await hasPostedEntries(tx, organizationId)) {
+        throw new LedgerError("The base currency cannot be changed once entries have been posted")
+      }
+
+      const previous = await getBaseCurrency(tx, organizationId)
+      if (previous === currency) {
+        return
+      }
+
+      await tx.update(organizations).set({ baseCurrency: currency, updatedAt: new Date() }).where(eq(organizations.id, organizationId))
+      // Recurring invoice templates have no currency of their own; they issue in the contact's
+      for (const table of [accounts, contacts, invoices, quotes, creditNotes, customerCredits, transactions]) {
+        await tx
+          .update(table)
+          .set({ currency })
+          .where(and(eq(table.organizationId, organizationId), eq(table.currency, previous)))
+      }
+      await tx.delete(exchangeRates).where(eq(exchangeRates.organizationId, organizationId))
+    })
+
+    revalidatePath("/settings")
+    return { success: true }
+  } catch (error) {
+    console.error("Error changing base currency:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to change base currency" }
+  }
+}
+
+export async function saveExchangeRate(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const input = rateSchema.parse({
+      currency: formData.get("currency") as string,
+      rateDate: formData.get("rateDate") as string,
+      rate: Number.parseFloat(formData.get("rate") as string) || undefined,
+    })
+
+    await upsertRate(db, organizationId, await getBaseCurrency(db, organizationId), input)
+
+    revalidatePath("/settings")
+    return { success: true }
+  } catch (error) {
+    console.error("Error saving exchange rate:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to save exchange rate" }
+  }
+}
+
+export async function deleteExchangeRate(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    await db
+      .delete(exchangeRates)
+      .where(and(eq(exchangeRates.id, id), eq(exchangeRates.organizationId, organizationId)))
+
+    revalidatePath("/settings")
+    return { success: true }
+  } catch (error) {
+    console.error("Error deleting exchange rate:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to delete exchange rate" }
+  }
+}
+
+/**
+ * Import rates from a CSV file of date, currency and rate rows. Rows for a day already entered replace it.
+ */
+export async function importExchangeRates(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const file = formData.get("file")
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: "Choose a rates file" }
+    }
+    if (file.size > MAX_RATES_FILE_SIZE) {
+      return { success: false, error: "Rates files must be 1 MB or smaller" }
+    }
+
+    const rows = parseExchangeRatesCsv(await file.text())
+
+    await db.transaction(async (tx) => {
+      const baseCurrency = await getBaseCurrency(tx, organizationId)
+      for (const row of rows) {
+        await upsertRate(tx, organizationId, baseCurrency, rateSchema.parse(row))
+      }
+    })
+
+    revalidatePath("/settings")
+    return { success: true, data: { imported: rows.length } }
+  } catch (error) {
+    console.error("Error importing exchange rates:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to import exchange rates" }
+  }
+}
+
+/**
+ * Restate foreign currency balances at the rates on a date, posting the unrealised gain or loss
+ */
+export async function revalueCurrencies(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("accounts:manage")
+    const asOf = z.string().min(1, "Date is required").parse(formData.get("asOf"))
+
+    // Rates are stored by day, so take everything up to the end of it
+    const asOfDate = new Date(asOf)
+    asOfDate.setHours(23, 59, 59, 999)
+
+    const result = await db.transaction((tx) => revalueForeignCurrencies(tx, organizationId, asOfDate, userId))
+
+    revalidatePath("/settings")
+    revalidatePath("/reports")
+    revalidatePath("/accounts")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error revaluing currencies:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to revalue foreign currencies" }
+  }
+}
@@ -1,52 +1,151 @@
 "use server"
 
 import { db } from "@/db/drizzle"
-import { expenses, contacts, accounts } from "@/db/schema"
-import { eq, desc, and } from "drizzle-orm"
+import { expenses, contacts, accounts, expenseApprovers, expenseEvents, memberships, user } from "@/db/schema"
+import { eq, desc, and, asc, lte, ne } from "drizzle-orm"
+import { alias } from "drizzle-orm/pg-core"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
-import { auth } from "@/lib/auth" // Assuming you have an auth helper
-import { headers } from "next/headers"
+import { type DbExecutor, LedgerError, isPaymentAccount, unpostSource } from "@/lib/ledger"
+import { removeSourceAttachments } from "@/lib/attachments"
+import { DELETABLE_EXPENSE_STATUSES, canApproveExpense, recordExpenseEvent, transitionExpense } from "@/lib/expenses"
+import {
+  assertAccountsInOrganization,
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const expenseSchema = z
+  .object({
+    amount: z.string().min(1, "Amount is required"),
+    expenseDate: z.string().min(1, "Expense date is required"),
+    vendorId: z.string().uuid("Invalid vendor ID"),
+    accountId: z.string().uuid("Invalid account ID"),
+    categoryAccountId: z.string().uuid("Invalid category").optional(),
+    description: z.string().max(1000).optional(),
+    taxAmount: z.string().optional(),
+    paymentMethod: z.enum(["cash", "bank_transfer", "mobile_money", "card", "cheque", "other"]).optional(),
+    receiptUrl: z.string().url("Invalid receipt URL").max(255).optional(),
+  })
+  .refine((data) => Number.parseFloat(data.taxAmount || "0") <= Number.parseFloat(data.amount), {
+    message: "Tax cannot exceed the expense amount",
+    path: ["taxAmount"],
+  })
+
+// Read the expense form, leaving empty optional fields out
+function parseExpenseForm(formData: FormData) {
+  const validatedData = expenseSchema.parse({
+    amount: formData.get("amount") as string,
+    expenseDate: formData.get("expenseDate") as string,
+    vendorId: formData.get("vendorId") as string,
+    accountId: formData.get("accountId") as string,
+    categoryAccountId: (formData.get("categoryAccountId") as string) || undefined,
+    description: (formData.get("description") as string) || undefined,
+    taxAmount: (formData.get("taxAmount") as string) || undefined,
+    paymentMethod: (formData.get("paymentMethod") as string) || undefined,
+    receiptUrl: (formData.get("receiptUrl") as string) || undefined,
+  })
+
+  return {
+    amount: Number.parseFloat(validatedData.amount).toFixed(2),
+    expenseDate: new Date(validatedData.expenseDate),
+    vendorId: validatedData.vendorId,
+    accountId: validatedData.accountId,
+    categoryAccountId: validatedData.categoryAccountId ?? null,
+    description: validatedData.description ?? null,
+    taxAmount: Number.parseFloat(validatedData.taxAmount || "0").toFixed(2),
+    paymentMethod: validatedData.paymentMethod ?? null,
+    receiptUrl: validatedData.receiptUrl ?? null,
+  }
+}
+
+// The category is the account the expense is debited to when approved, so it must be one of the
+// organisation's expense accounts
+async function assertExpenseCategory(executor: DbExecutor, organizationId: string, categoryAccountId: string | null) {
+  if (!categoryAccountId) {
+    return
+  }
+
+  const [categoryAccount] = await executor
+    .select({ accountClass: accounts.accountClass })
+    .from(accounts)
+    .where(and(eq(accounts.id, categoryAccountId), eq(accounts.organizationId, organizationId)))
+    .limit(1)
 
-const expenseSchema = z.object({
-  amount: z.string().min(1, "Amount is required"),
+  if (!categoryAccount || categoryAccount.accountClass !== "expense") {
+    throw new LedgerError("Expense categories must be expense accounts")
+  }
+}
+
+const statusChangeSchema = z.object({
   status: z.enum(["draft", "submitted", "approved", "rejected", "reimbursed"]),
-  vendorId: z.string().uuid("Invalid vendor ID"),
-  accountId: z.string().uuid("Invalid account ID"),
+  reason: z.string().max(1000).optional(),
+  accountId: z.string().uuid("Invalid account ID").optional(),
+})
+
+const approverSchema = z.object({
+  userId: z.string().min(1, "User is required"),
+  maxAmount: z.string().optional(),
 })
 
+const category = alias(accounts, "category")
+const submitter = alias(user, "submitter")
+const reviewer = alias(user, "reviewer")
+
+const expenseFields = {
+  id: expenses.id,
+  amount: expenses.amount,
+  status: expenses.status,
+  expenseDate: expenses.expenseDate,
+  description: expenses.description,
+  taxAmount: expenses.taxAmount,
+  paymentMethod: expenses.paymentMethod,
+  receiptUrl: expenses.receiptUrl,
+  submittedAt: expenses.submittedAt,
+  approvedAt: expenses.approvedAt,
+  rejectionReason: expenses.rejectionReason,
+  reimbursedAt: expenses.reimbursedAt,
+  createdAt: expenses.createdAt,
+  updatedAt: expenses.updatedAt,
+  vendor: {
+    id: contacts.id,
+    name: contacts.name,
+    email: contacts.email,
+  },
+  account: {
+    id: accounts.id,
+    name: accounts.name,
+    type: accounts.type,
+  },
+  category: {
+    id: category.id,
+    name: category.name,
+  },
+  submittedBy: {
+    id: submitter.id,
+    name: submitter.name,
+  },
+  reviewedBy: {
+    id: reviewer.id,
+    name: reviewer.name,
+  },
+}
+
 export async function getExpenses() {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
-      .select({
-        id: expenses.id,
-        amount: expenses.amount,
-        status: expenses.status,
-        createdAt: expenses.createdAt,
-        updatedAt: expenses.updatedAt,
-        vendor: {
-          id: contacts.id,
-          name: contacts.name,
-          email: contacts.email,
-        },
-        account: {
-          id: accounts.id,
-          name: accounts.name,
-          type: accounts.type,
-        },
-      })
+      .select(expenseFields)
       .from(expenses)
       .leftJoin(contacts, eq(expenses.vendorId, contacts.id))
       .leftJoin(accounts, eq(expenses.accountId, accounts.id))
-      .where(eq(expenses.userId, session.user.id))
-      .orderBy(desc(expenses.createdAt))
+      .leftJoin(category, eq(expenses.categoryAccountId, category.id))
+      .leftJoin(submitter, eq(expenses.userId, submitter.id))
+      .leftJoin(reviewer, eq(expenses.reviewedById, reviewer.id))
+      .where(eq(expenses.organizationId, organizationId))
+      .orderBy(desc(expenses.expenseDate), desc(expenses.createdAt))
 
     return { success: true, data: result }
   } catch (error) {
@@ -57,35 +156,17 @@ export async function getExpenses() {
 
 export async function getExpenseById(id: string) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
-      .select({
-        id: expenses.id,
-        amount: expenses.amount,
-        status: expenses.status,
-        createdAt: expenses.createdAt,
-        updatedAt: expenses.updatedAt,
-        vendor: {
-          id: contacts.id,
-          name: contacts.name,
-          email: contacts.email,
-        },
-        account: {
-          id: accounts.id,
-          name: accounts.name,
-          type: accounts.type,
-        },
-      })
+      .select(expenseFields)
       .from(expenses)
       .leftJoin(contacts, eq(expenses.vendorId, contacts.id))
       .leftJoin(accounts, eq(expenses.accountId, accounts.id))
-      .where(eq(expenses.id, id))
+      .leftJoin(category, eq(expenses.categoryAccountId, category.id))
+      .leftJoin(submitter, eq(expenses.userId, submitter.id))
+      .leftJoin(reviewer, eq(expenses.reviewedById, reviewer.id))
+      .where(and(eq(expenses.id, id), eq(expenses.organizationId, organizationId)))
       .limit(1)
 
     if (result.length === 0) {
@@ -101,41 +182,36 @@ export async function getExpenseById(id: string) {
 
 export async function createExpense(formData: FormData) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { userId, organizationId } = await getOrganizationContext("records:create")
 
-    const data = {
-      amount: formData.get("amount") as string,
-      status: formData.get("status") as "draft" | "submitted" | "approved" | "rejected" | "reimbursed",
-      vendorId: formData.get("vendorId") as string,
-      accountId: formData.get("accountId") as string,
-    }
+    const validatedData = parseExpenseForm(formData)
 
-    const validatedData = expenseSchema.parse(data)
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, validatedData.vendorId)
+      await assertAccountsInOrganization(tx, organizationId, [validatedData.accountId])
+      await assertExpenseCategory(tx, organizationId, validatedData.categoryAccountId)
 
-    // Convert amount string to decimal format
-    const amountDecimal = Number.parseFloat(validatedData.amount).toFixed(2)
+      // New expenses start as drafts; every later status goes through changeExpenseStatus
+      const [newExpense] = await tx
+        .insert(expenses)
+        .values({
+          ...validatedData,
+          status: "draft",
+          organizationId,
+          userId,
+        })
+        .returning()
 
-    const result = await db
-      .insert(expenses)
-      .values({
-        amount: amountDecimal,
-        status: validatedData.status,
-        userId: session.user.id,
-        vendorId: validatedData.vendorId,
-        accountId: validatedData.accountId,
-      })
-      .returning()
+      await recordExpenseEvent(tx, { expenseId: newExpense.id, fromStatus: null, toStatus: "draft", userId })
+
+      return newExpense
+    })
 
     revalidatePath("/expenses")
-    return { success: true, data: result[0] }
+    return { success: true, data: result }
   } catch (error) {
     console.error("Error creating expense:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to create expense" }
@@ -144,91 +220,319 @@ export async function createExpense(formData: FormData) {
 
 export async function updateExpense(id: string, formData: FormData) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
+    const { organizationId } = await getOrganizationContext("records:create")
+
+    const validatedData = parseExpenseForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, validatedData.vendorId)
+      await assertAccountsInOrganization(tx, organizationId, [validatedData.accountId])
+      await assertExpenseCategory(tx, organizationId, validatedData.categoryAccountId)
+
+      const [existing] = await tx
+        .select({ status: expenses.status })
+        .from(expenses)
+        .where(and(eq(expenses.id, id), eq(expenses.organizationId, organizationId)))
+        .limit(1)
+
+      if (!existing) {
+        return null
+      }
+      // Details are locked once an expense is submitted so approvers decide on what they saw
+      if (existing.status !== "draft") {
+        throw new LedgerError("Only draft expenses can be edited")
+      }
+
+      const [updatedExpense] = await tx
+        .update(expenses)
+        .set({
+          ...validatedData,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(expenses.id, id), eq(expenses.status, "draft")))
+        .returning()
+
+      return updatedExpense
+    })
+
+    if (!result) {
+      return { success: false, error: "Expense not found" }
+    }
+
+    revalidatePath("/expenses")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error updating expense:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to update expense" }
+  }
+}
+
+export async function deleteExpense(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:delete")
+
+    const deleted = await db.transaction(async (tx) => {
+      // Check the expense belongs to the organisation and has never been posted before deleting
+      const [expense] = await tx
+        .select({ id: expenses.id, status: expenses.status })
+        .from(expenses)
+        .where(and(eq(expenses.id, id), eq(expenses.organizationId, organizationId)))
+        .for("update")
+        .limit(1)
+
+      if (!expense) {
+        return false
+      }
+      if (!DELETABLE_EXPENSE_STATUSES.includes(expense.status)) {
+        throw new LedgerError(`A ${expense.status} expense cannot be deleted. Reverse or reject it instead.`)
+      }
+
+      await tx.delete(expenses).where(eq(expenses.id, id))
+      await unpostSource(tx, "expense", id)
+      return true
     })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
+
+    if (!deleted) {
+      return { success: false, error: "Expense not found" }
     }
+    await removeSourceAttachments(organizationId, "expense", id)
 
-    const data = {
-      amount: formData.get("amount") as string,
-      status: formData.get("status") as "draft" | "submitted" | "approved" | "rejected" | "reimbursed",
-      vendorId: formData.get("vendorId") as string,
-      accountId: formData.get("accountId") as string,
+    revalidatePath("/expenses")
+    return { success: true }
+  } catch (error) {
+    console.error("Error deleting expense:", error)
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
     }
+    return { success: false, error: "Failed to delete expense" }
+  }
+}
 
-    const validatedData = expenseSchema.parse(data)
+/**
+ * Move an expense through the approval workflow: submit, withdraw, approve, reject or reimburse
+ */
+export async function changeExpenseStatus(id: string, formData: FormData) {
+  try {
+    const actor = await getOrganizationContext("records:create")
 
-    // Convert amount string to decimal format
-    const amountDecimal = Number.parseFloat(validatedData.amount).toFixed(2)
+    const validatedData = statusChangeSchema.parse({
+      status: formData.get("status") as string,
+      reason: (formData.get("reason") as string) || undefined,
+      accountId: (formData.get("accountId") as string) || undefined,
+    })
 
-    const result = await db
-      .update(expenses)
-      .set({
-        amount: amountDecimal,
-        status: validatedData.status,
-        vendorId: validatedData.vendorId,
+    const result = await db.transaction(async (tx) => {
+      const [expense] = await tx
+        .select()
+        .from(expenses)
+        .where(and(eq(expenses.id, id), eq(expenses.organizationId, actor.organizationId)))
+        .limit(1)
+
+      if (!expense) {
+        return null
+      }
+
+      if (validatedData.accountId) {
+        await assertAccountsInOrganization(tx, actor.organizationId, [validatedData.accountId])
+      }
+
+      return transitionExpense(tx, actor, expense, validatedData.status, {
+        reason: validatedData.reason,
         accountId: validatedData.accountId,
-        updatedAt: new Date(),
       })
-      .where(eq(expenses.id, id))
-      .returning()
+    })
 
-    if (result.length === 0) {
+    if (!result) {
       return { success: false, error: "Expense not found" }
     }
 
     revalidatePath("/expenses")
-    return { success: true, data: result[0] }
+    revalidatePath("/transactions")
+    return { success: true, data: result }
   } catch (error) {
-    console.error("Error updating expense:", error)
-    if (error instanceof z.ZodError) {
+    console.error("Error changing expense status:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
-    return { success: false, error: "Failed to update expense" }
+    return { success: false, error: "Failed to change expense status" }
   }
 }
 
-export async function deleteExpense(id: string) {
+/**
+ * Submitted expenses the current user may approve, oldest first
+ */
+export async function getExpenseApprovalQueue() {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
+    const actor = await getOrganizationContext()
+
+    const [approver] = await db
+      .select({ maxAmount: expenseApprovers.maxAmount })
+      .from(expenseApprovers)
+      .where(and(eq(expenseApprovers.organizationId, actor.organizationId), eq(expenseApprovers.userId, actor.userId)))
+      .limit(1)
+
+    // Without an approver row the user can only approve when no approvers are designated at all
+    if (!approver && !(await canApproveExpense(db, actor, 0))) {
+      return { success: true, data: [] }
     }
 
-    // Check if expense belongs to the user before deleting
-    const expense = await db.select({ userId: expenses.userId }).from(expenses).where(eq(expenses.id, id)).limit(1)
+    const result = await db
+      .select(expenseFields)
+      .from(expenses)
+      .leftJoin(contacts, eq(expenses.vendorId, contacts.id))
+      .leftJoin(accounts, eq(expenses.accountId, accounts.id))
+      .leftJoin(category, eq(expenses.categoryAccountId, category.id))
+      .leftJoin(submitter, eq(expenses.userId, submitter.id))
+      .leftJoin(reviewer, eq(expenses.reviewedById, reviewer.id))
+      .where(
+        and(
+          eq(expenses.organizationId, actor.organizationId),
+          eq(expenses.status, "submitted"),
+          ne(expenses.userId, actor.userId),
+          approver?.maxAmount ? lte(expenses.amount, approver.maxAmount) : undefined,
+        ),
+      )
+      .orderBy(asc(expenses.submittedAt))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching expense approval queue:", error)
+    return { success: false, error: "Failed to fetch expense approval queue" }
+  }
+}
 
-    if (expense.length === 0) {
-      return { success: false, error: "Expense not found" }
+/**
+ * Audit trail of an expense's status changes, oldest first
+ */
+export async function getExpenseEvents(expenseId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select({
+        id: expenseEvents.id,
+        fromStatus: expenseEvents.fromStatus,
+        toStatus: expenseEvents.toStatus,
+        note: expenseEvents.note,
+        createdAt: expenseEvents.createdAt,
+        userName: user.name,
+      })
+      .from(expenseEvents)
+      .innerJoin(expenses, eq(expenseEvents.expenseId, expenses.id))
+      .leftJoin(user, eq(expenseEvents.userId, user.id))
+      .where(and(eq(expenseEvents.expenseId, expenseId), eq(expenses.organizationId, organizationId)))
+      .orderBy(asc(expenseEvents.createdAt))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching expense history:", error)
+    return { success: false, error: "Failed to fetch expense history" }
+  }
+}
+
+export async function getExpenseApprovers() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select({
+        id: expenseApprovers.id,
+        userId: expenseApprovers.userId,
+        name: user.name,
+        email: user.email,
+        maxAmount: expenseApprovers.maxAmount,
+      })
+      .from(expenseApprovers)
+      .innerJoin(user, eq(expenseApprovers.userId, user.id))
+      .where(eq(expenseApprovers.organizationId, organizationId))
+      .orderBy(asc(user.name))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching expense approvers:", error)
+    return { success: false, error: "Failed to fetch expense approvers" }
+  }
+}
+
+/**
+ * Designate a member as an expense approver, or change their limit
+ */
+export async function saveExpenseApprover(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("users:manage")
+
+    const validatedData = approverSchema.parse({
+      userId: formData.get("userId") as string,
+      maxAmount: (formData.get("maxAmount") as string) || undefined,
+    })
+
+    const [membership] = await db
+      .select({ id: memberships.id })
+      .from(memberships)
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, validatedData.userId)))
+      .limit(1)
+
+    if (!membership) {
+      return { success: false, error: "Approvers must be members of the organisation" }
+    }
+
+    const maxAmount = validatedData.maxAmount ? Number.parseFloat(validatedData.maxAmount) : null
+    if (maxAmount !== null && (Number.isNaN(maxAmount) || maxAmount <= 0)) {
+      return { success: false, error: "Approval limit must be a positive amount" }
     }
 
-    if (expense[0].userId !== session.user.id) {
-      return { success: false, error: "Unauthorized" }
+    const [result] = await db
+      .insert(expenseApprovers)
+      .values({
+        organizationId,
+        userId: validatedData.userId,
+        maxAmount: maxAmount === null ? null : maxAmount.toFixed(2),
+      })
+      .onConflictDoUpdate({
+        target: [expenseApprovers.organizationId, expenseApprovers.userId],
+        set: { maxAmount: maxAmount === null ? null : maxAmount.toFixed(2) },
+      })
+      .returning()
+
+    revalidatePath("/expenses")
+    revalidatePath("/settings")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error saving expense approver:", error)
+    if (error instanceof z.ZodError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
     }
+    return { success: false, error: "Failed to save expense approver" }
+  }
+}
+
+export async function removeExpenseApprover(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("users:manage")
 
-    await db.delete(expenses).where(eq(expenses.id, id))
+    await db
+      .delete(expenseApprovers)
+      .where(and(eq(expenseApprovers.id, id), eq(expenseApprovers.organizationId, organizationId)))
 
     revalidatePath("/expenses")
+    revalidatePath("/settings")
     return { success: true }
   } catch (error) {
-    console.error("Error deleting expense:", error)
-    return { success: false, error: "Failed to delete expense" }
+    console.error("Error removing expense approver:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to remove expense approver" }
   }
 }
 
 // Helper function to get vendors (contacts of type 'vendor') for dropdowns
 export async function getVendors() {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
       .select({
@@ -237,7 +541,9 @@ export async function getVendors() {
         email: contacts.email,
       })
       .from(contacts)
-      .where(and(eq(contacts.type, "vendor"), eq(contacts.isActive, true)))
+      .where(
+        and(eq(contacts.organizationId, organizationId), eq(contacts.type, "vendor"), eq(contacts.isActive, true)),
+      )
       .orderBy(contacts.name)
 
     return { success: true, data: result }
@@ -250,12 +556,7 @@ export async function getVendors() {
 // Helper function to get accounts for dropdowns
 export async function getAccounts() {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext()
 
     const result = await db
       .select({
@@ -265,10 +566,10 @@ export async function getAccounts() {
         balance: accounts.balance,
       })
       .from(accounts)
-      .where(eq(accounts.isActive, true))
+      .where(and(eq(accounts.organizationId, organizationId), eq(accounts.isActive, true)))
       .orderBy(accounts.name)
 
-    return { success: true, data: result }
+    return { success: true, data: result.filter(isPaymentAccount) }
   } catch (error) {
     console.error("Error fetching accounts:", error)
     return { success: false, error: "Failed to fetch accounts" }
@@ -0,0 +1,221 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import {
+  accounts,
+  customerCredits,
+  invoicePayments,
+  invoices,
+  transactions,
+} from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { LedgerError, unpostSource } from "@/lib/ledger";
+import { removeSourceAttachments } from "@/lib/attachments";
+import { isCreditUsed, listCustomerCredits } from "@/lib/credit-notes";
+import { recordPayment, syncInvoicePayments } from "@/lib/invoice-payments";
+import { getOrganizationContext } from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+import { assertTransactionsNotReconciled } from "@/lib/reconciliation";
+
+const paymentSchema = z.object({
+  paymentDate: z.string().min(1, "Payment date is required"),
+  // Amounts beyond the balance due are held as credit for the customer
+  amount: z.number().positive("Amount must be greater than zero"),
+  method: z.enum([
+    "cash",
+    "bank_transfer",
+    "mobile_money",
+    "card",
+    "cheque",
+    "other",
+  ]),
+  accountId: z.string().uuid("Select the account the payment was deposited into"),
+  // Base currency per unit of the invoice currency on the payment date
+  exchangeRate: z.number().positive("Exchange rate must be greater than zero").optional(),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export async function getInvoicePayments(invoiceId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: invoicePayments.id,
+        invoiceId: invoicePayments.invoiceId,
+        transactionId: invoicePayments.transactionId,
+        paymentDate: invoicePayments.paymentDate,
+        amount: invoicePayments.amount,
+        method: invoicePayments.method,
+        accountId: invoicePayments.accountId,
+        accountName: accounts.name,
+        reference: invoicePayments.reference,
+        notes: invoicePayments.notes,
+        createdAt: invoicePayments.createdAt,
+      })
+      .from(invoicePayments)
+      .innerJoin(accounts, eq(invoicePayments.accountId, accounts.id))
+      .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+      .where(
+        and(
+          eq(invoicePayments.invoiceId, invoiceId),
+          eq(invoices.organizationId, organizationId)
+        )
+      )
+      .orderBy(desc(invoicePayments.paymentDate));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching invoice payments:", error);
+    return { success: false, error: "Failed to fetch invoice payments" };
+  }
+}
+
+/**
+ * Credit a customer still has available from overpayments and credit notes, by currency
+ */
+export async function getCustomerCredit(contactId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const credits = await listCustomerCredits(db, organizationId, contactId);
+    const byCurrency = new Map<string, number>();
+    for (const credit of credits) {
+      byCurrency.set(
+        credit.currency,
+        (byCurrency.get(credit.currency) ?? 0) + credit.remaining
+      );
+    }
+
+    return {
+      success: true,
+      data: [...byCurrency]
+        .map(([currency, amount]) => ({
+          currency,
+          amount: Number(amount.toFixed(2)),
+        }))
+        .filter((row) => row.amount > 0),
+    };
+  } catch (error) {
+    console.error("Error fetching customer credit:", error);
+    return { success: false, error: "Failed to fetch customer credit" };
+  }
+}
+
+/**
+ * Record a full, partial or over-payment against an invoice in one database transaction
+ */
+export async function recordInvoicePayment(
+  invoiceId: string,
+  formData: FormData
+) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const validatedPayment = paymentSchema.parse({
+      paymentDate: formData.get("paymentDate") as string,
+      amount: Number(formData.get("amount")),
+      method: formData.get("method") as string,
+      accountId: formData.get("accountId") as string,
+      exchangeRate: Number(formData.get("exchangeRate")) || undefined,
+      reference: (formData.get("reference") as string) || undefined,
+      notes: (formData.get("notes") as string) || undefined,
+    });
+
+    const result = await db.transaction(async (tx) => {
+      // Locked so concurrent payments queue and each sees the balance the last one left
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.id, invoiceId), eq(invoices.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (!invoice) {
+        throw new LedgerError("Invoice not found");
+      }
+
+      return recordPayment(
+        tx,
+        invoice,
+        { ...validatedPayment, paymentDate: new Date(validatedPayment.paymentDate) },
+        userId
+      );
+    });
+
+    revalidatePath("/invoices");
+    revalidatePath("/transactions");
+    revalidatePath("/");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error recording invoice payment:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to record payment" };
+  }
+}
+
+export async function deleteInvoicePayment(paymentId: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:void");
+
+    const result = await db.transaction(async (tx) => {
+      const [owned] = await tx
+        .select({ id: invoicePayments.id })
+        .from(invoicePayments)
+        .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+        .where(
+          and(
+            eq(invoicePayments.id, paymentId),
+            eq(invoices.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!owned) {
+        throw new LedgerError("Payment not found");
+      }
+
+      // An overpayment's credit cannot disappear once some of it has been used
+      const overpayments = await tx
+        .select({ id: customerCredits.id })
+        .from(customerCredits)
+        .innerJoin(invoicePayments, eq(customerCredits.transactionId, invoicePayments.transactionId))
+        .where(eq(invoicePayments.id, owned.id));
+      if (await isCreditUsed(tx, overpayments.map((credit) => credit.id))) {
+        throw new LedgerError(
+          "The overpayment from this payment has been applied or refunded. Remove those first."
+        );
+      }
+
+      const [payment] = await tx
+        .delete(invoicePayments)
+        .where(eq(invoicePayments.id, owned.id))
+        .returning();
+
+      await assertTransactionsNotReconciled(tx, [payment.transactionId]);
+      await tx
+        .delete(transactions)
+        .where(eq(transactions.id, payment.transactionId));
+      await unpostSource(tx, "transaction", payment.transactionId);
+      await removeSourceAttachments(organizationId, "transaction", payment.transactionId, tx);
+
+      return syncInvoicePayments(tx, payment.invoiceId);
+    });
+
+    revalidatePath("/invoices");
+    revalidatePath("/transactions");
+    revalidatePath("/");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error deleting invoice payment:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete payment" };
+  }
+}
@@ -1,44 +1,117 @@
 "use server";
 
 import { db } from "@/db/drizzle";
-import { invoices, invoiceItems, contacts } from "@/db/schema";
-import { eq, desc, and } from "drizzle-orm";
+import {
+  invoices,
+  invoiceItems,
+  invoicePayments,
+  contacts,
+  taxCodes,
+  creditApplications,
+  creditNotes,
+  quotes,
+} from "@/db/schema";
+import type { InvoiceStatus, SelectInvoices } from "@/db/schema";
+import { eq, desc, and, ne } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { auth } from "@/lib/auth";
-import { headers } from "next/headers";
+import { type DbTransaction, LedgerError, postInvoice, unpostSource } from "@/lib/ledger";
+import { PAYMENT_STATUSES, recordPayment, syncInvoicePayments } from "@/lib/invoice-payments";
+import {
+  type InvoiceItemInput,
+  calculateInvoiceTotalsWithCodes,
+  insertInvoice,
+  invoiceItemRows,
+} from "@/lib/invoices";
+import { resolveExchangeRate } from "@/lib/exchange-rates";
+import {
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
 
 const invoiceSchema = z.object({
   customerId: z.string().uuid(),
   issueDate: z.string(),
   dueDate: z.string(),
-  status: z.enum(["draft", "sent", "paid", "overdue"]), // Removed 'cancelled' as it's not in your schema
+  // Paid statuses are accepted but replaced by the status derived from recorded payments
+  status: z.enum(["draft", "sent", "partially_paid", "paid", "overdue"]),
   notes: z.string().optional(),
   terms: z.string().optional(),
   taxRate: z.number().min(0).max(100).optional().default(0),
+  currency: z.string().length(3).optional(),
+  exchangeRate: z.number().positive("Exchange rate must be greater than zero").optional(),
 });
 
 const invoiceItemSchema = z.object({
   description: z.string().min(1, "Description is required"),
   quantity: z.number().positive("Quantity must be positive"),
   unitPrice: z.number().min(0, "Unit price must be non-negative"),
+  taxCodeId: z.string().uuid().nullable().optional(),
 });
 
-// Get current user ID helper
-export async function getCurrentUserId(): Promise<string> {
-  const session = await auth.api.getSession({
-    headers: await headers(),
+// Saving an invoice as paid records a payment of the balance into this account
+const initialPaymentSchema = z.object({
+  accountId: z.string().uuid("Select the account the payment was deposited into"),
+  method: z.enum(["cash", "bank_transfer", "mobile_money", "card", "cheque", "other"]),
+});
+
+function readInitialPayment(formData: FormData, status: InvoiceStatus) {
+  const accountId = formData.get("paymentAccountId") as string;
+  if (status !== "paid" || !accountId) {
+    return undefined;
+  }
+  return initialPaymentSchema.parse({
+    accountId,
+    method: (formData.get("paymentMethod") as string) || "other",
   });
-  if (!session?.user?.id) {
-    throw new Error("Unauthorized: No user session found");
+}
+
+/**
+ * Record a payment of whatever is still owed on an invoice saved as paid, in the same transaction
+ */
+async function settleInvoice(
+  tx: DbTransaction,
+  invoice: SelectInvoices,
+  payment: z.infer<typeof initialPaymentSchema> | undefined,
+  userId: string
+) {
+  const outstanding =
+    Number.parseFloat(invoice.total) - Number.parseFloat(invoice.paidAmount || "0");
+  if (!payment || Math.round(outstanding * 100) <= 0) {
+    return invoice;
+  }
+
+  const result = await recordPayment(
+    tx,
+    invoice,
+    { ...payment, paymentDate: new Date(), amount: Number(outstanding.toFixed(2)) },
+    userId
+  );
+  return result.invoice ?? invoice;
+}
+
+/**
+ * Credit notes reverse specific invoice lines, so a credited invoice is fixed until they are voided
+ */
+async function assertNotCredited(tx: DbTransaction, invoiceId: string) {
+  const [creditNote] = await tx
+    .select({ creditNoteNumber: creditNotes.creditNoteNumber })
+    .from(creditNotes)
+    .where(and(eq(creditNotes.invoiceId, invoiceId), ne(creditNotes.status, "void")))
+    .limit(1);
+
+  if (creditNote) {
+    throw new LedgerError(
+      `This invoice has been credited by ${creditNote.creditNoteNumber}. Void the credit note to change it.`
+    );
   }
-  console.log("User ID", session.user.id);
-  return session.user.id;
 }
 
+// Get current user ID helper
 export async function getInvoices() {
   try {
-    const userId = await getCurrentUserId();
+    const { organizationId } = await getOrganizationContext();
 
     const result = await db
       .select({
@@ -55,14 +128,18 @@ export async function getInvoices() {
         taxAmount: invoices.taxAmount,
         total: invoices.total,
         paidAmount: invoices.paidAmount,
+        currency: invoices.currency,
+        exchangeRate: invoices.exchangeRate,
         notes: invoices.notes,
         terms: invoices.terms,
+        quoteNumber: quotes.quoteNumber,
         createdAt: invoices.createdAt,
         updatedAt: invoices.updatedAt,
       })
       .from(invoices)
       .innerJoin(contacts, eq(invoices.customerId, contacts.id))
-      .where(eq(invoices.userId, userId))
+      .leftJoin(quotes, eq(invoices.quoteId, quotes.id))
+      .where(eq(invoices.organizationId, organizationId))
       .orderBy(desc(invoices.createdAt));
 
     return { success: true, data: result };
@@ -74,7 +151,7 @@ export async function getInvoices() {
 
 export async function getInvoiceById(id: string) {
   try {
-    const userId = await getCurrentUserId();
+    const { organizationId } = await getOrganizationContext();
 
     const result = await db
       .select({
@@ -92,6 +169,8 @@ export async function getInvoiceById(id: string) {
         taxAmount: invoices.taxAmount,
         total: invoices.total,
         paidAmount: invoices.paidAmount,
+        currency: invoices.currency,
+        exchangeRate: invoices.exchangeRate,
         notes: invoices.notes,
         terms: invoices.terms,
         createdAt: invoices.createdAt,
@@ -99,7 +178,7 @@ export async function getInvoiceById(id: string) {
       })
       .from(invoices)
       .innerJoin(contacts, eq(invoices.customerId, contacts.id))
-      .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
+      .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
       .limit(1);
 
     if (result.length === 0) {
@@ -114,8 +193,13 @@ export async function getInvoiceById(id: string) {
         quantity: invoiceItems.quantity,
         unitPrice: invoiceItems.unitPrice,
         total: invoiceItems.total,
+        taxCodeId: invoiceItems.taxCodeId,
+        taxCodeName: taxCodes.name,
+        taxRate: invoiceItems.taxRate,
+        taxAmount: invoiceItems.taxAmount,
       })
       .from(invoiceItems)
+      .leftJoin(taxCodes, eq(invoiceItems.taxCodeId, taxCodes.id))
       .where(eq(invoiceItems.invoiceId, id));
 
     return {
@@ -133,100 +217,62 @@ export async function getInvoiceById(id: string) {
 
 export async function createInvoice(formData: FormData) {
   try {
-    const userId = await getCurrentUserId();
+    const { userId, organizationId } = await getOrganizationContext("records:create");
 
     const invoiceData = {
       customerId: formData.get("customerId") as string,
       issueDate: formData.get("issueDate") as string,
       dueDate: formData.get("dueDate") as string,
-      status: formData.get("status") as "draft" | "sent" | "paid" | "overdue",
+      status: formData.get("status") as InvoiceStatus,
       notes: (formData.get("notes") as string) || "",
       terms: (formData.get("terms") as string) || "",
       taxRate: Number(formData.get("taxRate")) || 0,
+      currency: (formData.get("currency") as string) || undefined,
+      exchangeRate: Number(formData.get("exchangeRate")) || undefined,
     };
 
     const validatedInvoice = invoiceSchema.parse(invoiceData);
-
-    // Generate invoice number
-    const existingInvoices = await db
-      .select({ id: invoices.id })
-      .from(invoices)
-      .where(eq(invoices.userId, userId));
-
-    const invoiceNumber = `INV-${String(existingInvoices.length + 1).padStart(
-      4,
-      "0"
-    )}`;
+    const payment = readInitialPayment(formData, validatedInvoice.status);
 
     // Parse and validate invoice items
     const itemsData = formData.get("items") as string;
-    let items: any[] = [];
-    let subtotal = 0;
-
-    if (itemsData) {
-      const parsedItems = JSON.parse(itemsData);
-      items = parsedItems.map((item: any) => {
-        const validatedItem = invoiceItemSchema.parse({
-          description: item.description,
-          quantity: Number(item.quantity),
-          unitPrice: Number(item.unitPrice || item.rate), // Handle both unitPrice and rate
-        });
-        const total = validatedItem.quantity * validatedItem.unitPrice;
-        subtotal += total;
-        return {
-          ...validatedItem,
-          total,
-        };
-      });
-    }
-
-    // Calculate totals
-    const taxAmount = (subtotal * validatedInvoice.taxRate) / 100;
-    const total = subtotal + taxAmount;
+    const items: InvoiceItemInput[] = itemsData
+      ? JSON.parse(itemsData).map((item: any) =>
+          invoiceItemSchema.parse({
+            description: item.description,
+            quantity: Number(item.quantity),
+            unitPrice: Number(item.unitPrice || item.rate), // Handle both unitPrice and rate
+            taxCodeId: item.taxCodeId || null,
+          })
+        )
+      : [];
 
-    // Create invoice in database transaction
     const result = await db.transaction(async (tx) => {
-      // Insert invoice
-      const [newInvoice] = await tx
-        .insert(invoices)
-        .values({
-          invoiceNumber,
-          customerId: validatedInvoice.customerId,
-          issueDate: new Date(validatedInvoice.issueDate),
-          dueDate: new Date(validatedInvoice.dueDate),
-          status: validatedInvoice.status,
-          subtotal: subtotal.toFixed(2),
-          taxRate: validatedInvoice.taxRate.toFixed(2),
-          taxAmount: taxAmount.toFixed(2),
-          total: total.toFixed(2),
-          paidAmount: "0.00",
-          notes: validatedInvoice.notes || null,
-          terms: validatedInvoice.terms || null,
-          userId: userId,
-        })
-        .returning();
-
-      // Insert invoice items
-      if (items.length > 0) {
-        await tx.insert(invoiceItems).values(
-          items.map((item) => ({
-            invoiceId: newInvoice.id,
-            description: item.description,
-            quantity: item.quantity.toFixed(2),
-            unitPrice: item.unitPrice.toFixed(2),
-            total: item.total.toFixed(2),
-          }))
-        );
-      }
+      await assertContactInOrganization(tx, organizationId, validatedInvoice.customerId);
+
+      const invoice = await insertInvoice(tx, {
+        organizationId,
+        userId,
+        customerId: validatedInvoice.customerId,
+        issueDate: new Date(validatedInvoice.issueDate),
+        dueDate: new Date(validatedInvoice.dueDate),
+        status: validatedInvoice.status,
+        taxRate: validatedInvoice.taxRate,
+        currency: validatedInvoice.currency,
+        exchangeRate: validatedInvoice.exchangeRate,
+        notes: validatedInvoice.notes,
+        terms: validatedInvoice.terms,
+        items,
+      });
 
-      return newInvoice;
+      return settleInvoice(tx, invoice, payment, userId);
     });
 
     revalidatePath("/invoices");
     return { success: true, data: result };
   } catch (error) {
     console.error("Error creating invoice:", error);
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return {
         success: false,
         error: error.message,
@@ -238,48 +284,98 @@ export async function createInvoice(formData: FormData) {
 
 export async function updateInvoice(id: string, formData: FormData) {
   try {
-    const userId = await getCurrentUserId();
+    const { userId, organizationId } = await getOrganizationContext("records:create");
 
     const invoiceData = {
       customerId: formData.get("customerId") as string,
       issueDate: formData.get("issueDate") as string,
       dueDate: formData.get("dueDate") as string,
-      status: formData.get("status") as "draft" | "sent" | "paid" | "overdue",
+      status: formData.get("status") as InvoiceStatus,
       notes: (formData.get("notes") as string) || "",
       terms: (formData.get("terms") as string) || "",
       taxRate: Number(formData.get("taxRate")) || 0,
+      currency: (formData.get("currency") as string) || undefined,
+      exchangeRate: Number(formData.get("exchangeRate")) || undefined,
     };
 
     const validatedInvoice = invoiceSchema.parse(invoiceData);
+    const payment = readInitialPayment(formData, validatedInvoice.status);
 
     // Parse and validate invoice items if provided
     const itemsData = formData.get("items") as string;
-    let items: any[] = [];
-    let subtotal = 0;
-
-    if (itemsData) {
-      const parsedItems = JSON.parse(itemsData);
-      items = parsedItems.map((item: any) => {
-        const validatedItem = invoiceItemSchema.parse({
-          description: item.description,
-          quantity: Number(item.quantity),
-          unitPrice: Number(item.unitPrice || item.rate),
-        });
-        const total = validatedItem.quantity * validatedItem.unitPrice;
-        subtotal += total;
-        return {
-          ...validatedItem,
-          total,
-        };
-      });
-    }
-
-    // Calculate totals
-    const taxAmount = (subtotal * validatedInvoice.taxRate) / 100;
-    const total = subtotal + taxAmount;
+    const items: InvoiceItemInput[] = itemsData
+      ? JSON.parse(itemsData).map((item: any) =>
+          invoiceItemSchema.parse({
+            description: item.description,
+            quantity: Number(item.quantity),
+            unitPrice: Number(item.unitPrice || item.rate),
+            taxCodeId: item.taxCodeId || null,
+          })
+        )
+      : [];
 
     // Update invoice in database transaction
     const result = await db.transaction(async (tx) => {
+      const { lines, subtotal, taxAmount, total } = await calculateInvoiceTotalsWithCodes(
+        tx,
+        organizationId,
+        items,
+        validatedInvoice.taxRate
+      );
+
+      // Locked so a concurrent save or payment cannot change the paid amount read here
+      const [existingInvoice] = await tx
+        .select({
+          paidAmount: invoices.paidAmount,
+          currency: invoices.currency,
+          exchangeRate: invoices.exchangeRate,
+        })
+        .from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (existingInvoice) {
+        await assertContactInOrganization(tx, organizationId, validatedInvoice.customerId);
+        await assertNotCredited(tx, id);
+      }
+
+      const paidAmount = Number.parseFloat(existingInvoice?.paidAmount || "0");
+      if (paidAmount > 0 && validatedInvoice.status === "draft") {
+        throw new LedgerError("Invoices with recorded payments cannot be moved back to draft");
+      }
+
+      // Payments are recorded in the invoice currency, so it is fixed once one exists
+      const currency = validatedInvoice.currency ?? existingInvoice?.currency ?? "";
+      if (paidAmount > 0 && currency !== existingInvoice?.currency) {
+        throw new LedgerError("The currency of an invoice with payments cannot be changed");
+      }
+      // Payments cleared receivables at the invoice's rate, so it is fixed once one exists too:
+      // reposting at another rate would leave receivables and the realised gain or loss unbalanced
+      const paidRate = Number.parseFloat(existingInvoice?.exchangeRate ?? "1");
+      if (
+        paidAmount > 0 &&
+        validatedInvoice.exchangeRate !== undefined &&
+        Number(validatedInvoice.exchangeRate.toFixed(8)) !== paidRate
+      ) {
+        throw new LedgerError("The exchange rate of an invoice with payments cannot be changed");
+      }
+      const exchangeRate =
+        paidAmount > 0
+          ? paidRate
+          : await resolveExchangeRate(
+              tx,
+              organizationId,
+              currency,
+              new Date(validatedInvoice.issueDate),
+              validatedInvoice.exchangeRate
+            );
+      if (Math.round(total * 100) < Math.round(paidAmount * 100)) {
+        throw new LedgerError(
+          `Invoice total cannot be less than the ${paidAmount.toFixed(2)} already paid`
+        );
+      }
+
       // Update invoice
       const [updatedInvoice] = await tx
         .update(invoices)
@@ -292,11 +388,13 @@ export async function updateInvoice(id: string, formData: FormData) {
           taxRate: validatedInvoice.taxRate.toFixed(2),
           taxAmount: taxAmount.toFixed(2),
           total: total.toFixed(2),
+          currency,
+          exchangeRate: String(exchangeRate),
           notes: validatedInvoice.notes || null,
           terms: validatedInvoice.terms || null,
           updatedAt: new Date(),
         })
-        .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
         .returning();
 
       if (!updatedInvoice) {
@@ -309,27 +407,22 @@ export async function updateInvoice(id: string, formData: FormData) {
         await tx.delete(invoiceItems).where(eq(invoiceItems.invoiceId, id));
 
         // Insert new items
-        if (items.length > 0) {
-          await tx.insert(invoiceItems).values(
-            items.map((item) => ({
-              invoiceId: id,
-              description: item.description,
-              quantity: item.quantity.toFixed(2),
-              unitPrice: item.unitPrice.toFixed(2),
-              total: item.total.toFixed(2),
-            }))
-          );
+        if (lines.length > 0) {
+          await tx.insert(invoiceItems).values(invoiceItemRows(id, lines));
         }
       }
 
-      return updatedInvoice;
+      const syncedInvoice = (await syncInvoicePayments(tx, id)) ?? updatedInvoice;
+      await postInvoice(tx, syncedInvoice);
+
+      return settleInvoice(tx, syncedInvoice, payment, userId);
     });
 
     revalidatePath("/invoices");
     return { success: true, data: result };
   } catch (error) {
     console.error("Error updating invoice:", error);
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return {
         success: false,
         error: error.message,
@@ -341,46 +434,108 @@ export async function updateInvoice(id: string, formData: FormData) {
 
 export async function deleteInvoice(id: string) {
   try {
-    const userId = await getCurrentUserId();
+    const { organizationId } = await getOrganizationContext("records:delete");
 
     await db.transaction(async (tx) => {
+      // Locked so a payment cannot be recorded between the check below and the delete
+      const [existingInvoice] = await tx
+        .select({ id: invoices.id })
+        .from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (!existingInvoice) {
+        throw new Error("Invoice not found or unauthorized");
+      }
+
+      const payments = await tx
+        .select({ id: invoicePayments.id })
+        .from(invoicePayments)
+        .where(eq(invoicePayments.invoiceId, id))
+        .limit(1);
+
+      const [application] = await tx
+        .select({ id: creditApplications.id })
+        .from(creditApplications)
+        .where(eq(creditApplications.invoiceId, id))
+        .limit(1);
+
+      if (payments.length > 0 || application) {
+        throw new LedgerError("Invoices with recorded payments cannot be deleted");
+      }
+      await assertNotCredited(tx, id);
+
       // Delete invoice items first (due to foreign key constraint)
       await tx.delete(invoiceItems).where(eq(invoiceItems.invoiceId, id));
 
       // Delete invoice
       const result = await tx
         .delete(invoices)
-        .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
         .returning();
 
       if (result.length === 0) {
         throw new Error("Invoice not found or unauthorized");
       }
+
+      await unpostSource(tx, "invoice", id);
     });
 
     revalidatePath("/invoices");
     return { success: true };
   } catch (error) {
     console.error("Error deleting invoice:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to delete invoice" };
   }
 }
 
-export async function updateInvoiceStatus(
-  id: string,
-  status: "draft" | "sent" | "paid" | "overdue"
-) {
+export async function updateInvoiceStatus(id: string, status: InvoiceStatus) {
   try {
-    const userId = await getCurrentUserId();
+    const { organizationId } = await getOrganizationContext("records:create");
 
-    const [result] = await db
-      .update(invoices)
-      .set({
-        status,
-        updatedAt: new Date(),
-      })
-      .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
-      .returning();
+    if (PAYMENT_STATUSES.includes(status)) {
+      return {
+        success: false,
+        error: "Record a payment to mark an invoice as paid",
+      };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [existingInvoice] = await tx
+        .select({ paidAmount: invoices.paidAmount })
+        .from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (Number.parseFloat(existingInvoice?.paidAmount || "0") > 0) {
+        throw new LedgerError(
+          "The status of an invoice with payments follows its payments"
+        );
+      }
+      if (status === "draft") {
+        await assertNotCredited(tx, id);
+      }
+
+      const [updatedInvoice] = await tx
+        .update(invoices)
+        .set({
+          status,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(invoices.id, id), eq(invoices.organizationId, organizationId)))
+        .returning();
+
+      if (updatedInvoice) {
+        await postInvoice(tx, updatedInvoice);
+      }
+
+      return updatedInvoice;
+    });
 
     if (!result) {
       return { success: false, error: "Invoice not found or unauthorized" };
@@ -390,6 +545,9 @@ export async function updateInvoiceStatus(
     return { success: true, data: result };
   } catch (error) {
     console.error("Error updating invoice status:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to update invoice status" };
   }
 }
@@ -397,7 +555,7 @@ export async function updateInvoiceStatus(
 // Helper function to get customers for dropdown
 export async function getCustomers() {
   try {
-    const userId = await getCurrentUserId();
+    const { organizationId } = await getOrganizationContext();
 
     const result = await db
       .select({
@@ -405,12 +563,13 @@ export async function getCustomers() {
         name: contacts.name,
         email: contacts.email,
         address: contacts.address,
+        currency: contacts.currency,
       })
       .from(contacts)
       .where(
         and(
           eq(contacts.type, "customer"),
-          eq(contacts.userId, userId),
+          eq(contacts.organizationId, organizationId),
           eq(contacts.isActive, true)
         )
       )
@@ -0,0 +1,241 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { memberships, organizations, user } from "@/db/schema";
+import { and, asc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { LedgerError } from "@/lib/ledger";
+import {
+  assertCanManageMembership,
+  createOrganization as insertOrganization,
+  getOrganizationContext,
+  setActiveOrganization,
+} from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+
+const organizationSchema = z.object({
+  name: z.string().min(1, "Organisation name is required").max(255),
+});
+
+const memberSchema = z.object({
+  email: z.email("Invalid email address"),
+  role: z.enum(["owner", "admin", "accountant", "member"]),
+});
+
+export async function getOrganizations() {
+  try {
+    const { userId, organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: organizations.id,
+        name: organizations.name,
+        role: memberships.role,
+      })
+      .from(memberships)
+      .innerJoin(organizations, eq(memberships.organizationId, organizations.id))
+      .where(eq(memberships.userId, userId))
+      .orderBy(asc(organizations.name));
+
+    return {
+      success: true,
+      data: {
+        activeOrganizationId: organizationId,
+        organizations: result,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching organisations:", error);
+    return { success: false, error: "Failed to fetch organisations" };
+  }
+}
+
+export async function switchOrganization(organizationId: string) {
+  try {
+    const { sessionId, userId } = await getOrganizationContext();
+
+    const [membership] = await db
+      .select({ id: memberships.id })
+      .from(memberships)
+      .where(
+        and(
+          eq(memberships.organizationId, organizationId),
+          eq(memberships.userId, userId)
+        )
+      )
+      .limit(1);
+
+    if (!membership) {
+      return { success: false, error: "You are not a member of this organisation" };
+    }
+
+    await setActiveOrganization(sessionId, organizationId);
+
+    revalidatePath("/", "layout");
+    return { success: true };
+  } catch (error) {
+    console.error("Error switching organisation:", error);
+    return { success: false, error: "Failed to switch organisation" };
+  }
+}
+
+export async function createOrganization(formData: FormData) {
+  try {
+    const { sessionId, userId } = await getOrganizationContext();
+
+    const validatedData = organizationSchema.parse({
+      name: formData.get("name") as string,
+    });
+
+    const organization = await db.transaction((tx) =>
+      insertOrganization(tx, { name: validatedData.name, userId })
+    );
+    await setActiveOrganization(sessionId, organization.id);
+
+    revalidatePath("/", "layout");
+    return { success: true, data: organization };
+  } catch (error) {
+    console.error("Error creating organisation:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create organisation" };
+  }
+}
+
+export async function renameOrganization(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("organization:manage");
+
+
+    const validatedData = organizationSchema.parse({
+      name: formData.get("name") as string,
+    });
+
+    const [result] = await db
+      .update(organizations)
+      .set({ name: validatedData.name, updatedAt: new Date() })
+      .where(eq(organizations.id, organizationId))
+      .returning();
+
+    revalidatePath("/", "layout");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error renaming organisation:", error);
+    if (error instanceof z.ZodError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to rename organisation" };
+  }
+}
+
+export async function getOrganizationMembers() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: memberships.id,
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        role: memberships.role,
+        createdAt: memberships.createdAt,
+      })
+      .from(memberships)
+      .innerJoin(user, eq(memberships.userId, user.id))
+      .where(eq(memberships.organizationId, organizationId))
+      .orderBy(asc(memberships.createdAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching organisation members:", error);
+    return { success: false, error: "Failed to fetch organisation members" };
+  }
+}
+
+/**
+ * Add an existing user to the active organisation by email
+ */
+export async function addOrganizationMember(formData: FormData) {
+  try {
+    const { organizationId, role } = await getOrganizationContext("users:manage");
+
+
+    const validatedData = memberSchema.parse({
+      email: formData.get("email") as string,
+      role: (formData.get("role") as string) || "member",
+    });
+
+    if (validatedData.role === "owner" && role !== "owner") {
+      return { success: false, error: "Only owners can add another owner" };
+    }
+
+    const [existingUser] = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.email, validatedData.email))
+      .limit(1);
+
+    if (!existingUser) {
+      return { success: false, error: "No user is registered with this email" };
+    }
+
+    const [membership] = await db
+      .insert(memberships)
+      .values({
+        organizationId,
+        userId: existingUser.id,
+        role: validatedData.role,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!membership) {
+      return { success: false, error: "This user is already a member" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true, data: membership };
+  } catch (error) {
+    console.error("Error adding organisation member:", error);
+    if (error instanceof z.ZodError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to add member" };
+  }
+}
+
+export async function removeOrganizationMember(membershipId: string) {
+  try {
+    const context = await getOrganizationContext("users:manage");
+
+    const [membership] = await db
+      .select({ userId: memberships.userId, role: memberships.role })
+      .from(memberships)
+      .where(
+        and(
+          eq(memberships.id, membershipId),
+          eq(memberships.organizationId, context.organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!membership) {
+      return { success: false, error: "Member not found" };
+    }
+
+    await assertCanManageMembership(db, context, membership, "remove");
+    await db.delete(memberships).where(eq(memberships.id, membershipId));
+
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing organisation member:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to remove member" };
+  }
+}
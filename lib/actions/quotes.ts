@@ -0,0 +1,416 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { contacts, invoices, quoteItems, quotes, taxCodes } from "@/db/schema";
+import type { QuoteStatus } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { LedgerError } from "@/lib/ledger";
+import { nextDocumentNumber } from "@/lib/document-sequences";
+import { type InvoiceItemInput, calculateInvoiceTotalsWithCodes } from "@/lib/invoices";
+import {
+  assertNotConverted,
+  convertQuote,
+  isPastExpiry,
+  quoteItemRows,
+} from "@/lib/quotes";
+import {
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+
+const quoteSchema = z
+  .object({
+    customerId: z.string().uuid(),
+    issueDate: z.string(),
+    expiryDate: z.string(),
+    // Quotes only become accepted by converting them into an invoice
+    status: z.enum(["draft", "sent", "declined", "expired"]),
+    notes: z.string().optional(),
+    terms: z.string().optional(),
+    taxRate: z.number().min(0).max(100).optional().default(0),
+    currency: z.string().length(3).optional(),
+  })
+  .refine((data) => new Date(data.expiryDate) >= new Date(data.issueDate), {
+    message: "Expiry date cannot be before the issue date",
+    path: ["expiryDate"],
+  });
+
+const quoteItemSchema = z.object({
+  description: z.string().min(1, "Description is required"),
+  quantity: z.coerce.number().positive("Quantity must be positive"),
+  unitPrice: z.coerce.number().min(0, "Unit price must be non-negative"),
+  taxCodeId: z.string().uuid().nullable().optional(),
+});
+
+const convertSchema = z.object({
+  issueDate: z.string(),
+  paymentTermsDays: z.number().int().min(0).max(365).default(30),
+});
+
+function readQuoteForm(formData: FormData) {
+  const quote = quoteSchema.parse({
+    customerId: formData.get("customerId") as string,
+    issueDate: formData.get("issueDate") as string,
+    expiryDate: formData.get("expiryDate") as string,
+    status: formData.get("status") as QuoteStatus,
+    notes: (formData.get("notes") as string) || "",
+    terms: (formData.get("terms") as string) || "",
+    taxRate: Number(formData.get("taxRate")) || 0,
+    currency: (formData.get("currency") as string) || undefined,
+  });
+
+  const itemsData = formData.get("items") as string;
+  const items: InvoiceItemInput[] = z.array(quoteItemSchema).parse(itemsData ? JSON.parse(itemsData) : []);
+
+  return { quote, items };
+}
+
+export async function getQuotes() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const result = await db
+      .select({
+        id: quotes.id,
+        quoteNumber: quotes.quoteNumber,
+        customerId: quotes.customerId,
+        customerName: contacts.name,
+        customerEmail: contacts.email,
+        issueDate: quotes.issueDate,
+        expiryDate: quotes.expiryDate,
+        status: quotes.status,
+        subtotal: quotes.subtotal,
+        taxRate: quotes.taxRate,
+        taxAmount: quotes.taxAmount,
+        total: quotes.total,
+        currency: quotes.currency,
+        notes: quotes.notes,
+        terms: quotes.terms,
+        invoiceId: invoices.id,
+        invoiceNumber: invoices.invoiceNumber,
+        createdAt: quotes.createdAt,
+        updatedAt: quotes.updatedAt,
+      })
+      .from(quotes)
+      .innerJoin(contacts, eq(quotes.customerId, contacts.id))
+      .leftJoin(invoices, eq(invoices.quoteId, quotes.id))
+      .where(eq(quotes.organizationId, organizationId))
+      .orderBy(desc(quotes.createdAt));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching quotes:", error);
+    return { success: false, error: "Failed to fetch quotes" };
+  }
+}
+
+export async function getQuoteById(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const [quote] = await db
+      .select({
+        id: quotes.id,
+        quoteNumber: quotes.quoteNumber,
+        customerId: quotes.customerId,
+        customerName: contacts.name,
+        customerEmail: contacts.email,
+        customerAddress: contacts.address,
+        issueDate: quotes.issueDate,
+        expiryDate: quotes.expiryDate,
+        status: quotes.status,
+        subtotal: quotes.subtotal,
+        taxRate: quotes.taxRate,
+        taxAmount: quotes.taxAmount,
+        total: quotes.total,
+        currency: quotes.currency,
+        notes: quotes.notes,
+        terms: quotes.terms,
+        invoiceId: invoices.id,
+        invoiceNumber: invoices.invoiceNumber,
+        createdAt: quotes.createdAt,
+        updatedAt: quotes.updatedAt,
+      })
+      .from(quotes)
+      .innerJoin(contacts, eq(quotes.customerId, contacts.id))
+      .leftJoin(invoices, eq(invoices.quoteId, quotes.id))
+      .where(and(eq(quotes.id, id), eq(quotes.organizationId, organizationId)))
+      .limit(1);
+
+    if (!quote) {
+      return { success: false, error: "Quote not found" };
+    }
+
+    const items = await db
+      .select({
+        id: quoteItems.id,
+        description: quoteItems.description,
+        quantity: quoteItems.quantity,
+        unitPrice: quoteItems.unitPrice,
+        total: quoteItems.total,
+        taxCodeId: quoteItems.taxCodeId,
+        taxCodeName: taxCodes.name,
+        taxRate: quoteItems.taxRate,
+        taxAmount: quoteItems.taxAmount,
+      })
+      .from(quoteItems)
+      .leftJoin(taxCodes, eq(quoteItems.taxCodeId, taxCodes.id))
+      .where(eq(quoteItems.quoteId, id));
+
+    return { success: true, data: { ...quote, items } };
+  } catch (error) {
+    console.error("Error fetching quote:", error);
+    return { success: false, error: "Failed to fetch quote" };
+  }
+}
+
+export async function createQuote(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+    const { quote, items } = readQuoteForm(formData);
+
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, quote.customerId);
+
+      const { lines, subtotal, taxAmount, total } = await calculateInvoiceTotalsWithCodes(
+        tx,
+        organizationId,
+        items,
+        quote.taxRate
+      );
+
+      let currency = quote.currency;
+      if (!currency) {
+        const [customer] = await tx
+          .select({ currency: contacts.currency })
+          .from(contacts)
+          .where(eq(contacts.id, quote.customerId))
+          .limit(1);
+        currency = customer.currency;
+      }
+
+      const [newQuote] = await tx
+        .insert(quotes)
+        .values({
+          quoteNumber: await nextDocumentNumber(tx, organizationId, "quote"),
+          customerId: quote.customerId,
+          issueDate: new Date(quote.issueDate),
+          expiryDate: new Date(quote.expiryDate),
+          status: quote.status,
+          subtotal: subtotal.toFixed(2),
+          taxRate: quote.taxRate.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2),
+          currency,
+          notes: quote.notes || null,
+          terms: quote.terms || null,
+          organizationId,
+          userId,
+        })
+        .returning();
+
+      if (lines.length > 0) {
+        await tx.insert(quoteItems).values(quoteItemRows(newQuote.id, lines));
+      }
+
+      return newQuote;
+    });
+
+    revalidatePath("/quotes");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error creating quote:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create quote" };
+  }
+}
+
+export async function updateQuote(id: string, formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:create");
+    const { quote, items } = readQuoteForm(formData);
+
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, quote.customerId);
+      await assertNotConverted(tx, id);
+
+      const { lines, subtotal, taxAmount, total } = await calculateInvoiceTotalsWithCodes(
+        tx,
+        organizationId,
+        items,
+        quote.taxRate
+      );
+
+      const [existingQuote] = await tx
+        .select({ currency: quotes.currency })
+        .from(quotes)
+        .where(and(eq(quotes.id, id), eq(quotes.organizationId, organizationId)))
+        .limit(1);
+
+      if (!existingQuote) {
+        throw new LedgerError("Quote not found");
+      }
+
+      const [updatedQuote] = await tx
+        .update(quotes)
+        .set({
+          customerId: quote.customerId,
+          issueDate: new Date(quote.issueDate),
+          expiryDate: new Date(quote.expiryDate),
+          status: quote.status,
+          subtotal: subtotal.toFixed(2),
+          taxRate: quote.taxRate.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2),
+          currency: quote.currency ?? existingQuote.currency,
+          notes: quote.notes || null,
+          terms: quote.terms || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(quotes.id, id))
+        .returning();
+
+      await tx.delete(quoteItems).where(eq(quoteItems.quoteId, id));
+      if (lines.length > 0) {
+        await tx.insert(quoteItems).values(quoteItemRows(id, lines));
+      }
+
+      return updatedQuote;
+    });
+
+    revalidatePath("/quotes");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error updating quote:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to update quote" };
+  }
+}
+
+export async function updateQuoteStatus(id: string, status: QuoteStatus) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:create");
+
+    if (status === "accepted") {
+      return {
+        success: false,
+        error: "Convert the quote into an invoice to mark it as accepted",
+      };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      await assertNotConverted(tx, id);
+
+      const [existingQuote] = await tx
+        .select({ expiryDate: quotes.expiryDate })
+        .from(quotes)
+        .where(and(eq(quotes.id, id), eq(quotes.organizationId, organizationId)))
+        .limit(1);
+
+      if (!existingQuote) {
+        throw new LedgerError("Quote not found");
+      }
+      if (status === "sent" && isPastExpiry(existingQuote)) {
+        throw new LedgerError("This quote has expired. Extend its expiry date before sending it.");
+      }
+
+      const [updatedQuote] = await tx
+        .update(quotes)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(quotes.id, id))
+        .returning();
+
+      return updatedQuote;
+    });
+
+    revalidatePath("/quotes");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error updating quote status:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to update quote status" };
+  }
+}
+
+/**
+ * Delete a quote. The invoice it was converted into is kept and loses its link to the quote.
+ */
+export async function deleteQuote(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:delete");
+
+    const result = await db
+      .delete(quotes)
+      .where(and(eq(quotes.id, id), eq(quotes.organizationId, organizationId)))
+      .returning({ id: quotes.id });
+
+    if (result.length === 0) {
+      return { success: false, error: "Quote not found" };
+    }
+
+    revalidatePath("/quotes");
+    revalidatePath("/invoices");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting quote:", error);
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete quote" };
+  }
+}
+
+/**
+ * Copy a quote's lines into a new draft invoice and mark the quote accepted
+ */
+export async function convertQuoteToInvoice(id: string, formData?: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("records:create");
+
+    const options = convertSchema.parse({
+      issueDate: (formData?.get("issueDate") as string) || new Date().toISOString(),
+      paymentTermsDays: formData?.get("paymentTermsDays")
+        ? Number(formData.get("paymentTermsDays"))
+        : undefined,
+    });
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the quote so two clicks can't convert it twice
+      const [quote] = await tx
+        .select()
+        .from(quotes)
+        .where(and(eq(quotes.id, id), eq(quotes.organizationId, organizationId)))
+        .for("update")
+        .limit(1);
+
+      if (!quote) {
+        throw new LedgerError("Quote not found");
+      }
+
+      return convertQuote(tx, quote, {
+        issueDate: new Date(options.issueDate),
+        paymentTermsDays: options.paymentTermsDays,
+        userId,
+      });
+    });
+
+    revalidatePath("/quotes");
+    revalidatePath("/invoices");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error converting quote:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to convert quote" };
+  }
+}
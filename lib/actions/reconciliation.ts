@@ -0,0 +1,354 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { accounts, reconciliationItems, reconciliations, user } from "@/db/schema"
+import { and, desc, eq, inArray } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { LedgerError, type DbTransaction, getLedgerBalances } from "@/lib/ledger"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+import {
+  RECONCILABLE_ACCOUNT_TYPES,
+  getReconciliationCandidates,
+  getReconciliationOpeningBalance,
+} from "@/lib/reconciliation"
+
+const statementSchema = z.object({
+  statementDate: z.string().min(1, "Statement date is required"),
+  statementBalance: z.number({ message: "Statement balance is required" }),
+})
+
+const progressSchema = statementSchema.extend({
+  transactionIds: z.array(z.string().uuid()),
+})
+
+function readStatementForm(formData: FormData) {
+  return {
+    statementDate: formData.get("statementDate") as string,
+    statementBalance: Number.parseFloat(formData.get("statementBalance") as string),
+  }
+}
+
+async function getOwnedReconciliation(tx: DbTransaction, organizationId: string, id: string) {
+  const [reconciliation] = await tx
+    .select()
+    .from(reconciliations)
+    .where(and(eq(reconciliations.id, id), eq(reconciliations.organizationId, organizationId)))
+    .limit(1)
+
+  if (!reconciliation) {
+    throw new LedgerError("Reconciliation not found")
+  }
+  return reconciliation
+}
+
+// Statements are reconciled in order, so each must close after the last completed one
+async function assertAfterLastReconciliation(tx: DbTransaction, accountId: string, statementDate: Date) {
+  const [latest] = await tx
+    .select({ statementDate: reconciliations.statementDate })
+    .from(reconciliations)
+    .where(and(eq(reconciliations.accountId, accountId), eq(reconciliations.status, "completed")))
+    .orderBy(desc(reconciliations.statementDate))
+    .limit(1)
+
+  if (latest && statementDate <= latest.statementDate) {
+    throw new LedgerError("The statement date must be after the last reconciled statement")
+  }
+}
+
+// Callers lock the account row first, so two reconciliations cannot be opened on it at once
+async function assertNoReconciliationInProgress(tx: DbTransaction, accountId: string) {
+  const [inProgress] = await tx
+    .select({ id: reconciliations.id })
+    .from(reconciliations)
+    .where(and(eq(reconciliations.accountId, accountId), eq(reconciliations.status, "in_progress")))
+    .limit(1)
+  if (inProgress) {
+    throw new LedgerError("This account already has a reconciliation in progress")
+  }
+}
+
+/**
+ * Bank and mobile accounts with their ledger balance, last completed reconciliation and any
+ * reconciliation in progress
+ */
+export async function getReconciliationAccounts() {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const accountRows = await db
+      .select({ id: accounts.id, name: accounts.name, type: accounts.type })
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.organizationId, organizationId),
+          eq(accounts.isActive, true),
+          inArray(accounts.type, RECONCILABLE_ACCOUNT_TYPES),
+        ),
+      )
+      .orderBy(accounts.name)
+    const balances = await getLedgerBalances(db, accountRows.map((account) => account.id))
+
+    const history = await db
+      .select({
+        id: reconciliations.id,
+        accountId: reconciliations.accountId,
+        statementDate: reconciliations.statementDate,
+        statementBalance: reconciliations.statementBalance,
+        status: reconciliations.status,
+        completedAt: reconciliations.completedAt,
+        completedBy: user.name,
+      })
+      .from(reconciliations)
+      .leftJoin(user, eq(reconciliations.userId, user.id))
+      .where(eq(reconciliations.organizationId, organizationId))
+      .orderBy(desc(reconciliations.statementDate))
+
+    return {
+      success: true,
+      data: accountRows.map((account) => ({
+        ...account,
+        balance: balances.get(account.id) ?? 0,
+        inProgress: history.find((row) => row.accountId === account.id && row.status === "in_progress") ?? null,
+        history: history.filter((row) => row.accountId === account.id && row.status === "completed"),
+      })),
+    }
+  } catch (error) {
+    console.error("Error fetching reconciliation accounts:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to fetch reconciliation accounts" }
+  }
+}
+
+/**
+ * A reconciliation with its starting balance and the transactions that can be ticked off
+ */
+export async function getReconciliation(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const result = await db.transaction(async (tx) => {
+      const reconciliation = await getOwnedReconciliation(tx, organizationId, id)
+      const openingBalance = await getReconciliationOpeningBalance(tx, reconciliation)
+      const candidates = await getReconciliationCandidates(tx, reconciliation)
+
+      // A completed reconciliation only shows what it cleared
+      const lines = reconciliation.status === "completed" ? candidates.filter((line) => line.cleared) : candidates
+
+      return { ...reconciliation, openingBalance, lines }
+    })
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching reconciliation:", error)
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to fetch reconciliation" }
+  }
+}
+
+export async function startReconciliation(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("accounts:manage")
+
+    const accountId = z.string().uuid("Choose an account").parse(formData.get("accountId"))
+    const data = statementSchema.parse(readStatementForm(formData))
+
+    const result = await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select({ type: accounts.type })
+        .from(accounts)
+        .where(and(eq(accounts.id, accountId), eq(accounts.organizationId, organizationId)))
+        .for("update")
+        .limit(1)
+
+      if (!account || !account.type || !RECONCILABLE_ACCOUNT_TYPES.includes(account.type)) {
+        throw new LedgerError("Only bank and mobile accounts can be reconciled")
+      }
+
+      await assertNoReconciliationInProgress(tx, accountId)
+
+      const statementDate = new Date(data.statementDate)
+      await assertAfterLastReconciliation(tx, accountId, statementDate)
+
+      const [reconciliation] = await tx
+        .insert(reconciliations)
+        .values({
+          organizationId,
+          accountId,
+          userId,
+          statementDate,
+          statementBalance: data.statementBalance.toFixed(2),
+        })
+        .returning()
+      return reconciliation
+    })
+
+    revalidatePath("/reconciliation")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error starting reconciliation:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to start reconciliation" }
+  }
+}
+
+/**
+ * Save the statement details and ticked transactions. With `complete` set the reconciliation is
+ * finished, which requires the cleared balance to match the statement and locks the transactions.
+ */
+export async function saveReconciliation(id: string, formData: FormData, complete = false) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("accounts:manage")
+
+    const data = progressSchema.parse({
+      ...readStatementForm(formData),
+      transactionIds: JSON.parse((formData.get("transactionIds") as string) || "[]"),
+    })
+
+    const result = await db.transaction(async (tx) => {
+      const existing = await getOwnedReconciliation(tx, organizationId, id)
+      if (existing.status !== "in_progress") {
+        throw new LedgerError("This reconciliation has already been completed")
+      }
+      await assertAfterLastReconciliation(tx, existing.accountId, new Date(data.statementDate))
+
+      const [reconciliation] = await tx
+        .update(reconciliations)
+        .set({
+          statementDate: new Date(data.statementDate),
+          statementBalance: data.statementBalance.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(reconciliations.id, id))
+        .returning()
+
+      // Only transactions that can still be cleared in this reconciliation are kept
+      const candidates = await getReconciliationCandidates(tx, reconciliation)
+      const ticked = new Set(data.transactionIds)
+      const cleared = candidates.filter((line) => ticked.has(line.id))
+
+      await tx.delete(reconciliationItems).where(eq(reconciliationItems.reconciliationId, id))
+      if (cleared.length > 0) {
+        await tx
+          .insert(reconciliationItems)
+          .values(cleared.map((line) => ({ reconciliationId: id, transactionId: line.id })))
+      }
+
+      if (!complete) {
+        return reconciliation
+      }
+
+      const openingBalance = await getReconciliationOpeningBalance(tx, reconciliation)
+      const clearedBalance = cleared.reduce((sum, line) => sum + line.amount, openingBalance)
+      const difference = data.statementBalance - clearedBalance
+      if (Math.abs(difference) >= 0.005) {
+        throw new LedgerError(`The cleared balance is ${difference.toFixed(2)} away from the statement balance`)
+      }
+
+      const [completed] = await tx
+        .update(reconciliations)
+        .set({ status: "completed", userId, completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(reconciliations.id, id))
+        .returning()
+      return completed
+    })
+
+    revalidatePath("/reconciliation")
+    revalidatePath("/transactions")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error saving reconciliation:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to save reconciliation" }
+  }
+}
+
+/**
+ * Reopen the latest completed reconciliation of an account, unlocking its transactions
+ */
+export async function reopenReconciliation(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("records:void")
+
+    await db.transaction(async (tx) => {
+      const reconciliation = await getOwnedReconciliation(tx, organizationId, id)
+      if (reconciliation.status !== "completed") {
+        throw new LedgerError("Only completed reconciliations can be reopened")
+      }
+
+      await tx
+        .select({ id: accounts.id })
+        .from(accounts)
+        .where(and(eq(accounts.id, reconciliation.accountId), eq(accounts.organizationId, organizationId)))
+        .for("update")
+      await assertNoReconciliationInProgress(tx, reconciliation.accountId)
+
+      const [latest] = await tx
+        .select({ id: reconciliations.id, status: reconciliations.status })
+        .from(reconciliations)
+        .where(eq(reconciliations.accountId, reconciliation.accountId))
+        .orderBy(desc(reconciliations.statementDate))
+        .limit(1)
+      if (latest?.id !== reconciliation.id) {
+        throw new LedgerError("Only the account's most recent reconciliation can be reopened")
+      }
+
+      await tx
+        .update(reconciliations)
+        .set({ status: "in_progress", completedAt: null, updatedAt: new Date() })
+        .where(eq(reconciliations.id, id))
+    })
+
+    revalidatePath("/reconciliation")
+    revalidatePath("/transactions")
+    return { success: true }
+  } catch (error) {
+    console.error("Error reopening reconciliation:", error)
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to reopen reconciliation" }
+  }
+}
+
+/**
+ * Discard a reconciliation that has not been completed
+ */
+export async function cancelReconciliation(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const deleted = await db
+      .delete(reconciliations)
+      .where(
+        and(
+          eq(reconciliations.id, id),
+          eq(reconciliations.organizationId, organizationId),
+          eq(reconciliations.status, "in_progress"),
+        ),
+      )
+      .returning({ id: reconciliations.id })
+
+    if (deleted.length === 0) {
+      return { success: false, error: "Only reconciliations in progress can be discarded" }
+    }
+
+    revalidatePath("/reconciliation")
+    return { success: true }
+  } catch (error) {
+    console.error("Error discarding reconciliation:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to discard reconciliation" }
+  }
+}
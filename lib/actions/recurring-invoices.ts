@@ -0,0 +1,329 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import {
+  contacts,
+  invoices,
+  recurringInvoiceItems,
+  recurringInvoices,
+} from "@/db/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { loadTaxCodes } from "@/lib/invoices";
+import { LedgerError } from "@/lib/ledger";
+import { runRecurringInvoices } from "@/lib/jobs/run-recurring-invoices";
+import {
+  nextOccurrenceAfter,
+  optionalFormField,
+  readRecurrenceRule,
+} from "@/lib/recurrence";
+import {
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
+
+const recurringInvoiceSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  customerId: z.string().uuid("Select a customer"),
+  taxRate: z.number().min(0).max(100).optional().default(0),
+  paymentTermsDays: z.number().int().min(0).max(365).default(30),
+  autoSend: z.boolean().default(false),
+  notes: z.string().optional(),
+  terms: z.string().optional(),
+});
+
+const templateItemSchema = z.object({
+  description: z.string().min(1, "Description is required"),
+  quantity: z.coerce.number().positive("Quantity must be positive"),
+  unitPrice: z.coerce.number().min(0, "Unit price must be non-negative"),
+  taxCodeId: z.string().uuid().nullable().optional(),
+});
+
+type TemplateItemInput = z.infer<typeof templateItemSchema>;
+
+function readRecurringInvoiceForm(formData: FormData) {
+  const template = recurringInvoiceSchema.parse({
+    name: formData.get("name") as string,
+    customerId: formData.get("customerId") as string,
+    taxRate: Number(formData.get("taxRate")) || 0,
+    paymentTermsDays: Number(optionalFormField(formData, "paymentTermsDays") ?? 30),
+    autoSend: formData.get("autoSend") === "true",
+    notes: optionalFormField(formData, "notes"),
+    terms: optionalFormField(formData, "terms"),
+  });
+  const rule = readRecurrenceRule(formData);
+
+  const itemsData = formData.get("items") as string;
+  const items: TemplateItemInput[] = z
+    .array(templateItemSchema)
+    .parse(itemsData ? JSON.parse(itemsData) : []);
+
+  if (items.length === 0) {
+    throw new LedgerError("A recurring invoice needs at least one line item");
+  }
+
+  const values = {
+    name: template.name,
+    customerId: template.customerId,
+    taxRate: template.taxRate.toFixed(2),
+    paymentTermsDays: template.paymentTermsDays,
+    autoSend: template.autoSend,
+    notes: template.notes || null,
+    terms: template.terms || null,
+    ...rule,
+  };
+
+  return { rule, values, items };
+}
+
+function toItemRows(recurringInvoiceId: string, items: TemplateItemInput[]) {
+  return items.map((item) => ({
+    recurringInvoiceId,
+    description: item.description,
+    quantity: item.quantity.toFixed(2),
+    unitPrice: item.unitPrice.toFixed(2),
+    taxCodeId: item.taxCodeId ?? null,
+  }));
+}
+
+export async function getRecurringInvoices() {
+  try {
+    const { organizationId } = await getOrganizationContext();
+
+    const templates = await db
+      .select({
+        id: recurringInvoices.id,
+        name: recurringInvoices.name,
+        customerId: recurringInvoices.customerId,
+        customerName: contacts.name,
+        // Generated invoices are issued in the customer's currency
+        customerCurrency: contacts.currency,
+        taxRate: recurringInvoices.taxRate,
+        paymentTermsDays: recurringInvoices.paymentTermsDays,
+        autoSend: recurringInvoices.autoSend,
+        notes: recurringInvoices.notes,
+        terms: recurringInvoices.terms,
+        frequency: recurringInvoices.frequency,
+        interval: recurringInvoices.interval,
+        dayOfMonth: recurringInvoices.dayOfMonth,
+        weekOfMonth: recurringInvoices.weekOfMonth,
+        dayOfWeek: recurringInvoices.dayOfWeek,
+        startDate: recurringInvoices.startDate,
+        endDate: recurringInvoices.endDate,
+        maxOccurrences: recurringInvoices.maxOccurrences,
+        nextDate: recurringInvoices.nextDate,
+        isActive: recurringInvoices.isActive,
+        lastRunAt: recurringInvoices.lastRunAt,
+        createdAt: recurringInvoices.createdAt,
+      })
+      .from(recurringInvoices)
+      .innerJoin(contacts, eq(recurringInvoices.customerId, contacts.id))
+      .where(eq(recurringInvoices.organizationId, organizationId))
+      .orderBy(desc(recurringInvoices.createdAt));
+
+    const items =
+      templates.length > 0
+        ? await db
+            .select({
+              id: recurringInvoiceItems.id,
+              recurringInvoiceId: recurringInvoiceItems.recurringInvoiceId,
+              description: recurringInvoiceItems.description,
+              quantity: recurringInvoiceItems.quantity,
+              unitPrice: recurringInvoiceItems.unitPrice,
+              taxCodeId: recurringInvoiceItems.taxCodeId,
+            })
+            .from(recurringInvoiceItems)
+            .where(
+              inArray(
+                recurringInvoiceItems.recurringInvoiceId,
+                templates.map((template) => template.id)
+              )
+            )
+            .orderBy(asc(recurringInvoiceItems.createdAt))
+        : [];
+
+    const result = templates.map((template) => ({
+      ...template,
+      items: items.filter((item) => item.recurringInvoiceId === template.id),
+    }));
+
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error fetching recurring invoices:", error);
+    return { success: false, error: "Failed to fetch recurring invoices" };
+  }
+}
+
+export async function createRecurringInvoice(formData: FormData) {
+  try {
+    const { userId, organizationId } = await getOrganizationContext("recurring:manage");
+    const { rule, values, items } = readRecurringInvoiceForm(formData);
+
+    // The first invoice is issued on the start date
+    const nextDate = nextOccurrenceAfter(rule, null);
+    if (!nextDate) {
+      return { success: false, error: "End date must be on or after the start date" };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, values.customerId);
+      await loadTaxCodes(tx, organizationId, items.map((item) => item.taxCodeId));
+
+      const [template] = await tx
+        .insert(recurringInvoices)
+        .values({ ...values, nextDate, organizationId, userId, isActive: true })
+        .returning();
+
+      await tx.insert(recurringInvoiceItems).values(toItemRows(template.id, items));
+
+      return template;
+    });
+
+    revalidatePath("/recurring-invoices");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error creating recurring invoice:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create recurring invoice" };
+  }
+}
+
+export async function updateRecurringInvoice(id: string, formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("recurring:manage");
+    const { rule, values, items } = readRecurringInvoiceForm(formData);
+
+    const result = await db.transaction(async (tx) => {
+      await assertContactInOrganization(tx, organizationId, values.customerId);
+      await loadTaxCodes(tx, organizationId, items.map((item) => item.taxCodeId));
+
+      // Resume after the last invoice issued from this template so no date is invoiced twice
+      const [lastInvoice] = await tx
+        .select({ issueDate: invoices.issueDate })
+        .from(invoices)
+        .where(eq(invoices.recurringInvoiceId, id))
+        .orderBy(desc(invoices.issueDate))
+        .limit(1);
+
+      const nextDate = nextOccurrenceAfter(rule, lastInvoice?.issueDate ?? null);
+      if (!nextDate && !lastInvoice) {
+        throw new LedgerError("End date must be on or after the start date");
+      }
+
+      const [template] = await tx
+        .update(recurringInvoices)
+        .set({
+          ...values,
+          nextDate: nextDate ?? lastInvoice.issueDate,
+          isActive: nextDate ? undefined : false,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(recurringInvoices.id, id), eq(recurringInvoices.organizationId, organizationId)))
+        .returning();
+
+      if (!template) {
+        throw new LedgerError("Recurring invoice not found or unauthorized");
+      }
+
+      await tx
+        .delete(recurringInvoiceItems)
+        .where(eq(recurringInvoiceItems.recurringInvoiceId, id));
+      await tx.insert(recurringInvoiceItems).values(toItemRows(id, items));
+
+      return template;
+    });
+
+    revalidatePath("/recurring-invoices");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error updating recurring invoice:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to update recurring invoice" };
+  }
+}
+
+export async function deleteRecurringInvoice(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("recurring:manage");
+
+    // Invoices already issued are kept; they just lose the link to the template
+    const result = await db
+      .delete(recurringInvoices)
+      .where(and(eq(recurringInvoices.id, id), eq(recurringInvoices.organizationId, organizationId)))
+      .returning();
+
+    if (result.length === 0) {
+      return { success: false, error: "Recurring invoice not found or unauthorized" };
+    }
+
+    revalidatePath("/recurring-invoices");
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting recurring invoice:", error);
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to delete recurring invoice" };
+  }
+}
+
+export async function toggleRecurringInvoiceStatus(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("recurring:manage");
+
+    const [current] = await db
+      .select({ isActive: recurringInvoices.isActive })
+      .from(recurringInvoices)
+      .where(and(eq(recurringInvoices.id, id), eq(recurringInvoices.organizationId, organizationId)))
+      .limit(1);
+
+    if (!current) {
+      return { success: false, error: "Recurring invoice not found" };
+    }
+
+    const [result] = await db
+      .update(recurringInvoices)
+      .set({ isActive: !current.isActive, updatedAt: new Date() })
+      .where(and(eq(recurringInvoices.id, id), eq(recurringInvoices.organizationId, organizationId)))
+      .returning();
+
+    revalidatePath("/recurring-invoices");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error toggling recurring invoice status:", error);
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to toggle recurring invoice status" };
+  }
+}
+
+// Issue any invoices that are due now instead of waiting for the scheduled job
+export async function generateDueRecurringInvoices() {
+  try {
+    const { organizationId } = await getOrganizationContext("recurring:manage");
+    const { generated, failures } = await runRecurringInvoices({ organizationId });
+
+    revalidatePath("/recurring-invoices");
+    revalidatePath("/invoices");
+    return {
+      success: true,
+      data: {
+        generated: generated.length,
+        failures: failures.map((failure) => `${failure.name}: ${failure.error}`),
+      },
+    };
+  } catch (error) {
+    console.error("Error generating recurring invoices:", error);
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to generate recurring invoices" };
+  }
+}
@@ -1,40 +1,84 @@
 "use server"
 
 import { db } from "@/db/drizzle"
-import { recurringTransactions, accounts, contacts } from "@/db/schema"
+import { recurringTransactions, recurringOccurrences, accounts, categories, contacts } from "@/db/schema"
 import { eq, desc, and } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
-import { auth } from "@/lib/auth"
-import { headers } from "next/headers"
 import { alias } from "drizzle-orm/pg-core"
+import { assertCategoryInOrganization } from "@/lib/categories"
+import { nextOccurrenceAfter, optionalFormField, readRecurrenceRule } from "@/lib/recurrence"
+import { LedgerError, type DbExecutor } from "@/lib/ledger"
+import {
+  assertAccountsInOrganization,
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
 
 const recurringSchema = z.object({
   name: z.string().min(1, "Name is required"),
   description: z.string().min(1, "Description is required"),
   amount: z.string().min(1, "Amount is required"),
   type: z.enum(["income", "expense", "transfer"]),
-  frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
   fromAccountId: z.string().uuid().optional(),
   toAccountId: z.string().uuid().optional(),
   contactId: z.string().uuid().optional(),
-  startDate: z.string(),
-  endDate: z.string().optional(),
+  categoryId: z.string().uuid().optional(),
 })
 
-async function getCurrentUserId(): Promise<string> {
-  const session = await auth.api.getSession({
-    headers: await headers(),
+function readRecurringForm(formData: FormData) {
+  const data = recurringSchema.parse({
+    name: formData.get("name") as string,
+    description: formData.get("description") as string,
+    amount: formData.get("amount") as string,
+    type: formData.get("type") as string,
+    fromAccountId: optionalFormField(formData, "fromAccountId"),
+    toAccountId: optionalFormField(formData, "toAccountId"),
+    contactId: optionalFormField(formData, "contactId"),
+    categoryId: optionalFormField(formData, "categoryId"),
   })
-  if (!session?.user?.id) {
-    throw new Error("Unauthorized: No user session found")
+  const rule = readRecurrenceRule(formData)
+
+  const values = {
+    name: data.name,
+    description: data.description,
+    amount: Number.parseFloat(data.amount).toFixed(2),
+    type: data.type,
+    fromAccountId: data.fromAccountId || null,
+    toAccountId: data.toAccountId || null,
+    contactId: data.contactId || null,
+    categoryId: data.type === "transfer" ? null : data.categoryId || null,
+    ...rule,
+  }
+
+  return { rule, values }
+}
+
+// Accounts, contact and category must come from the organisation the schedule belongs to
+async function assertScheduleReferences(
+  executor: DbExecutor,
+  organizationId: string,
+  values: {
+    type: "income" | "expense" | "transfer"
+    fromAccountId: string | null
+    toAccountId: string | null
+    contactId: string | null
+    categoryId: string | null
+  },
+) {
+  await assertAccountsInOrganization(executor, organizationId, [values.fromAccountId, values.toAccountId])
+  if (values.contactId) {
+    await assertContactInOrganization(executor, organizationId, values.contactId)
+  }
+  if (values.categoryId) {
+    await assertCategoryInOrganization(executor, organizationId, values.categoryId, values.type)
   }
-  return session.user.id
 }
 
 export async function getRecurringTransactions() {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
     const toAccountAlias = alias(accounts, "toAccount")
 
@@ -46,9 +90,15 @@ export async function getRecurringTransactions() {
         amount: recurringTransactions.amount,
         description: recurringTransactions.description,
         frequency: recurringTransactions.frequency,
+        interval: recurringTransactions.interval,
+        dayOfMonth: recurringTransactions.dayOfMonth,
+        weekOfMonth: recurringTransactions.weekOfMonth,
+        dayOfWeek: recurringTransactions.dayOfWeek,
         startDate: recurringTransactions.startDate,
         endDate: recurringTransactions.endDate,
+        maxOccurrences: recurringTransactions.maxOccurrences,
         nextDate: recurringTransactions.nextDate,
+        lastRunAt: recurringTransactions.lastRunAt,
         isActive: recurringTransactions.isActive,
         createdAt: recurringTransactions.createdAt,
         updatedAt: recurringTransactions.updatedAt,
@@ -67,12 +117,17 @@ export async function getRecurringTransactions() {
           name: contacts.name,
           type: contacts.type,
         },
+        category: {
+          id: categories.id,
+          name: categories.name,
+        },
       })
       .from(recurringTransactions)
       .leftJoin(accounts, eq(recurringTransactions.fromAccountId, accounts.id))
       .leftJoin(toAccountAlias, eq(recurringTransactions.toAccountId, toAccountAlias.id))
       .leftJoin(contacts, eq(recurringTransactions.contactId, contacts.id))
-      .where(eq(recurringTransactions.userId, userId))
+      .leftJoin(categories, eq(recurringTransactions.categoryId, categories.id))
+      .where(eq(recurringTransactions.organizationId, organizationId))
       .orderBy(desc(recurringTransactions.createdAt))
 
     return { success: true, data: result }
@@ -84,68 +139,23 @@ export async function getRecurringTransactions() {
 
 export async function createRecurringTransaction(formData: FormData) {
   try {
-    const userId = await getCurrentUserId()
-
-    const data = {
-      name: formData.get("name") as string,
-      description: formData.get("description") as string,
-      amount: formData.get("amount") as string,
-      type: formData.get("type") as "income" | "expense" | "transfer",
-      frequency: formData.get("frequency") as "daily" | "weekly" | "monthly" | "yearly",
-      fromAccountId: (formData.get("fromAccountId") as string) || null,
-      toAccountId: (formData.get("toAccountId") as string) || null,
-      contactId: (formData.get("contactId") as string) || null,
-      startDate: formData.get("startDate") as string,
-      endDate: (formData.get("endDate") as string) || null,
-    }
-
-    // Clean up empty strings and "none" values to null
-    const cleanedData = {
-      ...data,
-      fromAccountId: data.fromAccountId === "" || data.fromAccountId === "none" ? null : data.fromAccountId,
-      toAccountId: data.toAccountId === "" || data.toAccountId === "none" ? null : data.toAccountId,
-      contactId: data.contactId === "" || data.contactId === "none" ? null : data.contactId,
-      endDate: data.endDate === "" ? null : data.endDate,
-    }
-
-    const validatedData = recurringSchema.parse(cleanedData)
-
-    // Convert amount to decimal format
-    const amountDecimal = Number.parseFloat(validatedData.amount).toFixed(2)
+    const { userId, organizationId } = await getOrganizationContext("recurring:manage")
 
-    // Calculate next date based on frequency
-    const startDate = new Date(validatedData.startDate)
-    const nextDate = new Date(startDate)
+    const { rule, values } = readRecurringForm(formData)
+    await assertScheduleReferences(db, organizationId, values)
 
-    switch (validatedData.frequency) {
-      case "daily":
-        nextDate.setDate(nextDate.getDate() + 1)
-        break
-      case "weekly":
-        nextDate.setDate(nextDate.getDate() + 7)
-        break
-      case "monthly":
-        nextDate.setMonth(nextDate.getMonth() + 1)
-        break
-      case "yearly":
-        nextDate.setFullYear(nextDate.getFullYear() + 1)
-        break
+    // The first occurrence falls on the start date
+    const nextDate = nextOccurrenceAfter(rule, null)
+    if (!nextDate) {
+      return { success: false, error: "End date must be on or after the start date" }
     }
 
     const result = await db
       .insert(recurringTransactions)
       .values({
-        name: validatedData.name,
-        description: validatedData.description,
-        amount: amountDecimal,
-        type: validatedData.type,
-        frequency: validatedData.frequency,
-        fromAccountId: validatedData.fromAccountId || null,
-        toAccountId: validatedData.toAccountId || null,
-        contactId: validatedData.contactId || null,
-        startDate: new Date(validatedData.startDate),
-        endDate: validatedData.endDate ? new Date(validatedData.endDate) : null,
+        ...values,
         nextDate,
+        organizationId,
         userId: userId,
         isActive: true,
       })
@@ -155,7 +165,7 @@ export async function createRecurringTransaction(formData: FormData) {
     return { success: true, data: result[0] }
   } catch (error) {
     console.error("Error creating recurring transaction:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to create recurring transaction" }
@@ -164,71 +174,33 @@ export async function createRecurringTransaction(formData: FormData) {
 
 export async function updateRecurringTransaction(id: string, formData: FormData) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("recurring:manage")
 
-    const data = {
-      name: formData.get("name") as string,
-      description: formData.get("description") as string,
-      amount: formData.get("amount") as string,
-      type: formData.get("type") as "income" | "expense" | "transfer",
-      frequency: formData.get("frequency") as "daily" | "weekly" | "monthly" | "yearly",
-      fromAccountId: (formData.get("fromAccountId") as string) || null,
-      toAccountId: (formData.get("toAccountId") as string) || null,
-      contactId: (formData.get("contactId") as string) || null,
-      startDate: formData.get("startDate") as string,
-      endDate: (formData.get("endDate") as string) || null,
-    }
-
-    // Clean up empty strings and "none" values to null
-    const cleanedData = {
-      ...data,
-      fromAccountId: data.fromAccountId === "" || data.fromAccountId === "none" ? null : data.fromAccountId,
-      toAccountId: data.toAccountId === "" || data.toAccountId === "none" ? null : data.toAccountId,
-      contactId: data.contactId === "" || data.contactId === "none" ? null : data.contactId,
-      endDate: data.endDate === "" ? null : data.endDate,
-    }
+    const { rule, values } = readRecurringForm(formData)
+    await assertScheduleReferences(db, organizationId, values)
 
-    const validatedData = recurringSchema.parse(cleanedData)
-
-    // Convert amount to decimal format
-    const amountDecimal = Number.parseFloat(validatedData.amount).toFixed(2)
-
-    // Recalculate next date if start date or frequency changed
-    const startDate = new Date(validatedData.startDate)
-    const nextDate = new Date(startDate)
+    // Resume the schedule after the last generated occurrence so nothing is posted twice
+    const [lastOccurrence] = await db
+      .select({ occurrenceDate: recurringOccurrences.occurrenceDate })
+      .from(recurringOccurrences)
+      .where(eq(recurringOccurrences.recurringTransactionId, id))
+      .orderBy(desc(recurringOccurrences.occurrenceDate))
+      .limit(1)
 
-    switch (validatedData.frequency) {
-      case "daily":
-        nextDate.setDate(nextDate.getDate() + 1)
-        break
-      case "weekly":
-        nextDate.setDate(nextDate.getDate() + 7)
-        break
-      case "monthly":
-        nextDate.setMonth(nextDate.getMonth() + 1)
-        break
-      case "yearly":
-        nextDate.setFullYear(nextDate.getFullYear() + 1)
-        break
+    const nextDate = nextOccurrenceAfter(rule, lastOccurrence?.occurrenceDate ?? null)
+    if (!nextDate && !lastOccurrence) {
+      return { success: false, error: "End date must be on or after the start date" }
     }
 
     const result = await db
       .update(recurringTransactions)
       .set({
-        name: validatedData.name,
-        description: validatedData.description,
-        amount: amountDecimal,
-        type: validatedData.type,
-        frequency: validatedData.frequency,
-        fromAccountId: validatedData.fromAccountId || null,
-        toAccountId: validatedData.toAccountId || null,
-        contactId: validatedData.contactId || null,
-        startDate: new Date(validatedData.startDate),
-        endDate: validatedData.endDate ? new Date(validatedData.endDate) : null,
-        nextDate,
+        ...values,
+        nextDate: nextDate ?? lastOccurrence.occurrenceDate,
+        isActive: nextDate ? undefined : false,
         updatedAt: new Date(),
       })
-      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.organizationId, organizationId)))
       .returning()
 
     if (result.length === 0) {
@@ -242,7 +214,7 @@ export async function updateRecurringTransaction(id: string, formData: FormData)
     return { success: true, data: result[0] }
   } catch (error) {
     console.error("Error updating recurring transaction:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to update recurring transaction" }
@@ -251,11 +223,11 @@ export async function updateRecurringTransaction(id: string, formData: FormData)
 
 export async function deleteRecurringTransaction(id: string) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("recurring:manage")
 
     const result = await db
       .delete(recurringTransactions)
-      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.organizationId, organizationId)))
       .returning()
 
     if (result.length === 0) {
@@ -269,19 +241,22 @@ export async function deleteRecurringTransaction(id: string) {
     return { success: true }
   } catch (error) {
     console.error("Error deleting recurring transaction:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to delete recurring transaction" }
   }
 }
 
 export async function toggleRecurringTransactionStatus(id: string) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("recurring:manage")
 
     // First get the current status
     const current = await db
       .select({ isActive: recurringTransactions.isActive })
       .from(recurringTransactions)
-      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.organizationId, organizationId)))
       .limit(1)
 
     if (current.length === 0) {
@@ -294,13 +269,16 @@ export async function toggleRecurringTransactionStatus(id: string) {
         isActive: !current[0].isActive,
         updatedAt: new Date(),
       })
-      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.organizationId, organizationId)))
       .returning()
 
     revalidatePath("/recurring")
     return { success: true, data: result[0] }
   } catch (error) {
     console.error("Error toggling recurring transaction status:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return {
       success: false,
       error: "Failed to toggle recurring transaction status",
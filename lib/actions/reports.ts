@@ -1,18 +1,35 @@
 "use server"
 
 import { drizzle } from "drizzle-orm/neon-http"
-import { accounts, contacts, transactions, invoices, expenses } from "@/db/schema"
-import { eq, and, gte, lte, sum, count, sql, desc, asc } from "drizzle-orm"
-import { getCurrentUserId } from "./invoices"
+import {
+  accounts,
+  contacts,
+  transactions,
+  invoices,
+  invoiceItems,
+  invoicePayments,
+  creditApplications,
+  expenses,
+  bills,
+  billPayments,
+  taxCodes,
+  creditNotes,
+  creditNoteItems,
+} from "@/db/schema"
+import { eq, and, gte, lte, sum, count, sql, desc, asc, inArray, ne, type AnyColumn } from "drizzle-orm"
 import { db } from "@/db/drizzle"
+import { inBaseCurrency } from "@/lib/exchange-rates"
+import { getBaseCurrency, getLedgerBalances } from "@/lib/ledger"
+import { buildAgingReport } from "@/lib/aging"
+import { getCategoryBreakdown } from "@/lib/categories"
+import { toBaseAmount } from "@/lib/currency"
+import { getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
 
 
 export async function getFinancialKPIs(startDate: string, endDate: string) {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext("reports:view")
 
     const start = new Date(startDate)
     const end = new Date(endDate)
@@ -20,15 +37,15 @@ export async function getFinancialKPIs(startDate: string, endDate: string) {
     // Get revenue from paid invoices
     const revenueResult = await db
       .select({
-        total: sum(invoices.paidAmount),
+        total: sum(inBaseCurrency(invoices.paidAmount, invoices.exchangeRate)),
       })
       .from(invoices)
       .where(
         and(
-          eq(invoices.userId, userId),
+          eq(invoices.organizationId, organizationId),
           gte(invoices.issueDate, start),
           lte(invoices.issueDate, end),
-          eq(invoices.status, "paid"),
+          inArray(invoices.status, ["partially_paid", "paid"]),
         ),
       )
 
@@ -38,27 +55,32 @@ export async function getFinancialKPIs(startDate: string, endDate: string) {
         total: sum(expenses.amount),
       })
       .from(expenses)
-      .where(and(eq(expenses.userId, userId), gte(expenses.createdAt, start), lte(expenses.createdAt, end)))
+      .where(and(eq(expenses.organizationId, organizationId), gte(expenses.expenseDate, start), lte(expenses.expenseDate, end)))
 
-    // Get current assets (account balances)
-    const assetsResult = await db
-      .select({
-        total: sum(accounts.balance),
-      })
+    // Get current assets from the ledger
+    const assetAccounts = await db
+      .select({ id: accounts.id })
       .from(accounts)
-      .where(eq(accounts.isActive, true))
+      .where(
+        and(
+          eq(accounts.organizationId, organizationId),
+          eq(accounts.isActive, true),
+          eq(accounts.accountClass, "asset"),
+        ),
+      )
+    const assetBalances = await getLedgerBalances(db, assetAccounts.map((account) => account.id))
 
     // Get outstanding receivables
     const receivablesResult = await db
       .select({
-        total: sum(sql`${invoices.total} - ${invoices.paidAmount}`),
+        total: sum(inBaseCurrency(sql`${invoices.total} - ${invoices.paidAmount}`, invoices.exchangeRate)),
       })
       .from(invoices)
-      .where(and(eq(invoices.userId, userId), sql`${invoices.total} > ${invoices.paidAmount}`))
+      .where(and(eq(invoices.organizationId, organizationId), sql`${invoices.total} > ${invoices.paidAmount}`))
 
     const revenue = Number(revenueResult[0]?.total || 0)
     const totalExpenses = Number(expenseResult[0]?.total || 0)
-    const assets = Number(assetsResult[0]?.total || 0)
+    const assets = [...assetBalances.values()].reduce((total, balance) => total + balance, 0)
     const receivables = Number(receivablesResult[0]?.total || 0)
 
     const grossProfit = revenue - totalExpenses
@@ -77,20 +99,21 @@ export async function getFinancialKPIs(startDate: string, endDate: string) {
         currentRatio,
         assets,
         receivables,
+        baseCurrency: await getBaseCurrency(db, organizationId),
       },
     }
   } catch (error) {
     console.error("Error fetching KPIs:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch KPIs" }
   }
 }
 
 export async function getProfitLossReport(startDate: string, endDate: string) {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext("reports:view")
 
     const start = new Date(startDate)
     const end = new Date(endDate)
@@ -99,15 +122,15 @@ export async function getProfitLossReport(startDate: string, endDate: string) {
     const revenueData = await db
       .select({
         month: sql`DATE_TRUNC('month', ${invoices.issueDate})`.as("month"),
-        revenue: sum(invoices.paidAmount),
+        revenue: sum(inBaseCurrency(invoices.paidAmount, invoices.exchangeRate)),
       })
       .from(invoices)
       .where(
         and(
-          eq(invoices.userId, userId),
+          eq(invoices.organizationId, organizationId),
           gte(invoices.issueDate, start),
           lte(invoices.issueDate, end),
-          eq(invoices.status, "paid"),
+          inArray(invoices.status, ["partially_paid", "paid"]),
         ),
       )
       .groupBy(sql`DATE_TRUNC('month', ${invoices.issueDate})`)
@@ -116,51 +139,61 @@ export async function getProfitLossReport(startDate: string, endDate: string) {
     // Get expenses by month
     const expenseData = await db
       .select({
-        month: sql`DATE_TRUNC('month', ${expenses.createdAt})`.as("month"),
+        month: sql`DATE_TRUNC('month', ${expenses.expenseDate})`.as("month"),
         expenses: sum(expenses.amount),
       })
       .from(expenses)
-      .where(and(eq(expenses.userId, userId), gte(expenses.createdAt, start), lte(expenses.createdAt, end)))
-      .groupBy(sql`DATE_TRUNC('month', ${expenses.createdAt})`)
-      .orderBy(asc(sql`DATE_TRUNC('month', ${expenses.createdAt})`))
+      .where(and(eq(expenses.organizationId, organizationId), gte(expenses.expenseDate, start), lte(expenses.expenseDate, end)))
+      .groupBy(sql`DATE_TRUNC('month', ${expenses.expenseDate})`)
+      .orderBy(asc(sql`DATE_TRUNC('month', ${expenses.expenseDate})`))
+
+    // Categorised income and expense transactions, rolled up to top-level categories
+    const byCategory = await getCategoryBreakdown(db, organizationId, { start, end })
 
     return {
       success: true,
       data: {
         revenue: revenueData,
         expenses: expenseData,
+        byCategory,
       },
     }
   } catch (error) {
     console.error("Error fetching P&L report:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch P&L report" }
   }
 }
 
 export async function getBalanceSheetReport() {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext("reports:view")
 
-    // Get assets by account type
-    const assetsData = await db
-      .select({
-        type: accounts.type,
-        balance: sum(accounts.balance),
-      })
+    // Get ledger balances grouped by account class
+    const activeAccounts = await db
+      .select({ id: accounts.id, accountClass: accounts.accountClass })
       .from(accounts)
-      .where(eq(accounts.isActive, true))
-      .groupBy(accounts.type)
+      .where(and(eq(accounts.organizationId, organizationId), eq(accounts.isActive, true)))
+    const balances = await getLedgerBalances(db, activeAccounts.map((account) => account.id))
+
+    const totalsByClass = new Map<string, number>()
+    for (const account of activeAccounts) {
+      totalsByClass.set(
+        account.accountClass,
+        (totalsByClass.get(account.accountClass) ?? 0) + (balances.get(account.id) ?? 0),
+      )
+    }
+    const assetsData = [...totalsByClass].map(([accountClass, balance]) => ({ accountClass, balance }))
 
     // Get receivables
     const receivablesData = await db
       .select({
-        total: sum(sql`${invoices.total} - ${invoices.paidAmount}`),
+        total: sum(inBaseCurrency(sql`${invoices.total} - ${invoices.paidAmount}`, invoices.exchangeRate)),
       })
       .from(invoices)
-      .where(and(eq(invoices.userId, userId), sql`${invoices.total} > ${invoices.paidAmount}`))
+      .where(and(eq(invoices.organizationId, organizationId), sql`${invoices.total} > ${invoices.paidAmount}`))
 
     return {
       success: true,
@@ -171,16 +204,134 @@ export async function getBalanceSheetReport() {
     }
   } catch (error) {
     console.error("Error fetching balance sheet:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch balance sheet" }
   }
 }
 
-export async function getCashFlowReport(startDate: string, endDate: string) {
+export async function getAccountsReceivableAging(asOfDate?: string) {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
+    const { organizationId } = await getOrganizationContext("reports:view")
+
+    const asOf = asOfDate ? new Date(asOfDate) : new Date()
+
+    // What had been paid or credited against each invoice by the report date; later payments
+    // still count as outstanding on a report dated before them
+    const paidAsOf = db
+      .select({ invoiceId: invoicePayments.invoiceId, amount: sum(invoicePayments.amount).as("paid_by_report_date") })
+      .from(invoicePayments)
+      .where(lte(invoicePayments.paymentDate, asOf))
+      .groupBy(invoicePayments.invoiceId)
+      .as("paid_as_of")
+    const creditedAsOf = db
+      .select({ invoiceId: creditApplications.invoiceId, amount: sum(creditApplications.amount).as("credited_by_report_date") })
+      .from(creditApplications)
+      .where(lte(creditApplications.applicationDate, asOf))
+      .groupBy(creditApplications.invoiceId)
+      .as("credited_as_of")
+    const outstanding = sql<string>`${invoices.total} - coalesce(${paidAsOf.amount}, 0) - coalesce(${creditedAsOf.amount}, 0)`
+
+    // Every issued invoice that still had a balance on the report date, in the base currency
+    const openInvoices = await db
+      .select({
+        customerId: invoices.customerId,
+        customerName: contacts.name,
+        dueDate: invoices.dueDate,
+        outstanding,
+        exchangeRate: invoices.exchangeRate,
+      })
+      .from(invoices)
+      .innerJoin(contacts, eq(invoices.customerId, contacts.id))
+      .leftJoin(paidAsOf, eq(paidAsOf.invoiceId, invoices.id))
+      .leftJoin(creditedAsOf, eq(creditedAsOf.invoiceId, invoices.id))
+      .where(
+        and(
+          eq(invoices.organizationId, organizationId),
+          ne(invoices.status, "draft"),
+          lte(invoices.issueDate, asOf),
+          sql`${outstanding} > 0`,
+        ),
+      )
+
+    const report = buildAgingReport(
+      openInvoices.map((invoice) => ({
+        contactId: invoice.customerId,
+        contactName: invoice.customerName,
+        dueDate: invoice.dueDate,
+        outstanding: toBaseAmount(Number.parseFloat(invoice.outstanding), Number.parseFloat(invoice.exchangeRate)),
+      })),
+      asOf,
+    )
+
+    return { success: true, data: report }
+  } catch (error) {
+    console.error("Error fetching receivables aging:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
     }
+    return { success: false, error: "Failed to fetch receivables aging" }
+  }
+}
+
+export async function getAccountsPayableAging(asOfDate?: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("reports:view")
+
+    const asOf = asOfDate ? new Date(asOfDate) : new Date()
+
+    // Payments made by the report date; the bill's current status and paid amount include later ones
+    const paidAsOf = db
+      .select({ billId: billPayments.billId, amount: sum(billPayments.amount).as("paid_by_report_date") })
+      .from(billPayments)
+      .where(lte(billPayments.paymentDate, asOf))
+      .groupBy(billPayments.billId)
+      .as("paid_as_of")
+    const outstanding = sql<string>`${bills.total} - coalesce(${paidAsOf.amount}, 0)`
+
+    const openBills = await db
+      .select({
+        vendorId: bills.vendorId,
+        vendorName: contacts.name,
+        dueDate: bills.dueDate,
+        outstanding,
+      })
+      .from(bills)
+      .innerJoin(contacts, eq(bills.vendorId, contacts.id))
+      .leftJoin(paidAsOf, eq(paidAsOf.billId, bills.id))
+      .where(
+        and(
+          eq(bills.organizationId, organizationId),
+          ne(bills.status, "draft"),
+          lte(bills.billDate, asOf),
+          sql`${outstanding} > 0`,
+        ),
+      )
+
+    const report = buildAgingReport(
+      openBills.map((bill) => ({
+        contactId: bill.vendorId,
+        contactName: bill.vendorName,
+        dueDate: bill.dueDate,
+        outstanding: Number.parseFloat(bill.outstanding),
+      })),
+      asOf,
+    )
+
+    return { success: true, data: report }
+  } catch (error) {
+    console.error("Error fetching payables aging:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to fetch payables aging" }
+  }
+}
+
+export async function getCashFlowReport(startDate: string, endDate: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("reports:view")
 
     const start = new Date(startDate)
     const end = new Date(endDate)
@@ -190,12 +341,12 @@ export async function getCashFlowReport(startDate: string, endDate: string) {
       .select({
         month: sql`DATE_TRUNC('month', ${transactions.transactionDate})`.as("month"),
         type: transactions.type,
-        amount: sum(transactions.amount),
+        amount: sum(inBaseCurrency(transactions.amount, transactions.exchangeRate)),
       })
       .from(transactions)
       .where(
         and(
-          eq(transactions.userId, userId),
+          eq(transactions.organizationId, organizationId),
           gte(transactions.transactionDate, start),
           lte(transactions.transactionDate, end),
           eq(transactions.status, "completed"),
@@ -210,20 +361,56 @@ export async function getCashFlowReport(startDate: string, endDate: string) {
     }
   } catch (error) {
     console.error("Error fetching cash flow report:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch cash flow report" }
   }
 }
 
 export async function getExpenseAnalysisReport(startDate: string, endDate: string) {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext("reports:view")
 
     const start = new Date(startDate)
     const end = new Date(endDate)
 
+    const expenseRange = and(
+      eq(expenses.organizationId, organizationId),
+      gte(expenses.expenseDate, start),
+      lte(expenses.expenseDate, end),
+    )
+
+    // Get expenses by category; uncategorised expenses are booked to General Expenses
+    const categoryName = sql<string>`COALESCE(${accounts.name}, 'General Expenses')`
+    const expensesByCategory = await db
+      .select({
+        categoryName,
+        amount: sum(expenses.amount),
+        taxAmount: sum(expenses.taxAmount),
+        count: count(expenses.id),
+      })
+      .from(expenses)
+      .leftJoin(accounts, eq(expenses.categoryAccountId, accounts.id))
+      .where(expenseRange)
+      .groupBy(categoryName)
+      .orderBy(desc(sum(expenses.amount)))
+
+    // Get expenses by month and category
+    const period = sql<string>`DATE_TRUNC('month', ${expenses.expenseDate})`
+    const expensesByPeriod = await db
+      .select({
+        month: period.as("month"),
+        categoryName,
+        amount: sum(expenses.amount),
+        count: count(expenses.id),
+      })
+      .from(expenses)
+      .leftJoin(accounts, eq(expenses.categoryAccountId, accounts.id))
+      .where(expenseRange)
+      .groupBy(period, categoryName)
+      .orderBy(asc(period), desc(sum(expenses.amount)))
+
     // Get expenses by vendor
     const expensesByVendor = await db
       .select({
@@ -233,7 +420,7 @@ export async function getExpenseAnalysisReport(startDate: string, endDate: strin
       })
       .from(expenses)
       .innerJoin(contacts, eq(expenses.vendorId, contacts.id))
-      .where(and(eq(expenses.userId, userId), gte(expenses.createdAt, start), lte(expenses.createdAt, end)))
+      .where(expenseRange)
       .groupBy(contacts.name)
       .orderBy(desc(sum(expenses.amount)))
 
@@ -245,28 +432,30 @@ export async function getExpenseAnalysisReport(startDate: string, endDate: strin
         count: count(expenses.id),
       })
       .from(expenses)
-      .where(and(eq(expenses.userId, userId), gte(expenses.createdAt, start), lte(expenses.createdAt, end)))
+      .where(expenseRange)
       .groupBy(expenses.status)
 
     return {
       success: true,
       data: {
+        byCategory: expensesByCategory,
+        byPeriod: expensesByPeriod,
         byVendor: expensesByVendor,
         byStatus: expensesByStatus,
       },
     }
   } catch (error) {
     console.error("Error fetching expense analysis:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch expense analysis" }
   }
 }
 
 export async function getRevenueAnalysisReport(startDate: string, endDate: string) {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext("reports:view")
 
     const start = new Date(startDate)
     const end = new Date(endDate)
@@ -275,24 +464,24 @@ export async function getRevenueAnalysisReport(startDate: string, endDate: strin
     const revenueByCustomer = await db
       .select({
         customerName: contacts.name,
-        amount: sum(invoices.paidAmount),
+        amount: sum(inBaseCurrency(invoices.paidAmount, invoices.exchangeRate)),
         count: count(invoices.id),
       })
       .from(invoices)
       .innerJoin(contacts, eq(invoices.customerId, contacts.id))
-      .where(and(eq(invoices.userId, userId), gte(invoices.issueDate, start), lte(invoices.issueDate, end)))
+      .where(and(eq(invoices.organizationId, organizationId), gte(invoices.issueDate, start), lte(invoices.issueDate, end)))
       .groupBy(contacts.name)
-      .orderBy(desc(sum(invoices.paidAmount)))
+      .orderBy(desc(sum(inBaseCurrency(invoices.paidAmount, invoices.exchangeRate))))
 
     // Get revenue by status
     const revenueByStatus = await db
       .select({
         status: invoices.status,
-        amount: sum(invoices.total),
+        amount: sum(inBaseCurrency(invoices.total, invoices.exchangeRate)),
         count: count(invoices.id),
       })
       .from(invoices)
-      .where(and(eq(invoices.userId, userId), gte(invoices.issueDate, start), lte(invoices.issueDate, end)))
+      .where(and(eq(invoices.organizationId, organizationId), gte(invoices.issueDate, start), lte(invoices.issueDate, end)))
       .groupBy(invoices.status)
 
     return {
@@ -304,39 +493,223 @@ export async function getRevenueAnalysisReport(startDate: string, endDate: strin
     }
   } catch (error) {
     console.error("Error fetching revenue analysis:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch revenue analysis" }
   }
 }
 
+function roundCents(amount: number) {
+  return Number(amount.toFixed(2))
+}
+
+/**
+ * Truncate a date column to its month, as yyyy-MM
+ */
+function monthOf(column: AnyColumn) {
+  return sql<string>`to_char(DATE_TRUNC('month', ${column}), 'YYYY-MM')`
+}
+
+/**
+ * Output tax charged on issued invoices, less issued credit notes, against input tax recoverable on
+ * approved expenses and open bills, per month, with the tax customers withheld shown separately and a
+ * breakdown by tax code
+ */
 export async function getTaxReport(startDate: string, endDate: string) {
   try {
-    const userId = await getCurrentUserId()
-    if (!userId) {
-      return { success: false, error: "Unauthorized" }
-    }
+    const { organizationId } = await getOrganizationContext("reports:view")
 
     const start = new Date(startDate)
     const end = new Date(endDate)
-
-    // Get tax data from invoices
-    const taxData = await db
+    const issuedInPeriod = and(
+      eq(invoices.organizationId, organizationId),
+      ne(invoices.status, "draft"),
+      gte(invoices.issueDate, start),
+      lte(invoices.issueDate, end)
+    )
+
+    // Invoice tax is net of withholding, which is added back to give the tax charged
+    const invoiceTax = await db
       .select({
-        month: sql`DATE_TRUNC('month', ${invoices.issueDate})`.as("month"),
-        taxAmount: sum(invoices.taxAmount),
-        subtotal: sum(invoices.subtotal),
-        total: sum(invoices.total),
+        month: monthOf(invoices.issueDate),
+        taxable: sum(inBaseCurrency(invoices.subtotal, invoices.exchangeRate)),
+        tax: sum(inBaseCurrency(invoices.taxAmount, invoices.exchangeRate)),
       })
       .from(invoices)
-      .where(and(eq(invoices.userId, userId), gte(invoices.issueDate, start), lte(invoices.issueDate, end)))
-      .groupBy(sql`DATE_TRUNC('month', ${invoices.issueDate})`)
-      .orderBy(asc(sql`DATE_TRUNC('month', ${invoices.issueDate})`))
+      .where(issuedInPeriod)
+      .groupBy(monthOf(invoices.issueDate))
+
+    const withheldTax = await db
+      .select({
+        month: monthOf(invoices.issueDate),
+        tax: sum(inBaseCurrency(invoiceItems.taxAmount, invoices.exchangeRate)),
+      })
+      .from(invoiceItems)
+      .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+      .innerJoin(taxCodes, eq(invoiceItems.taxCodeId, taxCodes.id))
+      .where(and(issuedInPeriod, eq(taxCodes.kind, "withholding")))
+      .groupBy(monthOf(invoices.issueDate))
+
+    // Credit notes reduce sales and tax in the month they are issued
+    const creditedInPeriod = and(
+      eq(creditNotes.organizationId, organizationId),
+      eq(creditNotes.status, "issued"),
+      gte(creditNotes.issueDate, start),
+      lte(creditNotes.issueDate, end)
+    )
+
+    const creditNoteTax = await db
+      .select({
+        month: monthOf(creditNotes.issueDate),
+        taxable: sum(inBaseCurrency(creditNotes.subtotal, creditNotes.exchangeRate)),
+        tax: sum(inBaseCurrency(creditNotes.taxAmount, creditNotes.exchangeRate)),
+      })
+      .from(creditNotes)
+      .where(creditedInPeriod)
+      .groupBy(monthOf(creditNotes.issueDate))
+
+    const creditedWithholding = await db
+      .select({
+        month: monthOf(creditNotes.issueDate),
+        tax: sum(inBaseCurrency(creditNoteItems.taxAmount, creditNotes.exchangeRate)),
+      })
+      .from(creditNoteItems)
+      .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+      .innerJoin(taxCodes, eq(creditNoteItems.taxCodeId, taxCodes.id))
+      .where(and(creditedInPeriod, eq(taxCodes.kind, "withholding")))
+      .groupBy(monthOf(creditNotes.issueDate))
+
+    // Expenses and bills are recorded in the base currency
+    const expenseTax = await db
+      .select({ month: monthOf(expenses.expenseDate), tax: sum(expenses.taxAmount) })
+      .from(expenses)
+      .where(
+        and(
+          eq(expenses.organizationId, organizationId),
+          inArray(expenses.status, ["approved", "reimbursed"]),
+          gte(expenses.expenseDate, start),
+          lte(expenses.expenseDate, end)
+        )
+      )
+      .groupBy(monthOf(expenses.expenseDate))
+
+    const billTax = await db
+      .select({ month: monthOf(bills.billDate), tax: sum(bills.taxAmount) })
+      .from(bills)
+      .where(
+        and(
+          eq(bills.organizationId, organizationId),
+          ne(bills.status, "draft"),
+          gte(bills.billDate, start),
+          lte(bills.billDate, end)
+        )
+      )
+      .groupBy(monthOf(bills.billDate))
+
+    const months = new Map<string, { month: string; taxableSales: number; outputTax: number; inputTax: number; withheldTax: number }>()
+    const monthRow = (month: string) => {
+      let row = months.get(month)
+      if (!row) {
+        row = { month, taxableSales: 0, outputTax: 0, inputTax: 0, withheldTax: 0 }
+        months.set(month, row)
+      }
+      return row
+    }
+    for (const row of invoiceTax) {
+      monthRow(row.month).taxableSales += Number(row.taxable || 0)
+      monthRow(row.month).outputTax += Number(row.tax || 0)
+    }
+    for (const row of withheldTax) {
+      monthRow(row.month).outputTax -= Number(row.tax || 0)
+      monthRow(row.month).withheldTax -= Number(row.tax || 0)
+    }
+    for (const row of creditNoteTax) {
+      monthRow(row.month).taxableSales -= Number(row.taxable || 0)
+      monthRow(row.month).outputTax -= Number(row.tax || 0)
+    }
+    for (const row of creditedWithholding) {
+      monthRow(row.month).outputTax += Number(row.tax || 0)
+      monthRow(row.month).withheldTax += Number(row.tax || 0)
+    }
+    for (const row of [...expenseTax, ...billTax]) {
+      monthRow(row.month).inputTax += Number(row.tax || 0)
+    }
+
+    const periods = [...months.values()]
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map((row) => ({
+        month: row.month,
+        taxableSales: roundCents(row.taxableSales),
+        outputTax: roundCents(row.outputTax),
+        inputTax: roundCents(row.inputTax),
+        withheldTax: roundCents(row.withheldTax),
+        netPayable: roundCents(row.outputTax - row.inputTax),
+      }))
+
+    const byCode = await db
+      .select({
+        taxCodeId: taxCodes.id,
+        name: taxCodes.name,
+        kind: taxCodes.kind,
+        taxable: sum(inBaseCurrency(invoiceItems.total, invoices.exchangeRate)),
+        tax: sum(inBaseCurrency(invoiceItems.taxAmount, invoices.exchangeRate)),
+      })
+      .from(invoiceItems)
+      .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+      .leftJoin(taxCodes, eq(invoiceItems.taxCodeId, taxCodes.id))
+      .where(issuedInPeriod)
+      .groupBy(taxCodes.id, taxCodes.name, taxCodes.kind)
+      .orderBy(asc(taxCodes.name))
+
+    const creditedByCode = await db
+      .select({
+        taxCodeId: taxCodes.id,
+        taxable: sum(inBaseCurrency(creditNoteItems.total, creditNotes.exchangeRate)),
+        tax: sum(inBaseCurrency(creditNoteItems.taxAmount, creditNotes.exchangeRate)),
+      })
+      .from(creditNoteItems)
+      .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+      .leftJoin(taxCodes, eq(creditNoteItems.taxCodeId, taxCodes.id))
+      .where(creditedInPeriod)
+      .groupBy(taxCodes.id)
+
+    const totals = periods.reduce(
+      (total, row) => ({
+        outputTax: total.outputTax + row.outputTax,
+        inputTax: total.inputTax + row.inputTax,
+        withheldTax: total.withheldTax + row.withheldTax,
+      }),
+      { outputTax: 0, inputTax: 0, withheldTax: 0 }
+    )
 
     return {
       success: true,
-      data: taxData,
+      data: {
+        periods,
+        byCode: byCode.map((row) => {
+          const credited = creditedByCode.find((candidate) => candidate.taxCodeId === row.taxCodeId)
+          return {
+            taxCodeId: row.taxCodeId,
+            name: row.name ?? "No tax code",
+            kind: row.kind,
+            taxable: roundCents(Number(row.taxable || 0) - Number(credited?.taxable || 0)),
+            tax: roundCents(Math.abs(Number(row.tax || 0) - Number(credited?.tax || 0))),
+          }
+        }),
+        totals: {
+          outputTax: roundCents(totals.outputTax),
+          inputTax: roundCents(totals.inputTax),
+          withheldTax: roundCents(totals.withheldTax),
+          netPayable: roundCents(totals.outputTax - totals.inputTax),
+        },
+      },
     }
   } catch (error) {
     console.error("Error fetching tax report:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to fetch tax report" }
   }
 }
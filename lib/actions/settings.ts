@@ -2,20 +2,16 @@
 
 import { auth } from "@/lib/auth";
 import { db } from "@/db/drizzle";
-import { user } from "@/db/schema";
+import { organizations } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { headers } from "next/headers";
 import { revalidatePath } from "next/cache";
+import { getOrganizationContext } from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
 
 export async function updateCompanyInfo(formData: FormData) {
   try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" };
-    }
+    const { organizationId } = await getOrganizationContext("organization:manage");
 
     const name = formData.get("name") as string;
     const address = formData.get("address") as string;
@@ -27,21 +23,22 @@ export async function updateCompanyInfo(formData: FormData) {
       return { success: false, error: "Company name and email are required" };
     }
 
-    // Update user's company info (stored in user table for simplicity)
+    // The company is the active organisation; contact details are not stored yet
     await db
-      .update(user)
+      .update(organizations)
       .set({
         name: name,
-        email: email,
-        // Note: In a real app, you'd have a separate company table
         updatedAt: new Date(),
       })
-      .where(eq(user.id, session.user.id));
+      .where(eq(organizations.id, organizationId));
 
     revalidatePath("/settings");
     return { success: true, data: "Company information updated successfully" };
   } catch (error) {
     console.error("Error updating company info:", error);
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to update company information" };
   }
 }
@@ -86,85 +83,3 @@ export async function changePassword(formData: FormData) {
     return { success: false, error: "Failed to change password" };
   }
 }
-
-export async function createUser(formData: FormData) {
-  try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const name = formData.get("name") as string;
-    const email = formData.get("email") as string;
-    const userType = formData.get("userType") as string;
-    const password = formData.get("password") as string;
-
-    if (!name || !email || !userType || !password) {
-      return { success: false, error: "All fields are required" };
-    }
-
-    if (!["staff", "accountant"].includes(userType)) {
-      return { success: false, error: "Invalid user type" };
-    }
-
-    if (password.length < 8) {
-      return {
-        success: false,
-        error: "Password must be at least 8 characters long",
-      };
-    }
-
-    // Check if user already exists
-    const existingUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.email, email))
-      .limit(1);
-
-    if (existingUser.length > 0) {
-      return { success: false, error: "User with this email already exists" };
-    }
-
-    // In a real app, you'd hash the password and create the user
-    // For now, we'll simulate user creation
-    console.log("User creation requested:", { name, email, userType });
-
-    revalidatePath("/settings");
-    return { success: true, data: "User created successfully" };
-  } catch (error) {
-    console.error("Error creating user:", error);
-    return { success: false, error: "Failed to create user" };
-  }
-}
-
-export async function getUsers() {
-  try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session?.user?.id) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    // In a real app, you'd fetch users from the database
-    // For now, return mock data
-    const users = [
-      { id: "1", name: "Mark Zulu", email: "markzulu@mail.com", type: "staff" },
-      {
-        id: "2",
-        name: "Mary Banda",
-        email: "marybanda@mail.com",
-        type: "accountant",
-      },
-    ];
-
-    return { success: true, data: users };
-  } catch (error) {
-    console.error("Error fetching users:", error);
-    return { success: false, error: "Failed to fetch users" };
-  }
-}
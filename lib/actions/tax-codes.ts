@@ -0,0 +1,216 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { accounts, creditNoteItems, invoiceItems, quoteItems, recurringInvoiceItems, taxCodes } from "@/db/schema"
+import { and, asc, eq, ne } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { seedDefaultTaxCodes } from "@/lib/chart-of-accounts"
+import { type DbExecutor, LedgerError } from "@/lib/ledger"
+import { assertAccountsInOrganization, getOrganizationContext } from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+
+const taxCodeSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  rate: z.number().min(0, "Rate cannot be negative").max(100, "Rate cannot be more than 100%"),
+  kind: z.enum(["standard", "zero_rated", "exempt", "withholding"]),
+  accountId: z.string().uuid().optional(),
+  isActive: z.boolean().default(true),
+})
+
+function readTaxCodeForm(formData: FormData) {
+  const data = taxCodeSchema.parse({
+    name: formData.get("name") as string,
+    rate: Number.parseFloat(formData.get("rate") as string) || 0,
+    kind: formData.get("kind") as string,
+    accountId: (formData.get("accountId") as string) || undefined,
+    isActive: formData.get("isActive") !== "false",
+  })
+  // Zero-rated and exempt supplies never carry tax
+  return data.kind === "zero_rated" || data.kind === "exempt" ? { ...data, rate: 0 } : data
+}
+
+async function assertUniqueName(executor: DbExecutor, organizationId: string, name: string, exceptId?: string) {
+  const [existing] = await executor
+    .select({ id: taxCodes.id })
+    .from(taxCodes)
+    .where(
+      and(
+        eq(taxCodes.organizationId, organizationId),
+        eq(taxCodes.name, name),
+        exceptId ? ne(taxCodes.id, exceptId) : undefined,
+      ),
+    )
+    .limit(1)
+
+  if (existing) {
+    throw new LedgerError(`A tax code named "${name}" already exists`)
+  }
+}
+
+export async function getTaxCodes() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select({
+        id: taxCodes.id,
+        name: taxCodes.name,
+        rate: taxCodes.rate,
+        kind: taxCodes.kind,
+        accountId: taxCodes.accountId,
+        accountName: accounts.name,
+        isActive: taxCodes.isActive,
+      })
+      .from(taxCodes)
+      .leftJoin(accounts, eq(taxCodes.accountId, accounts.id))
+      .where(eq(taxCodes.organizationId, organizationId))
+      .orderBy(asc(taxCodes.kind), asc(taxCodes.name))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching tax codes:", error)
+    return { success: false, error: "Failed to fetch tax codes" }
+  }
+}
+
+export async function createTaxCode(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const data = readTaxCodeForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      await assertUniqueName(tx, organizationId, data.name)
+      await assertAccountsInOrganization(tx, organizationId, [data.accountId])
+
+      const [taxCode] = await tx
+        .insert(taxCodes)
+        .values({ ...data, rate: data.rate.toFixed(2), accountId: data.accountId ?? null, organizationId })
+        .returning()
+      return taxCode
+    })
+
+    revalidatePath("/settings")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error creating tax code:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to create tax code" }
+  }
+}
+
+/**
+ * Update a tax code. Invoice lines keep the rate they were taxed at, so a new rate only applies
+ * to invoices saved afterwards.
+ */
+export async function updateTaxCode(id: string, formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const data = readTaxCodeForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      await assertUniqueName(tx, organizationId, data.name, id)
+      await assertAccountsInOrganization(tx, organizationId, [data.accountId])
+
+      const [taxCode] = await tx
+        .update(taxCodes)
+        .set({
+          name: data.name,
+          rate: data.rate.toFixed(2),
+          kind: data.kind,
+          accountId: data.accountId ?? null,
+          isActive: data.isActive,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(taxCodes.id, id), eq(taxCodes.organizationId, organizationId)))
+        .returning()
+
+      if (!taxCode) {
+        throw new LedgerError("Tax code not found")
+      }
+      return taxCode
+    })
+
+    revalidatePath("/settings")
+    revalidatePath("/invoices")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error updating tax code:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to update tax code" }
+  }
+}
+
+/**
+ * Delete a tax code that no invoice, credit note or quote line uses; codes in use can be deactivated instead
+ */
+export async function deleteTaxCode(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    await db.transaction(async (tx) => {
+      const [used] = await tx
+        .select({ id: invoiceItems.id })
+        .from(invoiceItems)
+        .where(eq(invoiceItems.taxCodeId, id))
+        .limit(1)
+
+      const [credited] = await tx
+        .select({ id: creditNoteItems.id })
+        .from(creditNoteItems)
+        .where(eq(creditNoteItems.taxCodeId, id))
+        .limit(1)
+
+      const [quoted] = await tx
+        .select({ id: quoteItems.id })
+        .from(quoteItems)
+        .where(eq(quoteItems.taxCodeId, id))
+        .limit(1)
+
+      const [scheduled] = await tx
+        .select({ id: recurringInvoiceItems.id })
+        .from(recurringInvoiceItems)
+        .where(eq(recurringInvoiceItems.taxCodeId, id))
+        .limit(1)
+
+      if (used || credited || quoted || scheduled) {
+        throw new LedgerError("This tax code is used on invoices, quotes or recurring invoices. Deactivate it instead.")
+      }
+
+      await tx.delete(taxCodes).where(and(eq(taxCodes.id, id), eq(taxCodes.organizationId, organizationId)))
+    })
+
+    revalidatePath("/settings")
+    return { success: true }
+  } catch (error) {
+    console.error("Error deleting tax code:", error)
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to delete tax code" }
+  }
+}
+
+/**
+ * Add the default tax codes an organisation is missing
+ */
+export async function seedTaxCodes() {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    const created = await db.transaction((tx) => seedDefaultTaxCodes(tx, organizationId))
+
+    revalidatePath("/settings")
+    return { success: true, data: { created } }
+  } catch (error) {
+    console.error("Error seeding tax codes:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to add default tax codes" }
+  }
+}
@@ -0,0 +1,263 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { categories, transactionRules, transactions } from "@/db/schema"
+import { and, asc, eq, isNull } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+import { LedgerError, type DbTransaction, postTransaction } from "@/lib/ledger"
+import {
+  assertAccountsInOrganization,
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+import { applyTransactionRules, getActiveRules, isValidRulePattern } from "@/lib/transaction-rules"
+
+const ruleSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(255),
+    priority: z.number().int().min(0).default(100),
+    isActive: z.boolean().default(true),
+    descriptionPattern: z.string().max(255).optional(),
+    matchType: z.enum(["contains", "regex"]).default("contains"),
+    minAmount: z.number().min(0).optional(),
+    maxAmount: z.number().min(0).optional(),
+    accountId: z.string().uuid().optional(),
+    type: z.enum(["income", "expense", "transfer"]).optional(),
+    transferAccountId: z.string().uuid().optional(),
+    contactId: z.string().uuid().optional(),
+    categoryId: z.string().uuid().optional(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine((data) => data.matchType !== "regex" || !data.descriptionPattern || isValidRulePattern(data.descriptionPattern), {
+    message: "The description pattern is not a valid regular expression",
+    path: ["descriptionPattern"],
+  })
+  .refine((data) => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount, {
+    message: "The minimum amount cannot be more than the maximum",
+    path: ["minAmount"],
+  })
+  .refine((data) => data.type !== "transfer" || data.transferAccountId, {
+    message: "Transfer rules need a transfer account",
+    path: ["transferAccountId"],
+  })
+  .refine((data) => data.contactId || data.categoryId || data.type || data.notes, {
+    message: "A rule must set a contact, category, type or notes",
+  })
+
+function readRuleForm(formData: FormData) {
+  const optionalNumber = (key: string) => {
+    const value = formData.get(key) as string | null
+    return value ? Number.parseFloat(value) : undefined
+  }
+
+  return ruleSchema.parse({
+    name: formData.get("name") as string,
+    priority: optionalNumber("priority"),
+    isActive: formData.get("isActive") !== "false",
+    descriptionPattern: (formData.get("descriptionPattern") as string) || undefined,
+    matchType: (formData.get("matchType") as string) || undefined,
+    minAmount: optionalNumber("minAmount"),
+    maxAmount: optionalNumber("maxAmount"),
+    accountId: (formData.get("accountId") as string) || undefined,
+    type: (formData.get("type") as string) || undefined,
+    transferAccountId: (formData.get("transferAccountId") as string) || undefined,
+    contactId: (formData.get("contactId") as string) || undefined,
+    categoryId: (formData.get("categoryId") as string) || undefined,
+    notes: (formData.get("notes") as string) || undefined,
+  })
+}
+
+/**
+ * Check everything the rule refers to belongs to the organisation and return the values to store.
+ * A categorised rule takes the category's type, so it only ever applies in that direction.
+ */
+async function prepareRule(tx: DbTransaction, organizationId: string, data: z.infer<typeof ruleSchema>) {
+  await assertAccountsInOrganization(tx, organizationId, [data.accountId, data.transferAccountId])
+  if (data.contactId) {
+    await assertContactInOrganization(tx, organizationId, data.contactId)
+  }
+
+  let type = data.type ?? null
+  if (data.categoryId) {
+    const [category] = await tx
+      .select({ type: categories.type })
+      .from(categories)
+      .where(and(eq(categories.id, data.categoryId), eq(categories.organizationId, organizationId)))
+      .limit(1)
+    if (!category) {
+      throw new LedgerError("Category not found")
+    }
+    if (type === "transfer") {
+      throw new LedgerError("Transfer rules cannot set a category")
+    }
+    if (type && type !== category.type) {
+      throw new LedgerError(`An ${type} rule needs an ${type} category`)
+    }
+    type = category.type
+  }
+
+  return {
+    name: data.name,
+    priority: data.priority,
+    isActive: data.isActive,
+    descriptionPattern: data.descriptionPattern ?? null,
+    matchType: data.matchType,
+    minAmount: data.minAmount?.toFixed(2) ?? null,
+    maxAmount: data.maxAmount?.toFixed(2) ?? null,
+    accountId: data.accountId ?? null,
+    type,
+    transferAccountId: type === "transfer" ? data.transferAccountId! : null,
+    contactId: data.contactId ?? null,
+    categoryId: data.categoryId ?? null,
+    notes: data.notes ?? null,
+  }
+}
+
+export async function getTransactionRules() {
+  try {
+    const { organizationId } = await getOrganizationContext()
+
+    const result = await db
+      .select()
+      .from(transactionRules)
+      .where(eq(transactionRules.organizationId, organizationId))
+      .orderBy(asc(transactionRules.priority), asc(transactionRules.createdAt))
+
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error fetching transaction rules:", error)
+    return { success: false, error: "Failed to fetch transaction rules" }
+  }
+}
+
+export async function createTransactionRule(formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const data = readRuleForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      const values = await prepareRule(tx, organizationId, data)
+      const [rule] = await tx
+        .insert(transactionRules)
+        .values({ ...values, organizationId })
+        .returning()
+      return rule
+    })
+
+    revalidatePath("/transactions")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error creating transaction rule:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to create rule" }
+  }
+}
+
+export async function updateTransactionRule(id: string, formData: FormData) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+    const data = readRuleForm(formData)
+
+    const result = await db.transaction(async (tx) => {
+      const values = await prepareRule(tx, organizationId, data)
+      const [rule] = await tx
+        .update(transactionRules)
+        .set({ ...values, updatedAt: new Date() })
+        .where(and(eq(transactionRules.id, id), eq(transactionRules.organizationId, organizationId)))
+        .returning()
+
+      if (!rule) {
+        throw new LedgerError("Rule not found")
+      }
+      return rule
+    })
+
+    revalidatePath("/transactions")
+    return { success: true, data: result }
+  } catch (error) {
+    console.error("Error updating transaction rule:", error)
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to update rule" }
+  }
+}
+
+export async function deleteTransactionRule(id: string) {
+  try {
+    const { organizationId } = await getOrganizationContext("accounts:manage")
+
+    await db
+      .delete(transactionRules)
+      .where(and(eq(transactionRules.id, id), eq(transactionRules.organizationId, organizationId)))
+
+    revalidatePath("/transactions")
+    return { success: true }
+  } catch (error) {
+    console.error("Error deleting transaction rule:", error)
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to delete rule" }
+  }
+}
+
+/**
+ * Run the active rules over pending transactions, filling in details they are missing.
+ * Invoice and bill payments are left alone because their documents own them.
+ */
+export async function runTransactionRules() {
+  try {
+    const { organizationId } = await getOrganizationContext("records:create")
+
+    const updated = await db.transaction(async (tx) => {
+      const rules = await getActiveRules(tx, organizationId)
+      if (rules.length === 0) {
+        return 0
+      }
+
+      const pending = await tx
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.organizationId, organizationId),
+            eq(transactions.status, "pending"),
+            isNull(transactions.invoiceId),
+            isNull(transactions.billId),
+            isNull(transactions.expenseId),
+          ),
+        )
+
+      let count = 0
+      for (const transaction of pending) {
+        const match = applyTransactionRules(rules, transaction)
+        if (!match || Object.keys(match.changes).length === 0) {
+          continue
+        }
+
+        const [row] = await tx
+          .update(transactions)
+          .set({ ...match.changes, updatedAt: new Date() })
+          .where(eq(transactions.id, transaction.id))
+          .returning()
+        await postTransaction(tx, row)
+        count++
+      }
+      return count
+    })
+
+    revalidatePath("/transactions")
+    return { success: true, data: { updated } }
+  } catch (error) {
+    console.error("Error running transaction rules:", error)
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: "Failed to run rules" }
+  }
+}
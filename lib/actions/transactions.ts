@@ -1,42 +1,122 @@
 "use server"
 
 import { db } from "@/db/drizzle"
-import { transactions, accounts, contacts } from "@/db/schema"
-import { eq, desc, and } from "drizzle-orm"
+import { transactions, accounts, categories, contacts, invoicePayments, billPayments, creditRefunds } from "@/db/schema"
+import { eq, desc, and, isNotNull } from "drizzle-orm"
 import { alias } from "drizzle-orm/pg-core"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
-import { auth } from "@/lib/auth"
-import { headers } from "next/headers"
+import { LedgerError, isPaymentAccount, postTransaction, unpostSource, type DbTransaction } from "@/lib/ledger"
+import {
+  assertAccountsInOrganization,
+  assertContactInOrganization,
+  getOrganizationContext,
+} from "@/lib/organizations"
+import { PermissionError } from "@/lib/permissions"
+import { removeSourceAttachments } from "@/lib/attachments"
+import { assertCategoryInOrganization } from "@/lib/categories"
+import { assertTransactionsNotReconciled } from "@/lib/reconciliation"
+import { getAccountsCurrency, resolveExchangeRate } from "@/lib/exchange-rates"
+import { toBaseAmount } from "@/lib/currency"
 
 const transactionSchema = z.object({
   description: z.string().min(1, "Description is required"),
   amount: z.string().min(1, "Amount is required"),
+  currency: z.string().length(3).optional(),
+  exchangeRate: z.number().positive("Exchange rate must be greater than zero").optional(),
   type: z.enum(["income", "expense", "transfer"]),
   status: z.enum(["pending", "completed", "cancelled"]).default("completed"),
   fromAccountId: z.string().uuid().optional(),
   toAccountId: z.string().uuid().optional(),
   contactId: z.string().uuid().optional(),
   userId: z.string().uuid(),
-  category: z.string().optional(),
+  categoryId: z.string().uuid().optional(),
   reference: z.string().optional(),
   notes: z.string().optional(),
   transactionDate: z.string(),
 })
 
-async function getCurrentUserId(): Promise<string> {
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  })
-  if (!session?.user?.id) {
-    throw new Error("Unauthorized: No user session found")
+// Accounts, contact and category must come from the organisation the transaction is booked in
+async function assertTransactionReferences(
+  tx: DbTransaction,
+  organizationId: string,
+  data: z.infer<typeof transactionSchema>,
+) {
+  await assertAccountsInOrganization(tx, organizationId, [data.fromAccountId, data.toAccountId])
+  if (data.contactId) {
+    await assertContactInOrganization(tx, organizationId, data.contactId)
+  }
+  if (data.categoryId) {
+    await assertCategoryInOrganization(tx, organizationId, data.categoryId, data.type)
+  }
+}
+
+/**
+ * The transaction's currency, defaulting to that of its accounts, and its rate to base
+ * currency, defaulting to the stored rate on the transaction date
+ */
+async function resolveTransactionCurrency(
+  tx: DbTransaction,
+  organizationId: string,
+  data: z.infer<typeof transactionSchema>,
+) {
+  const currency = data.currency ?? (await getAccountsCurrency(tx, organizationId, [data.fromAccountId, data.toAccountId]))
+  const exchangeRate = await resolveExchangeRate(
+    tx,
+    organizationId,
+    currency,
+    new Date(data.transactionDate),
+    data.exchangeRate,
+  )
+  return { currency, exchangeRate: String(exchangeRate) }
+}
+
+// Invoice and bill payments and expense reimbursements own their transaction; edits go through the document instead
+async function assertNotDocumentPayment(tx: DbTransaction, transactionId: string) {
+  const [invoicePayment] = await tx
+    .select({ id: invoicePayments.id })
+    .from(invoicePayments)
+    .where(eq(invoicePayments.transactionId, transactionId))
+    .limit(1)
+
+  if (invoicePayment) {
+    throw new LedgerError("This transaction records an invoice payment. Change it from the invoice instead.")
+  }
+
+  const [billPayment] = await tx
+    .select({ id: billPayments.id })
+    .from(billPayments)
+    .where(eq(billPayments.transactionId, transactionId))
+    .limit(1)
+
+  if (billPayment) {
+    throw new LedgerError("This transaction records a bill payment. Change it from the bill instead.")
+  }
+
+  const [creditRefund] = await tx
+    .select({ id: creditRefunds.id })
+    .from(creditRefunds)
+    .where(eq(creditRefunds.transactionId, transactionId))
+    .limit(1)
+
+  if (creditRefund) {
+    throw new LedgerError("This transaction refunds customer credit. Change it from the credit notes page instead.")
+  }
+
+  const [reimbursement] = await tx
+    .select({ id: transactions.id })
+    .from(transactions)
+    .where(and(eq(transactions.id, transactionId), isNotNull(transactions.expenseId)))
+    .limit(1)
+
+  if (reimbursement) {
+    throw new LedgerError("This transaction reimburses an expense. Reverse the reimbursement from the expense instead.")
   }
-  return session.user.id
 }
 
 export async function getTransactions() {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
     const toAccountAlias = alias(accounts, "toAccount")
 
@@ -45,6 +125,8 @@ export async function getTransactions() {
         id: transactions.id,
         description: transactions.description,
         amount: transactions.amount,
+        currency: transactions.currency,
+        exchangeRate: transactions.exchangeRate,
         type: transactions.type,
         status: transactions.status,
         reference: transactions.reference,
@@ -54,27 +136,35 @@ export async function getTransactions() {
         fromAccountId: transactions.fromAccountId,
         toAccountId: transactions.toAccountId,
         contactId: transactions.contactId,
+        categoryId: transactions.categoryId,
         fromAccount: {
           id: accounts.id,
           name: accounts.name,
           type: accounts.type,
+          currency: accounts.currency,
         },
         toAccount: {
           id: toAccountAlias.id,
           name: toAccountAlias.name,
           type: toAccountAlias.type,
+          currency: toAccountAlias.currency,
         },
         contact: {
           id: contacts.id,
           name: contacts.name,
           type: contacts.type,
         },
+        category: {
+          id: categories.id,
+          name: categories.name,
+        },
       })
       .from(transactions)
       .leftJoin(accounts, eq(transactions.fromAccountId, accounts.id))
       .leftJoin(toAccountAlias, eq(transactions.toAccountId, toAccountAlias.id))
       .leftJoin(contacts, eq(transactions.contactId, contacts.id))
-      .where(eq(transactions.userId, userId))
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(eq(transactions.organizationId, organizationId))
       .orderBy(desc(transactions.transactionDate))
 
     return { success: true, data: result }
@@ -86,16 +176,20 @@ export async function getTransactions() {
 
 export async function getAccounts() {
   try {
+    const { organizationId } = await getOrganizationContext()
+
     const result = await db
       .select({
         id: accounts.id,
         name: accounts.name,
         type: accounts.type,
+        currency: accounts.currency,
       })
       .from(accounts)
+      .where(eq(accounts.organizationId, organizationId))
       .orderBy(accounts.type)
 
-    return { success: true, data: result }
+    return { success: true, data: result.filter(isPaymentAccount) }
   } catch (error) {
     console.error("Error fetching accounts:", error)
     return { success: false, error: "Failed to fetch accounts" }
@@ -104,18 +198,20 @@ export async function getAccounts() {
 
 export async function createTransaction(formData: FormData) {
   try {
-    const userId = await getCurrentUserId()
+    const { userId, organizationId } = await getOrganizationContext("records:create")
 
     const data = {
       description: formData.get("description") as string,
       amount: formData.get("amount") as string,
+      currency: (formData.get("currency") as string) || undefined,
+      exchangeRate: Number.parseFloat(formData.get("exchangeRate") as string) || undefined,
       type: formData.get("type") as "income" | "expense" | "transfer",
       status: (formData.get("status") as "pending" | "completed" | "cancelled") || "completed",
       fromAccountId: (formData.get("fromAccountId") as string) || undefined,
       toAccountId: (formData.get("toAccountId") as string) || undefined,
       contactId: (formData.get("contactId") as string) || undefined,
       userId,
-      category: (formData.get("category") as string) || undefined,
+      categoryId: (formData.get("categoryId") as string) || undefined,
       reference: (formData.get("reference") as string) || undefined,
       notes: (formData.get("notes") as string) || undefined,
       transactionDate: formData.get("transactionDate") as string,
@@ -123,20 +219,30 @@ export async function createTransaction(formData: FormData) {
 
     const validatedData = transactionSchema.parse(data)
 
-    const result = await db
-      .insert(transactions)
-      .values({
-        ...validatedData,
-        transactionDate: new Date(validatedData.transactionDate),
-      })
-      .returning()
+    const result = await db.transaction(async (tx) => {
+      await assertTransactionReferences(tx, organizationId, validatedData)
+
+      const [newTransaction] = await tx
+        .insert(transactions)
+        .values({
+          ...validatedData,
+          ...(await resolveTransactionCurrency(tx, organizationId, validatedData)),
+          organizationId,
+          transactionDate: new Date(validatedData.transactionDate),
+        })
+        .returning()
+
+      await postTransaction(tx, newTransaction)
+
+      return newTransaction
+    })
 
     revalidatePath("/transactions")
     revalidatePath("/")
-    return { success: true, data: result[0] }
+    return { success: true, data: result }
   } catch (error) {
     console.error("Error creating transaction:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to create transaction" }
@@ -145,17 +251,19 @@ export async function createTransaction(formData: FormData) {
 
 export async function updateTransaction(id: string, formData: FormData) {
   try {
-    const userId = await getCurrentUserId()
+    const { userId, organizationId } = await getOrganizationContext("records:create")
 
     const data = {
       description: formData.get("description") as string,
       amount: formData.get("amount") as string,
+      currency: (formData.get("currency") as string) || undefined,
+      exchangeRate: Number.parseFloat(formData.get("exchangeRate") as string) || undefined,
       type: formData.get("type") as "income" | "expense" | "transfer",
       status: formData.get("status") as "pending" | "completed" | "cancelled",
       fromAccountId: (formData.get("fromAccountId") as string) || undefined,
       toAccountId: (formData.get("toAccountId") as string) || undefined,
       contactId: (formData.get("contactId") as string) || undefined,
-      category: (formData.get("category") as string) || undefined,
+      categoryId: (formData.get("categoryId") as string) || undefined,
       reference: (formData.get("reference") as string) || undefined,
       notes: (formData.get("notes") as string) || undefined,
       transactionDate: formData.get("transactionDate") as string,
@@ -166,30 +274,44 @@ export async function updateTransaction(id: string, formData: FormData) {
       userId,
     })
 
-    const result = await db
-      .update(transactions)
-      .set({
-        description: validatedData.description,
-        amount: validatedData.amount,
-        type: validatedData.type,
-        status: validatedData.status,
-        fromAccountId: validatedData.fromAccountId,
-        toAccountId: validatedData.toAccountId,
-        contactId: validatedData.contactId,
-        reference: validatedData.reference,
-        notes: validatedData.notes,
-        transactionDate: new Date(validatedData.transactionDate),
-        updatedAt: new Date(),
-      })
-      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
-      .returning()
+    const result = await db.transaction(async (tx) => {
+      await assertNotDocumentPayment(tx, id)
+      await assertTransactionsNotReconciled(tx, [id])
+      await assertTransactionReferences(tx, organizationId, validatedData)
+
+      const [updatedTransaction] = await tx
+        .update(transactions)
+        .set({
+          description: validatedData.description,
+          amount: validatedData.amount,
+          ...(await resolveTransactionCurrency(tx, organizationId, validatedData)),
+          type: validatedData.type,
+          status: validatedData.status,
+          fromAccountId: validatedData.fromAccountId,
+          toAccountId: validatedData.toAccountId,
+          contactId: validatedData.contactId,
+          categoryId: validatedData.categoryId ?? null,
+          reference: validatedData.reference,
+          notes: validatedData.notes,
+          transactionDate: new Date(validatedData.transactionDate),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(transactions.id, id), eq(transactions.organizationId, organizationId)))
+        .returning()
+
+      if (updatedTransaction) {
+        await postTransaction(tx, updatedTransaction)
+      }
+
+      return updatedTransaction
+    })
 
     revalidatePath("/transactions")
     revalidatePath("/")
-    return { success: true, data: result[0] }
+    return { success: true, data: result }
   } catch (error) {
     console.error("Error updating transaction:", error)
-    if (error instanceof z.ZodError) {
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
       return { success: false, error: error.message }
     }
     return { success: false, error: "Failed to update transaction" }
@@ -198,42 +320,61 @@ export async function updateTransaction(id: string, formData: FormData) {
 
 export async function deleteTransaction(id: string) {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext("records:delete")
 
-    await db.delete(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+    await db.transaction(async (tx) => {
+      await assertNotDocumentPayment(tx, id)
+      await assertTransactionsNotReconciled(tx, [id])
+
+      const deleted = await tx
+        .delete(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.organizationId, organizationId)))
+        .returning({ id: transactions.id })
+
+      if (deleted.length > 0) {
+        await unpostSource(tx, "transaction", id)
+      }
+    })
+    await removeSourceAttachments(organizationId, "transaction", id)
 
     revalidatePath("/transactions")
     revalidatePath("/")
     return { success: true }
   } catch (error) {
     console.error("Error deleting transaction:", error)
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message }
+    }
     return { success: false, error: "Failed to delete transaction" }
   }
 }
 
 export async function getTransactionsSummary() {
   try {
-    const userId = await getCurrentUserId()
+    const { organizationId } = await getOrganizationContext()
 
-    const result = await db.select().from(transactions).where(eq(transactions.userId, userId))
+    const result = await db.select().from(transactions).where(eq(transactions.organizationId, organizationId))
 
     const now = new Date()
     const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
     const thisMonth = result.filter((t) => new Date(t.transactionDate) >= startOfMonth)
 
+    // Totals are in the base currency, whatever currency each transaction was entered in
+    const total = (rows: typeof result, type: "income" | "expense") =>
+      rows
+        .filter((t) => t.type === type)
+        .reduce(
+          (sum, t) => sum + toBaseAmount(Number.parseFloat(t.amount), Number.parseFloat(t.exchangeRate)),
+          0,
+        )
+
     const summary = {
       totalTransactions: result.length,
       thisMonthTransactions: thisMonth.length,
-      totalIncome: result.filter((t) => t.type === "income").reduce((sum, t) => sum + Number.parseFloat(t.amount), 0),
-      totalExpenses: result
-        .filter((t) => t.type === "expense")
-        .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0),
-      thisMonthIncome: thisMonth
-        .filter((t) => t.type === "income")
-        .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0),
-      thisMonthExpenses: thisMonth
-        .filter((t) => t.type === "expense")
-        .reduce((sum, t) => sum + Number.parseFloat(t.amount), 0),
+      totalIncome: total(result, "income"),
+      totalExpenses: total(result, "expense"),
+      thisMonthIncome: total(thisMonth, "income"),
+      thisMonthExpenses: total(thisMonth, "expense"),
     }
 
     return { success: true, data: summary }
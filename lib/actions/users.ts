@@ -1,13 +1,15 @@
 "use server";
 
 import { db } from "@/db/drizzle";
-import { user } from "@/db/schema";
-import { count, eq } from "drizzle-orm";
+import { memberships, user } from "@/db/schema";
+import { and, count, eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { APIError } from "better-auth";
-import { tr } from "date-fns/locale";
+import { LedgerError } from "@/lib/ledger";
+import { assertCanManageMembership, getOrganizationContext } from "@/lib/organizations";
+import { PermissionError } from "@/lib/permissions";
 
 export const signIn = async (email: string, password: string) => {
   try {
@@ -26,15 +28,13 @@ export const signIn = async (email: string, password: string) => {
 export const signUp = async (
   name: string,
   email: string,
-  password: string,
-  role?: string
+  password: string
 ) => {
   await auth.api.signUpEmail({
     body: {
       name,
       email,
       password,
-      role,
     },
   });
 };
@@ -42,15 +42,51 @@ const userSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.email("Invalid email address"),
   password: z.string().min(6, "Password must be at least 6 characters long"),
-  role: z.enum(["admin", "accountant", "user"]),
+  role: z.enum(["admin", "accountant", "member"]),
 });
 
+// Roles belong to the membership, so editing a user only ever changes their role here
+const userRoleSchema = userSchema.pick({ role: true });
+
+// Users can only be managed from an organisation they share
+async function getOrganizationMembership(organizationId: string, userId: string) {
+  const [membership] = await db
+    .select({ id: memberships.id, userId: memberships.userId, role: memberships.role })
+    .from(memberships)
+    .where(
+      and(
+        eq(memberships.organizationId, organizationId),
+        eq(memberships.userId, userId)
+      )
+    )
+    .limit(1);
+  return membership ?? null;
+}
+
 export async function getUsers() {
   try {
-    const result = await db.select().from(user);
+    const { organizationId } = await getOrganizationContext("users:manage");
+
+    const result = await db
+      .select({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        image: user.image,
+        role: memberships.role,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      })
+      .from(user)
+      .innerJoin(memberships, eq(memberships.userId, user.id))
+      .where(eq(memberships.organizationId, organizationId));
     return { success: true, data: result };
   } catch (error) {
     console.error("Error fetching users:", error);
+    if (error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to fetch users" };
   }
 }
@@ -61,63 +97,98 @@ export async function createUser(formData: FormData) {
       name: formData.get("name") as string,
       email: formData.get("email") as string,
       password: formData.get("password") as string,
-      role: formData.get("role") as "admin" | "accountant" | "user",
+      role: formData.get("role") as "admin" | "accountant" | "member",
     };
 
     const validatedData = userSchema.parse(data);
+    const { organizationId } = await getOrganizationContext("users:manage");
 
     const result = await signUp(
       validatedData.name,
       validatedData.email,
-      validatedData.password,
-      validatedData.role
+      validatedData.password
     );
 
+    // New users join the organisation of the person who created them
+    const [createdUser] = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.email, validatedData.email))
+      .limit(1);
+    if (createdUser) {
+      await db
+        .insert(memberships)
+        .values({ organizationId, userId: createdUser.id, role: validatedData.role })
+        .onConflictDoNothing();
+    }
+
     revalidatePath("/settings");
     return { success: true, data: result };
   } catch (error) {
     console.error("Error creating user:", error);
+    if (error instanceof z.ZodError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to create user" };
   }
 }
 
+// Organisation admins manage memberships; names, emails and logins belong to the user's own account
 export async function updateUser(id: string, formData: FormData) {
   try {
-    const data = {
-      name: formData.get("name") as string,
-      email: formData.get("email") as string,
-      role: formData.get("role") as "admin" | "accountant" | "user",
-    };
+    const { role } = userRoleSchema.parse({
+      role: formData.get("role") as string,
+    });
+    const context = await getOrganizationContext("users:manage");
 
-    const validatedData = userSchema.parse(data);
+    const membership = await getOrganizationMembership(context.organizationId, id);
+    if (!membership) {
+      return { success: false, error: "User not found" };
+    }
 
-    const result = await db
-      .update(user)
-      .set({ ...validatedData, updatedAt: new Date() })
-      .where(eq(user.id, id))
+    await assertCanManageMembership(db, context, membership, "change");
+
+    const [updated] = await db
+      .update(memberships)
+      .set({ role })
+      .where(eq(memberships.id, membership.id))
       .returning();
 
     revalidatePath("/settings");
-    return { success: true, data: result[0] };
+    return { success: true, data: updated };
   } catch (error) {
     console.error("Error updating user:", error);
+    if (error instanceof z.ZodError || error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to update user" };
   }
 }
 
+// Removes the user from the active organisation only; their account and other memberships stay
 export async function deleteUser(id: string) {
   try {
-    await db.delete(user).where(eq(user.id, id));
+    const context = await getOrganizationContext("users:manage");
+
+    const membership = await getOrganizationMembership(context.organizationId, id);
+    if (!membership) {
+      return { success: false, error: "User not found" };
+    }
+
+    await assertCanManageMembership(db, context, membership, "remove");
+    await db.delete(memberships).where(eq(memberships.id, membership.id));
 
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
     console.error("Error deleting user:", error);
+    if (error instanceof LedgerError || error instanceof PermissionError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: "Failed to delete user" };
   }
 }
 
-
 export async function isAdminCreated() {
   try {
     const userCount = await db.select({count: count()}).from(user);
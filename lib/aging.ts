@@ -0,0 +1,94 @@
+// Aging buckets for receivables and payables
+// Outstanding balances are grouped by how many days they are past due
+
+export type AgingBucket = "current" | "days1to30" | "days31to60" | "days61to90" | "over90"
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: "current", label: "Current" },
+  { key: "days1to30", label: "1-30 days" },
+  { key: "days31to60", label: "31-60 days" },
+  { key: "days61to90", label: "61-90 days" },
+  { key: "over90", label: "90+ days" },
+]
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number }
+
+export interface AgingRow extends AgingTotals {
+  contactId: string
+  contactName: string
+}
+
+export interface AgingReport {
+  asOf: Date
+  rows: AgingRow[]
+  totals: AgingTotals
+}
+
+export interface AgingItem {
+  contactId: string
+  contactName: string
+  dueDate: Date
+  outstanding: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function emptyTotals(): AgingTotals {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 }
+}
+
+/**
+ * Whole days a document is past due on the given date; zero or less means not yet due
+ */
+export function daysPastDue(dueDate: Date, asOf: Date): number {
+  const due = Date.UTC(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate())
+  const today = Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+  return Math.floor((today - due) / DAY_MS)
+}
+
+export function agingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const days = daysPastDue(dueDate, asOf)
+  if (days <= 0) return "current"
+  if (days <= 30) return "days1to30"
+  if (days <= 60) return "days31to60"
+  if (days <= 90) return "days61to90"
+  return "over90"
+}
+
+/**
+ * Group outstanding documents into aging buckets per contact, largest balances first
+ */
+export function buildAgingReport(items: AgingItem[], asOf: Date): AgingReport {
+  const rowsByContact = new Map<string, AgingRow>()
+  const totals = emptyTotals()
+
+  for (const item of items) {
+    if (item.outstanding <= 0) continue
+
+    const row = rowsByContact.get(item.contactId) ?? {
+      contactId: item.contactId,
+      contactName: item.contactName,
+      ...emptyTotals(),
+    }
+    const bucket = agingBucket(item.dueDate, asOf)
+
+    row[bucket] += item.outstanding
+    row.total += item.outstanding
+    totals[bucket] += item.outstanding
+    totals.total += item.outstanding
+    rowsByContact.set(item.contactId, row)
+  }
+
+  const round = <T extends AgingTotals>(values: T): T => {
+    for (const key of [...AGING_BUCKETS.map((bucket) => bucket.key), "total"] as const) {
+      values[key] = Number(values[key].toFixed(2))
+    }
+    return values
+  }
+
+  return {
+    asOf,
+    rows: [...rowsByContact.values()].map(round).sort((a, b) => b.total - a.total),
+    totals: round(totals),
+  }
+}
@@ -0,0 +1,136 @@
+// Attachments on transactions and expenses
+// Metadata lives in the attachments table; file contents go to the configured storage backend
+
+import { randomUUID } from "node:crypto"
+import { db } from "@/db/drizzle"
+import { attachments, expenses, transactions } from "@/db/schema"
+import type { AttachmentSource, SelectAttachments } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
+import type { DbExecutor } from "@/lib/ledger"
+import { getStorage } from "@/lib/storage"
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/gif",
+  "image/heic",
+]
+
+/**
+ * Raised when an upload is rejected. The message is safe to show to the user.
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AttachmentError"
+  }
+}
+
+export function validateAttachment(file: File) {
+  if (file.size === 0) {
+    throw new AttachmentError("The file is empty")
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new AttachmentError(`Files must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`)
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    throw new AttachmentError("Only PDF and image files can be attached")
+  }
+}
+
+/**
+ * Reject records from another organisation before files are attached to or read from them
+ */
+export async function assertAttachmentSource(
+  executor: DbExecutor,
+  organizationId: string,
+  sourceType: AttachmentSource,
+  sourceId: string,
+) {
+  const table = sourceType === "transaction" ? transactions : expenses
+  const [source] = await executor
+    .select({ id: table.id })
+    .from(table)
+    .where(and(eq(table.id, sourceId), eq(table.organizationId, organizationId)))
+    .limit(1)
+
+  if (!source) {
+    throw new AttachmentError(sourceType === "transaction" ? "Transaction not found" : "Expense not found")
+  }
+}
+
+/**
+ * Write the file to storage and record it. The stored object is removed again if the insert fails.
+ */
+export async function storeAttachment(input: {
+  organizationId: string
+  userId: string
+  sourceType: AttachmentSource
+  sourceId: string
+  file: File
+}) {
+  validateAttachment(input.file)
+
+  const storageKey = `${input.organizationId}/${randomUUID()}`
+  const storage = getStorage()
+  await storage.put(storageKey, new Uint8Array(await input.file.arrayBuffer()), input.file.type)
+
+  try {
+    const [attachment] = await db
+      .insert(attachments)
+      .values({
+        organizationId: input.organizationId,
+        userId: input.userId,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        fileName: input.file.name.slice(0, 255) || "attachment",
+        contentType: input.file.type,
+        size: input.file.size,
+        storageKey,
+      })
+      .returning()
+    return attachment
+  } catch (error) {
+    await storage.delete(storageKey)
+    throw error
+  }
+}
+
+/**
+ * Delete attachments and their stored files
+ */
+export async function removeAttachments(rows: Pick<SelectAttachments, "id" | "storageKey">[], executor: DbExecutor = db) {
+  const storage = getStorage()
+  for (const row of rows) {
+    await executor.delete(attachments).where(eq(attachments.id, row.id))
+    await storage.delete(row.storageKey)
+  }
+}
+
+/**
+ * Delete every attachment of a record; called after the record itself is deleted, in the same
+ * database transaction when one is passed
+ */
+export async function removeSourceAttachments(
+  organizationId: string,
+  sourceType: AttachmentSource,
+  sourceId: string,
+  executor: DbExecutor = db,
+) {
+  const rows = await executor
+    .select({ id: attachments.id, storageKey: attachments.storageKey })
+    .from(attachments)
+    .where(
+      and(
+        eq(attachments.organizationId, organizationId),
+        eq(attachments.sourceType, sourceType),
+        eq(attachments.sourceId, sourceId),
+      ),
+    )
+
+  await removeAttachments(rows, executor)
+}
@@ -24,12 +24,13 @@ export const auth = betterAuth({
     enabled: true,
   },
 
-  user: {
+  session: {
     additionalFields: {
-      role: {
+      // Set by the organisation switcher; see lib/organizations.ts
+      activeOrganizationId: {
         type: "string",
         required: false,
-        defaultValue: "staff",
+        input: false,
       },
     },
   },
@@ -1,6 +1,8 @@
 // Balance Calculation Engine for Samuel Accounting
 // Handles real-time balance calculations from transaction history
 
+import { DEFAULT_BASE_CURRENCY, currencySymbol } from "@/lib/currency"
+
 export interface Transaction {
   id: string
   date: string
@@ -14,6 +16,19 @@ export interface Transaction {
   contactType?: "customer" | "vendor"
 }
 
+// The part of a transaction that moves money between accounts
+export type LedgerMovement = Pick<Transaction, "amount" | "debitAccount" | "creditAccount">
+
+export interface JournalLine {
+  accountId: string
+  debit: number
+  credit: number
+  description?: string
+  // For lines on foreign currency balances: the currency and the amount in it, debits positive
+  currency?: string | null
+  currencyAmount?: number
+}
+
 export interface Account {
   id: string
   name: string
@@ -33,11 +48,19 @@ export interface Invoice {
   id: string
   customerId: string
   amount: number
-  status: "draft" | "sent" | "paid" | "overdue"
+  status: "draft" | "sent" | "partially_paid" | "paid" | "overdue"
   date: string
   dueDate: string
 }
 
+export interface Bill {
+  id: string
+  vendorId: string
+  total: number
+  paidAmount: number
+  status: "draft" | "open" | "partially_paid" | "paid"
+}
+
 export class BalanceEngine {
   /**
    * Calculate account balance from transaction history
@@ -45,7 +68,7 @@ export class BalanceEngine {
    * - Assets/Expenses: Debit increases, Credit decreases
    * - Liabilities/Equity/Revenue: Credit increases, Debit decreases
    */
-  static calculateAccountBalance(accountId: string, accountType: Account["type"], transactions: Transaction[]): number {
+  static calculateAccountBalance(accountId: string, accountType: Account["type"], transactions: LedgerMovement[]): number {
     let balance = 0
 
     for (const transaction of transactions) {
@@ -95,38 +118,29 @@ export class BalanceEngine {
    * Calculate vendor balance (accounts payable)
    * Positive balance = we owe money to vendor
    */
-  static calculateVendorBalance(vendorId: string, transactions: Transaction[]): number {
-    let balance = 0
-
-    // Add expenses from vendor (money we owe)
-    const vendorExpenses = transactions.filter(
-      (txn) => txn.contact === vendorId && txn.contactType === "vendor" && txn.type === "expense",
-    )
-    balance += vendorExpenses.reduce((sum, txn) => sum + txn.amount, 0)
-
-    // Subtract payments made to vendor
-    const vendorPayments = transactions.filter(
-      (txn) =>
-        txn.contact === vendorId && txn.contactType === "vendor" && txn.description.toLowerCase().includes("payment"),
-    )
-    balance -= vendorPayments.reduce((sum, txn) => sum + txn.amount, 0)
-
-    return balance
+  static calculateVendorBalance(vendorId: string, bills: Bill[]): number {
+    // Each issued bill tracks its own payments, so the balance is what is left unpaid
+    return bills
+      .filter((bill) => bill.vendorId === vendorId && bill.status !== "draft")
+      .reduce((sum, bill) => sum + (bill.total - bill.paidAmount), 0)
   }
 
   /**
    * Validate double-entry bookkeeping
    * Total debits must equal total credits
    */
-  static validateTransactionBalance(transactions: Transaction[]): {
+  static validateTransactionBalance(lines: JournalLine[]): {
     isValid: boolean
     totalDebits: number
     totalCredits: number
     difference: number
   } {
-    const totalDebits = transactions.reduce((sum, txn) => sum + txn.amount, 0)
-    const totalCredits = transactions.reduce((sum, txn) => sum + txn.amount, 0)
-    const difference = Math.abs(totalDebits - totalCredits)
+    // Sum in cents so many small lines don't accumulate float error
+    const debitCents = lines.reduce((sum, line) => sum + Math.round(line.debit * 100), 0)
+    const creditCents = lines.reduce((sum, line) => sum + Math.round(line.credit * 100), 0)
+    const totalDebits = debitCents / 100
+    const totalCredits = creditCents / 100
+    const difference = Math.abs(debitCents - creditCents) / 100
 
     return {
       isValid: difference < 0.01, // Allow for small rounding errors
@@ -139,7 +153,7 @@ export class BalanceEngine {
   /**
    * Calculate all account balances at once
    */
-  static calculateAllAccountBalances(accounts: Account[], transactions: Transaction[]): Map<string, number> {
+  static calculateAllAccountBalances(accounts: Account[], transactions: LedgerMovement[]): Map<string, number> {
     const balances = new Map<string, number>()
 
     for (const account of accounts) {
@@ -157,6 +171,7 @@ export class BalanceEngine {
     contacts: Contact[],
     invoices: Invoice[],
     transactions: Transaction[],
+    bills: Bill[] = [],
   ): Map<string, number> {
     const balances = new Map<string, number>()
 
@@ -166,7 +181,7 @@ export class BalanceEngine {
       if (contact.type === "customer") {
         balance = this.calculateCustomerBalance(contact.id, invoices, transactions)
       } else if (contact.type === "vendor") {
-        balance = this.calculateVendorBalance(contact.id, transactions)
+        balance = this.calculateVendorBalance(contact.id, bills)
       }
 
       balances.set(contact.id, balance)
@@ -223,10 +238,10 @@ export class BalanceEngine {
   }
 
   /**
-   * Format currency for display
+   * Format currency for display, in Kwacha unless another currency is given
    */
-  static formatCurrency(amount: number): string {
-    return `K${new Intl.NumberFormat("en-US", {
+  static formatCurrency(amount: number, currency: string = DEFAULT_BASE_CURRENCY): string {
+    return `${currencySymbol(currency)}${new Intl.NumberFormat("en-US", {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(Math.abs(amount))}${amount < 0 ? "" : ""}`
@@ -0,0 +1,563 @@
+// Bank statement import
+// Parses CSV, OFX/QFX, CAMT.053 and mobile money statements into signed lines
+
+export type StatementFormat = "csv" | "ofx" | "camt053" | "mobile_money"
+
+/**
+ * One line of a bank statement. Positive amounts are money into the account, negative amounts money out.
+ */
+export interface StatementLine {
+  date: string // yyyy-MM-dd
+  amount: number
+  description: string
+  reference: string | null
+  // Mobile money only: the charge taken on top of the amount, and the other party's number
+  fee?: number
+  counterpartyPhone?: string | null
+}
+
+export const CSV_DATE_FORMATS = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"] as const
+
+/**
+ * Which CSV columns hold which fields. Amounts come either from one signed column or from separate
+ * debit (money out) and credit (money in) columns.
+ */
+export interface CsvMapping {
+  delimiter: string
+  hasHeader: boolean
+  dateColumn: number
+  dateFormat: (typeof CSV_DATE_FORMATS)[number]
+  descriptionColumn: number
+  referenceColumn: number | null
+  amountColumn: number | null
+  debitColumn: number | null
+  creditColumn: number | null
+  decimalSeparator: "." | ","
+}
+
+/**
+ * Raised when a statement cannot be read. The message is safe to show to the user.
+ */
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "StatementParseError"
+  }
+}
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.toLowerCase().split(".").pop()
+  if (extension === "ofx" || extension === "qfx" || /<OFX>/i.test(content)) {
+    return "ofx"
+  }
+  if (/camt\.053/i.test(content) || /<(?:[\w-]+:)?BkToCstmrStmt>/.test(content)) {
+    return "camt053"
+  }
+  if (isMobileMoneyStatement(fileName, content)) {
+    return "mobile_money"
+  }
+  return "csv"
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+function parseDate(value: string, format: CsvMapping["dateFormat"]) {
+  const parts = value.trim().split(/[-/.\s]/).map(Number)
+  if (parts.length < 3 || parts.some(Number.isNaN)) {
+    return null
+  }
+  switch (format) {
+    case "YYYY-MM-DD":
+      return toIsoDate(parts[0], parts[1], parts[2])
+    case "DD/MM/YYYY":
+      return toIsoDate(parts[2] < 100 ? 2000 + parts[2] : parts[2], parts[1], parts[0])
+    case "MM/DD/YYYY":
+      return toIsoDate(parts[2] < 100 ? 2000 + parts[2] : parts[2], parts[0], parts[1])
+  }
+}
+
+/**
+ * Read an amount such as "1,234.50", "-K 80.00", "(80.00)" or, with a decimal comma, "1.234,50"
+ */
+function parseAmount(value: string, decimalSeparator: "." | "," = ".") {
+  let text = value.trim()
+  if (!text) {
+    return null
+  }
+  const negative = /^\(.*\)$/.test(text) || text.includes("-")
+  text = decimalSeparator === "," ? text.replace(/[^\d,]/g, "").replace(",", ".") : text.replace(/[^\d.]/g, "")
+  const amount = Number.parseFloat(text)
+  if (Number.isNaN(amount)) {
+    return null
+  }
+  return negative ? -amount : amount
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded delimiters, quotes and newlines
+ */
+export function parseCsv(content: string, delimiter = ",") {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines and a leading byte order mark
+  if (rows[0]?.[0]) {
+    rows[0][0] = rows[0][0].replace(/^\uFEFF/, "")
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+/**
+ * Guess the delimiter from the first line of a CSV file
+ */
+export function detectCsvDelimiter(content: string) {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? ""
+  const candidates = [",", ";", "\t"]
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  )
+}
+
+/**
+ * Suggest a mapping from the header row, for files from a bank without a saved mapping
+ */
+export function guessCsvMapping(headers: string[], delimiter: string): CsvMapping {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header.trim()))
+    return index === -1 ? null : index
+  }
+  const debitColumn = find(/^(debit|withdrawal|money out|paid out)/i)
+  const creditColumn = find(/^(credit|deposit|money in|paid in)/i)
+  const amountColumn = find(/amount/i)
+  const splitAmounts = debitColumn !== null && creditColumn !== null
+
+  return {
+    delimiter,
+    hasHeader: true,
+    dateColumn: find(/date/i) ?? 0,
+    dateFormat: "YYYY-MM-DD",
+    descriptionColumn: find(/description|details|narrative|particulars|memo|payee/i) ?? 1,
+    referenceColumn: find(/ref|cheque|check/i),
+    amountColumn: splitAmounts ? null : (amountColumn ?? 2),
+    debitColumn: splitAmounts ? debitColumn : null,
+    creditColumn: splitAmounts ? creditColumn : null,
+    decimalSeparator: delimiter === ";" ? "," : ".",
+  }
+}
+
+export function parseCsvStatement(content: string, mapping: CsvMapping): StatementLine[] {
+  const rows = parseCsv(content, mapping.delimiter)
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows
+
+  return dataRows.map((cells, index) => {
+    const rowNumber = index + (mapping.hasHeader ? 2 : 1)
+    const cell = (column: number | null) => (column === null ? "" : (cells[column] ?? "").trim())
+
+    const date = parseDate(cell(mapping.dateColumn), mapping.dateFormat)
+    if (!date) {
+      throw new StatementParseError(`Row ${rowNumber}: "${cell(mapping.dateColumn)}" is not a ${mapping.dateFormat} date`)
+    }
+
+    let amount: number | null
+    if (mapping.amountColumn !== null) {
+      amount = parseAmount(cell(mapping.amountColumn), mapping.decimalSeparator)
+    } else {
+      const debit = parseAmount(cell(mapping.debitColumn), mapping.decimalSeparator)
+      const credit = parseAmount(cell(mapping.creditColumn), mapping.decimalSeparator)
+      amount = debit === null && credit === null ? null : (credit ?? 0) - Math.abs(debit ?? 0)
+    }
+    if (amount === null) {
+      throw new StatementParseError(`Row ${rowNumber} has no amount`)
+    }
+
+    return {
+      date,
+      amount,
+      description: cell(mapping.descriptionColumn) || "Bank statement line",
+      reference: cell(mapping.referenceColumn).slice(0, 100) || null,
+    }
+  })
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim()
+}
+
+/**
+ * OFX 1.x is SGML where leaf elements need not be closed, so read each value up to the next tag
+ */
+function ofxValue(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))
+  return match ? decodeXml(match[1]) : ""
+}
+
+export function parseOfxStatement(content: string): StatementLine[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? []
+  if (blocks.length === 0) {
+    throw new StatementParseError("No transactions were found in the OFX file")
+  }
+
+  return blocks.map((block, index) => {
+    const posted = ofxValue(block, "DTPOSTED")
+    const date = toIsoDate(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)), Number(posted.slice(6, 8)))
+    const amount = parseAmount(ofxValue(block, "TRNAMT"))
+    if (!date || amount === null) {
+      throw new StatementParseError(`Transaction ${index + 1} in the OFX file has no valid date or amount`)
+    }
+
+    const name = ofxValue(block, "NAME")
+    const memo = ofxValue(block, "MEMO")
+    return {
+      date,
+      amount,
+      description: [name, memo].filter(Boolean).join(" - ") || "Bank statement line",
+      reference:
+        (ofxValue(block, "CHECKNUM") || ofxValue(block, "REFNUM") || ofxValue(block, "FITID")).slice(0, 100) || null,
+    }
+  })
+}
+
+// CAMT files may use a namespace prefix on every element
+function camtElements(block: string, tag: string) {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, "g")
+  return [...block.matchAll(pattern)].map((match) => match[1])
+}
+
+function camtValue(block: string, tag: string) {
+  const [value] = camtElements(block, tag)
+  return value === undefined ? "" : decodeXml(value)
+}
+
+export function parseCamt053Statement(content: string): StatementLine[] {
+  const entries = camtElements(content, "Ntry")
+  if (entries.length === 0) {
+    throw new StatementParseError("No entries were found in the CAMT.053 file")
+  }
+
+  return entries.map((entry, index) => {
+    const bookingDate = camtElements(entry, "BookgDt")[0] ?? camtElements(entry, "ValDt")[0] ?? ""
+    const dateText = camtValue(bookingDate, "Dt") || camtValue(bookingDate, "DtTm")
+    const [year, month, day] = dateText.slice(0, 10).split("-").map(Number)
+    const date = toIsoDate(year, month, day)
+    const amount = parseAmount(camtValue(entry, "Amt"))
+    if (!date || amount === null) {
+      throw new StatementParseError(`Entry ${index + 1} in the CAMT.053 file has no valid date or amount`)
+    }
+
+    const reference = [camtValue(entry, "AcctSvcrRef"), camtValue(entry, "EndToEndId"), camtValue(entry, "NtryRef")].find(
+      (value) => value && value !== "NOTPROVIDED",
+    )
+    const remittance = camtElements(entry, "Ustrd").map(decodeXml).join(" ")
+
+    return {
+      date,
+      amount: camtValue(entry, "CdtDbtInd") === "DBIT" ? -Math.abs(amount) : Math.abs(amount),
+      description: remittance || camtValue(entry, "AddtlNtryInf") || camtValue(entry, "Nm") || "Bank statement line",
+      reference: reference?.slice(0, 100) ?? null,
+    }
+  })
+}
+
+// Mobile money statements (Airtel Money, MTN MoMo, Zamtel Kwacha) come as CSV exports or as text
+// copied out of the PDF statement; both carry a transaction ID, the other party's number, fees and
+// the running balance, but column names and layouts differ between providers
+
+const MOBILE_MONEY_COLUMNS = {
+  transactionId: /(trans(action)?|txn|receipt|tid)\.?\s*(id|no|number)/i,
+  fee: /fee|charge|commission/i,
+  balance: /balance/i,
+  credit: /^(credit|money in|paid in|received|cash in|amount in)/i,
+  debit: /^(debit|money out|paid out|sent|withdrawn|amount out)/i,
+  amount: /amount/i,
+  counterparty: /counterparty|msisdn|phone|mobile\s*(no|number)|sender|receiver|recipient|beneficiary|to\/from|from\/to|party/i,
+  date: /date|time/i,
+}
+
+const MOBILE_MONEY_DETAIL_COLUMN = /type|service|details|description|narration|remarks|name/i
+
+const MOBILE_MONEY_PROVIDERS = /airtel|mtn|momo|zamtel|mobile money/i
+
+const MONEY_IN = /\b(received|receive|cash\s*in|deposit|credit(ed)?|incoming|refund|reversal)\b/i
+const MONEY_OUT = /\b(sent|send|cash\s*out|withdraw(al)?|payment|paid|pay|purchase|buy|airtime|bundles?|bill|debit(ed)?)\b/i
+
+const PHONE_NUMBER = /(?:\+?260|\b0)\d{9}\b/
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+
+// Provider exports put the day first, or use ISO dates; times after the date are ignored
+const MOBILE_MONEY_DATE =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})|^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})|^(\d{1,2})[\s-]([A-Za-z]{3})[a-z]*[\s,-]+(\d{2,4})/
+
+/**
+ * The last nine digits of a phone number, so "0977 123456" and "+260977123456" compare equal
+ */
+export function normalizePhoneNumber(value: string | null | undefined) {
+  const digits = (value ?? "").replace(/\D/g, "")
+  return digits.length >= 9 ? digits.slice(-9) : null
+}
+
+function parseMobileMoneyDate(value: string) {
+  const match = value.trim().match(MOBILE_MONEY_DATE)
+  if (!match) {
+    return null
+  }
+  const year = (text: string) => (Number(text) < 100 ? 2000 + Number(text) : Number(text))
+  if (match[1]) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+  }
+  if (match[4]) {
+    return toIsoDate(year(match[6]), Number(match[5]), Number(match[4]))
+  }
+  const month = MONTHS.indexOf(match[8].toLowerCase()) + 1
+  return month === 0 ? null : toIsoDate(year(match[9]), month, Number(match[7]))
+}
+
+function mobileMoneyColumns(headers: string[]) {
+  const used = new Set<number>()
+  const columns = {} as Record<keyof typeof MOBILE_MONEY_COLUMNS, number | null>
+  for (const [key, pattern] of Object.entries(MOBILE_MONEY_COLUMNS)) {
+    const index = headers.findIndex((header, i) => !used.has(i) && pattern.test(header.trim()))
+    columns[key as keyof typeof MOBILE_MONEY_COLUMNS] = index === -1 ? null : index
+    if (index !== -1) {
+      used.add(index)
+    }
+  }
+  const details = headers.flatMap((header, i) => (!used.has(i) && MOBILE_MONEY_DETAIL_COLUMN.test(header) ? [i] : []))
+  return { ...columns, details }
+}
+
+function hasMobileMoneyColumns(columns: ReturnType<typeof mobileMoneyColumns>) {
+  return (
+    columns.transactionId !== null &&
+    columns.date !== null &&
+    (columns.fee !== null || columns.counterparty !== null) &&
+    (columns.amount !== null || (columns.credit !== null && columns.debit !== null))
+  )
+}
+
+interface MobileMoneyRow {
+  date: string
+  amount: number
+  // 1 for money in, -1 for money out, null when the amount or its column does not say
+  direction: 1 | -1 | null
+  // The direction the description's wording suggests, used only when the balance cannot tell
+  textDirection: 1 | -1 | null
+  fee: number
+  balance: number | null
+  description: string
+  reference: string | null
+  counterpartyPhone: string | null
+}
+
+function directionFromText(text: string): 1 | -1 | null {
+  if (MONEY_IN.test(text)) {
+    return 1
+  }
+  return MONEY_OUT.test(text) ? -1 : null
+}
+
+/**
+ * Sign each row. A signed amount or a credit/debit column wins; otherwise the change in the running
+ * balance decides, and the description's wording is only used when there is no balance to compare.
+ * Statements may list the newest transaction first.
+ */
+function signMobileMoneyRows(rows: MobileMoneyRow[]): StatementLine[] {
+  const newestFirst = rows.length > 1 && rows[0].date > rows[rows.length - 1].date
+
+  return rows.map((row, index) => {
+    let direction = row.direction
+    const previous = rows[newestFirst ? index + 1 : index - 1]
+    if (direction === null && row.balance !== null && previous?.balance != null && row.balance !== previous.balance) {
+      direction = row.balance > previous.balance ? 1 : -1
+    }
+    direction ??= row.textDirection
+    if (direction === null) {
+      throw new StatementParseError(
+        `Transaction ${row.reference ?? index + 1}: could not tell whether money came in or went out`,
+      )
+    }
+
+    return {
+      date: row.date,
+      amount: direction * Math.abs(row.amount),
+      description: row.description || "Mobile money transaction",
+      reference: row.reference?.slice(0, 100) || null,
+      ...(row.fee > 0 && { fee: row.fee }),
+      counterpartyPhone: row.counterpartyPhone,
+    }
+  })
+}
+
+function parseMobileMoneyCsv(content: string): StatementLine[] {
+  const rows = parseCsv(content, detectCsvDelimiter(content))
+  const columns = mobileMoneyColumns(rows[0] ?? [])
+  const cell = (cells: string[], column: number | null) => (column === null ? "" : (cells[column] ?? "").trim())
+
+  const parsed = rows.slice(1).map((cells, index) => {
+    const date = parseMobileMoneyDate(cell(cells, columns.date))
+    if (!date) {
+      throw new StatementParseError(`Row ${index + 2}: "${cell(cells, columns.date)}" is not a date`)
+    }
+
+    const description = columns.details.map((column) => cell(cells, column)).filter(Boolean).join(" - ")
+    let amount: number | null
+    let direction: 1 | -1 | null = null
+    if (columns.amount !== null) {
+      const text = cell(cells, columns.amount)
+      amount = parseAmount(text)
+      direction = amount !== null && /^\(|-/.test(text) ? -1 : /^\+/.test(text) ? 1 : null
+    } else {
+      const credit = parseAmount(cell(cells, columns.credit))
+      const debit = parseAmount(cell(cells, columns.debit))
+      amount = credit || debit || null
+      direction = credit ? 1 : debit ? -1 : null
+    }
+    if (amount === null) {
+      throw new StatementParseError(`Row ${index + 2} has no amount`)
+    }
+
+    const counterparty = cell(cells, columns.counterparty)
+    return {
+      date,
+      amount,
+      direction,
+      textDirection: directionFromText(description),
+      fee: Math.abs(parseAmount(cell(cells, columns.fee)) ?? 0),
+      balance: parseAmount(cell(cells, columns.balance)),
+      description: description || counterparty,
+      reference: cell(cells, columns.transactionId) || null,
+      counterpartyPhone: counterparty.match(PHONE_NUMBER)?.[0] ?? description.match(PHONE_NUMBER)?.[0] ?? null,
+    }
+  })
+
+  return signMobileMoneyRows(parsed)
+}
+
+// A money column in copied PDF text always has two decimals, which sets it apart from IDs and phone numbers
+const TEXT_AMOUNT = /(?:^|\s)(\(?[-+]?(?:K\s?)?[-+]?\d[\d,]*\.\d{2}\)?)(?=\s|$)/g
+
+function parseMobileMoneyTextLine(line: string): MobileMoneyRow | null {
+  const dateMatch = line.match(MOBILE_MONEY_DATE)
+  const date = dateMatch ? parseMobileMoneyDate(line) : null
+  if (!dateMatch || !date) {
+    return null
+  }
+
+  const rest = line
+    .slice(dateMatch[0].length)
+    .replace(/^[\s,]*\d{1,2}:\d{2}(:\d{2})?(\s*[AP]M)?/i, "")
+    .trim()
+  const amounts = [...rest.matchAll(TEXT_AMOUNT)]
+  if (amounts.length === 0) {
+    return null
+  }
+
+  // Money columns are amount, then fee and balance when present
+  const firstAmount = amounts[0].index ?? rest.length
+  const values = amounts.map((match) => match[1])
+  const [amountText] = values
+  const fee = values.length >= 3 ? Math.abs(parseAmount(values[1]) ?? 0) : 0
+  const balance = values.length >= 2 ? parseAmount(values[values.length - 1]) : null
+
+  const words = rest.slice(0, firstAmount).trim().split(/\s+/).filter(Boolean)
+  const phone = rest.match(PHONE_NUMBER)?.[0] ?? null
+  const reference = words[0] && /\d/.test(words[0]) && words[0].length >= 6 && words[0] !== phone ? words.shift()! : null
+  const description = words.join(" ")
+
+  const amount = parseAmount(amountText)
+  if (amount === null) {
+    return null
+  }
+
+  return {
+    date,
+    amount,
+    direction: /^\(|-/.test(amountText) ? -1 : /^\+/.test(amountText) ? 1 : null,
+    textDirection: directionFromText(description),
+    fee,
+    balance,
+    description,
+    reference,
+    counterpartyPhone: phone,
+  }
+}
+
+function parseMobileMoneyText(content: string): StatementLine[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line) => parseMobileMoneyTextLine(line.trim()))
+    .filter((row): row is MobileMoneyRow => row !== null)
+  if (rows.length === 0) {
+    throw new StatementParseError("No transactions were found in the mobile money statement")
+  }
+  return signMobileMoneyRows(rows)
+}
+
+function isMobileMoneyCsv(content: string) {
+  const [headers = []] = parseCsv(content.split(/\r?\n/, 1)[0] ?? "", detectCsvDelimiter(content))
+  return hasMobileMoneyColumns(mobileMoneyColumns(headers))
+}
+
+/**
+ * Whether a file looks like a mobile money export: a CSV with a transaction ID and fee or
+ * counterparty column, or statement text copied from a provider's PDF
+ */
+export function isMobileMoneyStatement(fileName: string, content: string) {
+  if (isMobileMoneyCsv(content)) {
+    return true
+  }
+  const isText = fileName.toLowerCase().endsWith(".txt") || MOBILE_MONEY_PROVIDERS.test(content.slice(0, 2000))
+  return isText && content.split(/\r?\n/).some((line) => parseMobileMoneyTextLine(line.trim()) !== null)
+}
+
+export function parseMobileMoneyStatement(content: string): StatementLine[] {
+  return isMobileMoneyCsv(content) ? parseMobileMoneyCsv(content) : parseMobileMoneyText(content)
+}
@@ -0,0 +1,52 @@
+// Bill payment roll-up for Samuel Accounting
+// Keeps bills.paidAmount and the payment-driven statuses in step with recorded payments
+
+import { billPayments, bills } from "@/db/schema"
+import type { BillStatus, SelectBills } from "@/db/schema"
+import { eq, sum } from "drizzle-orm"
+import type { DbTransaction } from "@/lib/ledger"
+
+/**
+ * Work out the status a bill should have given how much has been paid.
+ * Drafts stay drafts; anything else is open until payments cover it.
+ */
+export function resolveBillStatus(bill: Pick<SelectBills, "status" | "total">, paidAmount: number): BillStatus {
+  if (bill.status === "draft") {
+    return "draft"
+  }
+
+  const total = Number.parseFloat(bill.total)
+  if (paidAmount > 0 && Math.round(paidAmount * 100) >= Math.round(total * 100)) {
+    return "paid"
+  }
+  return paidAmount > 0 ? "partially_paid" : "open"
+}
+
+/**
+ * Recalculate a bill's paid amount from its payments and update its status
+ */
+export async function syncBillPayments(tx: DbTransaction, billId: string) {
+  const [bill] = await tx.select().from(bills).where(eq(bills.id, billId)).limit(1)
+  if (!bill) {
+    return null
+  }
+
+  const [totals] = await tx
+    .select({ paid: sum(billPayments.amount) })
+    .from(billPayments)
+    .where(eq(billPayments.billId, billId))
+
+  const paidAmount = Number(totals?.paid || 0)
+
+  const [updated] = await tx
+    .update(bills)
+    .set({
+      paidAmount: paidAmount.toFixed(2),
+      status: resolveBillStatus(bill, paidAmount),
+      updatedAt: new Date(),
+    })
+    .where(eq(bills.id, billId))
+    .returning()
+
+  return updated
+}
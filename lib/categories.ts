@@ -0,0 +1,147 @@
+// Transaction categories
+// Income and expense categories nest one level under a parent of the same type and roll up to it in reports
+
+import { categories, transactions } from "@/db/schema"
+import type { CategoryType } from "@/db/schema"
+import { and, eq, gte, inArray, lte, sum } from "drizzle-orm"
+import { inBaseCurrency } from "@/lib/exchange-rates"
+import { type DbExecutor, LedgerError } from "@/lib/ledger"
+
+/**
+ * Check a category belongs to the organisation and matches the kind of transaction it is applied to
+ */
+export async function assertCategoryInOrganization(
+  executor: DbExecutor,
+  organizationId: string,
+  categoryId: string,
+  transactionType: "income" | "expense" | "transfer",
+) {
+  if (transactionType === "transfer") {
+    throw new LedgerError("Transfers cannot be categorised")
+  }
+
+  const [category] = await executor
+    .select({ type: categories.type })
+    .from(categories)
+    .where(and(eq(categories.id, categoryId), eq(categories.organizationId, organizationId)))
+    .limit(1)
+
+  if (!category) {
+    throw new LedgerError("Category not found")
+  }
+  if (category.type !== transactionType) {
+    throw new LedgerError(`An ${transactionType} transaction needs an ${transactionType} category`)
+  }
+}
+
+/**
+ * Check a parent can hold the category: same organisation and type, top level, and not the category itself
+ */
+export async function assertValidParentCategory(
+  executor: DbExecutor,
+  organizationId: string,
+  parentId: string,
+  category: { id?: string; type: CategoryType },
+) {
+  if (parentId === category.id) {
+    throw new LedgerError("A category cannot be its own parent")
+  }
+
+  const [parent] = await executor
+    .select({ type: categories.type, parentId: categories.parentId })
+    .from(categories)
+    .where(and(eq(categories.id, parentId), eq(categories.organizationId, organizationId)))
+    .limit(1)
+
+  if (!parent) {
+    throw new LedgerError("Parent category not found")
+  }
+  if (parent.type !== category.type) {
+    throw new LedgerError("A subcategory must have the same type as its parent")
+  }
+  if (parent.parentId) {
+    throw new LedgerError("Subcategories cannot have subcategories of their own")
+  }
+
+  if (category.id) {
+    const [child] = await executor
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.parentId, category.id))
+      .limit(1)
+    if (child) {
+      throw new LedgerError("A category with subcategories cannot be moved under another category")
+    }
+  }
+}
+
+export interface CategoryTotal {
+  categoryId: string | null
+  name: string
+  total: number
+  subcategories: { categoryId: string; name: string; total: number }[]
+}
+
+/**
+ * Completed income and expense totals per top-level category for a period, with subcategory detail.
+ * Uncategorised transactions are grouped under a null category.
+ */
+export async function getCategoryBreakdown(
+  executor: DbExecutor,
+  organizationId: string,
+  range: { start: Date; end?: Date },
+) {
+  const rows = await executor
+    .select({
+      type: transactions.type,
+      categoryId: transactions.categoryId,
+      total: sum(inBaseCurrency(transactions.amount, transactions.exchangeRate)),
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.organizationId, organizationId),
+        eq(transactions.status, "completed"),
+        inArray(transactions.type, ["income", "expense"]),
+        gte(transactions.transactionDate, range.start),
+        range.end ? lte(transactions.transactionDate, range.end) : undefined,
+      ),
+    )
+    .groupBy(transactions.type, transactions.categoryId)
+
+  const categoryRows = await executor
+    .select({ id: categories.id, name: categories.name, parentId: categories.parentId })
+    .from(categories)
+    .where(eq(categories.organizationId, organizationId))
+  const byId = new Map(categoryRows.map((category) => [category.id, category]))
+
+  const breakdown: Record<CategoryType, CategoryTotal[]> = { income: [], expense: [] }
+
+  for (const row of rows) {
+    const type = row.type as CategoryType
+    const amount = Number.parseFloat(row.total ?? "0")
+    const category = row.categoryId ? byId.get(row.categoryId) : undefined
+    const parent = category?.parentId ? byId.get(category.parentId) : undefined
+    const top = parent ?? category
+
+    let entry = breakdown[type].find((item) => item.categoryId === (top?.id ?? null))
+    if (!entry) {
+      entry = { categoryId: top?.id ?? null, name: top?.name ?? "Uncategorised", total: 0, subcategories: [] }
+      breakdown[type].push(entry)
+    }
+    entry.total += amount
+
+    if (parent && category) {
+      entry.subcategories.push({ categoryId: category.id, name: category.name, total: amount })
+    }
+  }
+
+  for (const type of ["income", "expense"] as const) {
+    breakdown[type].sort((a, b) => b.total - a.total)
+    for (const entry of breakdown[type]) {
+      entry.subcategories.sort((a, b) => b.total - a.total)
+    }
+  }
+
+  return breakdown
+}
@@ -0,0 +1,278 @@
+// Default chart of accounts and tax codes for Samuel Accounting
+// Numbered by class: 1xxx assets, 2xxx liabilities, 3xxx equity, 4xxx revenue, 5xxx expenses
+
+import { accounts, organizations, taxCodes } from "@/db/schema"
+import type { AccountClass, AccountType } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
+import { DEFAULT_BASE_CURRENCY } from "@/lib/currency"
+import type { DbExecutor, DbTransaction } from "@/lib/ledger"
+import { DEFAULT_TAX_CODES } from "@/lib/tax-codes"
+
+export type SystemAccountKey =
+  | "accountsReceivable"
+  | "accountsPayable"
+  | "customerCredit"
+  | "salesTaxPayable"
+  | "withholdingTaxReceivable"
+  | "retainedEarnings"
+  | "openingBalanceEquity"
+  | "salesRevenue"
+  | "generalExpenses"
+  | "realisedFxGainLoss"
+  | "unrealisedFxGainLoss"
+
+export interface ChartTemplateAccount {
+  code: string
+  name: string
+  accountClass: AccountClass
+  type?: AccountType
+  systemKey?: SystemAccountKey
+  parentCode?: string
+  description?: string
+}
+
+// Parents are listed before their children so the template can be inserted in order
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartTemplateAccount[] = [
+  { code: "1000", name: "Current Assets", accountClass: "asset" },
+  { code: "1010", name: "Cash on Hand", accountClass: "asset", type: "cash", parentCode: "1000" },
+  { code: "1020", name: "Bank Account", accountClass: "asset", type: "bank", parentCode: "1000" },
+  { code: "1030", name: "Mobile Money", accountClass: "asset", type: "mobile", parentCode: "1000" },
+  {
+    code: "1200",
+    name: "Accounts Receivable",
+    accountClass: "asset",
+    systemKey: "accountsReceivable",
+    parentCode: "1000",
+    description: "Amounts owed by customers on issued invoices",
+  },
+  {
+    code: "1300",
+    name: "Withholding Tax Receivable",
+    accountClass: "asset",
+    systemKey: "withholdingTaxReceivable",
+    parentCode: "1000",
+    description: "Tax withheld by customers, credited against tax owed",
+  },
+  { code: "2000", name: "Current Liabilities", accountClass: "liability" },
+  {
+    code: "2010",
+    name: "Accounts Payable",
+    accountClass: "liability",
+    systemKey: "accountsPayable",
+    parentCode: "2000",
+    description: "Amounts owed to vendors on approved expenses",
+  },
+  {
+    code: "2100",
+    name: "Sales Tax Payable",
+    accountClass: "liability",
+    systemKey: "salesTaxPayable",
+    parentCode: "2000",
+    description: "Tax charged on invoices and not yet paid over",
+  },
+  { code: "2200", name: "Credit Card", accountClass: "liability", type: "credit", parentCode: "2000" },
+  {
+    code: "2300",
+    name: "Customer Credit",
+    accountClass: "liability",
+    systemKey: "customerCredit",
+    parentCode: "2000",
+    description: "Overpayments held for customers until applied or refunded",
+  },
+  { code: "3000", name: "Equity", accountClass: "equity" },
+  { code: "3010", name: "Owner's Capital", accountClass: "equity", parentCode: "3000" },
+  {
+    code: "3100",
+    name: "Retained Earnings",
+    accountClass: "equity",
+    systemKey: "retainedEarnings",
+    parentCode: "3000",
+  },
+  {
+    code: "3900",
+    name: "Opening Balance Equity",
+    accountClass: "equity",
+    systemKey: "openingBalanceEquity",
+    parentCode: "3000",
+    description: "Offsets opening balances entered on accounts",
+  },
+  { code: "4000", name: "Revenue", accountClass: "revenue" },
+  { code: "4010", name: "Sales Revenue", accountClass: "revenue", systemKey: "salesRevenue", parentCode: "4000" },
+  {
+    code: "4810",
+    name: "Realised Exchange Gains/Losses",
+    accountClass: "revenue",
+    systemKey: "realisedFxGainLoss",
+    parentCode: "4000",
+    description: "Differences between the rate an invoice was issued at and the rate it was paid at",
+  },
+  {
+    code: "4820",
+    name: "Unrealised Exchange Gains/Losses",
+    accountClass: "revenue",
+    systemKey: "unrealisedFxGainLoss",
+    parentCode: "4000",
+    description: "Restatement of foreign currency balances at the latest revaluation",
+  },
+  { code: "4900", name: "Other Income", accountClass: "revenue", parentCode: "4000" },
+  { code: "5000", name: "Expenses", accountClass: "expense" },
+  {
+    code: "5010",
+    name: "General Expenses",
+    accountClass: "expense",
+    systemKey: "generalExpenses",
+    parentCode: "5000",
+  },
+  { code: "5100", name: "Rent", accountClass: "expense", parentCode: "5000" },
+  { code: "5200", name: "Utilities", accountClass: "expense", parentCode: "5000" },
+  { code: "5300", name: "Salaries and Wages", accountClass: "expense", parentCode: "5000" },
+  { code: "5400", name: "Bank Charges", accountClass: "expense", parentCode: "5000" },
+]
+
+export const ACCOUNT_CLASS_ORDER: AccountClass[] = ["asset", "liability", "equity", "revenue", "expense"]
+
+/**
+ * Insert one template account, skipping its code if another account already uses it
+ */
+async function insertTemplateAccount(
+  tx: DbTransaction,
+  organizationId: string,
+  row: ChartTemplateAccount,
+  takenCodes: Set<string>,
+  idsByCode: Map<string, string>,
+  currency: string,
+) {
+  const [created] = await tx
+    .insert(accounts)
+    .values({
+      organizationId,
+      code: takenCodes.has(row.code) ? null : row.code,
+      name: row.name,
+      accountClass: row.accountClass,
+      type: row.type ?? null,
+      currency,
+      systemKey: row.systemKey ?? null,
+      parentId: row.parentCode ? (idsByCode.get(row.parentCode) ?? null) : null,
+      description: row.description ?? null,
+    })
+    .onConflictDoNothing()
+    .returning({ id: accounts.id })
+
+  // Another request created the same system account first
+  let id = created?.id
+  if (!id && row.systemKey) {
+    const [existing] = await tx
+      .select({ id: accounts.id })
+      .from(accounts)
+      .where(and(eq(accounts.organizationId, organizationId), eq(accounts.systemKey, row.systemKey)))
+      .limit(1)
+    id = existing?.id
+  }
+  if (!id) {
+    throw new Error(`Could not create account ${row.code} ${row.name}`)
+  }
+
+  takenCodes.add(row.code)
+  idsByCode.set(row.code, id)
+  return id
+}
+
+async function loadExistingCodes(tx: DbTransaction, organizationId: string) {
+  const rows = await tx
+    .select({ id: accounts.id, code: accounts.code, systemKey: accounts.systemKey })
+    .from(accounts)
+    .where(eq(accounts.organizationId, organizationId))
+
+  const idsByCode = new Map<string, string>()
+  const idsBySystemKey = new Map<string, string>()
+  for (const row of rows) {
+    if (row.code) idsByCode.set(row.code, row.id)
+    if (row.systemKey) idsBySystemKey.set(row.systemKey, row.id)
+  }
+
+  // Template accounts are kept in the organisation's base currency
+  const [organization] = await tx
+    .select({ baseCurrency: organizations.baseCurrency })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1)
+
+  return {
+    idsByCode,
+    idsBySystemKey,
+    takenCodes: new Set(idsByCode.keys()),
+    baseCurrency: organization?.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+  }
+}
+
+/**
+ * Create any template accounts missing from an organisation's chart. Safe to run more than once.
+ */
+export async function seedDefaultChartOfAccounts(tx: DbTransaction, organizationId: string) {
+  const { idsByCode, idsBySystemKey, takenCodes, baseCurrency } = await loadExistingCodes(tx, organizationId)
+  let created = 0
+
+  for (const row of DEFAULT_CHART_OF_ACCOUNTS) {
+    const existingId = row.systemKey ? idsBySystemKey.get(row.systemKey) : idsByCode.get(row.code)
+    if (existingId) {
+      idsByCode.set(row.code, existingId)
+      continue
+    }
+    await insertTemplateAccount(tx, organizationId, row, takenCodes, idsByCode, baseCurrency)
+    created++
+  }
+
+  return created
+}
+
+/**
+ * Create any default tax codes missing from an organisation. Safe to run more than once.
+ */
+export async function seedDefaultTaxCodes(tx: DbTransaction, organizationId: string) {
+  const created = await tx
+    .insert(taxCodes)
+    .values(
+      DEFAULT_TAX_CODES.map((code) => ({
+        organizationId,
+        name: code.name,
+        rate: code.rate.toFixed(2),
+        kind: code.kind,
+      })),
+    )
+    .onConflictDoNothing()
+    .returning({ id: taxCodes.id })
+
+  return created.length
+}
+
+/**
+ * Create a single system account from the template, attaching it to its parent if that exists
+ */
+export async function createSystemAccount(tx: DbTransaction, organizationId: string, key: SystemAccountKey) {
+  const row = DEFAULT_CHART_OF_ACCOUNTS.find((account) => account.systemKey === key)
+  if (!row) {
+    throw new Error(`Unknown system account: ${key}`)
+  }
+
+  const { idsByCode, takenCodes, baseCurrency } = await loadExistingCodes(tx, organizationId)
+  return insertTemplateAccount(tx, organizationId, row, takenCodes, idsByCode, baseCurrency)
+}
+
+/**
+ * Check whether an account would become its own ancestor if moved under parentId
+ */
+export async function wouldCreateCycle(executor: DbExecutor, accountId: string, parentId: string) {
+  let currentId: string | null = parentId
+  while (currentId) {
+    if (currentId === accountId) {
+      return true
+    }
+    const [parent] = await executor
+      .select({ parentId: accounts.parentId })
+      .from(accounts)
+      .where(eq(accounts.id, currentId))
+      .limit(1)
+    currentId = parent?.parentId ?? null
+  }
+  return false
+}
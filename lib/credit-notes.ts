@@ -0,0 +1,505 @@
+// Credit notes and customer credit for Samuel Accounting
+// A credit note reverses some or all of an issued invoice and holds the amount as credit for the
+// customer, alongside any overpayments. Credit is used up by applying it to the customer's invoices
+// or refunding it in cash.
+
+import {
+  accounts,
+  contacts,
+  creditApplications,
+  creditNoteItems,
+  creditNotes,
+  creditRefunds,
+  customerCredits,
+  invoiceItems,
+  invoices,
+  taxCodes,
+  transactions,
+} from "@/db/schema"
+import type { PaymentMethod, SelectCreditNotes, SelectCustomerCredits, SelectInvoices } from "@/db/schema"
+import { and, desc, eq, inArray, ne, sum } from "drizzle-orm"
+import { removeSourceAttachments } from "@/lib/attachments"
+import { resolveExchangeRate } from "@/lib/exchange-rates"
+import { syncInvoicePayments } from "@/lib/invoice-payments"
+import {
+  type DbExecutor,
+  type DbTransaction,
+  LedgerError,
+  postCreditApplication,
+  postCreditNote,
+  postTransaction,
+  unpostSource,
+} from "@/lib/ledger"
+
+export interface CreditNoteLineInput {
+  invoiceItemId: string
+  quantity: number
+}
+
+/**
+ * An invoice's lines with the quantity not yet credited by other draft or issued credit notes
+ */
+export async function getCreditableLines(executor: DbExecutor, invoiceId: string) {
+  const items = await executor
+    .select({
+      id: invoiceItems.id,
+      description: invoiceItems.description,
+      quantity: invoiceItems.quantity,
+      unitPrice: invoiceItems.unitPrice,
+      taxCodeId: invoiceItems.taxCodeId,
+      taxRate: invoiceItems.taxRate,
+      kind: taxCodes.kind,
+    })
+    .from(invoiceItems)
+    .leftJoin(taxCodes, eq(invoiceItems.taxCodeId, taxCodes.id))
+    .where(eq(invoiceItems.invoiceId, invoiceId))
+    .orderBy(invoiceItems.createdAt)
+
+  const credited = await executor
+    .select({ invoiceItemId: creditNoteItems.invoiceItemId, quantity: sum(creditNoteItems.quantity) })
+    .from(creditNoteItems)
+    .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+    .where(and(eq(creditNotes.invoiceId, invoiceId), ne(creditNotes.status, "void")))
+    .groupBy(creditNoteItems.invoiceItemId)
+
+  return items.map((item) => {
+    const creditedQuantity = Number(credited.find((row) => row.invoiceItemId === item.id)?.quantity || 0)
+    return {
+      ...item,
+      remainingQuantity: Number((Number.parseFloat(item.quantity) - creditedQuantity).toFixed(2)),
+    }
+  })
+}
+
+/**
+ * Price credit note lines from the invoice lines they reverse. Lines keep the invoice's unit price
+ * and the rate they were taxed at, so crediting every line in full reverses the invoice exactly.
+ * Without line inputs everything not yet credited is included. The caller locks the invoice row so
+ * concurrent credit notes can't credit the same quantities.
+ */
+export async function calculateCreditNoteLines(
+  tx: DbTransaction,
+  invoice: Pick<SelectInvoices, "id" | "taxRate">,
+  inputs?: CreditNoteLineInput[],
+) {
+  const creditable = await getCreditableLines(tx, invoice.id)
+  const requested = inputs ?? creditable.map((item) => ({ invoiceItemId: item.id, quantity: item.remainingQuantity }))
+
+  const lines = requested
+    .filter((input) => input.quantity > 0)
+    .map((input) => {
+      const item = creditable.find((candidate) => candidate.id === input.invoiceItemId)
+      if (!item) {
+        throw new LedgerError("Credit note lines must come from the credited invoice")
+      }
+      if (Math.round(input.quantity * 100) > Math.round(item.remainingQuantity * 100)) {
+        throw new LedgerError(`Only ${item.remainingQuantity} of "${item.description}" can still be credited`)
+      }
+
+      const unitPrice = Number.parseFloat(item.unitPrice)
+      const total = Number((input.quantity * unitPrice).toFixed(2))
+      // Lines from before tax codes were taxed at the invoice rate
+      const taxRate = Number.parseFloat(item.taxCodeId ? item.taxRate : invoice.taxRate || "0")
+      const tax = Number(((total * taxRate) / 100).toFixed(2))
+      return {
+        invoiceItemId: item.id,
+        description: item.description,
+        quantity: input.quantity,
+        unitPrice,
+        total,
+        taxCodeId: item.taxCodeId,
+        taxRate,
+        taxAmount: item.kind === "withholding" ? -tax : tax,
+      }
+    })
+
+  if (lines.length === 0) {
+    throw new LedgerError("Nothing left on this invoice to credit")
+  }
+
+  const subtotal = Number(lines.reduce((total, line) => total + line.total, 0).toFixed(2))
+  const taxAmount = Number(lines.reduce((total, line) => total + line.taxAmount, 0).toFixed(2))
+  return { lines, subtotal, taxAmount, total: Number((subtotal + taxAmount).toFixed(2)) }
+}
+
+/**
+ * Rows for a credit note's line items table
+ */
+export function creditNoteItemRows(
+  creditNoteId: string,
+  lines: Awaited<ReturnType<typeof calculateCreditNoteLines>>["lines"],
+) {
+  return lines.map((line) => ({
+    creditNoteId,
+    invoiceItemId: line.invoiceItemId,
+    description: line.description,
+    quantity: line.quantity.toFixed(2),
+    unitPrice: line.unitPrice.toFixed(2),
+    total: line.total.toFixed(2),
+    taxCodeId: line.taxCodeId,
+    taxRate: line.taxRate.toFixed(2),
+    taxAmount: line.taxAmount.toFixed(2),
+  }))
+}
+
+/**
+ * What is left of a customer credit once its applications and refunds are taken off
+ */
+export async function getCreditRemaining(executor: DbExecutor, credit: Pick<SelectCustomerCredits, "id" | "amount">) {
+  const [applied] = await executor
+    .select({ amount: sum(creditApplications.amount) })
+    .from(creditApplications)
+    .where(eq(creditApplications.customerCreditId, credit.id))
+  const [refunded] = await executor
+    .select({ amount: sum(creditRefunds.amount) })
+    .from(creditRefunds)
+    .where(eq(creditRefunds.customerCreditId, credit.id))
+
+  return Number(
+    (Number.parseFloat(credit.amount) - Number(applied?.amount || 0) - Number(refunded?.amount || 0)).toFixed(2),
+  )
+}
+
+/**
+ * Customer credits with what has been applied and refunded and what is left, newest first.
+ * Pass a contact id to limit the list to one customer.
+ */
+export async function listCustomerCredits(executor: DbExecutor, organizationId: string, contactId?: string) {
+  const applied = executor
+    .select({
+      customerCreditId: creditApplications.customerCreditId,
+      amount: sum(creditApplications.amount).as("applied_amount"),
+    })
+    .from(creditApplications)
+    .groupBy(creditApplications.customerCreditId)
+    .as("applied")
+  const refunded = executor
+    .select({
+      customerCreditId: creditRefunds.customerCreditId,
+      amount: sum(creditRefunds.amount).as("refunded_amount"),
+    })
+    .from(creditRefunds)
+    .groupBy(creditRefunds.customerCreditId)
+    .as("refunded")
+
+  const rows = await executor
+    .select({
+      id: customerCredits.id,
+      contactId: customerCredits.contactId,
+      contactName: contacts.name,
+      creditNoteId: customerCredits.creditNoteId,
+      creditNoteNumber: creditNotes.creditNoteNumber,
+      transactionId: customerCredits.transactionId,
+      amount: customerCredits.amount,
+      currency: customerCredits.currency,
+      applied: applied.amount,
+      refunded: refunded.amount,
+      createdAt: customerCredits.createdAt,
+    })
+    .from(customerCredits)
+    .innerJoin(contacts, eq(customerCredits.contactId, contacts.id))
+    .leftJoin(creditNotes, eq(customerCredits.creditNoteId, creditNotes.id))
+    .leftJoin(applied, eq(applied.customerCreditId, customerCredits.id))
+    .leftJoin(refunded, eq(refunded.customerCreditId, customerCredits.id))
+    .where(
+      and(
+        eq(customerCredits.organizationId, organizationId),
+        contactId ? eq(customerCredits.contactId, contactId) : undefined,
+      ),
+    )
+    .orderBy(desc(customerCredits.createdAt))
+
+  return rows.map((row) => {
+    const amount = Number.parseFloat(row.amount)
+    const appliedAmount = Number(row.applied || 0)
+    const refundedAmount = Number(row.refunded || 0)
+    return {
+      ...row,
+      amount,
+      applied: appliedAmount,
+      refunded: refundedAmount,
+      remaining: Number((amount - appliedAmount - refundedAmount).toFixed(2)),
+    }
+  })
+}
+
+/**
+ * Whether any of a customer credit has been applied or refunded
+ */
+export async function isCreditUsed(executor: DbExecutor, customerCreditIds: string[]) {
+  if (customerCreditIds.length === 0) {
+    return false
+  }
+
+  const [application] = await executor
+    .select({ id: creditApplications.id })
+    .from(creditApplications)
+    .where(inArray(creditApplications.customerCreditId, customerCreditIds))
+    .limit(1)
+  const [refund] = await executor
+    .select({ id: creditRefunds.id })
+    .from(creditRefunds)
+    .where(inArray(creditRefunds.customerCreditId, customerCreditIds))
+    .limit(1)
+
+  return !!application || !!refund
+}
+
+/**
+ * Set part of a customer credit against one of their open invoices. The caller locks the credit and
+ * invoice rows, so neither balance can change between the checks and the application.
+ */
+export async function applyCredit(
+  tx: DbTransaction,
+  credit: SelectCustomerCredits,
+  invoice: SelectInvoices,
+  amount: number,
+  applicationDate: Date,
+  userId: string,
+) {
+  if (invoice.customerId !== credit.contactId) {
+    throw new LedgerError("Credit can only be applied to the same customer's invoices")
+  }
+  if (invoice.currency !== credit.currency) {
+    throw new LedgerError(`This credit is in ${credit.currency} and can only be applied to ${credit.currency} invoices`)
+  }
+  if (!invoice.status || invoice.status === "draft") {
+    throw new LedgerError("Send the invoice before applying credit to it")
+  }
+
+  const outstanding = Number(
+    (Number.parseFloat(invoice.total) - Number.parseFloat(invoice.paidAmount || "0")).toFixed(2),
+  )
+  if (Math.round(amount * 100) > Math.round(outstanding * 100)) {
+    throw new LedgerError(`Invoice ${invoice.invoiceNumber} only has ${outstanding.toFixed(2)} outstanding`)
+  }
+  const remaining = await getCreditRemaining(tx, credit)
+  if (Math.round(amount * 100) > Math.round(remaining * 100)) {
+    throw new LedgerError(`Only ${remaining.toFixed(2)} of this credit is left`)
+  }
+
+  const [application] = await tx
+    .insert(creditApplications)
+    .values({
+      customerCreditId: credit.id,
+      invoiceId: invoice.id,
+      applicationDate,
+      amount: amount.toFixed(2),
+      organizationId: invoice.organizationId,
+      userId,
+    })
+    .returning()
+
+  await postCreditApplication(tx, application, credit, invoice)
+  await syncInvoicePayments(tx, invoice.id)
+
+  return application
+}
+
+/**
+ * Take an application back off its invoice, returning the amount to the credit
+ */
+export async function removeCreditApplication(tx: DbTransaction, applicationId: string) {
+  const [application] = await tx
+    .delete(creditApplications)
+    .where(eq(creditApplications.id, applicationId))
+    .returning()
+
+  if (application) {
+    await unpostSource(tx, "credit_application", application.id)
+    await syncInvoicePayments(tx, application.invoiceId)
+  }
+  return application
+}
+
+/**
+ * Issue a credit note: post it and hold its total as credit for the customer. When applyToInvoice is
+ * set, as much as the original invoice still owes is applied to it straight away.
+ */
+export async function markCreditNoteIssued(
+  tx: DbTransaction,
+  creditNote: SelectCreditNotes,
+  applyToInvoice: boolean,
+  userId: string,
+) {
+  const [issued] = await tx
+    .update(creditNotes)
+    .set({ status: "issued", updatedAt: new Date() })
+    .where(eq(creditNotes.id, creditNote.id))
+    .returning()
+
+  await postCreditNote(tx, issued)
+
+  const [credit] = await tx
+    .insert(customerCredits)
+    .values({
+      organizationId: issued.organizationId,
+      contactId: issued.customerId,
+      creditNoteId: issued.id,
+      amount: issued.total,
+      currency: issued.currency,
+      exchangeRate: issued.exchangeRate,
+    })
+    .returning()
+
+  let applied = 0
+  if (applyToInvoice) {
+    const [invoice] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, issued.invoiceId))
+      .for("update")
+      .limit(1)
+    const outstanding = Number(
+      (Number.parseFloat(invoice.total) - Number.parseFloat(invoice.paidAmount || "0")).toFixed(2),
+    )
+    applied = Math.min(Number.parseFloat(issued.total), outstanding)
+    if (applied > 0) {
+      await applyCredit(tx, credit, invoice, applied, issued.issueDate, userId)
+    }
+  }
+
+  return { creditNote: issued, credit, applied }
+}
+
+/**
+ * Void an issued credit note. Its applications are taken off their invoices; refunded credit has to
+ * be reversed first because the money has already left.
+ */
+export async function markCreditNoteVoid(tx: DbTransaction, creditNote: SelectCreditNotes) {
+  const [credit] = await tx
+    .select({ id: customerCredits.id })
+    .from(customerCredits)
+    .where(eq(customerCredits.creditNoteId, creditNote.id))
+    .limit(1)
+
+  if (credit) {
+    const [refund] = await tx
+      .select({ id: creditRefunds.id })
+      .from(creditRefunds)
+      .where(eq(creditRefunds.customerCreditId, credit.id))
+      .limit(1)
+    if (refund) {
+      throw new LedgerError("Delete the refunds of this credit before voiding the credit note")
+    }
+
+    const applications = await tx
+      .select({ id: creditApplications.id })
+      .from(creditApplications)
+      .where(eq(creditApplications.customerCreditId, credit.id))
+    for (const application of applications) {
+      await removeCreditApplication(tx, application.id)
+    }
+    await tx.delete(customerCredits).where(eq(customerCredits.id, credit.id))
+  }
+
+  const [voided] = await tx
+    .update(creditNotes)
+    .set({ status: "void", updatedAt: new Date() })
+    .where(eq(creditNotes.id, creditNote.id))
+    .returning()
+
+  await postCreditNote(tx, voided)
+  return voided
+}
+
+export interface CreditRefundInput {
+  refundDate: Date
+  amount: number
+  method: PaymentMethod
+  accountId: string
+  // Base currency per unit of the credit's currency on the refund date
+  exchangeRate?: number
+  reference?: string | null
+}
+
+/**
+ * Pay customer credit back out of a payment account. The outgoing transaction releases the credit at
+ * the rate it was held at, so any change in rate since is a realised gain or loss. The caller locks
+ * the credit row, so the remaining amount cannot change before the refund is stored.
+ */
+export async function refundCredit(
+  tx: DbTransaction,
+  credit: SelectCustomerCredits,
+  input: CreditRefundInput,
+  userId: string,
+) {
+  const remaining = await getCreditRemaining(tx, credit)
+  if (Math.round(input.amount * 100) > Math.round(remaining * 100)) {
+    throw new LedgerError(`Only ${remaining.toFixed(2)} of this credit is left to refund`)
+  }
+
+  const [paymentAccount] = await tx
+    .select({ id: accounts.id, type: accounts.type })
+    .from(accounts)
+    .where(and(eq(accounts.id, input.accountId), eq(accounts.organizationId, credit.organizationId)))
+    .limit(1)
+
+  if (!paymentAccount?.type) {
+    throw new LedgerError("Refunds must be paid from a payment account")
+  }
+
+  const exchangeRate = await resolveExchangeRate(
+    tx,
+    credit.organizationId,
+    credit.currency,
+    input.refundDate,
+    input.exchangeRate,
+  )
+
+  const [refundTransaction] = await tx
+    .insert(transactions)
+    .values({
+      type: "expense",
+      status: "completed",
+      amount: input.amount.toFixed(2),
+      currency: credit.currency,
+      exchangeRate: String(exchangeRate),
+      description: "Customer credit refund",
+      reference: input.reference || null,
+      transactionDate: input.refundDate,
+      fromAccountId: input.accountId,
+      contactId: credit.contactId,
+      organizationId: credit.organizationId,
+      userId,
+    })
+    .returning()
+
+  const [refund] = await tx
+    .insert(creditRefunds)
+    .values({
+      customerCreditId: credit.id,
+      transactionId: refundTransaction.id,
+      refundDate: input.refundDate,
+      amount: input.amount.toFixed(2),
+      method: input.method,
+      accountId: input.accountId,
+      reference: input.reference || null,
+      userId,
+    })
+    .returning()
+
+  // Posted once the refund is stored so it debits customer credit rather than expenses
+  await postTransaction(tx, refundTransaction)
+
+  return refund
+}
+
+/**
+ * Delete a refund and the transaction that paid it, returning the amount to the credit
+ */
+export async function removeCreditRefund(tx: DbTransaction, refundId: string) {
+  const [refund] = await tx.delete(creditRefunds).where(eq(creditRefunds.id, refundId)).returning()
+
+  if (refund) {
+    await unpostSource(tx, "transaction", refund.transactionId)
+    const [deleted] = await tx
+      .delete(transactions)
+      .where(eq(transactions.id, refund.transactionId))
+      .returning({ organizationId: transactions.organizationId })
+    if (deleted) {
+      await removeSourceAttachments(deleted.organizationId, "transaction", refund.transactionId, tx)
+    }
+  }
+  return refund
+}
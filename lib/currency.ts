@@ -0,0 +1,32 @@
+// Currencies for Samuel Accounting
+// Documents keep amounts in their own currency; the ledger converts them to the organisation's base currency
+
+export const DEFAULT_BASE_CURRENCY = "ZMW"
+
+// Currencies offered in forms, Kwacha and the region's trading currencies first
+export const CURRENCIES = ["ZMW", "USD", "EUR", "GBP", "ZAR", "BWP", "MWK", "TZS", "KES", "CNY"] as const
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  ZMW: "K",
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  ZAR: "R",
+  BWP: "P",
+  MWK: "MK",
+  CNY: "¥",
+}
+
+/**
+ * The prefix amounts in a currency are shown with, falling back to its code
+ */
+export function currencySymbol(currency: string) {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `
+}
+
+/**
+ * Convert an amount to the base currency, rounded to cents the way it is posted
+ */
+export function toBaseAmount(amount: number, exchangeRate: number) {
+  return Number((amount * exchangeRate).toFixed(2))
+}
@@ -0,0 +1,42 @@
+// Document numbering for Samuel Accounting
+// How invoice, credit note and quote numbers are laid out. Shared by the numbering sequences and
+// the settings preview.
+
+import type { DocumentType, SelectDocumentSequences } from "@/db/schema"
+
+export type NumberFormat = Pick<SelectDocumentSequences, "prefix" | "padding" | "resetYearly">
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: "Invoices",
+  credit_note: "Credit Notes",
+  quote: "Quotes",
+}
+
+// The layout documents were numbered with before sequences could be configured
+export const DEFAULT_NUMBER_FORMATS: Record<DocumentType, NumberFormat> = {
+  invoice: { prefix: "INV-", padding: 4, resetYearly: false },
+  credit_note: { prefix: "CN-", padding: 4, resetYearly: false },
+  quote: { prefix: "QUO-", padding: 4, resetYearly: false },
+}
+
+export const MAX_NUMBER_PADDING = 10
+
+/**
+ * A document number such as INV-0042, or INV-2026-0042 when the sequence restarts every year
+ */
+export function formatDocumentNumber(format: NumberFormat, number: number, year: number) {
+  const digits = String(number).padStart(format.padding, "0")
+  return format.resetYearly ? `${format.prefix}${year}-${digits}` : `${format.prefix}${digits}`
+}
+
+/**
+ * The number a sequence hands out next in the given year, allowing for a yearly restart
+ */
+export function pendingNumber(
+  sequence: Pick<SelectDocumentSequences, "resetYearly" | "nextNumber" | "sequenceYear">,
+  year: number,
+) {
+  return sequence.resetYearly && sequence.sequenceYear !== null && sequence.sequenceYear < year
+    ? 1
+    : sequence.nextNumber
+}
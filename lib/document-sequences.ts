@@ -0,0 +1,90 @@
+// Document numbering sequences for Samuel Accounting
+// Each organisation has one sequence per numbered document type. Numbers are taken inside the
+// transaction that saves the document, with the sequence row locked until it commits, so deleted
+// documents leave gaps rather than duplicates and concurrent saves queue for the next number.
+
+import { creditNotes, documentSequences, invoices, quotes } from "@/db/schema"
+import type { DocumentType } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
+import { DEFAULT_NUMBER_FORMATS, formatDocumentNumber, pendingNumber } from "@/lib/document-numbers"
+import type { DbExecutor, DbTransaction } from "@/lib/ledger"
+
+/**
+ * Whether a document of the type already has this number in the organisation
+ */
+export async function isDocumentNumberTaken(
+  executor: DbExecutor,
+  organizationId: string,
+  documentType: DocumentType,
+  documentNumber: string,
+) {
+  switch (documentType) {
+    case "invoice": {
+      const [existing] = await executor
+        .select({ id: invoices.id })
+        .from(invoices)
+        .where(and(eq(invoices.organizationId, organizationId), eq(invoices.invoiceNumber, documentNumber)))
+        .limit(1)
+      return Boolean(existing)
+    }
+    case "credit_note": {
+      const [existing] = await executor
+        .select({ id: creditNotes.id })
+        .from(creditNotes)
+        .where(and(eq(creditNotes.organizationId, organizationId), eq(creditNotes.creditNoteNumber, documentNumber)))
+        .limit(1)
+      return Boolean(existing)
+    }
+    case "quote": {
+      const [existing] = await executor
+        .select({ id: quotes.id })
+        .from(quotes)
+        .where(and(eq(quotes.organizationId, organizationId), eq(quotes.quoteNumber, documentNumber)))
+        .limit(1)
+      return Boolean(existing)
+    }
+  }
+}
+
+/**
+ * Lock an organisation's sequence for a document type, creating it with the default format first
+ */
+export async function lockDocumentSequence(tx: DbTransaction, organizationId: string, documentType: DocumentType) {
+  await tx
+    .insert(documentSequences)
+    .values({ organizationId, documentType, ...DEFAULT_NUMBER_FORMATS[documentType] })
+    .onConflictDoNothing()
+
+  const [sequence] = await tx
+    .select()
+    .from(documentSequences)
+    .where(and(eq(documentSequences.organizationId, organizationId), eq(documentSequences.documentType, documentType)))
+    .for("update")
+    .limit(1)
+
+  return sequence
+}
+
+/**
+ * Take the next number for a new document. Yearly sequences restart in the year the number is
+ * taken, so backdating a document never reopens a finished year's count. Numbers already in use,
+ * from before the sequence existed or below an override, are skipped.
+ */
+export async function nextDocumentNumber(tx: DbTransaction, organizationId: string, documentType: DocumentType) {
+  const sequence = await lockDocumentSequence(tx, organizationId, documentType)
+  const year = new Date().getFullYear()
+
+  let number = pendingNumber(sequence, year)
+  let documentNumber = formatDocumentNumber(sequence, number, year)
+  while (await isDocumentNumberTaken(tx, organizationId, documentType, documentNumber)) {
+    number += 1
+    documentNumber = formatDocumentNumber(sequence, number, year)
+  }
+
+  await tx
+    .update(documentSequences)
+    .set({ nextNumber: number + 1, sequenceYear: year, updatedAt: new Date() })
+    .where(eq(documentSequences.id, sequence.id))
+
+  return documentNumber
+}
@@ -0,0 +1,196 @@
+// Exchange rates and foreign currency revaluation
+// Rates are entered by hand or imported from CSV; the latest rate on or before a date applies to it
+
+import { accounts, exchangeRates, journalEntries, journalLines } from "@/db/schema"
+import { and, desc, eq, inArray, isNotNull, lte, sql, sum, type AnyColumn, type SQLWrapper } from "drizzle-orm"
+import { parseCsv, detectCsvDelimiter } from "@/lib/bank-import"
+import { toBaseAmount } from "@/lib/currency"
+import {
+  type DbExecutor,
+  type DbTransaction,
+  LedgerError,
+  getBaseCurrency,
+  getSystemAccountId,
+  ledgerLine,
+  postJournalEntry,
+  unpostSource,
+} from "@/lib/ledger"
+
+export interface ExchangeRateInput {
+  currency: string
+  rateDate: string // yyyy-MM-dd
+  rate: number
+}
+
+/**
+ * An amount column converted to base currency at a rate column, for summing in reports
+ */
+export function inBaseCurrency(amount: AnyColumn | SQLWrapper, rate: AnyColumn) {
+  return sql<string>`${amount} * ${rate}`
+}
+
+/**
+ * The base currency value of one unit of a currency on a date: 1 for the base currency,
+ * otherwise the latest stored rate on or before the date
+ */
+export async function getExchangeRate(executor: DbExecutor, organizationId: string, currency: string, date: Date) {
+  if (currency === (await getBaseCurrency(executor, organizationId))) {
+    return 1
+  }
+
+  const [row] = await executor
+    .select({ rate: exchangeRates.rate })
+    .from(exchangeRates)
+    .where(
+      and(
+        eq(exchangeRates.organizationId, organizationId),
+        eq(exchangeRates.currency, currency),
+        lte(exchangeRates.rateDate, date),
+      ),
+    )
+    .orderBy(desc(exchangeRates.rateDate))
+    .limit(1)
+
+  if (!row) {
+    throw new LedgerError(`No ${currency} exchange rate has been entered for ${date.toISOString().slice(0, 10)} or earlier`)
+  }
+  return Number.parseFloat(row.rate)
+}
+
+/**
+ * Use the rate entered on a document, or look up the stored rate when none was given
+ */
+export async function resolveExchangeRate(
+  executor: DbExecutor,
+  organizationId: string,
+  currency: string,
+  date: Date,
+  entered?: number,
+) {
+  if (currency === (await getBaseCurrency(executor, organizationId))) {
+    return 1
+  }
+  return entered ?? getExchangeRate(executor, organizationId, currency, date)
+}
+
+/**
+ * The currency money moving through payment accounts is in: the foreign currency of either
+ * account, or the base currency when both are held in base
+ */
+export async function getAccountsCurrency(
+  executor: DbExecutor,
+  organizationId: string,
+  accountIds: (string | null | undefined)[],
+) {
+  const baseCurrency = await getBaseCurrency(executor, organizationId)
+  const ids = accountIds.filter((id): id is string => !!id)
+  if (ids.length === 0) {
+    return baseCurrency
+  }
+
+  const rows = await executor.select({ currency: accounts.currency }).from(accounts).where(inArray(accounts.id, ids))
+  return rows.find((row) => row.currency !== baseCurrency)?.currency ?? baseCurrency
+}
+
+/**
+ * Read a rates file with date, currency and rate columns. A header row is optional; with one,
+ * the columns may come in any order.
+ */
+export function parseExchangeRatesCsv(content: string): ExchangeRateInput[] {
+  const rows = parseCsv(content, detectCsvDelimiter(content))
+  if (rows.length === 0) {
+    throw new LedgerError("The rates file is empty")
+  }
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase())
+  const hasHeader = header.some((cell) => /date|currency|rate/.test(cell))
+  const column = (pattern: RegExp, fallback: number) => {
+    const index = hasHeader ? header.findIndex((cell) => pattern.test(cell)) : -1
+    return index === -1 ? fallback : index
+  }
+  const dateColumn = column(/date/, 0)
+  const currencyColumn = column(/currency|code/, 1)
+  const rateColumn = column(/rate/, 2)
+
+  return rows.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1)
+    const rateDate = (cells[dateColumn] ?? "").trim()
+    const currency = (cells[currencyColumn] ?? "").trim().toUpperCase()
+    const rate = Number.parseFloat((cells[rateColumn] ?? "").replace(/[^\d.]/g, ""))
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate) || Number.isNaN(new Date(rateDate).getTime())) {
+      throw new LedgerError(`Row ${rowNumber}: "${rateDate}" is not a YYYY-MM-DD date`)
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new LedgerError(`Row ${rowNumber}: "${currency}" is not a currency code`)
+    }
+    if (!(rate > 0)) {
+      throw new LedgerError(`Row ${rowNumber} has no valid rate`)
+    }
+    return { currency, rateDate, rate }
+  })
+}
+
+/**
+ * Restate every foreign currency balance at the rate on a date, replacing the previous revaluation.
+ * Each account's balance in each currency is converted at that rate and the difference from its
+ * carried base amount is booked to unrealised exchange gains and losses.
+ */
+export async function revalueForeignCurrencies(
+  tx: DbTransaction,
+  organizationId: string,
+  asOf: Date,
+  userId: string | null,
+) {
+  await unpostSource(tx, "revaluation", organizationId)
+
+  const positions = await tx
+    .select({
+      accountId: journalLines.accountId,
+      currency: journalLines.currency,
+      foreign: sum(journalLines.currencyAmount),
+      debit: sum(journalLines.debit),
+      credit: sum(journalLines.credit),
+    })
+    .from(journalLines)
+    .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+    .where(
+      and(
+        eq(journalEntries.organizationId, organizationId),
+        isNotNull(journalLines.currency),
+        lte(journalEntries.entryDate, asOf),
+      ),
+    )
+    .groupBy(journalLines.accountId, journalLines.currency)
+
+  const lines = []
+  for (const position of positions) {
+    const currency = position.currency!
+    const rate = await getExchangeRate(tx, organizationId, currency, asOf)
+    const carried = Number(position.debit || 0) - Number(position.credit || 0)
+    const adjustment = Number((toBaseAmount(Number(position.foreign || 0), rate) - carried).toFixed(2))
+    if (adjustment !== 0) {
+      lines.push(ledgerLine(position.accountId, adjustment, { currency, amount: 0 }))
+    }
+  }
+
+  const total = Number(lines.reduce((sum, line) => sum + line.debit - line.credit, 0).toFixed(2))
+  if (lines.length === 0) {
+    return { adjustment: 0 }
+  }
+
+  // A net rise in the base value of foreign balances is a gain
+  lines.push(ledgerLine(await getSystemAccountId(tx, organizationId, "unrealisedFxGainLoss"), -total))
+
+  await postJournalEntry(tx, {
+    entryDate: asOf,
+    description: `Foreign currency revaluation at ${asOf.toISOString().slice(0, 10)}`,
+    sourceType: "revaluation",
+    sourceId: organizationId,
+    organizationId,
+    userId,
+    lines,
+  })
+
+  return { adjustment: total }
+}
@@ -0,0 +1,223 @@
+// Expense approval workflow
+// Expenses move draft → submitted → approved → reimbursed, with rejection sending them back for rework.
+// Approvals and reimbursements are reversed through the workflow so the audit trail survives.
+
+import { accounts, expenseApprovers, expenseEvents, expenses, transactions } from "@/db/schema"
+import type { ExpenseStatus, MembershipRole, SelectExpenses } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
+import {
+  type DbExecutor,
+  type DbTransaction,
+  LedgerError,
+  getBaseCurrency,
+  isPaymentAccount,
+  postExpense,
+  postTransaction,
+  unpostSource,
+} from "@/lib/ledger"
+import { removeSourceAttachments } from "@/lib/attachments"
+import { assertPermission, hasPermission } from "@/lib/permissions"
+import { assertTransactionsNotReconciled } from "@/lib/reconciliation"
+
+/**
+ * Statuses an expense may move to from each status
+ */
+export const EXPENSE_TRANSITIONS: Record<ExpenseStatus, ExpenseStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["approved", "rejected", "draft"],
+  approved: ["reimbursed", "rejected"],
+  rejected: ["draft"],
+  reimbursed: ["approved"],
+}
+
+/**
+ * Statuses an expense can be deleted in; anything approved has been posted and must be reversed instead
+ */
+export const DELETABLE_EXPENSE_STATUSES: ExpenseStatus[] = ["draft", "rejected"]
+
+export interface ExpenseActor {
+  organizationId: string
+  userId: string
+  role: MembershipRole
+}
+
+/**
+ * Whether the user may approve or reject an expense of this amount.
+ * Once an organisation designates approvers only they may decide, each up to their limit;
+ * until then anyone whose role allows approving may.
+ */
+export async function canApproveExpense(executor: DbExecutor, actor: ExpenseActor, amount: number) {
+  const approvers = await executor
+    .select({ userId: expenseApprovers.userId, maxAmount: expenseApprovers.maxAmount })
+    .from(expenseApprovers)
+    .where(eq(expenseApprovers.organizationId, actor.organizationId))
+
+  if (approvers.length === 0) {
+    return hasPermission(actor.role, "records:approve")
+  }
+
+  const approver = approvers.find((row) => row.userId === actor.userId)
+  return Boolean(approver && (approver.maxAmount === null || amount <= Number.parseFloat(approver.maxAmount)))
+}
+
+/**
+ * Record a status change in the expense's audit trail
+ */
+export async function recordExpenseEvent(
+  executor: DbExecutor,
+  event: { expenseId: string; fromStatus: ExpenseStatus | null; toStatus: ExpenseStatus; userId: string; note?: string | null },
+) {
+  await executor.insert(expenseEvents).values({ ...event, note: event.note ?? null })
+}
+
+/**
+ * Pay an approved expense back from its account with a completed transaction, so the money leaving
+ * shows up in the account's register and can be reconciled like any other payment
+ */
+async function recordReimbursement(tx: DbTransaction, expense: SelectExpenses, userId: string) {
+  const [payingAccount] = await tx
+    .select({ id: accounts.id, name: accounts.name, type: accounts.type, currency: accounts.currency })
+    .from(accounts)
+    .where(and(eq(accounts.id, expense.accountId), eq(accounts.organizationId, expense.organizationId)))
+    .limit(1)
+
+  if (!payingAccount || !isPaymentAccount(payingAccount)) {
+    throw new LedgerError("Reimbursements must be paid from a payment account")
+  }
+
+  // Expenses are recorded in the base currency, so a foreign account would leave its balance unrevalued
+  const baseCurrency = await getBaseCurrency(tx, expense.organizationId)
+  if (payingAccount.currency !== baseCurrency) {
+    throw new LedgerError(`${payingAccount.name} holds ${payingAccount.currency}. Reimburse expenses from a ${baseCurrency} account.`)
+  }
+
+  // The expense transaction debits payables because it carries the expense id
+  const [reimbursement] = await tx
+    .insert(transactions)
+    .values({
+      type: "expense",
+      status: "completed",
+      amount: expense.amount,
+      currency: baseCurrency,
+      exchangeRate: "1",
+      description: expense.description ? `Expense reimbursed: ${expense.description}` : "Expense reimbursed",
+      transactionDate: expense.reimbursedAt ?? new Date(),
+      fromAccountId: expense.accountId,
+      expenseId: expense.id,
+      organizationId: expense.organizationId,
+      userId,
+    })
+    .returning()
+
+  await postTransaction(tx, reimbursement)
+}
+
+/**
+ * Delete the transaction that reimbursed an expense, unless it has been reconciled
+ */
+async function reverseReimbursement(tx: DbTransaction, expenseId: string) {
+  const reimbursements = await tx
+    .select({ id: transactions.id, organizationId: transactions.organizationId })
+    .from(transactions)
+    .where(eq(transactions.expenseId, expenseId))
+
+  await assertTransactionsNotReconciled(tx, reimbursements.map((row) => row.id))
+  for (const reimbursement of reimbursements) {
+    await tx.delete(transactions).where(eq(transactions.id, reimbursement.id))
+    await unpostSource(tx, "transaction", reimbursement.id)
+    await removeSourceAttachments(reimbursement.organizationId, "transaction", reimbursement.id, tx)
+  }
+}
+
+/**
+ * Move an expense to a new status, enforcing the workflow and who may make each decision.
+ * Approval is posted to the ledger and reimbursement recorded as a transaction; every change is
+ * written to the audit trail.
+ */
+export async function transitionExpense(
+  tx: DbTransaction,
+  actor: ExpenseActor,
+  expense: SelectExpenses,
+  toStatus: ExpenseStatus,
+  options: { reason?: string | null; accountId?: string | null } = {},
+) {
+  if (!EXPENSE_TRANSITIONS[expense.status].includes(toStatus)) {
+    throw new LedgerError(`A ${expense.status} expense cannot be marked ${toStatus}`)
+  }
+
+  const now = new Date()
+  const changes: Partial<SelectExpenses> = { status: toStatus, updatedAt: now }
+
+  switch (toStatus) {
+    case "submitted":
+      changes.submittedAt = now
+      changes.reviewedById = null
+      changes.rejectionReason = null
+      break
+
+    case "draft":
+      // Withdrawing a submission is the submitter's call; reopening a rejection is anyone's
+      if (expense.status === "submitted" && expense.userId !== actor.userId) {
+        throw new LedgerError("Only the submitter can withdraw an expense")
+      }
+      changes.submittedAt = null
+      break
+
+    case "approved":
+    case "rejected":
+      // Reversing a reimbursement puts the payable back; the approval itself stands
+      if (expense.status === "reimbursed") {
+        assertPermission(actor.role, "records:void")
+        changes.reimbursedAt = null
+        break
+      }
+      if (expense.userId === actor.userId) {
+        throw new LedgerError("You cannot review your own expense")
+      }
+      if (!(await canApproveExpense(tx, actor, Number.parseFloat(expense.amount)))) {
+        throw new LedgerError("You are not an approver for this expense amount")
+      }
+      if (toStatus === "rejected" && !options.reason?.trim()) {
+        throw new LedgerError("A reason is required to reject an expense")
+      }
+      changes.reviewedById = actor.userId
+      changes.approvedAt = toStatus === "approved" ? now : null
+      changes.rejectionReason = toStatus === "rejected" ? options.reason!.trim() : null
+      break
+
+    case "reimbursed":
+      assertPermission(actor.role, "records:approve")
+      changes.reimbursedAt = now
+      // The reimbursement may be paid from a different account than the one first recorded
+      if (options.accountId) {
+        changes.accountId = options.accountId
+      }
+      break
+  }
+
+  const [updated] = await tx
+    .update(expenses)
+    .set(changes)
+    .where(and(eq(expenses.id, expense.id), eq(expenses.status, expense.status)))
+    .returning()
+
+  if (!updated) {
+    throw new LedgerError("The expense was changed by someone else; reload and try again")
+  }
+
+  await postExpense(tx, updated)
+  if (toStatus === "reimbursed") {
+    await recordReimbursement(tx, updated, actor.userId)
+  } else if (expense.status === "reimbursed") {
+    await reverseReimbursement(tx, expense.id)
+  }
+  await recordExpenseEvent(tx, {
+    expenseId: expense.id,
+    fromStatus: expense.status,
+    toStatus,
+    userId: actor.userId,
+    note: toStatus === "rejected" ? changes.rejectionReason : null,
+  })
+
+  return updated
+}
@@ -0,0 +1,190 @@
+// Invoice payments for Samuel Accounting
+// Records money received against invoices and keeps invoices.paidAmount and the payment-driven
+// statuses in step with recorded payments and applied customer credit
+
+import { accounts, creditApplications, customerCredits, invoicePayments, invoices, transactions } from "@/db/schema"
+import type { InvoiceStatus, PaymentMethod, SelectInvoices } from "@/db/schema"
+import { and, eq, sum } from "drizzle-orm"
+import { resolveExchangeRate } from "@/lib/exchange-rates"
+import { type DbTransaction, LedgerError, postTransaction } from "@/lib/ledger"
+
+// Statuses that are derived from payments and cannot be set by hand
+export const PAYMENT_STATUSES: InvoiceStatus[] = ["partially_paid", "paid"]
+
+/**
+ * Invoices fall overdue once their due date is before the start of the day, so one due today stays
+ * sent until midnight. The overdue job and payment-driven statuses both use this cutoff.
+ */
+export function overdueCutoff(asOf = new Date()) {
+  return new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+}
+
+/**
+ * Work out the status an invoice should have given how much has been paid.
+ * Unpaid invoices keep their status unless it was payment-driven, in which
+ * case they fall back to overdue or sent depending on the due date.
+ */
+export function resolvePaymentStatus(
+  invoice: Pick<SelectInvoices, "status" | "total" | "dueDate">,
+  paidAmount: number,
+  now = new Date(),
+): InvoiceStatus {
+  const total = Number.parseFloat(invoice.total)
+  const status = invoice.status ?? "draft"
+
+  if (paidAmount > 0 && Math.round(paidAmount * 100) >= Math.round(total * 100)) {
+    return "paid"
+  }
+  if (paidAmount > 0) {
+    return "partially_paid"
+  }
+  if (PAYMENT_STATUSES.includes(status)) {
+    return invoice.dueDate < overdueCutoff(now) ? "overdue" : "sent"
+  }
+  return status
+}
+
+/**
+ * Recalculate an invoice's paid amount from its payments and applied credit, and update its status
+ */
+export async function syncInvoicePayments(tx: DbTransaction, invoiceId: string) {
+  const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).limit(1)
+  if (!invoice) {
+    return null
+  }
+
+  const [totals] = await tx
+    .select({ paid: sum(invoicePayments.amount) })
+    .from(invoicePayments)
+    .where(eq(invoicePayments.invoiceId, invoiceId))
+
+  const [credited] = await tx
+    .select({ applied: sum(creditApplications.amount) })
+    .from(creditApplications)
+    .where(eq(creditApplications.invoiceId, invoiceId))
+
+  const paidAmount = Number(totals?.paid || 0) + Number(credited?.applied || 0)
+
+  const [updated] = await tx
+    .update(invoices)
+    .set({
+      paidAmount: paidAmount.toFixed(2),
+      status: resolvePaymentStatus(invoice, paidAmount),
+      updatedAt: new Date(),
+    })
+    .where(eq(invoices.id, invoiceId))
+    .returning()
+
+  return updated
+}
+
+export interface InvoicePaymentInput {
+  paymentDate: Date
+  // Everything received; whatever exceeds the balance due is held as customer credit
+  amount: number
+  method: PaymentMethod
+  accountId: string
+  // Base currency per unit of the invoice currency on the payment date
+  exchangeRate?: number
+  reference?: string | null
+  notes?: string | null
+}
+
+/**
+ * Record money received against an invoice: the deposit transaction, the payment applied to the
+ * invoice and any overpayment held as credit for the customer. Everything is written in the caller's
+ * transaction, so the invoice is never marked paid without the money being recorded. The caller reads
+ * the invoice with its row locked, so the outstanding amount cannot change underneath the payment.
+ */
+export async function recordPayment(
+  tx: DbTransaction,
+  invoice: SelectInvoices,
+  input: InvoicePaymentInput,
+  userId: string,
+) {
+  if (!invoice.status || invoice.status === "draft") {
+    throw new LedgerError("Send the invoice before recording a payment")
+  }
+
+  const outstanding = Number(
+    (Number.parseFloat(invoice.total) - Number.parseFloat(invoice.paidAmount || "0")).toFixed(2),
+  )
+  if (outstanding <= 0) {
+    throw new LedgerError(`Invoice ${invoice.invoiceNumber} is already paid`)
+  }
+  const applied = Math.min(Number(input.amount.toFixed(2)), outstanding)
+  const credit = Number((input.amount - applied).toFixed(2))
+
+  const [depositAccount] = await tx
+    .select({ id: accounts.id, type: accounts.type })
+    .from(accounts)
+    .where(and(eq(accounts.id, input.accountId), eq(accounts.organizationId, invoice.organizationId)))
+    .limit(1)
+
+  if (!depositAccount?.type) {
+    throw new LedgerError("Payments must be deposited into a payment account")
+  }
+
+  const exchangeRate = await resolveExchangeRate(
+    tx,
+    invoice.organizationId,
+    invoice.currency,
+    input.paymentDate,
+    input.exchangeRate,
+  )
+
+  // The income transaction credits receivables because it carries the invoice id;
+  // it is in the invoice currency so any change in rate is a realised gain or loss
+  const [paymentTransaction] = await tx
+    .insert(transactions)
+    .values({
+      type: "income",
+      status: "completed",
+      amount: input.amount.toFixed(2),
+      currency: invoice.currency,
+      exchangeRate: String(exchangeRate),
+      description: `Payment received for Invoice ${invoice.invoiceNumber}`,
+      reference: input.reference || invoice.invoiceNumber,
+      transactionDate: input.paymentDate,
+      toAccountId: input.accountId,
+      contactId: invoice.customerId,
+      invoiceId: invoice.id,
+      notes: input.notes || null,
+      organizationId: invoice.organizationId,
+      userId,
+    })
+    .returning()
+
+  const [payment] = await tx
+    .insert(invoicePayments)
+    .values({
+      invoiceId: invoice.id,
+      transactionId: paymentTransaction.id,
+      paymentDate: input.paymentDate,
+      amount: applied.toFixed(2),
+      method: input.method,
+      accountId: input.accountId,
+      reference: input.reference || null,
+      notes: input.notes || null,
+      userId,
+    })
+    .returning()
+
+  if (credit > 0) {
+    await tx.insert(customerCredits).values({
+      organizationId: invoice.organizationId,
+      contactId: invoice.customerId,
+      transactionId: paymentTransaction.id,
+      amount: credit.toFixed(2),
+      currency: invoice.currency,
+      exchangeRate: String(exchangeRate),
+    })
+  }
+
+  // Posted once the credit is stored so the overpayment goes to customer credit, not receivables
+  await postTransaction(tx, paymentTransaction)
+
+  const updatedInvoice = await syncInvoicePayments(tx, invoice.id)
+
+  return { payment, invoice: updatedInvoice, credit }
+}
@@ -0,0 +1,168 @@
+// Invoice creation shared by the invoice form, recurring invoice templates and quote conversion
+
+import { contacts, invoiceItems, invoices, taxCodes } from "@/db/schema"
+import type { InvoiceStatus } from "@/db/schema"
+import { and, eq, inArray } from "drizzle-orm"
+import { nextDocumentNumber } from "@/lib/document-sequences"
+import { resolveExchangeRate } from "@/lib/exchange-rates"
+import { type DbExecutor, type DbTransaction, LedgerError, postInvoice } from "@/lib/ledger"
+import { syncInvoicePayments } from "@/lib/invoice-payments"
+import { type TaxCodeRate, calculateLineTax } from "@/lib/tax-codes"
+
+export interface InvoiceItemInput {
+  description: string
+  quantity: number
+  unitPrice: number
+  taxCodeId?: string | null
+}
+
+export interface NewInvoiceInput {
+  organizationId: string
+  userId: string
+  customerId: string
+  issueDate: Date
+  dueDate: Date
+  status: InvoiceStatus
+  // Applied to lines without a tax code
+  taxRate: number
+  // Defaults to the customer's currency at the stored rate on the issue date
+  currency?: string
+  exchangeRate?: number
+  notes?: string | null
+  terms?: string | null
+  items: InvoiceItemInput[]
+  recurringInvoiceId?: string | null
+  quoteId?: string | null
+}
+
+/**
+ * Line and document totals. Tax is worked out per line from its code, or from taxRate when it has
+ * none, and rounded per line so the posted receivable always equals revenue plus tax less withholding.
+ */
+export function calculateInvoiceTotals(items: InvoiceItemInput[], taxRate: number, codes: TaxCodeRate[] = []) {
+  const lines = items.map((item) => {
+    const total = Number((item.quantity * item.unitPrice).toFixed(2))
+    const code = item.taxCodeId ? codes.find((candidate) => candidate.id === item.taxCodeId) : null
+    const tax = calculateLineTax(total, taxRate, code)
+    return { ...item, taxCodeId: code?.id ?? null, total, taxRate: tax.rate, taxAmount: tax.amount }
+  })
+  const subtotal = Number(lines.reduce((sum, item) => sum + item.total, 0).toFixed(2))
+  const taxAmount = Number(lines.reduce((sum, item) => sum + item.taxAmount, 0).toFixed(2))
+
+  return { lines, subtotal, taxAmount, total: Number((subtotal + taxAmount).toFixed(2)) }
+}
+
+/**
+ * Load the tax codes referenced by invoice lines, rejecting codes from another organisation
+ */
+export async function loadTaxCodes(
+  executor: DbExecutor,
+  organizationId: string,
+  ids: (string | null | undefined)[],
+): Promise<TaxCodeRate[]> {
+  const unique = [...new Set(ids.filter((id): id is string => Boolean(id)))]
+  if (unique.length === 0) {
+    return []
+  }
+
+  const rows = await executor
+    .select({ id: taxCodes.id, rate: taxCodes.rate, kind: taxCodes.kind })
+    .from(taxCodes)
+    .where(and(inArray(taxCodes.id, unique), eq(taxCodes.organizationId, organizationId)))
+
+  if (rows.length !== unique.length) {
+    throw new LedgerError("Tax code not found")
+  }
+  return rows
+}
+
+/**
+ * Totals for lines whose tax codes still have to be looked up
+ */
+export async function calculateInvoiceTotalsWithCodes(
+  tx: DbTransaction,
+  organizationId: string,
+  items: InvoiceItemInput[],
+  taxRate: number,
+) {
+  const codes = await loadTaxCodes(tx, organizationId, items.map((item) => item.taxCodeId))
+  return calculateInvoiceTotals(items, taxRate, codes)
+}
+
+/**
+ * Rows for an invoice's line items table
+ */
+export function invoiceItemRows(invoiceId: string, lines: ReturnType<typeof calculateInvoiceTotals>["lines"]) {
+  return lines.map((item) => ({
+    invoiceId,
+    description: item.description,
+    quantity: item.quantity.toFixed(2),
+    unitPrice: item.unitPrice.toFixed(2),
+    total: item.total.toFixed(2),
+    taxCodeId: item.taxCodeId,
+    taxRate: item.taxRate.toFixed(2),
+    taxAmount: item.taxAmount.toFixed(2),
+  }))
+}
+
+/**
+ * Number, insert and post a new invoice with its line items
+ */
+export async function insertInvoice(tx: DbTransaction, input: NewInvoiceInput) {
+  const { lines, subtotal, taxAmount, total } = await calculateInvoiceTotalsWithCodes(
+    tx,
+    input.organizationId,
+    input.items,
+    input.taxRate,
+  )
+
+  let currency = input.currency
+  if (!currency) {
+    const [customer] = await tx
+      .select({ currency: contacts.currency })
+      .from(contacts)
+      .where(eq(contacts.id, input.customerId))
+      .limit(1)
+    currency = customer.currency
+  }
+  const exchangeRate = await resolveExchangeRate(
+    tx,
+    input.organizationId,
+    currency,
+    input.issueDate,
+    input.exchangeRate,
+  )
+
+  const [newInvoice] = await tx
+    .insert(invoices)
+    .values({
+      invoiceNumber: await nextDocumentNumber(tx, input.organizationId, "invoice"),
+      customerId: input.customerId,
+      issueDate: input.issueDate,
+      dueDate: input.dueDate,
+      status: input.status,
+      subtotal: subtotal.toFixed(2),
+      taxRate: input.taxRate.toFixed(2),
+      taxAmount: taxAmount.toFixed(2),
+      total: total.toFixed(2),
+      paidAmount: "0.00",
+      currency,
+      exchangeRate: String(exchangeRate),
+      notes: input.notes || null,
+      terms: input.terms || null,
+      recurringInvoiceId: input.recurringInvoiceId ?? null,
+      quoteId: input.quoteId ?? null,
+      organizationId: input.organizationId,
+      userId: input.userId,
+    })
+    .returning()
+
+  if (lines.length > 0) {
+    await tx.insert(invoiceItems).values(invoiceItemRows(newInvoice.id, lines))
+  }
+
+  const syncedInvoice = (await syncInvoicePayments(tx, newInvoice.id)) ?? newInvoice
+  await postInvoice(tx, syncedInvoice)
+
+  return syncedInvoice
+}
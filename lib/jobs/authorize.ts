@@ -0,0 +1,10 @@
+// Background jobs are triggered by a scheduler, not a signed-in user,
+// so their routes check a shared secret instead of a session.
+
+export function isAuthorizedJobRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return false
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`
+}
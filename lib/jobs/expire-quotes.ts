@@ -0,0 +1,26 @@
+// Quote expiry job
+// Moves sent quotes whose expiry date has passed to the expired status
+
+import { db } from "@/db/drizzle"
+import { quotes } from "@/db/schema"
+import { and, eq, lt } from "drizzle-orm"
+
+/**
+ * Flip every sent quote that expired before the start of asOf's day to expired.
+ * Drafts were never offered, and accepted or declined quotes already have an answer.
+ */
+export async function expireQuotes({ asOf = new Date() }: { asOf?: Date } = {}) {
+  const startOfDay = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+
+  const updated = await db
+    .update(quotes)
+    .set({ status: "expired", updatedAt: new Date() })
+    .where(and(eq(quotes.status, "sent"), lt(quotes.expiryDate, startOfDay)))
+    .returning({
+      id: quotes.id,
+      quoteNumber: quotes.quoteNumber,
+      expiryDate: quotes.expiryDate,
+    })
+
+  return { checkedAt: new Date(), asOf: startOfDay, quotes: updated }
+}
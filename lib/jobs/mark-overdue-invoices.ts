@@ -0,0 +1,27 @@
+// Overdue invoice job
+// Moves sent invoices whose due date has passed to the overdue status
+
+import { db } from "@/db/drizzle"
+import { invoices } from "@/db/schema"
+import { and, eq, lt } from "drizzle-orm"
+import { overdueCutoff } from "@/lib/invoice-payments"
+
+/**
+ * Flip every sent invoice due before the start of asOf's day to overdue.
+ * Paid and partially paid invoices keep their payment-driven status.
+ */
+export async function markOverdueInvoices({ asOf = new Date() }: { asOf?: Date } = {}) {
+  const startOfDay = overdueCutoff(asOf)
+
+  const updated = await db
+    .update(invoices)
+    .set({ status: "overdue", updatedAt: new Date() })
+    .where(and(eq(invoices.status, "sent"), lt(invoices.dueDate, startOfDay)))
+    .returning({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      dueDate: invoices.dueDate,
+    })
+
+  return { checkedAt: new Date(), asOf: startOfDay, invoices: updated }
+}
@@ -0,0 +1,84 @@
+// Balance reconciliation job
+// Compares the cached accounts.balance column against the ledger
+
+import { db } from "@/db/drizzle"
+import { accounts, journalEntries } from "@/db/schema"
+import { and, eq, isNull, ne } from "drizzle-orm"
+import { getLedgerBalances, postOpeningBalance, refreshAccountBalances } from "@/lib/ledger"
+
+export interface BalanceDiscrepancy {
+  accountId: string
+  name: string
+  storedBalance: number
+  ledgerBalance: number
+  difference: number
+}
+
+/**
+ * Find every account whose stored balance disagrees with its posted journal lines.
+ * Pass an organisation id to limit the check to its accounts.
+ */
+export async function findBalanceDiscrepancies(organizationId?: string): Promise<BalanceDiscrepancy[]> {
+  const rows = await db
+    .select({ id: accounts.id, name: accounts.name, balance: accounts.balance })
+    .from(accounts)
+    .where(organizationId ? eq(accounts.organizationId, organizationId) : undefined)
+  const balances = await getLedgerBalances(
+    db,
+    organizationId ? rows.map((account) => account.id) : undefined,
+  )
+
+  return rows
+    .map((account) => {
+      const storedBalance = Number.parseFloat(account.balance)
+      const ledgerBalance = balances.get(account.id) ?? 0
+      return {
+        accountId: account.id,
+        name: account.name,
+        storedBalance,
+        ledgerBalance,
+        difference: Number((storedBalance - ledgerBalance).toFixed(2)),
+      }
+    })
+    .filter((row) => Math.abs(row.difference) >= 0.01)
+}
+
+/**
+ * Report discrepancies and, when repair is set, post any missing opening
+ * balances and overwrite the stored balances with the ledger values
+ */
+export async function reconcileBalances({ repair = false }: { repair?: boolean } = {}) {
+  const discrepancies = await findBalanceDiscrepancies()
+
+  if (repair && discrepancies.length > 0) {
+    await db.transaction(async (tx) => {
+      // Accounts created before the ledger existed only have an opening balance column
+      const unposted = await tx
+        .select({
+          id: accounts.id,
+          organizationId: accounts.organizationId,
+          name: accounts.name,
+          accountClass: accounts.accountClass,
+          openingBalance: accounts.openingBalance,
+          createdAt: accounts.createdAt,
+        })
+        .from(accounts)
+        .leftJoin(
+          journalEntries,
+          and(eq(journalEntries.sourceType, "account"), eq(journalEntries.sourceId, accounts.id)),
+        )
+        .where(and(ne(accounts.openingBalance, "0.00"), isNull(journalEntries.id)))
+
+      for (const account of unposted) {
+        await postOpeningBalance(tx, account, null)
+      }
+
+      await refreshAccountBalances(
+        tx,
+        discrepancies.map((row) => row.accountId),
+      )
+    })
+  }
+
+  return { checkedAt: new Date(), repaired: repair, discrepancies }
+}
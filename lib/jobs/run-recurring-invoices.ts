@@ -0,0 +1,141 @@
+// Recurring invoice runner
+// Generates a numbered invoice from each template for every due date and advances the schedule
+
+import { db } from "@/db/drizzle"
+import { invoices, recurringInvoiceItems, recurringInvoices } from "@/db/schema"
+import { and, eq, lte } from "drizzle-orm"
+import { type DbTransaction, LedgerError } from "@/lib/ledger"
+import { insertInvoice } from "@/lib/invoices"
+import { nextOccurrenceAfter, occurrencesBetween } from "@/lib/recurrence"
+
+export interface GeneratedInvoice {
+  recurringInvoiceId: string
+  name: string
+  issueDate: Date
+  invoiceId: string
+  invoiceNumber: string
+}
+
+export interface RecurringInvoiceRunFailure {
+  recurringInvoiceId: string
+  name: string
+  error: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Generate the due invoices of one template. The template row is locked so two runners
+ * cannot interleave, and an invoice already issued for a date is never issued again.
+ */
+async function runTemplate(tx: DbTransaction, templateId: string, asOf: Date): Promise<GeneratedInvoice[]> {
+  const [template] = await tx
+    .select()
+    .from(recurringInvoices)
+    .where(eq(recurringInvoices.id, templateId))
+    .for("update")
+
+  if (!template || !template.isActive || template.nextDate > asOf) {
+    return []
+  }
+
+  const items = await tx
+    .select()
+    .from(recurringInvoiceItems)
+    .where(eq(recurringInvoiceItems.recurringInvoiceId, template.id))
+
+  const dates = occurrencesBetween(template, template.nextDate, asOf)
+  const generated: GeneratedInvoice[] = []
+
+  for (const issueDate of dates) {
+    const [existing] = await tx
+      .select({ id: invoices.id })
+      .from(invoices)
+      .where(and(eq(invoices.recurringInvoiceId, template.id), eq(invoices.issueDate, issueDate)))
+      .limit(1)
+
+    if (existing) {
+      continue
+    }
+
+    const invoice = await insertInvoice(tx, {
+      organizationId: template.organizationId,
+      userId: template.userId,
+      customerId: template.customerId,
+      issueDate,
+      dueDate: new Date(issueDate.getTime() + template.paymentTermsDays * DAY_MS),
+      status: template.autoSend ? "sent" : "draft",
+      taxRate: Number.parseFloat(template.taxRate || "0"),
+      notes: template.notes,
+      terms: template.terms,
+      items: items.map((item) => ({
+        description: item.description,
+        quantity: Number.parseFloat(item.quantity),
+        unitPrice: Number.parseFloat(item.unitPrice),
+        taxCodeId: item.taxCodeId,
+      })),
+      recurringInvoiceId: template.id,
+    })
+
+    generated.push({
+      recurringInvoiceId: template.id,
+      name: template.name,
+      issueDate,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+    })
+  }
+
+  const lastDate = dates.at(-1) ?? new Date(template.nextDate.getTime() - 1)
+  const nextDate = nextOccurrenceAfter(template, lastDate)
+
+  await tx
+    .update(recurringInvoices)
+    .set({
+      nextDate: nextDate ?? template.nextDate,
+      isActive: nextDate !== null,
+      lastRunAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(recurringInvoices.id, template.id))
+
+  return generated
+}
+
+/**
+ * Run every active invoice template that is due on or before asOf, catching up missed periods.
+ * Each template runs in its own database transaction so one failure does not block the rest.
+ */
+export async function runRecurringInvoices({
+  asOf = new Date(),
+  organizationId,
+}: { asOf?: Date; organizationId?: string } = {}) {
+  const due = await db
+    .select({ id: recurringInvoices.id, name: recurringInvoices.name })
+    .from(recurringInvoices)
+    .where(
+      and(
+        eq(recurringInvoices.isActive, true),
+        lte(recurringInvoices.nextDate, asOf),
+        organizationId ? eq(recurringInvoices.organizationId, organizationId) : undefined,
+      ),
+    )
+
+  const generated: GeneratedInvoice[] = []
+  const failures: RecurringInvoiceRunFailure[] = []
+
+  for (const template of due) {
+    try {
+      generated.push(...(await db.transaction((tx) => runTemplate(tx, template.id, asOf))))
+    } catch (error) {
+      console.error(`Error running recurring invoice ${template.id}:`, error)
+      failures.push({
+        recurringInvoiceId: template.id,
+        name: template.name,
+        error: error instanceof LedgerError ? error.message : "Failed to generate invoice",
+      })
+    }
+  }
+
+  return { checkedAt: new Date(), asOf, generated, failures }
+}
@@ -0,0 +1,157 @@
+// Recurring transaction runner
+// Materialises every due occurrence as a completed transaction and advances the schedule
+
+import { db } from "@/db/drizzle"
+import { recurringOccurrences, recurringTransactions, transactions } from "@/db/schema"
+import type { SelectRecurringTransactions } from "@/db/schema"
+import { and, eq, lte } from "drizzle-orm"
+import { getAccountsCurrency, getExchangeRate } from "@/lib/exchange-rates"
+import { type DbTransaction, LedgerError, postTransaction } from "@/lib/ledger"
+import { nextOccurrenceAfter, occurrencesBetween, type RecurrenceRule } from "@/lib/recurrence"
+
+export interface GeneratedOccurrence {
+  recurringTransactionId: string
+  name: string
+  occurrenceDate: Date
+  transactionId: string
+}
+
+export interface RecurringRunFailure {
+  recurringTransactionId: string
+  name: string
+  error: string
+}
+
+function toRule(schedule: SelectRecurringTransactions): RecurrenceRule {
+  return {
+    frequency: schedule.frequency,
+    interval: schedule.interval,
+    dayOfMonth: schedule.dayOfMonth,
+    weekOfMonth: schedule.weekOfMonth,
+    dayOfWeek: schedule.dayOfWeek,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate,
+    maxOccurrences: schedule.maxOccurrences,
+  }
+}
+
+/**
+ * Generate the due occurrences of one schedule. The schedule row is locked so two
+ * runners cannot interleave, and the occurrence table's unique key makes a retry a no-op.
+ */
+async function runSchedule(tx: DbTransaction, scheduleId: string, asOf: Date): Promise<GeneratedOccurrence[]> {
+  const [schedule] = await tx
+    .select()
+    .from(recurringTransactions)
+    .where(eq(recurringTransactions.id, scheduleId))
+    .for("update")
+
+  if (!schedule || !schedule.isActive || schedule.nextDate > asOf) {
+    return []
+  }
+
+  const rule = toRule(schedule)
+  const dates = occurrencesBetween(rule, schedule.nextDate, asOf)
+  const generated: GeneratedOccurrence[] = []
+  // Occurrences are in the currency of the schedule's accounts, at the rate on each date
+  const currency = await getAccountsCurrency(tx, schedule.organizationId, [schedule.fromAccountId, schedule.toAccountId])
+
+  for (const occurrenceDate of dates) {
+    const [occurrence] = await tx
+      .insert(recurringOccurrences)
+      .values({ recurringTransactionId: schedule.id, occurrenceDate })
+      .onConflictDoNothing()
+      .returning({ id: recurringOccurrences.id })
+
+    if (!occurrence) {
+      continue
+    }
+
+    const [transaction] = await tx
+      .insert(transactions)
+      .values({
+        type: schedule.type,
+        status: "completed",
+        amount: schedule.amount,
+        currency,
+        exchangeRate: String(await getExchangeRate(tx, schedule.organizationId, currency, occurrenceDate)),
+        description: schedule.description,
+        reference: schedule.name,
+        transactionDate: occurrenceDate,
+        fromAccountId: schedule.fromAccountId,
+        toAccountId: schedule.toAccountId,
+        contactId: schedule.contactId,
+        categoryId: schedule.categoryId,
+        organizationId: schedule.organizationId,
+        userId: schedule.userId,
+      })
+      .returning()
+
+    await postTransaction(tx, transaction)
+
+    await tx
+      .update(recurringOccurrences)
+      .set({ transactionId: transaction.id })
+      .where(eq(recurringOccurrences.id, occurrence.id))
+
+    generated.push({
+      recurringTransactionId: schedule.id,
+      name: schedule.name,
+      occurrenceDate,
+      transactionId: transaction.id,
+    })
+  }
+
+  const lastDate = dates.at(-1) ?? new Date(schedule.nextDate.getTime() - 1)
+  const nextDate = nextOccurrenceAfter(rule, lastDate)
+
+  await tx
+    .update(recurringTransactions)
+    .set({
+      nextDate: nextDate ?? schedule.nextDate,
+      isActive: nextDate !== null,
+      lastRunAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(recurringTransactions.id, schedule.id))
+
+  return generated
+}
+
+/**
+ * Run every active schedule that is due on or before asOf, catching up missed periods.
+ * Each schedule runs in its own database transaction so one failure does not block the rest.
+ */
+export async function runRecurringTransactions({
+  asOf = new Date(),
+  organizationId,
+}: { asOf?: Date; organizationId?: string } = {}) {
+  const due = await db
+    .select({ id: recurringTransactions.id, name: recurringTransactions.name })
+    .from(recurringTransactions)
+    .where(
+      and(
+        eq(recurringTransactions.isActive, true),
+        lte(recurringTransactions.nextDate, asOf),
+        organizationId ? eq(recurringTransactions.organizationId, organizationId) : undefined,
+      ),
+    )
+
+  const generated: GeneratedOccurrence[] = []
+  const failures: RecurringRunFailure[] = []
+
+  for (const schedule of due) {
+    try {
+      generated.push(...(await db.transaction((tx) => runSchedule(tx, schedule.id, asOf))))
+    } catch (error) {
+      console.error(`Error running recurring transaction ${schedule.id}:`, error)
+      failures.push({
+        recurringTransactionId: schedule.id,
+        name: schedule.name,
+        error: error instanceof LedgerError ? error.message : "Failed to generate transaction",
+      })
+    }
+  }
+
+  return { checkedAt: new Date(), asOf, generated, failures }
+}
@@ -0,0 +1,746 @@
+// Double-entry ledger for Samuel Accounting
+// Turns transactions, invoices, credit notes, bills and expenses into balanced journal entries
+
+import { db } from "@/db/drizzle"
+import {
+  accounts,
+  creditNoteItems,
+  creditRefunds,
+  customerCredits,
+  invoiceItems,
+  invoices,
+  journalEntries,
+  journalLines,
+  organizations,
+  taxCodes,
+} from "@/db/schema"
+import type {
+  AccountType,
+  JournalSource,
+  SelectAccounts,
+  SelectBillItems,
+  SelectBills,
+  SelectCreditApplications,
+  SelectCreditNotes,
+  SelectCustomerCredits,
+  SelectExpenses,
+  SelectInvoices,
+  SelectTransactions,
+  TaxCodeKind,
+} from "@/db/schema"
+import { and, eq, inArray, sum } from "drizzle-orm"
+import { BalanceEngine, type JournalLine, type LedgerMovement } from "@/lib/balance-engine"
+import { createSystemAccount, type SystemAccountKey } from "@/lib/chart-of-accounts"
+import { DEFAULT_BASE_CURRENCY, toBaseAmount } from "@/lib/currency"
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+export type DbExecutor = typeof db | DbTransaction
+
+/**
+ * Raised when a document cannot be turned into a balanced entry.
+ * The message is safe to show to the user.
+ */
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LedgerError"
+  }
+}
+
+/**
+ * Narrow an account list to accounts money can move in and out of
+ */
+export function isPaymentAccount<T extends { type: AccountType | null }>(account: T): account is T & { type: AccountType } {
+  return account.type !== null
+}
+
+export interface JournalEntryInput {
+  entryDate: Date
+  description: string
+  reference?: string | null
+  sourceType: JournalSource
+  sourceId: string
+  organizationId: string
+  userId: string | null
+  lines: JournalLine[]
+}
+
+/**
+ * The currency an organisation's ledger is kept in
+ */
+export async function getBaseCurrency(executor: DbExecutor, organizationId: string) {
+  const [organization] = await executor
+    .select({ baseCurrency: organizations.baseCurrency })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1)
+
+  return organization?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+}
+
+/**
+ * A journal line from a base amount, debits positive. Lines on foreign currency balances
+ * also carry the amount in that currency so they can be revalued later.
+ */
+export function ledgerLine(
+  accountId: string,
+  amount: number,
+  foreign?: { currency: string; amount: number } | null,
+): JournalLine {
+  return {
+    accountId,
+    debit: amount > 0 ? amount : 0,
+    credit: amount < 0 ? -amount : 0,
+    ...(foreign && { currency: foreign.currency, currencyAmount: foreign.amount }),
+  }
+}
+
+/**
+ * Get the id of an organisation's system account, creating it if it does not exist yet
+ */
+export async function getSystemAccountId(
+  tx: DbTransaction,
+  organizationId: string,
+  key: SystemAccountKey,
+): Promise<string> {
+  const [existing] = await tx
+    .select({ id: accounts.id })
+    .from(accounts)
+    .where(and(eq(accounts.organizationId, organizationId), eq(accounts.systemKey, key)))
+    .limit(1)
+
+  if (existing) {
+    return existing.id
+  }
+
+  return createSystemAccount(tx, organizationId, key)
+}
+
+/**
+ * Compute account balances from posted journal lines.
+ * Pass account ids to limit the calculation to those accounts.
+ */
+export async function getLedgerBalances(executor: DbExecutor = db, accountIds?: string[]): Promise<Map<string, number>> {
+  if (accountIds && accountIds.length === 0) {
+    return new Map()
+  }
+
+  const accountRows = await executor
+    .select({ id: accounts.id, name: accounts.name, code: accounts.code, accountClass: accounts.accountClass })
+    .from(accounts)
+    .where(accountIds ? inArray(accounts.id, accountIds) : undefined)
+
+  const totals = await executor
+    .select({
+      accountId: journalLines.accountId,
+      debit: sum(journalLines.debit),
+      credit: sum(journalLines.credit),
+    })
+    .from(journalLines)
+    .where(accountIds ? inArray(journalLines.accountId, accountIds) : undefined)
+    .groupBy(journalLines.accountId)
+
+  const movements: LedgerMovement[] = totals.flatMap((total) => [
+    { amount: Number(total.debit || 0), debitAccount: total.accountId, creditAccount: "" },
+    { amount: Number(total.credit || 0), debitAccount: "", creditAccount: total.accountId },
+  ])
+
+  return BalanceEngine.calculateAllAccountBalances(
+    accountRows.map((account) => ({
+      id: account.id,
+      name: account.name,
+      type: account.accountClass,
+      code: account.code ?? "",
+    })),
+    movements,
+  )
+}
+
+/**
+ * Rewrite the cached balance column of the given accounts from the ledger
+ */
+export async function refreshAccountBalances(tx: DbTransaction, accountIds: string[]) {
+  const balances = await getLedgerBalances(tx, [...new Set(accountIds)])
+
+  for (const [accountId, balance] of balances) {
+    await tx
+      .update(accounts)
+      .set({ balance: balance.toFixed(2), updatedAt: new Date() })
+      .where(eq(accounts.id, accountId))
+  }
+}
+
+/**
+ * Write a journal entry after checking that debits equal credits
+ */
+export async function postJournalEntry(tx: DbTransaction, input: JournalEntryInput) {
+  const lines = input.lines.filter((line) => line.debit !== 0 || line.credit !== 0)
+
+  if (lines.length === 0) {
+    throw new LedgerError("A journal entry needs at least one non-zero line")
+  }
+
+  const check = BalanceEngine.validateTransactionBalance(lines)
+  if (!check.isValid) {
+    throw new LedgerError(
+      `Journal entry is unbalanced: debits ${check.totalDebits.toFixed(2)}, credits ${check.totalCredits.toFixed(2)}`,
+    )
+  }
+
+  // Every line must post to an account of the organisation that owns the entry
+  const accountIds = [...new Set(lines.map((line) => line.accountId))]
+  const owned = await tx
+    .select({ id: accounts.id })
+    .from(accounts)
+    .where(and(inArray(accounts.id, accountIds), eq(accounts.organizationId, input.organizationId)))
+  if (owned.length !== accountIds.length) {
+    throw new LedgerError("Journal entry references an account outside this organisation")
+  }
+
+  const [entry] = await tx
+    .insert(journalEntries)
+    .values({
+      entryDate: input.entryDate,
+      description: input.description,
+      reference: input.reference ?? null,
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+      organizationId: input.organizationId,
+      userId: input.userId,
+    })
+    .returning()
+
+  await tx.insert(journalLines).values(
+    lines.map((line) => ({
+      journalEntryId: entry.id,
+      accountId: line.accountId,
+      debit: line.debit.toFixed(2),
+      credit: line.credit.toFixed(2),
+      currency: line.currency ?? null,
+      currencyAmount: line.currency ? (line.currencyAmount ?? 0).toFixed(2) : null,
+      description: line.description ?? null,
+    })),
+  )
+
+  await refreshAccountBalances(
+    tx,
+    lines.map((line) => line.accountId),
+  )
+
+  return entry
+}
+
+/**
+ * Remove every journal entry produced by a document
+ */
+export async function unpostSource(tx: DbTransaction, sourceType: JournalSource, sourceId: string) {
+  const sourceFilter = and(eq(journalEntries.sourceType, sourceType), eq(journalEntries.sourceId, sourceId))
+
+  // Lines cascade with their entry, so collect the touched accounts first
+  const touched = await tx
+    .select({ accountId: journalLines.accountId })
+    .from(journalLines)
+    .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+    .where(sourceFilter)
+
+  if (touched.length === 0) {
+    return
+  }
+
+  await tx.delete(journalEntries).where(sourceFilter)
+
+  await refreshAccountBalances(
+    tx,
+    touched.map((line) => line.accountId),
+  )
+}
+
+/**
+ * Build the lines for a cash transaction:
+ * - Income: debit the deposit account, credit revenue (or receivables when it settles an invoice)
+ * - Expense: debit expenses (or payables when it pays a bill or reimburses an expense), credit the paying account
+ * - Transfer: debit the receiving account, credit the sending account
+ *
+ * Amounts are converted to base at the transaction's rate. An invoice payment clears receivables at
+ * the invoice's rate and books the difference as a realised exchange gain or loss.
+ */
+async function buildTransactionLines(
+  tx: DbTransaction,
+  transaction: Pick<
+    SelectTransactions,
+    | "id"
+    | "organizationId"
+    | "type"
+    | "amount"
+    | "currency"
+    | "exchangeRate"
+    | "fromAccountId"
+    | "toAccountId"
+    | "invoiceId"
+    | "billId"
+    | "expenseId"
+  >,
+): Promise<JournalLine[]> {
+  const amount = Number.parseFloat(transaction.amount)
+  const baseAmount = toBaseAmount(amount, Number.parseFloat(transaction.exchangeRate))
+  const baseCurrency = await getBaseCurrency(tx, transaction.organizationId)
+  const foreign = transaction.currency === baseCurrency ? null : transaction.currency
+
+  // Payment accounts hold either base currency or the transaction's own currency
+  const accountIds = [transaction.fromAccountId, transaction.toAccountId].filter((id): id is string => !!id)
+  const accountRows =
+    accountIds.length > 0
+      ? await tx
+          .select({ id: accounts.id, name: accounts.name, currency: accounts.currency })
+          .from(accounts)
+          .where(inArray(accounts.id, accountIds))
+      : []
+  const moneyLine = (accountId: string, sign: 1 | -1) => {
+    const account = accountRows.find((row) => row.id === accountId)
+    if (account && account.currency !== baseCurrency && account.currency !== transaction.currency) {
+      throw new LedgerError(`Transactions on ${account.name} must be in ${account.currency}`)
+    }
+    return ledgerLine(
+      accountId,
+      sign * baseAmount,
+      account && account.currency !== baseCurrency ? { currency: account.currency, amount: sign * amount } : null,
+    )
+  }
+
+  switch (transaction.type) {
+    case "income": {
+      if (!transaction.toAccountId) {
+        throw new LedgerError("Income transactions need a deposit account")
+      }
+      if (!transaction.invoiceId) {
+        return [
+          moneyLine(transaction.toAccountId, 1),
+          ledgerLine(await getSystemAccountId(tx, transaction.organizationId, "salesRevenue"), -baseAmount),
+        ]
+      }
+
+      const [invoice] = await tx
+        .select({ currency: invoices.currency, exchangeRate: invoices.exchangeRate })
+        .from(invoices)
+        .where(eq(invoices.id, transaction.invoiceId))
+        .limit(1)
+      if (!invoice || invoice.currency !== transaction.currency) {
+        throw new LedgerError("Invoice payments must be in the invoice currency")
+      }
+
+      // Any overpayment is held as customer credit at the payment's rate; the rest settles the invoice
+      const [held] = await tx
+        .select({ amount: sum(customerCredits.amount) })
+        .from(customerCredits)
+        .where(eq(customerCredits.transactionId, transaction.id))
+      const credit = Number(held?.amount || 0)
+      const applied = Number((amount - credit).toFixed(2))
+      const creditBase = toBaseAmount(credit, Number.parseFloat(transaction.exchangeRate))
+      const receivable = toBaseAmount(applied, Number.parseFloat(invoice.exchangeRate))
+      return [
+        moneyLine(transaction.toAccountId, 1),
+        ledgerLine(
+          await getSystemAccountId(tx, transaction.organizationId, "accountsReceivable"),
+          -receivable,
+          foreign ? { currency: foreign, amount: -applied } : null,
+        ),
+        ledgerLine(
+          await getSystemAccountId(tx, transaction.organizationId, "customerCredit"),
+          -creditBase,
+          foreign ? { currency: foreign, amount: -credit } : null,
+        ),
+        // Receiving more base currency than the invoice was booked at is a gain
+        ledgerLine(
+          await getSystemAccountId(tx, transaction.organizationId, "realisedFxGainLoss"),
+          Number((receivable + creditBase - baseAmount).toFixed(2)),
+        ),
+      ]
+    }
+    case "expense": {
+      if (!transaction.fromAccountId) {
+        throw new LedgerError("Expense transactions need a paying account")
+      }
+      if (transaction.billId && foreign) {
+        throw new LedgerError(`Bills are paid in ${baseCurrency}`)
+      }
+      if (transaction.expenseId && foreign) {
+        throw new LedgerError(`Expenses are reimbursed in ${baseCurrency}`)
+      }
+
+      // Refunding customer credit releases it at the rate it was held at
+      const [refund] = await tx
+        .select({ exchangeRate: customerCredits.exchangeRate })
+        .from(creditRefunds)
+        .innerJoin(customerCredits, eq(creditRefunds.customerCreditId, customerCredits.id))
+        .where(eq(creditRefunds.transactionId, transaction.id))
+        .limit(1)
+      if (refund) {
+        const creditBase = toBaseAmount(amount, Number.parseFloat(refund.exchangeRate))
+        return [
+          ledgerLine(
+            await getSystemAccountId(tx, transaction.organizationId, "customerCredit"),
+            creditBase,
+            foreign ? { currency: foreign, amount } : null,
+          ),
+          moneyLine(transaction.fromAccountId, -1),
+          // Paying out less base currency than the credit was held at is a gain
+          ledgerLine(
+            await getSystemAccountId(tx, transaction.organizationId, "realisedFxGainLoss"),
+            Number((baseAmount - creditBase).toFixed(2)),
+          ),
+        ]
+      }
+
+      const debitAccountId = await getSystemAccountId(
+        tx,
+        transaction.organizationId,
+        transaction.billId || transaction.expenseId ? "accountsPayable" : "generalExpenses",
+      )
+      return [ledgerLine(debitAccountId, baseAmount), moneyLine(transaction.fromAccountId, -1)]
+    }
+    case "transfer": {
+      if (!transaction.fromAccountId || !transaction.toAccountId) {
+        throw new LedgerError("Transfers need both a source and a destination account")
+      }
+      if (transaction.fromAccountId === transaction.toAccountId) {
+        throw new LedgerError("Cannot transfer to the same account")
+      }
+      return [moneyLine(transaction.toAccountId, 1), moneyLine(transaction.fromAccountId, -1)]
+    }
+  }
+}
+
+/**
+ * Post a transaction to the ledger, replacing any earlier posting.
+ * Only completed transactions affect the books.
+ */
+export async function postTransaction(tx: DbTransaction, transaction: SelectTransactions) {
+  await unpostSource(tx, "transaction", transaction.id)
+
+  if (transaction.status !== "completed") {
+    return
+  }
+
+  await postJournalEntry(tx, {
+    entryDate: transaction.transactionDate,
+    description: transaction.description,
+    reference: transaction.reference,
+    sourceType: "transaction",
+    sourceId: transaction.id,
+    organizationId: transaction.organizationId,
+    userId: transaction.userId,
+    lines: await buildTransactionLines(tx, transaction),
+  })
+}
+
+/**
+ * Credit lines for the tax on a document's lines, in the document's currency. Each line's tax goes
+ * to its code's account, falling back to sales tax payable, and withholding is debited to
+ * withholding tax receivable. Any document level tax the lines don't account for goes to sales tax.
+ */
+async function documentTaxLines(
+  tx: DbTransaction,
+  organizationId: string,
+  taxByCode: { accountId: string | null; kind: TaxCodeKind | null; amount: string | null }[],
+  documentTax: number,
+) {
+  const taxLines: JournalLine[] = []
+  for (const row of taxByCode) {
+    const accountId =
+      row.accountId ??
+      (await getSystemAccountId(
+        tx,
+        organizationId,
+        row.kind === "withholding" ? "withholdingTaxReceivable" : "salesTaxPayable",
+      ))
+    taxLines.push(ledgerLine(accountId, -Number.parseFloat(row.amount || "0")))
+  }
+
+  const lineTax = taxLines.reduce((total, line) => total + line.credit - line.debit, 0)
+  const unallocatedTax = Number((documentTax - lineTax).toFixed(2))
+  if (unallocatedTax !== 0) {
+    taxLines.push(ledgerLine(await getSystemAccountId(tx, organizationId, "salesTaxPayable"), -unallocatedTax))
+  }
+  return taxLines
+}
+
+/**
+ * Post an invoice to the ledger, replacing any earlier posting.
+ * Issued invoices debit receivables and credit revenue and sales tax, converted to base at the
+ * invoice's rate; drafts are not posted.
+ */
+export async function postInvoice(tx: DbTransaction, invoice: SelectInvoices) {
+  await unpostSource(tx, "invoice", invoice.id)
+
+  if (!invoice.status || invoice.status === "draft") {
+    return
+  }
+
+  const taxByCode = await tx
+    .select({ accountId: taxCodes.accountId, kind: taxCodes.kind, amount: sum(invoiceItems.taxAmount) })
+    .from(invoiceItems)
+    .leftJoin(taxCodes, eq(invoiceItems.taxCodeId, taxCodes.id))
+    .where(eq(invoiceItems.invoiceId, invoice.id))
+    .groupBy(taxCodes.accountId, taxCodes.kind)
+
+  // Invoices from before tax codes only carry a document level tax amount
+  const taxLines = await documentTaxLines(
+    tx,
+    invoice.organizationId,
+    taxByCode,
+    Number.parseFloat(invoice.taxAmount || "0"),
+  )
+
+  // Revenue and tax are converted separately and receivables take their sum, so the entry balances
+  const rate = Number.parseFloat(invoice.exchangeRate)
+  const subtotal = toBaseAmount(Number.parseFloat(invoice.subtotal), rate)
+  const baseTaxLines = taxLines.map((line) => ledgerLine(line.accountId, toBaseAmount(line.debit - line.credit, rate)))
+  const taxAmount = baseTaxLines.reduce((total, line) => total + line.credit - line.debit, 0)
+  const total = Number((subtotal + taxAmount).toFixed(2))
+  const baseCurrency = await getBaseCurrency(tx, invoice.organizationId)
+  const foreign =
+    invoice.currency === baseCurrency ? null : { currency: invoice.currency, amount: Number.parseFloat(invoice.total) }
+
+  await postJournalEntry(tx, {
+    entryDate: invoice.issueDate,
+    description: `Invoice ${invoice.invoiceNumber}`,
+    reference: invoice.invoiceNumber,
+    sourceType: "invoice",
+    sourceId: invoice.id,
+    organizationId: invoice.organizationId,
+    userId: invoice.userId,
+    lines: [
+      ledgerLine(await getSystemAccountId(tx, invoice.organizationId, "accountsReceivable"), total, foreign),
+      { accountId: await getSystemAccountId(tx, invoice.organizationId, "salesRevenue"), debit: 0, credit: subtotal },
+      ...baseTaxLines,
+    ],
+  })
+}
+
+/**
+ * Post a credit note to the ledger, replacing any earlier posting.
+ * Issued notes reverse the revenue and tax of the credited lines at the invoice's rate and hold the
+ * total as customer credit; drafts and void notes are not posted.
+ */
+export async function postCreditNote(tx: DbTransaction, creditNote: SelectCreditNotes) {
+  await unpostSource(tx, "credit_note", creditNote.id)
+
+  if (creditNote.status !== "issued") {
+    return
+  }
+
+  const taxByCode = await tx
+    .select({ accountId: taxCodes.accountId, kind: taxCodes.kind, amount: sum(creditNoteItems.taxAmount) })
+    .from(creditNoteItems)
+    .leftJoin(taxCodes, eq(creditNoteItems.taxCodeId, taxCodes.id))
+    .where(eq(creditNoteItems.creditNoteId, creditNote.id))
+    .groupBy(taxCodes.accountId, taxCodes.kind)
+
+  const taxLines = await documentTaxLines(
+    tx,
+    creditNote.organizationId,
+    taxByCode,
+    Number.parseFloat(creditNote.taxAmount),
+  )
+
+  // Each invoice line is reversed at the rate it was booked at, so nothing is left behind in revenue or tax
+  const rate = Number.parseFloat(creditNote.exchangeRate)
+  const subtotal = toBaseAmount(Number.parseFloat(creditNote.subtotal), rate)
+  const baseTaxLines = taxLines.map((line) => ledgerLine(line.accountId, toBaseAmount(line.credit - line.debit, rate)))
+  const taxAmount = baseTaxLines.reduce((total, line) => total + line.debit - line.credit, 0)
+  const total = Number((subtotal + taxAmount).toFixed(2))
+  const baseCurrency = await getBaseCurrency(tx, creditNote.organizationId)
+  const foreign =
+    creditNote.currency === baseCurrency
+      ? null
+      : { currency: creditNote.currency, amount: -Number.parseFloat(creditNote.total) }
+
+  await postJournalEntry(tx, {
+    entryDate: creditNote.issueDate,
+    description: `Credit note ${creditNote.creditNoteNumber}`,
+    reference: creditNote.creditNoteNumber,
+    sourceType: "credit_note",
+    sourceId: creditNote.id,
+    organizationId: creditNote.organizationId,
+    userId: creditNote.userId,
+    lines: [
+      { accountId: await getSystemAccountId(tx, creditNote.organizationId, "salesRevenue"), debit: subtotal, credit: 0 },
+      ...baseTaxLines,
+      ledgerLine(await getSystemAccountId(tx, creditNote.organizationId, "customerCredit"), -total, foreign),
+    ],
+  })
+}
+
+/**
+ * Post customer credit set against an invoice, replacing any earlier posting.
+ * The credit is released at the rate it was held at and receivables are settled at the invoice's
+ * rate, with any difference going to realised exchange gains and losses.
+ */
+export async function postCreditApplication(
+  tx: DbTransaction,
+  application: SelectCreditApplications,
+  credit: Pick<SelectCustomerCredits, "currency" | "exchangeRate">,
+  invoice: Pick<SelectInvoices, "invoiceNumber" | "currency" | "exchangeRate">,
+) {
+  await unpostSource(tx, "credit_application", application.id)
+
+  if (credit.currency !== invoice.currency) {
+    throw new LedgerError("Credit can only be applied to invoices in the same currency")
+  }
+
+  const amount = Number.parseFloat(application.amount)
+  const creditBase = toBaseAmount(amount, Number.parseFloat(credit.exchangeRate))
+  const receivable = toBaseAmount(amount, Number.parseFloat(invoice.exchangeRate))
+  const baseCurrency = await getBaseCurrency(tx, application.organizationId)
+  const foreign = invoice.currency === baseCurrency ? null : invoice.currency
+
+  await postJournalEntry(tx, {
+    entryDate: application.applicationDate,
+    description: `Credit applied to invoice ${invoice.invoiceNumber}`,
+    reference: invoice.invoiceNumber,
+    sourceType: "credit_application",
+    sourceId: application.id,
+    organizationId: application.organizationId,
+    userId: application.userId,
+    lines: [
+      ledgerLine(
+        await getSystemAccountId(tx, application.organizationId, "customerCredit"),
+        creditBase,
+        foreign ? { currency: foreign, amount } : null,
+      ),
+      ledgerLine(
+        await getSystemAccountId(tx, application.organizationId, "accountsReceivable"),
+        -receivable,
+        foreign ? { currency: foreign, amount: -amount } : null,
+      ),
+      // Credit held at a higher rate than the invoice settles more receivable than it released
+      ledgerLine(
+        await getSystemAccountId(tx, application.organizationId, "realisedFxGainLoss"),
+        Number((receivable - creditBase).toFixed(2)),
+      ),
+    ],
+  })
+}
+
+/**
+ * Post a vendor bill to the ledger, replacing any earlier posting.
+ * Open bills debit each line's expense account and recoverable tax, and credit payables.
+ */
+export async function postBill(
+  tx: DbTransaction,
+  bill: SelectBills,
+  items: Pick<SelectBillItems, "description" | "total" | "accountId">[],
+) {
+  await unpostSource(tx, "bill", bill.id)
+
+  if (bill.status === "draft") {
+    return
+  }
+
+  const defaultAccountId = await getSystemAccountId(tx, bill.organizationId, "generalExpenses")
+  const taxAmount = Number.parseFloat(bill.taxAmount || "0")
+
+  await postJournalEntry(tx, {
+    entryDate: bill.billDate,
+    description: `Bill ${bill.billNumber}`,
+    reference: bill.billNumber,
+    sourceType: "bill",
+    sourceId: bill.id,
+    organizationId: bill.organizationId,
+    userId: bill.userId,
+    lines: [
+      ...items.map((item) => ({
+        accountId: item.accountId ?? defaultAccountId,
+        debit: Number.parseFloat(item.total),
+        credit: 0,
+        description: item.description,
+      })),
+      { accountId: await getSystemAccountId(tx, bill.organizationId, "salesTaxPayable"), debit: taxAmount, credit: 0 },
+      {
+        accountId: await getSystemAccountId(tx, bill.organizationId, "accountsPayable"),
+        debit: 0,
+        credit: Number.parseFloat(bill.total),
+      },
+    ],
+  })
+}
+
+/**
+ * Post an expense to the ledger, replacing any earlier posting.
+ * Approval recognises the expense in its category account (and any recoverable tax)
+ * against payables; the reimbursement transaction settles the payable when it is posted.
+ */
+export async function postExpense(tx: DbTransaction, expense: SelectExpenses) {
+  await unpostSource(tx, "expense", expense.id)
+
+  if (expense.status !== "approved" && expense.status !== "reimbursed") {
+    return
+  }
+
+  const amount = Number.parseFloat(expense.amount)
+  const taxAmount = Number.parseFloat(expense.taxAmount || "0")
+
+  await postJournalEntry(tx, {
+    entryDate: expense.expenseDate,
+    description: expense.description ? `Expense: ${expense.description}` : "Expense approved",
+    sourceType: "expense",
+    sourceId: expense.id,
+    organizationId: expense.organizationId,
+    userId: expense.userId,
+    lines: [
+      {
+        accountId:
+          expense.categoryAccountId ?? (await getSystemAccountId(tx, expense.organizationId, "generalExpenses")),
+        debit: Number((amount - taxAmount).toFixed(2)),
+        credit: 0,
+      },
+      { accountId: await getSystemAccountId(tx, expense.organizationId, "salesTaxPayable"), debit: taxAmount, credit: 0 },
+      { accountId: await getSystemAccountId(tx, expense.organizationId, "accountsPayable"), debit: 0, credit: amount },
+    ],
+  })
+}
+
+/**
+ * Post an account's opening balance against Opening Balance Equity, replacing any earlier posting
+ */
+export async function postOpeningBalance(
+  tx: DbTransaction,
+  account: Pick<SelectAccounts, "id" | "organizationId" | "name" | "accountClass" | "openingBalance" | "createdAt"> & {
+    currency?: string
+  },
+  userId: string | null,
+  exchangeRate = 1,
+) {
+  await unpostSource(tx, "account", account.id)
+
+  const amount = Number.parseFloat(account.openingBalance)
+  if (amount === 0) {
+    return
+  }
+
+  // Assets and expenses carry debit balances; a negative opening balance flips the sides
+  const debitNormal = account.accountClass === "asset" || account.accountClass === "expense"
+  const debitAccount = debitNormal === amount > 0
+  const equityAccountId = await getSystemAccountId(tx, account.organizationId, "openingBalanceEquity")
+  const value = toBaseAmount(Math.abs(amount), exchangeRate)
+
+  // A foreign currency account's opening balance is entered in its own currency
+  const foreign =
+    account.currency && account.currency !== (await getBaseCurrency(tx, account.organizationId))
+      ? { currency: account.currency, amount: debitAccount ? Math.abs(amount) : -Math.abs(amount) }
+      : null
+  const accountLine = ledgerLine(account.id, debitAccount ? value : -value, foreign)
+  const equityLine = debitAccount
+    ? { accountId: equityAccountId, debit: 0, credit: value }
+    : { accountId: equityAccountId, debit: value, credit: 0 }
+
+  await postJournalEntry(tx, {
+    entryDate: account.createdAt ?? new Date(),
+    description: `Opening balance for ${account.name}`,
+    sourceType: "account",
+    sourceId: account.id,
+    organizationId: account.organizationId,
+    userId,
+    lines: [accountLine, equityLine],
+  })
+}
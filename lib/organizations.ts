@@ -0,0 +1,175 @@
+// Organisations and memberships
+// Every action works inside the organisation selected for the current session
+
+import { db } from "@/db/drizzle"
+import { accounts, contacts, memberships, organizations, session } from "@/db/schema"
+import type { MembershipRole } from "@/db/schema"
+import { and, asc, count, eq, inArray, sql } from "drizzle-orm"
+import { headers } from "next/headers"
+import { auth } from "@/lib/auth"
+import { seedDefaultChartOfAccounts, seedDefaultTaxCodes } from "@/lib/chart-of-accounts"
+import { type DbExecutor, type DbTransaction, LedgerError } from "@/lib/ledger"
+import { type Permission, assertPermission } from "@/lib/permissions"
+
+export interface OrganizationContext {
+  sessionId: string
+  userId: string
+  organizationId: string
+  role: MembershipRole
+}
+
+/**
+ * Create an organisation owned by userId, with the default chart of accounts and tax codes
+ */
+export async function createOrganization(tx: DbTransaction, { name, userId }: { name: string; userId: string }) {
+  const [organization] = await tx.insert(organizations).values({ name }).returning()
+
+  await tx.insert(memberships).values({ organizationId: organization.id, userId, role: "owner" })
+  await seedDefaultChartOfAccounts(tx, organization.id)
+  await seedDefaultTaxCodes(tx, organization.id)
+
+  return organization
+}
+
+/**
+ * Store the organisation a session works in
+ */
+export async function setActiveOrganization(sessionId: string, organizationId: string) {
+  await db
+    .update(session)
+    .set({ activeOrganizationId: organizationId, updatedAt: new Date() })
+    .where(eq(session.id, sessionId))
+}
+
+/**
+ * Resolve the signed-in user and the organisation their session works in.
+ * Falls back to the user's first membership when the session has none (or lost
+ * access to it), and gives users without any membership a personal organisation.
+ * Pass a permission to reject roles that lack it with a PermissionError.
+ */
+export async function getOrganizationContext(permission?: Permission): Promise<OrganizationContext> {
+  const current = await auth.api.getSession({
+    headers: await headers(),
+  })
+  if (!current?.user?.id) {
+    throw new Error("Unauthorized: No user session found")
+  }
+
+  const userId = current.user.id
+  const activeOrganizationId = current.session.activeOrganizationId ?? null
+
+  let userMemberships = await db
+    .select({ organizationId: memberships.organizationId, role: memberships.role })
+    .from(memberships)
+    .where(eq(memberships.userId, userId))
+    .orderBy(asc(memberships.createdAt))
+
+  if (userMemberships.length === 0) {
+    userMemberships = await db.transaction(async (tx) => {
+      // Serialise concurrent first requests so only one personal organisation is created
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${userId}))`)
+
+      const existing = await tx
+        .select({ organizationId: memberships.organizationId, role: memberships.role })
+        .from(memberships)
+        .where(eq(memberships.userId, userId))
+        .orderBy(asc(memberships.createdAt))
+      if (existing.length > 0) {
+        return existing
+      }
+
+      const organization = await createOrganization(tx, {
+        name: `${current.user.name || "My"}'s Organisation`,
+        userId,
+      })
+      return [{ organizationId: organization.id, role: "owner" as const }]
+    })
+  }
+
+  const membership =
+    userMemberships.find((row) => row.organizationId === activeOrganizationId) ?? userMemberships[0]
+
+  if (membership.organizationId !== activeOrganizationId) {
+    await setActiveOrganization(current.session.id, membership.organizationId)
+  }
+
+  if (permission) {
+    assertPermission(membership.role, permission)
+  }
+
+  return {
+    sessionId: current.session.id,
+    userId,
+    organizationId: membership.organizationId,
+    role: membership.role,
+  }
+}
+
+/**
+ * Reject a role change or removal the current member may not make: their own membership, an owner's
+ * unless they are an owner too, or the organisation's last owner
+ */
+export async function assertCanManageMembership(
+  executor: DbExecutor,
+  context: Pick<OrganizationContext, "organizationId" | "userId" | "role">,
+  target: { userId: string; role: MembershipRole },
+  action: "change" | "remove",
+) {
+  if (target.userId === context.userId) {
+    throw new LedgerError(
+      action === "remove" ? "You cannot remove yourself from the organisation" : "You cannot change your own role",
+    )
+  }
+  if (target.role !== "owner") {
+    return
+  }
+  if (context.role !== "owner") {
+    throw new LedgerError(`Only owners can ${action} an owner`)
+  }
+
+  const [owners] = await executor
+    .select({ count: count() })
+    .from(memberships)
+    .where(and(eq(memberships.organizationId, context.organizationId), eq(memberships.role, "owner")))
+  if (owners.count <= 1) {
+    throw new LedgerError("An organisation needs at least one owner")
+  }
+}
+
+/**
+ * Reject contacts from another organisation before they are linked to a document
+ */
+export async function assertContactInOrganization(executor: DbExecutor, organizationId: string, contactId: string) {
+  const [contact] = await executor
+    .select({ id: contacts.id })
+    .from(contacts)
+    .where(and(eq(contacts.id, contactId), eq(contacts.organizationId, organizationId)))
+    .limit(1)
+
+  if (!contact) {
+    throw new LedgerError("Contact not found")
+  }
+}
+
+/**
+ * Reject accounts from another organisation, ignoring ids that were left empty
+ */
+export async function assertAccountsInOrganization(
+  executor: DbExecutor,
+  organizationId: string,
+  accountIds: (string | null | undefined)[],
+) {
+  const ids = [...new Set(accountIds.filter((id): id is string => Boolean(id)))]
+  if (ids.length === 0) {
+    return
+  }
+
+  const owned = await executor
+    .select({ id: accounts.id })
+    .from(accounts)
+    .where(and(inArray(accounts.id, ids), eq(accounts.organizationId, organizationId)))
+
+  if (owned.length !== ids.length) {
+    throw new LedgerError("Account not found")
+  }
+}
@@ -0,0 +1,67 @@
+// Role permissions for Samuel Accounting
+// Roles belong to organisation memberships; every server action checks one of these permissions
+
+import type { MembershipRole } from "@/db/schema"
+
+export type Permission =
+  | "records:create"
+  | "records:approve"
+  | "records:void"
+  | "records:delete"
+  | "accounts:manage"
+  | "recurring:manage"
+  | "reports:view"
+  | "users:manage"
+  | "organization:manage"
+
+export const ROLE_LABELS: Record<MembershipRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  accountant: "Accountant",
+  member: "Member",
+}
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  "records:create": "create or edit records",
+  "records:approve": "approve expenses",
+  "records:void": "void payments",
+  "records:delete": "delete records",
+  "accounts:manage": "manage the chart of accounts",
+  "recurring:manage": "manage recurring schedules",
+  "reports:view": "view reports",
+  "users:manage": "manage users",
+  "organization:manage": "change organisation settings",
+}
+
+const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[]
+
+/**
+ * Who can do what. Members record day-to-day activity; accountants also approve,
+ * void, delete and report; owners and admins additionally manage people and settings.
+ */
+export const ROLE_PERMISSIONS: Record<MembershipRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  accountant: ALL_PERMISSIONS.filter((permission) => permission !== "users:manage" && permission !== "organization:manage"),
+  member: ["records:create"],
+}
+
+/**
+ * Raised when the current role lacks a permission. The message is safe to show to the user.
+ */
+export class PermissionError extends Error {
+  constructor(permission: Permission) {
+    super(`Your role does not allow you to ${PERMISSION_LABELS[permission]}`)
+    this.name = "PermissionError"
+  }
+}
+
+export function hasPermission(role: MembershipRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function assertPermission(role: MembershipRole, permission: Permission) {
+  if (!hasPermission(role, permission)) {
+    throw new PermissionError(permission)
+  }
+}
@@ -0,0 +1,119 @@
+// Quotes for Samuel Accounting
+// A quote prices work for a customer without touching the ledger. Once the customer accepts it,
+// it converts into an invoice carrying the same lines, and the invoice keeps a link back to the quote.
+
+import { invoices, quoteItems, quotes } from "@/db/schema"
+import type { SelectQuotes } from "@/db/schema"
+import { eq } from "drizzle-orm"
+import { type DbExecutor, type DbTransaction, LedgerError } from "@/lib/ledger"
+import { type calculateInvoiceTotals, insertInvoice } from "@/lib/invoices"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Rows for a quote's line items table
+ */
+export function quoteItemRows(quoteId: string, lines: ReturnType<typeof calculateInvoiceTotals>["lines"]) {
+  return lines.map((item) => ({
+    quoteId,
+    description: item.description,
+    quantity: item.quantity.toFixed(2),
+    unitPrice: item.unitPrice.toFixed(2),
+    total: item.total.toFixed(2),
+    taxCodeId: item.taxCodeId,
+    taxRate: item.taxRate.toFixed(2),
+    taxAmount: item.taxAmount.toFixed(2),
+  }))
+}
+
+/**
+ * The invoice a quote was converted into, if any
+ */
+export async function getConvertedInvoice(executor: DbExecutor, quoteId: string) {
+  const [invoice] = await executor
+    .select({ id: invoices.id, invoiceNumber: invoices.invoiceNumber })
+    .from(invoices)
+    .where(eq(invoices.quoteId, quoteId))
+    .limit(1)
+
+  return invoice ?? null
+}
+
+/**
+ * Reject changes to a quote that has already become an invoice
+ */
+export async function assertNotConverted(executor: DbExecutor, quoteId: string) {
+  const invoice = await getConvertedInvoice(executor, quoteId)
+  if (invoice) {
+    throw new LedgerError(`This quote has been converted into ${invoice.invoiceNumber}`)
+  }
+}
+
+/**
+ * Whether a quote's expiry date is before the start of asOf's day
+ */
+export function isPastExpiry(quote: Pick<SelectQuotes, "expiryDate">, asOf = new Date()) {
+  const startOfDay = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+  return quote.expiryDate < startOfDay
+}
+
+/**
+ * Turn a quote into a draft invoice issued on issueDate with the quote's lines, currency, notes and
+ * terms, and mark the quote accepted. Declined and lapsed quotes have to be reopened or extended first.
+ */
+export async function convertQuote(
+  tx: DbTransaction,
+  quote: SelectQuotes,
+  { issueDate, paymentTermsDays, userId }: { issueDate: Date; paymentTermsDays: number; userId: string },
+) {
+  if (quote.status === "declined") {
+    throw new LedgerError("Declined quotes cannot be converted into invoices")
+  }
+  if (quote.status === "expired" || isPastExpiry(quote, issueDate)) {
+    throw new LedgerError("This quote has expired. Extend its expiry date to convert it.")
+  }
+  await assertNotConverted(tx, quote.id)
+
+  const items = await tx
+    .select({
+      description: quoteItems.description,
+      quantity: quoteItems.quantity,
+      unitPrice: quoteItems.unitPrice,
+      taxCodeId: quoteItems.taxCodeId,
+    })
+    .from(quoteItems)
+    .where(eq(quoteItems.quoteId, quote.id))
+
+  if (items.length === 0) {
+    throw new LedgerError("Add at least one line to the quote before converting it")
+  }
+
+  // Lines are re-taxed at today's code rates, like any other invoice saved now
+  const invoice = await insertInvoice(tx, {
+    organizationId: quote.organizationId,
+    userId,
+    customerId: quote.customerId,
+    issueDate,
+    dueDate: new Date(issueDate.getTime() + paymentTermsDays * DAY_MS),
+    status: "draft",
+    taxRate: Number.parseFloat(quote.taxRate || "0"),
+    currency: quote.currency,
+    notes: quote.notes,
+    terms: quote.terms,
+    items: items.map((item) => ({
+      description: item.description,
+      quantity: Number.parseFloat(item.quantity),
+      unitPrice: Number.parseFloat(item.unitPrice),
+      taxCodeId: item.taxCodeId,
+    })),
+    quoteId: quote.id,
+  })
+
+  const [acceptedQuote] = await tx
+    .update(quotes)
+    .set({ status: "accepted", updatedAt: new Date() })
+    .where(eq(quotes.id, quote.id))
+    .returning()
+
+  return { quote: acceptedQuote, invoice }
+}
@@ -0,0 +1,145 @@
+// Bank reconciliation
+// Completed transactions are ticked off against a statement; once the reconciliation is completed they are locked
+
+import { accounts, reconciliationItems, reconciliations, transactions } from "@/db/schema"
+import type { AccountType, SelectTransactions } from "@/db/schema"
+import { and, desc, eq, inArray, lte, ne, or } from "drizzle-orm"
+import { toBaseAmount } from "@/lib/currency"
+import { type DbExecutor, LedgerError } from "@/lib/ledger"
+
+export const RECONCILABLE_ACCOUNT_TYPES: AccountType[] = ["bank", "mobile"]
+
+/**
+ * Effect of a transaction on an account's balance in the account's currency: money in is positive,
+ * money out negative. A foreign-currency payment into a base-currency account counts at its rate.
+ */
+export function signedAmount(
+  transaction: Pick<SelectTransactions, "amount" | "currency" | "exchangeRate" | "toAccountId">,
+  account: { id: string; currency: string },
+) {
+  const amount =
+    transaction.currency === account.currency
+      ? Number.parseFloat(transaction.amount)
+      : toBaseAmount(Number.parseFloat(transaction.amount), Number.parseFloat(transaction.exchangeRate))
+  return transaction.toAccountId === account.id ? amount : -amount
+}
+
+/**
+ * Refuse changes to transactions that belong to a completed reconciliation
+ */
+export async function assertTransactionsNotReconciled(executor: DbExecutor, transactionIds: string[]) {
+  if (transactionIds.length === 0) {
+    return
+  }
+
+  const [reconciled] = await executor
+    .select({ id: reconciliationItems.id })
+    .from(reconciliationItems)
+    .innerJoin(reconciliations, eq(reconciliationItems.reconciliationId, reconciliations.id))
+    .where(and(inArray(reconciliationItems.transactionId, transactionIds), eq(reconciliations.status, "completed")))
+    .limit(1)
+
+  if (reconciled) {
+    throw new LedgerError("This transaction has been reconciled and can no longer be changed")
+  }
+}
+
+/**
+ * The balance a reconciliation starts from: the closing balance of the account's previous completed
+ * reconciliation, or its opening balance for the first one
+ */
+export async function getReconciliationOpeningBalance(
+  executor: DbExecutor,
+  reconciliation: { id: string; accountId: string; statementDate: Date },
+) {
+  const [previous] = await executor
+    .select({ statementBalance: reconciliations.statementBalance })
+    .from(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.accountId, reconciliation.accountId),
+        eq(reconciliations.status, "completed"),
+        ne(reconciliations.id, reconciliation.id),
+        lte(reconciliations.statementDate, reconciliation.statementDate),
+      ),
+    )
+    .orderBy(desc(reconciliations.statementDate))
+    .limit(1)
+
+  if (previous) {
+    return Number.parseFloat(previous.statementBalance)
+  }
+
+  const [account] = await executor
+    .select({ openingBalance: accounts.openingBalance })
+    .from(accounts)
+    .where(eq(accounts.id, reconciliation.accountId))
+    .limit(1)
+  return Number.parseFloat(account?.openingBalance ?? "0")
+}
+
+/**
+ * Completed transactions on the account up to the statement date that no other reconciliation
+ * of the account has cleared, with whether this reconciliation has ticked them
+ */
+export async function getReconciliationCandidates(
+  executor: DbExecutor,
+  reconciliation: { id: string; organizationId: string; accountId: string; statementDate: Date },
+) {
+  const [account] = await executor
+    .select({ id: accounts.id, currency: accounts.currency })
+    .from(accounts)
+    .where(eq(accounts.id, reconciliation.accountId))
+    .limit(1)
+  if (!account) {
+    throw new LedgerError("Account not found")
+  }
+
+  const rows = await executor
+    .select({
+      id: transactions.id,
+      description: transactions.description,
+      reference: transactions.reference,
+      amount: transactions.amount,
+      currency: transactions.currency,
+      exchangeRate: transactions.exchangeRate,
+      type: transactions.type,
+      transactionDate: transactions.transactionDate,
+      toAccountId: transactions.toAccountId,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.organizationId, reconciliation.organizationId),
+        eq(transactions.status, "completed"),
+        or(eq(transactions.fromAccountId, reconciliation.accountId), eq(transactions.toAccountId, reconciliation.accountId)),
+        lte(transactions.transactionDate, reconciliation.statementDate),
+      ),
+    )
+    .orderBy(transactions.transactionDate)
+
+  const items = await executor
+    .select({ transactionId: reconciliationItems.transactionId, reconciliationId: reconciliationItems.reconciliationId })
+    .from(reconciliationItems)
+    .innerJoin(reconciliations, eq(reconciliationItems.reconciliationId, reconciliations.id))
+    .where(eq(reconciliations.accountId, reconciliation.accountId))
+
+  const clearedHere = new Set(
+    items.filter((item) => item.reconciliationId === reconciliation.id).map((item) => item.transactionId),
+  )
+  const clearedElsewhere = new Set(
+    items.filter((item) => item.reconciliationId !== reconciliation.id).map((item) => item.transactionId),
+  )
+
+  return rows
+    .filter((row) => !clearedElsewhere.has(row.id))
+    .map((row) => ({
+      id: row.id,
+      description: row.description,
+      reference: row.reference,
+      type: row.type,
+      transactionDate: row.transactionDate,
+      amount: signedAmount(row, account),
+      cleared: clearedHere.has(row.id),
+    }))
+}
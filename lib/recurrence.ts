@@ -0,0 +1,240 @@
+// Recurrence schedule maths for recurring transactions and invoices
+// Occurrences are always counted from the start date so month-end dates don't drift
+
+import { z } from "zod"
+import type { RecurringFrequency } from "@/db/schema"
+
+export interface RecurrenceRule {
+  frequency: RecurringFrequency
+  interval?: number | null
+  dayOfMonth?: number | null
+  weekOfMonth?: number | null
+  dayOfWeek?: number | null
+  startDate: Date
+  endDate?: Date | null
+  maxOccurrences?: number | null
+}
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+const recurrenceSchema = z
+  .object({
+    frequency: z.enum(["daily", "weekly", "monthly", "quarterly", "yearly"]),
+    interval: z.coerce.number().int().min(1, "Interval must be at least 1").max(365).default(1),
+    monthlyRule: z.enum(["start_date", "day_of_month", "nth_weekday"]).default("start_date"),
+    dayOfMonth: z.coerce.number().int().min(1).max(31).optional(),
+    weekOfMonth: z.coerce
+      .number()
+      .int()
+      .refine((value) => [1, 2, 3, 4, -1].includes(value), "Week of month must be 1-4 or last")
+      .optional(),
+    dayOfWeek: z.coerce.number().int().min(0).max(6).optional(),
+    maxOccurrences: z.coerce.number().int().min(1, "Occurrences must be at least 1").optional(),
+    startDate: z.string(),
+    endDate: z.string().optional(),
+  })
+  .refine((data) => data.monthlyRule !== "day_of_month" || data.dayOfMonth !== undefined, {
+    message: "Choose a day of the month",
+    path: ["dayOfMonth"],
+  })
+  .refine(
+    (data) => data.monthlyRule !== "nth_weekday" || (data.weekOfMonth !== undefined && data.dayOfWeek !== undefined),
+    { message: "Choose a week and weekday", path: ["weekOfMonth"] },
+  )
+
+const MONTHS_PER_PERIOD: Partial<Record<RecurringFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(year, month + 1, 0).getDate()
+}
+
+// Day of the month for the nth weekday; week -1 means the last one in the month
+function nthWeekdayOfMonth(year: number, month: number, week: number, weekday: number) {
+  if (week === -1) {
+    const last = daysInMonth(year, month)
+    const lastWeekday = new Date(year, month, last).getDay()
+    return last - ((lastWeekday - weekday + 7) % 7)
+  }
+  const firstWeekday = new Date(year, month, 1).getDay()
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7
+}
+
+export function usesNthWeekday(rule: RecurrenceRule) {
+  return rule.weekOfMonth != null && rule.dayOfWeek != null
+}
+
+/**
+ * Date of the nth period (0 is the start date's period).
+ * Month-based schedules land on the rule's day of month, clamped to the last day of shorter
+ * months, or on the nth weekday. The result can fall before the start date in period 0.
+ */
+function periodDate(rule: RecurrenceRule, index: number): Date {
+  const start = rule.startDate
+  const step = index * Math.max(rule.interval ?? 1, 1)
+  const date = new Date(start)
+
+  const months = MONTHS_PER_PERIOD[rule.frequency]
+  if (months === undefined) {
+    const days = rule.frequency === "weekly" ? step * 7 : step
+    date.setDate(start.getDate() + days)
+    return date
+  }
+
+  const target = new Date(start.getFullYear(), start.getMonth() + step * months, 1)
+  const year = target.getFullYear()
+  const month = target.getMonth()
+  const day = usesNthWeekday(rule)
+    ? nthWeekdayOfMonth(year, month, rule.weekOfMonth!, rule.dayOfWeek!)
+    : Math.min(rule.dayOfMonth ?? start.getDate(), daysInMonth(year, month))
+
+  date.setFullYear(year, month, day)
+  return date
+}
+
+/**
+ * Every occurrence of the schedule in order, honouring the start date, end date and
+ * maximum occurrence count. Unbounded schedules never finish, so callers must stop early.
+ */
+function* occurrences(rule: RecurrenceRule): Generator<Date> {
+  let count = 0
+
+  for (let index = 0; ; index++) {
+    if (rule.maxOccurrences && count >= rule.maxOccurrences) {
+      return
+    }
+
+    const date = periodDate(rule, index)
+    if (date < rule.startDate) {
+      continue
+    }
+    if (rule.endDate && date > rule.endDate) {
+      return
+    }
+
+    count++
+    yield date
+  }
+}
+
+/**
+ * First occurrence strictly after the given date, or null once the schedule has ended
+ */
+export function nextOccurrenceAfter(rule: RecurrenceRule, after: Date | null): Date | null {
+  for (const date of occurrences(rule)) {
+    if (!after || date > after) {
+      return date
+    }
+  }
+  return null
+}
+
+/**
+ * Occurrences from `from` up to and including `to`, oldest first, at most `limit` of them
+ */
+export function occurrencesBetween(rule: RecurrenceRule, from: Date, to: Date, limit = 366): Date[] {
+  const dates: Date[] = []
+
+  for (const date of occurrences(rule)) {
+    if (date > to || dates.length >= limit) {
+      break
+    }
+    if (date >= from) {
+      dates.push(date)
+    }
+  }
+
+  return dates
+}
+
+/**
+ * The next `count` occurrences on or after `from`, used to preview a schedule
+ */
+export function upcomingOccurrences(rule: RecurrenceRule, from: Date, count = 5): Date[] {
+  const dates: Date[] = []
+
+  for (const date of occurrences(rule)) {
+    if (dates.length >= count) {
+      break
+    }
+    if (date >= from) {
+      dates.push(date)
+    }
+  }
+
+  return dates
+}
+
+function ordinal(value: number) {
+  if (value === -1) return "last"
+  const suffix = value % 10 === 1 && value !== 11 ? "st" : value % 10 === 2 && value !== 12 ? "nd" : value % 10 === 3 && value !== 13 ? "rd" : "th"
+  return `${value}${suffix}`
+}
+
+/**
+ * Human readable summary such as "Every 2 weeks" or "Monthly on the last Friday"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(rule.interval ?? 1, 1)
+  const units: Record<RecurringFrequency, [string, string]> = {
+    daily: ["Daily", "days"],
+    weekly: ["Weekly", "weeks"],
+    monthly: ["Monthly", "months"],
+    quarterly: ["Quarterly", "quarters"],
+    yearly: ["Yearly", "years"],
+  }
+  const [single, plural] = units[rule.frequency]
+  let description = interval === 1 ? single : `Every ${interval} ${plural}`
+
+  if (MONTHS_PER_PERIOD[rule.frequency] !== undefined) {
+    if (usesNthWeekday(rule)) {
+      description += ` on the ${ordinal(rule.weekOfMonth!)} ${WEEKDAY_LABELS[rule.dayOfWeek!]}`
+    } else if (rule.dayOfMonth) {
+      description += rule.dayOfMonth >= 31 ? " on the last day" : ` on the ${ordinal(rule.dayOfMonth)}`
+    }
+  }
+
+  if (rule.maxOccurrences) {
+    description += `, ${rule.maxOccurrences} times`
+  }
+  return description
+}
+
+// Empty form fields and "none" selections mean the value was not set
+export function optionalFormField(formData: FormData, key: string) {
+  const value = formData.get(key) as string | null
+  return value && value !== "none" ? value : undefined
+}
+
+/**
+ * Read and validate the schedule fields shared by every recurring form
+ */
+export function readRecurrenceRule(formData: FormData): RecurrenceRule & { interval: number } {
+  const data = recurrenceSchema.parse({
+    frequency: formData.get("frequency") as string,
+    interval: optionalFormField(formData, "interval"),
+    monthlyRule: optionalFormField(formData, "monthlyRule"),
+    dayOfMonth: optionalFormField(formData, "dayOfMonth"),
+    weekOfMonth: optionalFormField(formData, "weekOfMonth"),
+    dayOfWeek: optionalFormField(formData, "dayOfWeek"),
+    maxOccurrences: optionalFormField(formData, "maxOccurrences"),
+    startDate: formData.get("startDate") as string,
+    endDate: optionalFormField(formData, "endDate"),
+  })
+
+  // Day-of-month and weekday rules only apply to month-based schedules
+  const monthBased = MONTHS_PER_PERIOD[data.frequency] !== undefined
+  return {
+    frequency: data.frequency,
+    interval: data.interval,
+    dayOfMonth: monthBased && data.monthlyRule === "day_of_month" ? data.dayOfMonth : null,
+    weekOfMonth: monthBased && data.monthlyRule === "nth_weekday" ? data.weekOfMonth : null,
+    dayOfWeek: monthBased && data.monthlyRule === "nth_weekday" ? data.dayOfWeek : null,
+    startDate: new Date(data.startDate),
+    endDate: data.endDate ? new Date(data.endDate) : null,
+    maxOccurrences: data.maxOccurrences ?? null,
+  }
+}
@@ -0,0 +1,168 @@
+// File storage for attachments
+// Local filesystem by default; set ATTACHMENT_STORAGE=s3 to use any S3-compatible service
+
+import { createHash, createHmac } from "node:crypto"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+export interface StorageBackend {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>
+  /** Returns null when the object does not exist */
+  get(key: string): Promise<Uint8Array | null>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Stores objects as files under a root directory (ATTACHMENT_DIR, default .data/attachments)
+ */
+export class LocalStorage implements StorageBackend {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key)
+    // Keys are generated server-side, but never let one escape the root
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async put(key: string, data: Uint8Array) {
+    const filePath = this.resolve(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, data)
+  }
+
+  async get(key: string) {
+    try {
+      return new Uint8Array(await readFile(this.resolve(key)))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true })
+  }
+}
+
+export interface S3StorageConfig {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+const sha256 = (data: string | Uint8Array) => createHash("sha256").update(data).digest("hex")
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest()
+
+/**
+ * Stores objects in an S3-compatible bucket using path-style URLs and SigV4 signed requests,
+ * so it works with AWS S3, Cloudflare R2, MinIO and similar services without an SDK
+ */
+export class S3Storage implements StorageBackend {
+  constructor(private readonly config: S3StorageConfig) {}
+
+  private async request(method: "PUT" | "GET" | "DELETE", key: string, body?: Uint8Array, contentType?: string) {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config
+    const url = new URL(
+      `${endpoint.replace(/\/$/, "")}/${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`,
+    )
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256(body ?? "")
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    }
+    if (contentType) {
+      headers["content-type"] = contentType
+    }
+
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(""),
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n")
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n")
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"), "aws4_request")
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+
+    const { host: _host, ...requestHeaders } = headers
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body: body ? Buffer.from(body) : undefined,
+    })
+  }
+
+  async put(key: string, data: Uint8Array, contentType: string) {
+    const response = await this.request("PUT", key, data, contentType)
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`)
+    }
+  }
+
+  async get(key: string) {
+    const response = await this.request("GET", key)
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download failed with status ${response.status}`)
+    }
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  async delete(key: string) {
+    const response = await this.request("DELETE", key)
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`)
+    }
+  }
+}
+
+let storage: StorageBackend | undefined
+
+/**
+ * The storage backend selected by the environment, created on first use
+ */
+export function getStorage(): StorageBackend {
+  if (storage) {
+    return storage
+  }
+
+  if (process.env.ATTACHMENT_STORAGE === "s3") {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error("S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY")
+    }
+    storage = new S3Storage({
+      endpoint: S3_ENDPOINT,
+      region: S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    })
+  } else {
+    storage = new LocalStorage(process.env.ATTACHMENT_DIR || path.join(process.cwd(), ".data", "attachments"))
+  }
+
+  return storage
+}
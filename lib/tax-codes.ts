@@ -0,0 +1,44 @@
+// Tax codes for Samuel Accounting
+// Named rates chosen per invoice line. Withholding is deducted by the customer rather than charged,
+// so it reduces what the invoice asks them to pay.
+
+import type { SelectTaxCodes, TaxCodeKind } from "@/db/schema"
+
+export type TaxCodeRate = Pick<SelectTaxCodes, "id" | "rate" | "kind">
+
+export interface TaxCodeTemplate {
+  name: string
+  rate: number
+  kind: TaxCodeKind
+}
+
+// Zambian VAT and withholding on services, the codes most organisations start with
+export const DEFAULT_TAX_CODES: TaxCodeTemplate[] = [
+  { name: "VAT 16%", rate: 16, kind: "standard" },
+  { name: "Zero-rated", rate: 0, kind: "zero_rated" },
+  { name: "Exempt", rate: 0, kind: "exempt" },
+  { name: "Withholding Tax 15%", rate: 15, kind: "withholding" },
+]
+
+export const TAX_CODE_KIND_LABELS: Record<TaxCodeKind, string> = {
+  standard: "Standard",
+  zero_rated: "Zero-rated",
+  exempt: "Exempt",
+  withholding: "Withholding",
+}
+
+/**
+ * The rate a code charges. Zero-rated and exempt supplies carry no tax whatever rate was stored.
+ */
+export function effectiveTaxRate(code: Pick<SelectTaxCodes, "rate" | "kind">) {
+  return code.kind === "zero_rated" || code.kind === "exempt" ? 0 : Number.parseFloat(code.rate)
+}
+
+/**
+ * Tax on one line, negative for withholding. Lines without a code are taxed at the invoice rate.
+ */
+export function calculateLineTax(lineTotal: number, fallbackRate: number, code?: TaxCodeRate | null) {
+  const rate = code ? effectiveTaxRate(code) : fallbackRate
+  const amount = Number(((lineTotal * rate) / 100).toFixed(2))
+  return { rate, amount: code?.kind === "withholding" ? -amount : amount }
+}
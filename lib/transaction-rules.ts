@@ -0,0 +1,127 @@
+// Auto-categorisation rules
+// Matched against a transaction's description, amount and account to fill in contact, category, type and notes
+
+import { transactionRules } from "@/db/schema"
+import type { SelectTransactionRules, SelectTransactions } from "@/db/schema"
+import { and, asc, eq } from "drizzle-orm"
+import type { DbExecutor } from "@/lib/ledger"
+
+export type RuleTarget = Pick<
+  SelectTransactions,
+  "type" | "amount" | "description" | "fromAccountId" | "toAccountId" | "contactId" | "categoryId" | "notes"
+>
+
+export async function getActiveRules(executor: DbExecutor, organizationId: string) {
+  return executor
+    .select()
+    .from(transactionRules)
+    .where(and(eq(transactionRules.organizationId, organizationId), eq(transactionRules.isActive, true)))
+    .orderBy(asc(transactionRules.priority), asc(transactionRules.createdAt))
+}
+
+/**
+ * Whether a description pattern compiles; rules are only saved with valid patterns
+ */
+export function isValidRulePattern(pattern: string) {
+  try {
+    new RegExp(pattern, "i")
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The account money moved through and whether it came in, from the rule's account's point of view
+function moneyFlow(rule: SelectTransactionRules, target: RuleTarget) {
+  if (target.type === "income") {
+    return { accountId: target.toAccountId, incoming: true }
+  }
+  if (target.type === "expense") {
+    return { accountId: target.fromAccountId, incoming: false }
+  }
+  if (rule.accountId && rule.accountId === target.toAccountId) {
+    return { accountId: target.toAccountId, incoming: true }
+  }
+  return { accountId: target.fromAccountId, incoming: rule.accountId ? false : null }
+}
+
+export function ruleMatches(rule: SelectTransactionRules, target: RuleTarget) {
+  if (rule.descriptionPattern) {
+    const description = target.description.toLowerCase()
+    const matched =
+      rule.matchType === "regex"
+        ? isValidRulePattern(rule.descriptionPattern) && new RegExp(rule.descriptionPattern, "i").test(target.description)
+        : description.includes(rule.descriptionPattern.toLowerCase())
+    if (!matched) {
+      return false
+    }
+  }
+
+  const amount = Number.parseFloat(target.amount)
+  if (rule.minAmount !== null && amount < Number.parseFloat(rule.minAmount)) {
+    return false
+  }
+  if (rule.maxAmount !== null && amount > Number.parseFloat(rule.maxAmount)) {
+    return false
+  }
+
+  if (rule.accountId && rule.accountId !== target.fromAccountId && rule.accountId !== target.toAccountId) {
+    return false
+  }
+
+  // Income and expense rules only fit money moving in that direction
+  const { incoming } = moneyFlow(rule, target)
+  if (rule.type === "income" && incoming !== true) {
+    return false
+  }
+  if (rule.type === "expense" && incoming !== false) {
+    return false
+  }
+  if (rule.type === "transfer" && incoming === null) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * The changes a rule makes to a transaction. Only empty fields are filled in, so details entered by hand
+ * are kept; a transfer rule turns an income or expense into a transfer to or from its transfer account.
+ */
+export function applyRule(rule: SelectTransactionRules, target: RuleTarget) {
+  const changes: Partial<RuleTarget> = {}
+
+  if (rule.type === "transfer" && target.type !== "transfer" && rule.transferAccountId) {
+    const { accountId, incoming } = moneyFlow(rule, target)
+    if (accountId && accountId !== rule.transferAccountId) {
+      changes.type = "transfer"
+      changes.fromAccountId = incoming ? rule.transferAccountId : accountId
+      changes.toAccountId = incoming ? accountId : rule.transferAccountId
+      // Transfers are never categorised
+      changes.categoryId = null
+    }
+  }
+
+  if (rule.contactId && !target.contactId) {
+    changes.contactId = rule.contactId
+  }
+  if (rule.categoryId && !target.categoryId && (changes.type ?? target.type) !== "transfer") {
+    changes.categoryId = rule.categoryId
+  }
+  if (rule.notes && !target.notes) {
+    changes.notes = rule.notes
+  }
+
+  return changes
+}
+
+/**
+ * Apply the first matching rule, returning the changes and the rule used, or null when none match
+ */
+export function applyTransactionRules(rules: SelectTransactionRules[], target: RuleTarget) {
+  const rule = rules.find((candidate) => ruleMatches(candidate, target))
+  if (!rule) {
+    return null
+  }
+  return { rule, changes: applyRule(rule, target) }
+}
@@ -0,0 +1,34 @@
+CREATE TYPE "public"."account_class" AS ENUM('asset', 'liability', 'equity', 'revenue', 'expense');--> statement-breakpoint
+CREATE TYPE "public"."journal_source" AS ENUM('transaction', 'invoice', 'expense');--> statement-breakpoint
+CREATE TABLE "journal_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_date" timestamp NOT NULL,
+	"description" text NOT NULL,
+	"reference" varchar(100),
+	"source_type" "journal_source" NOT NULL,
+	"source_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "journal_lines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"journal_entry_id" uuid NOT NULL,
+	"account_id" uuid NOT NULL,
+	"debit" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"credit" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "accounts" ALTER COLUMN "type" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "account_class" "account_class" DEFAULT 'asset' NOT NULL;--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "system_key" varchar(50);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "invoice_id" uuid;--> statement-breakpoint
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_journal_entry_id_journal_entries_id_fk" FOREIGN KEY ("journal_entry_id") REFERENCES "public"."journal_entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "journal_lines" ADD CONSTRAINT "journal_lines_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "journal_entries_source_idx" ON "journal_entries" USING btree ("source_type","source_id");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_system_key_unique" UNIQUE("system_key");--> statement-breakpoint
+UPDATE "accounts" SET "account_class" = 'liability' WHERE "type" = 'credit';
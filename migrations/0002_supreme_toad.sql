@@ -0,0 +1,7 @@
+ALTER TYPE "public"."journal_source" ADD VALUE 'account';--> statement-breakpoint
+ALTER TABLE "journal_entries" DROP CONSTRAINT "journal_entries_user_id_user_id_fk";
+--> statement-breakpoint
+ALTER TABLE "journal_entries" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "opening_balance" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "accounts" SET "opening_balance" = "balance";
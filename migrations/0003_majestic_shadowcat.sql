@@ -0,0 +1,4 @@
+ALTER TABLE "accounts" ADD COLUMN "code" varchar(20);--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_parent_id_accounts_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_code_unique" UNIQUE("code");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TYPE "public"."payment_method" AS ENUM('cash', 'bank_transfer', 'mobile_money', 'card', 'cheque', 'other');--> statement-breakpoint
+ALTER TYPE "public"."invoice_status" ADD VALUE 'partially_paid' BEFORE 'paid';--> statement-breakpoint
+CREATE TABLE "invoice_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"payment_date" timestamp NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"method" "payment_method" NOT NULL,
+	"account_id" uuid NOT NULL,
+	"reference" varchar(100),
+	"notes" text,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoice_payments_invoice_idx" ON "invoice_payments" USING btree ("invoice_id");--> statement-breakpoint
+INSERT INTO "invoice_payments" ("invoice_id", "transaction_id", "payment_date", "amount", "method", "account_id", "reference", "user_id")
+SELECT t."invoice_id", t."id", t."transaction_date", t."amount",
+	(CASE a."type" WHEN 'cash' THEN 'cash' WHEN 'bank' THEN 'bank_transfer' WHEN 'mobile' THEN 'mobile_money' WHEN 'credit' THEN 'card' ELSE 'other' END)::"payment_method",
+	t."to_account_id", t."reference", t."user_id"
+FROM "transactions" t
+INNER JOIN "accounts" a ON a."id" = t."to_account_id"
+WHERE t."invoice_id" IS NOT NULL AND t."type" = 'income';--> statement-breakpoint
+UPDATE "invoices" SET "paid_amount" = p."paid"
+FROM (SELECT "invoice_id", SUM("amount") AS "paid" FROM "invoice_payments" GROUP BY "invoice_id") p
+WHERE p."invoice_id" = "invoices"."id";
@@ -0,0 +1,56 @@
+CREATE TYPE "public"."bill_status" AS ENUM('draft', 'open', 'partially_paid', 'paid');--> statement-breakpoint
+ALTER TYPE "public"."journal_source" ADD VALUE 'bill';--> statement-breakpoint
+CREATE TABLE "bill_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bill_id" uuid NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_price" numeric(15, 2) NOT NULL,
+	"total" numeric(15, 2) NOT NULL,
+	"account_id" uuid,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "bill_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bill_id" uuid NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"payment_date" timestamp NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"method" "payment_method" NOT NULL,
+	"account_id" uuid NOT NULL,
+	"reference" varchar(100),
+	"notes" text,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "bills" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bill_number" varchar(50) NOT NULL,
+	"vendor_id" uuid NOT NULL,
+	"bill_date" timestamp NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"status" "bill_status" DEFAULT 'draft' NOT NULL,
+	"subtotal" numeric(15, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '0.00',
+	"tax_amount" numeric(15, 2) DEFAULT '0.00',
+	"total" numeric(15, 2) NOT NULL,
+	"paid_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"user_id" text NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "bill_id" uuid;--> statement-breakpoint
+ALTER TABLE "bill_items" ADD CONSTRAINT "bill_items_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "public"."bills"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bill_items" ADD CONSTRAINT "bill_items_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bill_payments" ADD CONSTRAINT "bill_payments_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "public"."bills"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bill_payments" ADD CONSTRAINT "bill_payments_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bill_payments" ADD CONSTRAINT "bill_payments_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bill_payments" ADD CONSTRAINT "bill_payments_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bills" ADD CONSTRAINT "bills_vendor_id_contacts_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bills" ADD CONSTRAINT "bills_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bill_payments_bill_idx" ON "bill_payments" USING btree ("bill_id");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_bill_id_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "public"."bills"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
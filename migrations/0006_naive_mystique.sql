@@ -0,0 +1,12 @@
+CREATE TABLE "recurring_occurrences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recurring_transaction_id" uuid NOT NULL,
+	"occurrence_date" timestamp NOT NULL,
+	"transaction_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "recurring_occurrences_schedule_date_unique" UNIQUE("recurring_transaction_id","occurrence_date")
+);
+--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "last_run_at" timestamp;--> statement-breakpoint
+ALTER TABLE "recurring_occurrences" ADD CONSTRAINT "recurring_occurrences_recurring_transaction_id_recurring_transactions_id_fk" FOREIGN KEY ("recurring_transaction_id") REFERENCES "public"."recurring_transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_occurrences" ADD CONSTRAINT "recurring_occurrences_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
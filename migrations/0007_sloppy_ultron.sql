@@ -0,0 +1,6 @@
+ALTER TYPE "public"."recurring_frequency" ADD VALUE 'quarterly' BEFORE 'yearly';--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "interval" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "day_of_month" integer;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "week_of_month" integer;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "day_of_week" integer;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "max_occurrences" integer;
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "recurring_invoice_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recurring_invoice_id" uuid NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_price" numeric(15, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "recurring_invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '0.00',
+	"notes" text,
+	"terms" text,
+	"payment_terms_days" integer DEFAULT 30 NOT NULL,
+	"auto_send" boolean DEFAULT false NOT NULL,
+	"user_id" text NOT NULL,
+	"frequency" "recurring_frequency" NOT NULL,
+	"interval" integer DEFAULT 1 NOT NULL,
+	"day_of_month" integer,
+	"week_of_month" integer,
+	"day_of_week" integer,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"max_occurrences" integer,
+	"next_date" timestamp NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"last_run_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "recurring_invoice_id" uuid;--> statement-breakpoint
+ALTER TABLE "recurring_invoice_items" ADD CONSTRAINT "recurring_invoice_items_recurring_invoice_id_recurring_invoices_id_fk" FOREIGN KEY ("recurring_invoice_id") REFERENCES "public"."recurring_invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_customer_id_contacts_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_recurring_invoice_id_recurring_invoices_id_fk" FOREIGN KEY ("recurring_invoice_id") REFERENCES "public"."recurring_invoices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_recurring_issue_date_unique" UNIQUE("recurring_invoice_id","issue_date");
\ No newline at end of file
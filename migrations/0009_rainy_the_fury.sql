@@ -0,0 +1,77 @@
+CREATE TYPE "public"."membership_role" AS ENUM('owner', 'admin', 'member');--> statement-breakpoint
+CREATE TABLE "memberships" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"role" "membership_role" DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "memberships_organization_user_unique" UNIQUE("organization_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "accounts" DROP CONSTRAINT "accounts_code_unique";--> statement-breakpoint
+ALTER TABLE "accounts" DROP CONSTRAINT "accounts_system_key_unique";--> statement-breakpoint
+ALTER TABLE "invoices" DROP CONSTRAINT "invoices_invoice_number_unique";--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "bills" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "journal_entries" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "recurring_invoices" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "session" ADD COLUMN "active_organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+-- Existing data was shared by every user, so it all moves into one organisation.
+-- The earliest user owns it and everyone else joins as an admin.
+DO $$
+DECLARE
+  default_org uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM "user") OR EXISTS (SELECT 1 FROM "accounts") THEN
+    INSERT INTO "organizations" ("name") VALUES ('My Organisation') RETURNING "id" INTO default_org;
+    INSERT INTO "memberships" ("organization_id", "user_id", "role")
+      SELECT default_org, "id",
+        CASE WHEN row_number() OVER (ORDER BY "created_at", "id") = 1 THEN 'owner'::"membership_role" ELSE 'admin'::"membership_role" END
+      FROM "user";
+    UPDATE "accounts" SET "organization_id" = default_org;
+    UPDATE "bills" SET "organization_id" = default_org;
+    UPDATE "contacts" SET "organization_id" = default_org;
+    UPDATE "expenses" SET "organization_id" = default_org;
+    UPDATE "invoices" SET "organization_id" = default_org;
+    UPDATE "journal_entries" SET "organization_id" = default_org;
+    UPDATE "recurring_invoices" SET "organization_id" = default_org;
+    UPDATE "recurring_transactions" SET "organization_id" = default_org;
+    UPDATE "transactions" SET "organization_id" = default_org;
+  END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "accounts" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "bills" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "contacts" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "journal_entries" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "recurring_invoices" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bills" ADD CONSTRAINT "bills_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session" ADD CONSTRAINT "session_active_organization_id_organizations_id_fk" FOREIGN KEY ("active_organization_id") REFERENCES "public"."organizations"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_organization_code_unique" UNIQUE("organization_id","code");--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_organization_system_key_unique" UNIQUE("organization_id","system_key");--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_organization_number_unique" UNIQUE("organization_id","invoice_number");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."membership_role" ADD VALUE 'accountant' BEFORE 'member';
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "expense_approvers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"max_amount" numeric(15, 2),
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "expense_approvers_organization_user_unique" UNIQUE("organization_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "expense_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"expense_id" uuid NOT NULL,
+	"from_status" "expense_status",
+	"to_status" "expense_status" NOT NULL,
+	"user_id" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "submitted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "reviewed_by_id" text;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "approved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "reimbursed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "expense_approvers" ADD CONSTRAINT "expense_approvers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_approvers" ADD CONSTRAINT "expense_approvers_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_events" ADD CONSTRAINT "expense_events_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expense_events" ADD CONSTRAINT "expense_events_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "expense_events_expense_idx" ON "expense_events" USING btree ("expense_id");--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_reviewed_by_id_user_id_fk" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "expenses" ADD COLUMN "expense_date" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+-- Existing expenses were dated by when they were recorded
+UPDATE "expenses" SET "expense_date" = "created_at";--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "category_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "payment_method" "payment_method";--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "receipt_url" varchar(255);--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "attachments" text;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_category_account_id_accounts_id_fk" FOREIGN KEY ("category_account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
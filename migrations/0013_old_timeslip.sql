@@ -0,0 +1,19 @@
+CREATE TYPE "public"."attachment_source" AS ENUM('transaction', 'expense');--> statement-breakpoint
+CREATE TABLE "attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"source_type" "attachment_source" NOT NULL,
+	"source_id" uuid NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"content_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"storage_key" varchar(255) NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attachments_storage_key_unique" UNIQUE("storage_key")
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "attachments_source_idx" ON "attachments" USING btree ("source_type","source_id");--> statement-breakpoint
+ALTER TABLE "expenses" DROP COLUMN "attachments";
\ No newline at end of file
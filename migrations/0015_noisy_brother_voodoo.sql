@@ -0,0 +1,21 @@
+CREATE TABLE "bank_import_mappings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"account_id" uuid NOT NULL,
+	"delimiter" varchar(1) DEFAULT ',' NOT NULL,
+	"has_header" boolean DEFAULT true NOT NULL,
+	"date_column" integer NOT NULL,
+	"date_format" varchar(20) NOT NULL,
+	"description_column" integer NOT NULL,
+	"reference_column" integer,
+	"amount_column" integer,
+	"debit_column" integer,
+	"credit_column" integer,
+	"decimal_separator" varchar(1) DEFAULT '.' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "bank_import_mappings_account_id_unique" UNIQUE("account_id")
+);
+--> statement-breakpoint
+ALTER TABLE "bank_import_mappings" ADD CONSTRAINT "bank_import_mappings_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_import_mappings" ADD CONSTRAINT "bank_import_mappings_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
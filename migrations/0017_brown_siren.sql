@@ -0,0 +1,27 @@
+CREATE TYPE "public"."rule_match_type" AS ENUM('contains', 'regex');--> statement-breakpoint
+CREATE TABLE "transaction_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"priority" integer DEFAULT 100 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"description_pattern" varchar(255),
+	"match_type" "rule_match_type" DEFAULT 'contains' NOT NULL,
+	"min_amount" numeric(15, 2),
+	"max_amount" numeric(15, 2),
+	"account_id" uuid,
+	"type" "transaction_type",
+	"transfer_account_id" uuid,
+	"contact_id" uuid,
+	"category_id" uuid,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "transaction_rules" ADD CONSTRAINT "transaction_rules_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transaction_rules" ADD CONSTRAINT "transaction_rules_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transaction_rules" ADD CONSTRAINT "transaction_rules_transfer_account_id_accounts_id_fk" FOREIGN KEY ("transfer_account_id") REFERENCES "public"."accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transaction_rules" ADD CONSTRAINT "transaction_rules_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transaction_rules" ADD CONSTRAINT "transaction_rules_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transaction_rules_organization_idx" ON "transaction_rules" USING btree ("organization_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+ALTER TYPE "public"."journal_source" ADD VALUE 'revaluation';--> statement-breakpoint
+CREATE TABLE "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"rate_date" timestamp NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "exchange_rates_organization_currency_date_unique" UNIQUE("organization_id","currency","rate_date")
+);
+--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "currency" varchar(3) DEFAULT 'ZMW' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "currency" varchar(3) DEFAULT 'ZMW' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "currency" varchar(3) DEFAULT 'ZMW' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "exchange_rate" numeric(18, 8) DEFAULT '1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "journal_lines" ADD COLUMN "currency" varchar(3);--> statement-breakpoint
+ALTER TABLE "journal_lines" ADD COLUMN "currency_amount" numeric(15, 2);--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "base_currency" varchar(3) DEFAULT 'ZMW' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "currency" varchar(3) DEFAULT 'ZMW' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "exchange_rate" numeric(18, 8) DEFAULT '1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TYPE "public"."tax_code_kind" AS ENUM('standard', 'zero_rated', 'exempt', 'withholding');--> statement-breakpoint
+CREATE TABLE "tax_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"rate" numeric(5, 2) DEFAULT '0.00' NOT NULL,
+	"kind" "tax_code_kind" DEFAULT 'standard' NOT NULL,
+	"account_id" uuid,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "tax_codes_organization_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_items" ADD COLUMN "tax_code_id" uuid;--> statement-breakpoint
+ALTER TABLE "invoice_items" ADD COLUMN "tax_rate" numeric(5, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoice_items" ADD COLUMN "tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tax_codes" ADD CONSTRAINT "tax_codes_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tax_codes" ADD CONSTRAINT "tax_codes_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_items" ADD CONSTRAINT "invoice_items_tax_code_id_tax_codes_id_fk" FOREIGN KEY ("tax_code_id") REFERENCES "public"."tax_codes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Existing organisations start with the default tax codes; their invoices keep the document level rate
+INSERT INTO "tax_codes" ("organization_id", "name", "rate", "kind")
+SELECT "organizations"."id", "defaults"."name", "defaults"."rate", "defaults"."kind"::"tax_code_kind"
+FROM "organizations"
+CROSS JOIN (
+  VALUES
+    ('VAT 16%', 16.00, 'standard'),
+    ('Zero-rated', 0.00, 'zero_rated'),
+    ('Exempt', 0.00, 'exempt'),
+    ('Withholding Tax 15%', 15.00, 'withholding')
+) AS "defaults" ("name", "rate", "kind");
@@ -0,0 +1,14 @@
+CREATE TABLE "customer_credits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "customer_credits_transaction_unique" UNIQUE("transaction_id")
+);
+--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD CONSTRAINT "customer_credits_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD CONSTRAINT "customer_credits_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD CONSTRAINT "customer_credits_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "customer_credits_contact_idx" ON "customer_credits" USING btree ("contact_id");
\ No newline at end of file
@@ -0,0 +1,92 @@
+CREATE TYPE "public"."credit_note_status" AS ENUM('draft', 'issued', 'void');--> statement-breakpoint
+ALTER TYPE "public"."journal_source" ADD VALUE 'credit_note';--> statement-breakpoint
+ALTER TYPE "public"."journal_source" ADD VALUE 'credit_application';--> statement-breakpoint
+CREATE TABLE "credit_applications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"customer_credit_id" uuid NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"application_date" timestamp NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "credit_note_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"credit_note_id" uuid NOT NULL,
+	"invoice_item_id" text,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_price" numeric(15, 2) NOT NULL,
+	"total" numeric(15, 2) NOT NULL,
+	"tax_code_id" uuid,
+	"tax_rate" numeric(5, 2) DEFAULT '0.00' NOT NULL,
+	"tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "credit_notes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"credit_note_number" varchar(50) NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"issue_date" timestamp NOT NULL,
+	"status" "credit_note_status" DEFAULT 'draft' NOT NULL,
+	"subtotal" numeric(15, 2) NOT NULL,
+	"tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"total" numeric(15, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'ZMW' NOT NULL,
+	"exchange_rate" numeric(18, 8) DEFAULT '1' NOT NULL,
+	"reason" text,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "credit_notes_organization_number_unique" UNIQUE("organization_id","credit_note_number")
+);
+--> statement-breakpoint
+CREATE TABLE "credit_refunds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"customer_credit_id" uuid NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"refund_date" timestamp NOT NULL,
+	"amount" numeric(15, 2) NOT NULL,
+	"method" "payment_method" NOT NULL,
+	"account_id" uuid NOT NULL,
+	"reference" varchar(100),
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "credit_refunds_transaction_unique" UNIQUE("transaction_id")
+);
+--> statement-breakpoint
+ALTER TABLE "customer_credits" ALTER COLUMN "transaction_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD COLUMN "credit_note_id" uuid;--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD COLUMN "currency" varchar(3) DEFAULT 'ZMW' NOT NULL;--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD COLUMN "exchange_rate" numeric(18, 8) DEFAULT '1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "credit_applications" ADD CONSTRAINT "credit_applications_customer_credit_id_customer_credits_id_fk" FOREIGN KEY ("customer_credit_id") REFERENCES "public"."customer_credits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_applications" ADD CONSTRAINT "credit_applications_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_applications" ADD CONSTRAINT "credit_applications_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_applications" ADD CONSTRAINT "credit_applications_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_credit_note_id_credit_notes_id_fk" FOREIGN KEY ("credit_note_id") REFERENCES "public"."credit_notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_invoice_item_id_invoice_items_id_fk" FOREIGN KEY ("invoice_item_id") REFERENCES "public"."invoice_items"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_note_items" ADD CONSTRAINT "credit_note_items_tax_code_id_tax_codes_id_fk" FOREIGN KEY ("tax_code_id") REFERENCES "public"."tax_codes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_customer_id_contacts_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_refunds" ADD CONSTRAINT "credit_refunds_customer_credit_id_customer_credits_id_fk" FOREIGN KEY ("customer_credit_id") REFERENCES "public"."customer_credits"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_refunds" ADD CONSTRAINT "credit_refunds_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_refunds" ADD CONSTRAINT "credit_refunds_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credit_refunds" ADD CONSTRAINT "credit_refunds_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_applications_credit_idx" ON "credit_applications" USING btree ("customer_credit_id");--> statement-breakpoint
+CREATE INDEX "credit_applications_invoice_idx" ON "credit_applications" USING btree ("invoice_id");--> statement-breakpoint
+CREATE INDEX "credit_notes_invoice_idx" ON "credit_notes" USING btree ("invoice_id");--> statement-breakpoint
+CREATE INDEX "credit_refunds_credit_idx" ON "credit_refunds" USING btree ("customer_credit_id");--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD CONSTRAINT "customer_credits_credit_note_id_credit_notes_id_fk" FOREIGN KEY ("credit_note_id") REFERENCES "public"."credit_notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customer_credits" ADD CONSTRAINT "customer_credits_credit_note_unique" UNIQUE("credit_note_id");--> statement-breakpoint
+-- Overpayment credit is held in the currency and at the rate of the payment it arrived with
+UPDATE "customer_credits"
+SET "currency" = "transactions"."currency", "exchange_rate" = "transactions"."exchange_rate"
+FROM "transactions"
+WHERE "customer_credits"."transaction_id" = "transactions"."id";
@@ -0,0 +1,43 @@
+CREATE TYPE "public"."quote_status" AS ENUM('draft', 'sent', 'accepted', 'declined', 'expired');--> statement-breakpoint
+CREATE TABLE "quote_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"quote_id" uuid NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) NOT NULL,
+	"unit_price" numeric(15, 2) NOT NULL,
+	"total" numeric(15, 2) NOT NULL,
+	"tax_code_id" uuid,
+	"tax_rate" numeric(5, 2) DEFAULT '0.00' NOT NULL,
+	"tax_amount" numeric(15, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "quotes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"quote_number" varchar(50) NOT NULL,
+	"customer_id" uuid NOT NULL,
+	"issue_date" timestamp NOT NULL,
+	"expiry_date" timestamp NOT NULL,
+	"status" "quote_status" DEFAULT 'draft' NOT NULL,
+	"subtotal" numeric(15, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '0.00',
+	"tax_amount" numeric(15, 2) DEFAULT '0.00',
+	"total" numeric(15, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'ZMW' NOT NULL,
+	"notes" text,
+	"terms" text,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "quotes_organization_number_unique" UNIQUE("organization_id","quote_number")
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "quote_id" uuid;--> statement-breakpoint
+ALTER TABLE "quote_items" ADD CONSTRAINT "quote_items_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_items" ADD CONSTRAINT "quote_items_tax_code_id_tax_codes_id_fk" FOREIGN KEY ("tax_code_id") REFERENCES "public"."tax_codes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_customer_id_contacts_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_quote_unique" UNIQUE("quote_id");
\ No newline at end of file
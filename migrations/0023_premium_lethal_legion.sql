@@ -0,0 +1,32 @@
+CREATE TYPE "public"."document_type" AS ENUM('invoice', 'credit_note', 'quote');--> statement-breakpoint
+CREATE TABLE "document_sequences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"document_type" "document_type" NOT NULL,
+	"prefix" varchar(20) NOT NULL,
+	"padding" integer DEFAULT 4 NOT NULL,
+	"reset_yearly" boolean DEFAULT false NOT NULL,
+	"next_number" integer DEFAULT 1 NOT NULL,
+	"sequence_year" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "document_sequences_organization_type_unique" UNIQUE("organization_id","document_type")
+);
+--> statement-breakpoint
+ALTER TABLE "document_sequences" ADD CONSTRAINT "document_sequences_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Existing documents were numbered from a count; continue each organisation after its highest number
+INSERT INTO "document_sequences" ("organization_id", "document_type", "prefix", "padding", "next_number")
+SELECT "organization_id", 'invoice', 'INV-', 4, max(substring("invoice_number" from '^INV-([0-9]+)$')::integer) + 1
+FROM "invoices"
+WHERE "invoice_number" ~ '^INV-[0-9]+$'
+GROUP BY "organization_id";--> statement-breakpoint
+INSERT INTO "document_sequences" ("organization_id", "document_type", "prefix", "padding", "next_number")
+SELECT "organization_id", 'credit_note', 'CN-', 4, max(substring("credit_note_number" from '^CN-([0-9]+)$')::integer) + 1
+FROM "credit_notes"
+WHERE "credit_note_number" ~ '^CN-[0-9]+$'
+GROUP BY "organization_id";--> statement-breakpoint
+INSERT INTO "document_sequences" ("organization_id", "document_type", "prefix", "padding", "next_number")
+SELECT "organization_id", 'quote', 'QUO-', 4, max(substring("quote_number" from '^QUO-([0-9]+)$')::integer) + 1
+FROM "quotes"
+WHERE "quote_number" ~ '^QUO-[0-9]+$'
+GROUP BY "organization_id";
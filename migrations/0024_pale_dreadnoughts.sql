@@ -0,0 +1,11 @@
+ALTER TABLE "transactions" ADD COLUMN "expense_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Reimbursements used to be posted as part of the expense; record each as the transaction that paid it
+INSERT INTO "transactions" ("type", "status", "amount", "currency", "exchange_rate", "description", "transaction_date", "from_account_id", "expense_id", "organization_id", "user_id")
+SELECT 'expense', 'completed', e."amount", o."base_currency", '1', coalesce('Expense reimbursed: ' || e."description", 'Expense reimbursed'), coalesce(e."reimbursed_at", e."updated_at"), e."account_id", e."id", e."organization_id", coalesce(e."reviewed_by_id", e."user_id")
+FROM "expenses" e
+INNER JOIN "organizations" o ON o."id" = e."organization_id"
+WHERE e."status" = 'reimbursed';--> statement-breakpoint
+UPDATE "journal_entries" SET "source_type" = 'transaction', "source_id" = t."id", "description" = t."description"
+FROM "transactions" t
+WHERE t."expense_id" = "journal_entries"."source_id" AND "journal_entries"."source_type" = 'expense' AND "journal_entries"."description" = 'Expense reimbursed';
@@ -0,0 +1,2 @@
+ALTER TABLE "recurring_invoice_items" ADD COLUMN "tax_code_id" uuid;--> statement-breakpoint
+ALTER TABLE "recurring_invoice_items" ADD CONSTRAINT "recurring_invoice_items_tax_code_id_tax_codes_id_fk" FOREIGN KEY ("tax_code_id") REFERENCES "public"."tax_codes"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
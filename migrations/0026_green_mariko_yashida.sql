@@ -0,0 +1,2 @@
+ALTER TABLE "recurring_transactions" ADD COLUMN "category_id" uuid;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
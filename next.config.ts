@@ -1,7 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  reactCompiler: true
+  reactCompiler: true,
+  experimental: {
+    // Attachments are uploaded through server actions and may be up to 10 MB
+    serverActions: {
+      bodySizeLimit: "11mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,22 @@
+// Usage: pnpm jobs:expire-quotes
+
+import { expireQuotes } from "@/lib/jobs/expire-quotes"
+
+async function main() {
+  const { quotes } = await expireQuotes()
+
+  if (quotes.length === 0) {
+    console.log("No sent quotes are past their expiry date")
+    return
+  }
+
+  console.table(quotes)
+  console.log(`Marked ${quotes.length} quote(s) as expired`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
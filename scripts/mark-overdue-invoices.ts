@@ -0,0 +1,22 @@
+// Usage: pnpm jobs:mark-overdue-invoices
+
+import { markOverdueInvoices } from "@/lib/jobs/mark-overdue-invoices"
+
+async function main() {
+  const { invoices } = await markOverdueInvoices()
+
+  if (invoices.length === 0) {
+    console.log("No sent invoices are past due")
+    return
+  }
+
+  console.table(invoices)
+  console.log(`Marked ${invoices.length} invoice(s) as overdue`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,27 @@
+// Usage: pnpm jobs:reconcile-balances [--repair]
+
+import { reconcileBalances } from "@/lib/jobs/reconcile-balances"
+
+async function main() {
+  const repair = process.argv.includes("--repair")
+  const { discrepancies } = await reconcileBalances({ repair })
+
+  if (discrepancies.length === 0) {
+    console.log("All account balances match the ledger")
+    return
+  }
+
+  console.table(discrepancies)
+  console.log(
+    repair
+      ? `Repaired ${discrepancies.length} account balance(s)`
+      : `${discrepancies.length} account balance(s) disagree with the ledger; rerun with --repair to fix`,
+  )
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
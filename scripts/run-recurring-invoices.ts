@@ -0,0 +1,30 @@
+// Usage: pnpm jobs:run-recurring-invoices
+
+import { runRecurringInvoices } from "@/lib/jobs/run-recurring-invoices"
+
+async function main() {
+  const { generated, failures } = await runRecurringInvoices()
+
+  if (generated.length === 0 && failures.length === 0) {
+    console.log("No recurring invoices are due")
+    return
+  }
+
+  if (generated.length > 0) {
+    console.table(generated)
+    console.log(`Generated ${generated.length} invoice(s)`)
+  }
+
+  if (failures.length > 0) {
+    console.table(failures)
+    console.log(`${failures.length} template(s) failed and will be retried on the next run`)
+    process.exitCode = 1
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,30 @@
+// Usage: pnpm jobs:run-recurring-transactions
+
+import { runRecurringTransactions } from "@/lib/jobs/run-recurring-transactions"
+
+async function main() {
+  const { generated, failures } = await runRecurringTransactions()
+
+  if (generated.length === 0 && failures.length === 0) {
+    console.log("No recurring transactions are due")
+    return
+  }
+
+  if (generated.length > 0) {
+    console.table(generated)
+    console.log(`Generated ${generated.length} transaction(s)`)
+  }
+
+  if (failures.length > 0) {
+    console.table(failures)
+    console.log(`${failures.length} schedule(s) failed and will be retried on the next run`)
+    process.exitCode = 1
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })